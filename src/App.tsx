@@ -5,6 +5,7 @@ import { supabase } from "@/lib/supabase";
 import { IPAccessGuard } from "@/components/IPAccessGuard";
 import Index from "@/pages/Index";
 import Tasks from "@/pages/Tasks";
+import TaskBoard from "@/pages/TaskBoard";
 import Login from "@/pages/Login";
 import SuccessConfirmation from "@/pages/SuccessConfirmation";
 import Notifications from "@/pages/Notifications";
@@ -60,6 +61,14 @@ function App() {
                 </IPAccessGuard>
               }
             />
+            <Route
+              path="/tasks/board"
+              element={
+                <IPAccessGuard>
+                  <TaskBoard />
+                </IPAccessGuard>
+              }
+            />
             <Route
               path="/notifications"
               element={
@@ -0,0 +1,52 @@
+import ReactMarkdown from "react-markdown";
+import { cn } from "@/lib/utils";
+
+interface MarkdownContentProps {
+  content: string;
+  className?: string;
+  // Lowercased email -> display name; matching @email tokens render as chips
+  mentions?: Record<string, string>;
+}
+
+const MENTION_PATTERN = /@([a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,})/g;
+const MENTION_HREF_PREFIX = "#mention-";
+
+// Rewrites known mentions as links with a reserved fragment so the link
+// renderer below can tell them apart from links written by the user
+const linkMentions = (content: string, mentions: Record<string, string>) =>
+  content.replace(MENTION_PATTERN, (token, email: string) => {
+    const name = mentions[email.toLowerCase()];
+    if (name === undefined) return token;
+    return `[@${name.replace(/[[\]\\]/g, "\\$&")}](${MENTION_HREF_PREFIX}${encodeURIComponent(email.toLowerCase())})`;
+  });
+
+// Renders user-supplied markdown. Raw HTML is dropped and link targets go
+// through react-markdown's URL filter, so the output is safe to display.
+export const MarkdownContent = ({ content, className, mentions }: MarkdownContentProps) => {
+  return (
+    <div className={cn("prose prose-sm dark:prose-invert max-w-none break-words", className)}>
+      <ReactMarkdown
+        skipHtml
+        components={{
+          a: ({ node, href, ...props }) => {
+            if (href?.startsWith(MENTION_HREF_PREFIX)) {
+              const email = decodeURIComponent(href.slice(MENTION_HREF_PREFIX.length));
+              return (
+                <a
+                  href={`mailto:${email}`}
+                  title={email}
+                  className="inline-flex items-center rounded-full bg-primary/10 px-1.5 font-medium text-primary no-underline hover:bg-primary/20"
+                >
+                  {props.children}
+                </a>
+              );
+            }
+            return <a {...props} href={href} target="_blank" rel="noopener noreferrer" />;
+          },
+        }}
+      >
+        {mentions ? linkMentions(content, mentions) : content}
+      </ReactMarkdown>
+    </div>
+  );
+};
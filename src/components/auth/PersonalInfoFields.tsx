@@ -6,9 +6,10 @@ import { SignupFormValues } from "@/types/auth";
 interface PersonalInfoFieldsProps {
   form: UseFormReturn<SignupFormValues>;
   loading: boolean;
+  emailLocked?: boolean;
 }
 
-export const PersonalInfoFields = ({ form, loading }: PersonalInfoFieldsProps) => {
+export const PersonalInfoFields = ({ form, loading, emailLocked = false }: PersonalInfoFieldsProps) => {
   return (
     <>
       <FormField
@@ -46,7 +47,7 @@ export const PersonalInfoFields = ({ form, loading }: PersonalInfoFieldsProps) =
           <FormItem>
             <FormLabel>Email</FormLabel>
             <FormControl>
-              <Input {...field} type="email" disabled={loading} />
+              <Input {...field} type="email" disabled={loading} readOnly={emailLocked} />
             </FormControl>
             <FormMessage />
           </FormItem>
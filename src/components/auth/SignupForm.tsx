@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useNavigate } from "react-router-dom";
 import { useForm } from "react-hook-form";
 import { useToast } from "@/hooks/use-toast";
@@ -9,15 +9,26 @@ import { Alert, AlertDescription } from "@/components/ui/alert";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { signupSchema, type SignupFormValues } from "@/types/auth";
 import { handleAuthError } from "@/utils/auth";
+import { getFunctionErrorMessage } from "@/utils/functions";
 import { PersonalInfoFields } from "./PersonalInfoFields";
 import { ContactInfoFields } from "./ContactInfoFields";
 import { AdditionalInfoFields } from "./AdditionalInfoFields";
 import { supabase } from "@/lib/supabase";
 import { AlertCircle } from "lucide-react";
 
-export const SignupForm = () => {
+interface SignupFormProps {
+  inviteToken: string;
+}
+
+interface InvitationDetails {
+  email: string;
+  role: string;
+}
+
+export const SignupForm = ({ inviteToken }: SignupFormProps) => {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [invitation, setInvitation] = useState<InvitationDetails | null>(null);
   const navigate = useNavigate();
   const { toast } = useToast();
   const form = useForm<SignupFormValues>({
@@ -30,71 +41,59 @@ export const SignupForm = () => {
       contact_number: "",
       address: "",
       gender: "other",
-      security_code: "",
+      invite_token: inviteToken,
       position: "",
       full_name: "",
     },
   });
 
-  const onSubmit = async (data: SignupFormValues) => {
-    try {
+  // Resolve the invitation up front so the email is fixed to the invited address
+  useEffect(() => {
+    const validateInvitation = async () => {
       setLoading(true);
-      setError(null);
-      
-      // Check security code
-      if (data.security_code !== "hrd712") {
-        toast({
-          title: "Invalid Security Code",
-          description: "Please enter the correct security code to create an account.",
-          variant: "destructive",
-        });
-        setLoading(false);
-        return;
-      }
-
-      // Check if email exists using Edge Function
-      const { data: checkEmailResponse, error: checkEmailError } = await supabase.functions.invoke('check-email', {
-        body: { email: data.email },
+      const { data, error: validationError } = await supabase.functions.invoke<InvitationDetails>('accept-invitation', {
+        body: { action: 'validate', token: inviteToken },
         method: 'POST',
       });
 
-      if (checkEmailError) {
-        throw new Error('Failed to check email availability');
+      if (validationError || !data?.email) {
+        setError(await getFunctionErrorMessage(
+          validationError,
+          "This invitation link is invalid, expired or has already been used."
+        ));
+      } else {
+        setInvitation({ email: data.email, role: data.role });
+        form.setValue("email", data.email);
       }
+      setLoading(false);
+    };
 
-      if (checkEmailResponse?.exists) {
-        toast({
-          title: "Email Already Registered",
-          description: "This email address is already registered. Please use a different email or try logging in.",
-          variant: "destructive",
-        });
-        form.setError("email", {
-          type: "manual",
-          message: "This email is already registered"
-        });
-        setLoading(false);
-        return;
-      }
+    validateInvitation();
+  }, [inviteToken, form]);
+
+  const onSubmit = async (data: SignupFormValues) => {
+    try {
+      setLoading(true);
+      setError(null);
 
-      // If we get here, the email is unique, proceed with signup
-      const { error: signUpError } = await supabase.auth.signUp({
-        email: data.email,
-        password: data.password,
-        options: {
-          data: {
-            username: data.username,
-            contact_number: data.contact_number,
-            position: data.position,
-            full_name: data.full_name,
-          },
+      const { error: acceptError } = await supabase.functions.invoke('accept-invitation', {
+        body: {
+          action: 'accept',
+          token: data.invite_token,
+          password: data.password,
+          username: data.username,
+          contact_number: data.contact_number,
+          position: data.position,
+          full_name: data.full_name,
         },
+        method: 'POST',
       });
 
-      if (signUpError) {
-        throw signUpError;
+      if (acceptError) {
+        throw new Error(await getFunctionErrorMessage(acceptError, 'Failed to create account from invitation'));
       }
 
-      // If we get here, the signup was successful
+      // The invitation confirms the email, so the account is ready to sign in
       navigate("/success-confirmation");
       
     } catch (error: any) {
@@ -115,7 +114,9 @@ export const SignupForm = () => {
       <div className="text-center mb-8">
         <h2 className="text-3xl font-bold text-gray-900 dark:text-white">Create an Account</h2>
         <p className="mt-2 text-sm text-gray-600 dark:text-gray-400">
-          Fill in your details to get started
+          {invitation
+            ? `You've been invited to join as ${invitation.role}. Fill in your details to get started`
+            : "Fill in your details to get started"}
         </p>
       </div>
 
@@ -132,7 +133,7 @@ export const SignupForm = () => {
             <div className="space-y-6">
               <div className="space-y-4">
                 <h3 className="text-lg font-medium">Personal Information</h3>
-                <PersonalInfoFields form={form} loading={loading} />
+                <PersonalInfoFields form={form} loading={loading} emailLocked />
               </div>
               
               <div className="space-y-4">
@@ -149,7 +150,7 @@ export const SignupForm = () => {
             <Button 
               type="submit" 
               className="w-full bg-primary hover:bg-primary/90 text-white" 
-              disabled={loading}
+              disabled={loading || !invitation}
             >
               {loading ? "Creating account..." : "Create Account"}
             </Button>
@@ -0,0 +1,49 @@
+import { Task } from "@/types/task";
+import { Calendar, User } from "lucide-react";
+import { format } from "date-fns";
+
+interface BoardCardProps {
+  task: Task;
+  assigneeName: string;
+}
+
+export const BoardCard = ({ task, assigneeName }: BoardCardProps) => {
+  const handleDragStart = (e: React.DragEvent<HTMLDivElement>) => {
+    e.dataTransfer.setData("text/plain", task.id);
+    e.dataTransfer.effectAllowed = "move";
+  };
+
+  const formatDeadline = (deadline: string) => {
+    try {
+      return format(new Date(deadline), 'MMM d, yyyy');
+    } catch (error) {
+      return deadline;
+    }
+  };
+
+  return (
+    <div
+      draggable
+      onDragStart={handleDragStart}
+      className={`p-3 rounded-md bg-white dark:bg-gray-800 shadow-sm border-l-4 cursor-grab active:cursor-grabbing hover:shadow-md transition-shadow ${
+        task.priority === 'high'
+          ? 'border-l-red-500'
+          : task.priority === 'medium'
+            ? 'border-l-yellow-500'
+            : 'border-l-green-500'
+      }`}
+    >
+      <h4 className="font-medium text-sm text-gray-900 dark:text-gray-100 line-clamp-2">{task.title}</h4>
+      <div className="mt-2 space-y-1">
+        <p className="text-xs text-gray-500 dark:text-gray-400 flex items-center gap-1">
+          <User className="w-3 h-3 flex-shrink-0" />
+          <span className="truncate">{assigneeName}</span>
+        </p>
+        <p className="text-xs text-gray-500 dark:text-gray-400 flex items-center gap-1">
+          <Calendar className="w-3 h-3 flex-shrink-0" />
+          <span className="truncate">Due: {formatDeadline(task.deadline)}</span>
+        </p>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,75 @@
+import { useState } from "react";
+import { Task } from "@/types/task";
+import { WorkflowState } from "@/types/workflow";
+import { STATE_DOT_CLASSES } from "@/utils/workflow";
+import { BoardCard } from "./BoardCard";
+
+interface BoardColumnHeaderProps {
+  state: WorkflowState;
+  count: number;
+  wipLimit: number | null;
+}
+
+export const BoardColumnHeader = ({ state, count, wipLimit }: BoardColumnHeaderProps) => {
+  const isOverLimit = wipLimit !== null && count > wipLimit;
+  const isAtLimit = wipLimit !== null && count >= wipLimit;
+
+  return (
+    <div className="flex items-center justify-between px-3 py-2 rounded-lg bg-white dark:bg-gray-800 shadow-sm">
+      <h3 className="font-semibold text-sm flex items-center gap-2">
+        <span className={`h-2 w-2 rounded-full ${STATE_DOT_CLASSES[state.color]}`} />
+        {state.label}
+      </h3>
+      <span
+        className={`text-xs px-2 py-0.5 rounded-full ${
+          isOverLimit
+            ? "bg-red-100 text-red-800"
+            : isAtLimit
+              ? "bg-yellow-100 text-yellow-800"
+              : "bg-gray-200 text-gray-700 dark:bg-gray-700 dark:text-gray-200"
+        }`}
+        title={wipLimit !== null ? "Tasks in column / WIP limit" : "Tasks in column"}
+      >
+        {count}{wipLimit !== null && ` / ${wipLimit}`}
+      </span>
+    </div>
+  );
+};
+
+interface BoardColumnProps {
+  status: Task["status"];
+  tasks: Task[];
+  getAssigneeName: (email: string) => string;
+  onDropTask: (taskId: string, status: Task["status"]) => void;
+}
+
+export const BoardColumn = ({ status, tasks, getAssigneeName, onDropTask }: BoardColumnProps) => {
+  const [isDragOver, setIsDragOver] = useState(false);
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDragOver(false);
+    const taskId = e.dataTransfer.getData("text/plain");
+    if (taskId) {
+      onDropTask(taskId, status);
+    }
+  };
+
+  return (
+    <div
+      onDragOver={(e) => {
+        e.preventDefault();
+        setIsDragOver(true);
+      }}
+      onDragLeave={() => setIsDragOver(false)}
+      onDrop={handleDrop}
+      className={`space-y-2 rounded-lg p-2 min-h-[100px] transition-colors ${
+        isDragOver ? "bg-primary/10 ring-2 ring-primary/40" : "bg-gray-50 dark:bg-gray-900"
+      }`}
+    >
+      {tasks.map((task) => (
+        <BoardCard key={task.id} task={task} assigneeName={getAssigneeName(task.assigned_to)} />
+      ))}
+    </div>
+  );
+};
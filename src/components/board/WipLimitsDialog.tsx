@@ -0,0 +1,87 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { WorkflowState } from "@/types/workflow";
+
+interface WipLimitsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  states: WorkflowState[];
+  limits: Partial<Record<string, number | null>>;
+  onSave: (limits: Record<string, number | null>) => Promise<void>;
+}
+
+export const WipLimitsDialog = ({ open, onOpenChange, states, limits, onSave }: WipLimitsDialogProps) => {
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setValues(Object.fromEntries(
+        states.map((state) => [state.key, limits[state.key]?.toString() ?? ""])
+      ));
+    }
+  }, [open, states, limits]);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const parsed = Object.fromEntries(
+        states.map((state) => {
+          const value = parseInt(values[state.key], 10);
+          return [state.key, Number.isFinite(value) && value > 0 ? value : null];
+        })
+      ) as Record<string, number | null>;
+      await onSave(parsed);
+      onOpenChange(false);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[400px]">
+        <DialogHeader>
+          <DialogTitle>Work-in-Progress Limits</DialogTitle>
+          <DialogDescription>
+            Cap how many tasks can sit in each column. Leave blank for no limit.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-4 py-4">
+          {states.map((state) => (
+            <div key={state.key} className="flex items-center justify-between gap-4">
+              <label htmlFor={`wip-${state.key}`} className="text-sm font-medium">
+                {state.label}
+              </label>
+              <Input
+                id={`wip-${state.key}`}
+                type="number"
+                min={1}
+                className="w-24"
+                value={values[state.key] ?? ""}
+                onChange={(e) => setValues((prev) => ({ ...prev, [state.key]: e.target.value }))}
+              />
+            </div>
+          ))}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving ? "Saving..." : "Save Limits"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -1,15 +1,21 @@
 import { Task } from "@/types/task";
 import { format } from "date-fns";
+import { Repeat } from "lucide-react";
+import { useWorkflows } from "@/hooks/use-workflows";
+import { STATE_BADGE_CLASSES, formatStatusKey } from "@/utils/workflow";
 
 interface Event {
   id: string;
   title: string;
   date: Date;
-  type: 'task';
+  // Occurrences are upcoming instances of a recurring task that are not saved yet
+  type: 'task' | 'occurrence';
   priority: Task['priority'];
   status: Task['status'];
+  workflow_id?: string | null;
   created_by: string;
   assigned_to: string;
+  recurring?: boolean;
 }
 
 interface EventListProps {
@@ -18,6 +24,8 @@ interface EventListProps {
 }
 
 export const EventList = ({ selectedDate, events }: EventListProps) => {
+  const { getState } = useWorkflows();
+
   return (
     <div className="p-6">
       <div className="flex items-center justify-between mb-6">
@@ -44,21 +52,24 @@ export const EventList = ({ selectedDate, events }: EventListProps) => {
             >
               <div className="flex items-center justify-between">
                 <h3 className="font-medium text-gray-900">{event.title}</h3>
-                <span className="text-xs px-2 py-1 rounded-full bg-white shadow-sm border">
-                  Task
+                <span className="text-xs px-2 py-1 rounded-full bg-white shadow-sm border flex items-center gap-1">
+                  {event.recurring && <Repeat className="w-3 h-3" />}
+                  {event.type === 'occurrence' ? 'Upcoming' : 'Task'}
                 </span>
               </div>
               <p className="text-sm text-gray-600 mt-2">
                 Due {format(event.date, 'h:mm a')}
               </p>
               <div className="mt-3 space-y-2">
-                <span className={`text-xs px-2 py-1 rounded-full ${
-                  event.status === 'completed' ? 'bg-green-100 text-green-800' :
-                  event.status === 'in-progress' ? 'bg-yellow-100 text-yellow-800' :
-                  'bg-red-100 text-red-800'
-                }`}>
-                  {event.status}
-                </span>
+                {event.type === 'occurrence' ? (
+                  <span className="text-xs px-2 py-1 rounded-full bg-white text-gray-600 border border-dashed">
+                    Scheduled
+                  </span>
+                ) : (
+                  <span className={`text-xs px-2 py-1 rounded-full ${STATE_BADGE_CLASSES[getState(event)?.color ?? 'gray']}`}>
+                    {getState(event)?.label ?? formatStatusKey(event.status)}
+                  </span>
+                )}
                 <p className="text-sm text-gray-600">
                   <span className="font-medium">Created by:</span> {event.created_by}
                 </p>
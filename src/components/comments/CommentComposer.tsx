@@ -0,0 +1,248 @@
+import { useState, useEffect, useRef } from "react";
+import { supabase } from "@/lib/supabase";
+import { Paperclip, Send, User, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Avatar } from "@/components/ui/avatar";
+import { useDebounce } from "@/hooks/use-debounce";
+import { validateFile } from "@/utils/documentSecurity";
+
+interface Profile {
+  id: string;
+  full_name: string;
+  email: string;
+  avatar_url: string | null;
+}
+
+interface CommentComposerProps {
+  onSubmit: (content: string, files: File[]) => Promise<boolean>;
+  initialValue?: string;
+  placeholder?: string;
+  submitLabel?: string;
+  // When set, the composer is inline (reply or edit) and shows Cancel/Save buttons
+  onCancel?: () => void;
+  autoFocus?: boolean;
+  allowAttachments?: boolean;
+}
+
+export const CommentComposer = ({
+  onSubmit,
+  initialValue = "",
+  placeholder = "Write a comment... Use @ to mention someone",
+  submitLabel = "Save",
+  onCancel,
+  autoFocus = false,
+  allowAttachments = false,
+}: CommentComposerProps) => {
+  const [content, setContent] = useState(initialValue);
+  const [files, setFiles] = useState<File[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [mentionSearch, setMentionSearch] = useState("");
+  const [showMentionSuggestions, setShowMentionSuggestions] = useState(false);
+  const [mentionSuggestions, setMentionSuggestions] = useState<Profile[]>([]);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const mentionsRef = useRef<HTMLDivElement>(null);
+  const debouncedMentionSearch = useDebounce(mentionSearch, 300);
+
+  const fetchMentionSuggestions = async (search: string) => {
+    if (!search) {
+      setMentionSuggestions([]);
+      return;
+    }
+
+    const { data, error } = await supabase
+      .from("profiles")
+      .select("id, full_name, email, avatar_url")
+      .ilike("full_name", `${search}%`)
+      .order("full_name");
+
+    if (error) {
+      console.error("Error fetching mention suggestions:", error);
+      return;
+    }
+
+    setMentionSuggestions(data);
+  };
+
+  useEffect(() => {
+    if (debouncedMentionSearch) {
+      fetchMentionSuggestions(debouncedMentionSearch);
+    }
+  }, [debouncedMentionSearch]);
+
+  useEffect(() => {
+    if (autoFocus) textareaRef.current?.focus();
+  }, [autoFocus]);
+
+  const handleTextareaChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    const value = e.target.value;
+    setContent(value);
+
+    const cursorPos = e.target.selectionStart;
+    const textBeforeCursor = value.slice(0, cursorPos);
+    const mentionMatch = textBeforeCursor.match(/@(\w*)$/);
+
+    if (mentionMatch) {
+      setMentionSearch(mentionMatch[1]);
+      setShowMentionSuggestions(true);
+    } else {
+      setShowMentionSuggestions(false);
+      setMentionSearch("");
+    }
+  };
+
+  const insertMention = (profile: Profile) => {
+    const cursorPos = textareaRef.current?.selectionStart || 0;
+    const textBeforeCursor = content.slice(0, cursorPos);
+    const textAfterCursor = content.slice(cursorPos);
+    const mentionMatch = textBeforeCursor.match(/@(\w*)$/);
+
+    if (mentionMatch) {
+      const newText = textBeforeCursor.slice(0, -mentionMatch[0].length) + 
+        `@${profile.email} ` + 
+        textAfterCursor;
+      setContent(newText);
+    }
+
+    setShowMentionSuggestions(false);
+    setMentionSearch("");
+    textareaRef.current?.focus();
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    // validateFile reports rejected files itself
+    const selected = Array.from(e.target.files ?? []).filter(validateFile);
+    setFiles((prev) => [...prev, ...selected]);
+    e.target.value = "";
+  };
+
+  const canSubmit = !!content.trim() || files.length > 0;
+
+  const handleSubmit = async () => {
+    if (!canSubmit || isSubmitting) return;
+
+    setIsSubmitting(true);
+    try {
+      const saved = await onSubmit(content, files);
+      if (saved && !onCancel) {
+        setContent("");
+        setFiles([]);
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2 relative">
+        <Textarea
+          ref={textareaRef}
+          value={content}
+          onChange={handleTextareaChange}
+          placeholder={placeholder}
+          className={onCancel ? "min-h-[60px]" : "min-h-[80px]"}
+        />
+        {!onCancel && (
+          <div className="flex flex-col gap-2">
+            <Button onClick={handleSubmit} size="icon" disabled={isSubmitting} aria-label="Post comment">
+              <Send className="w-4 h-4" />
+            </Button>
+            {allowAttachments && (
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={() => fileInputRef.current?.click()}
+                disabled={isSubmitting}
+                aria-label="Attach files"
+              >
+                <Paperclip className="w-4 h-4" />
+              </Button>
+            )}
+          </div>
+        )}
+        {allowAttachments && (
+          <input
+            ref={fileInputRef}
+            type="file"
+            multiple
+            className="hidden"
+            accept=".doc,.docx,.pdf,.jpg,.jpeg,.png"
+            onChange={handleFileChange}
+          />
+        )}
+
+        {showMentionSuggestions && mentionSuggestions.length > 0 && (
+          <div 
+            ref={mentionsRef}
+            className="absolute z-50 w-64 max-h-48 overflow-y-auto bg-white dark:bg-gray-800 rounded-md shadow-lg border border-gray-200 dark:border-gray-700"
+            style={{ 
+              top: textareaRef.current ? textareaRef.current.offsetTop + textareaRef.current.offsetHeight + 4 : 0,
+              left: textareaRef.current ? textareaRef.current.offsetLeft : 0
+            }}
+          >
+            {mentionSuggestions.map((profile) => (
+              <button
+                key={profile.id}
+                className="w-full px-4 py-2 text-left hover:bg-gray-100 dark:hover:bg-gray-700 flex items-center gap-2"
+                onClick={() => insertMention(profile)}
+              >
+                <Avatar className="w-6 h-6">
+                  {profile.avatar_url ? (
+                    <img src={profile.avatar_url} alt={profile.full_name} />
+                  ) : (
+                    <User className="w-4 h-4" />
+                  )}
+                </Avatar>
+                <span className="text-sm">{profile.full_name}</span>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+      {files.length > 0 && (
+        <ul className="flex flex-wrap gap-2">
+          {files.map((file, index) => (
+            <li
+              key={`${file.name}-${index}`}
+              className="flex items-center gap-1 rounded bg-gray-100 dark:bg-gray-700 px-2 py-1 text-xs"
+            >
+              <Paperclip className="w-3 h-3" />
+              <span className="max-w-[12rem] truncate">{file.name}</span>
+              <button
+                className="text-gray-500 hover:text-destructive"
+                onClick={() => setFiles((prev) => prev.filter((_, i) => i !== index))}
+                aria-label={`Remove ${file.name}`}
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      {onCancel && (
+        <div className="flex justify-end gap-2">
+          {allowAttachments && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="mr-auto"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isSubmitting}
+            >
+              <Paperclip className="w-4 h-4 mr-1" />
+              Attach
+            </Button>
+          )}
+          <Button variant="ghost" size="sm" onClick={onCancel} disabled={isSubmitting}>
+            Cancel
+          </Button>
+          <Button size="sm" onClick={handleSubmit} disabled={isSubmitting || !canSubmit}>
+            {isSubmitting ? "Saving..." : submitLabel}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
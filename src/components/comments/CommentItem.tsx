@@ -0,0 +1,300 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { ChevronDown, ChevronRight, Download, Paperclip, Pencil, Reply, Trash2, User } from "lucide-react";
+import { Avatar } from "@/components/ui/avatar";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { CommentComposer } from "@/components/comments/CommentComposer";
+import { CommentReactions } from "@/components/comments/CommentReactions";
+import { MarkdownContent } from "@/components/MarkdownContent";
+import { useToast } from "@/hooks/use-toast";
+import { commentService } from "@/services/commentService";
+import { documentService } from "@/services/documentService";
+import { CommentAttachment, CommentThread } from "@/types/comment";
+import { countReplies } from "@/utils/commentThreads";
+
+// Deeper replies stop indenting so long threads stay readable in the task panel
+const MAX_INDENT_DEPTH = 3;
+
+interface CommentItemProps {
+  thread: CommentThread;
+  depth?: number;
+  currentUserId?: string;
+  canModerate: boolean;
+  canAttach: boolean;
+  mentionNames: Record<string, string>;
+  highlightCommentId?: string | null;
+  onReply: (parentId: string, content: string, files: File[]) => Promise<boolean>;
+  onEdit: (commentId: string, content: string) => Promise<boolean>;
+  onDelete: (commentId: string) => Promise<void>;
+  onToggleReaction: (commentId: string, emoji: string, reactedByMe: boolean) => Promise<void>;
+}
+
+const containsComment = (thread: CommentThread, commentId: string): boolean =>
+  thread.replies.some((reply) => reply.comment.id === commentId || containsComment(reply, commentId));
+
+const EditHistory = ({ commentId, editedAt }: { commentId: string; editedAt: string }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const { data: edits = [], isLoading } = useQuery({
+    queryKey: ['comment-edits', commentId, editedAt],
+    queryFn: () => commentService.getEditHistory(commentId),
+    enabled: isOpen,
+  });
+
+  return (
+    <Popover open={isOpen} onOpenChange={setIsOpen}>
+      <PopoverTrigger asChild>
+        <button className="text-xs text-gray-500 hover:underline" title={new Date(editedAt).toLocaleString()}>
+          (edited)
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 max-h-72 overflow-y-auto">
+        <h4 className="text-sm font-semibold mb-2">Previous versions</h4>
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Loading...</p>
+        ) : (
+          <ul className="space-y-2">
+            {edits.map((edit) => (
+              <li key={edit.id} className="text-sm border-b last:border-0 pb-2">
+                <p className="text-xs text-gray-500">
+                  Replaced {new Date(edit.edited_at).toLocaleString()}
+                  {edit.editor && ` by ${edit.editor.full_name || edit.editor.email}`}
+                </p>
+                <p className="whitespace-pre-wrap text-gray-600 dark:text-gray-300">{edit.content}</p>
+              </li>
+            ))}
+          </ul>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export const CommentItem = ({
+  thread,
+  depth = 0,
+  currentUserId,
+  canModerate,
+  canAttach,
+  mentionNames,
+  highlightCommentId,
+  onReply,
+  onEdit,
+  onDelete,
+  onToggleReaction,
+}: CommentItemProps) => {
+  const { comment, replies } = thread;
+  const { toast } = useToast();
+  const [isReplying, setIsReplying] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [isDeleteOpen, setIsDeleteOpen] = useState(false);
+  const [isDeleting, setIsDeleting] = useState(false);
+  // Threads start collapsed unless a deep link points inside them
+  const [showReplies, setShowReplies] = useState(
+    !!highlightCommentId && containsComment(thread, highlightCommentId)
+  );
+
+  const isDeleted = !!comment.deleted_at;
+  const isAuthor = !!currentUserId && comment.user_id === currentUserId;
+  const canEdit = isAuthor && !isDeleted;
+  const canDelete = (isAuthor || canModerate) && !isDeleted;
+  const replyCount = countReplies(thread);
+  const attachments = (comment.attachments ?? [])
+    .map(({ document }) => document)
+    .filter((document): document is CommentAttachment => !!document);
+
+  const handleReply = async (content: string, files: File[]) => {
+    const saved = await onReply(comment.id, content, files);
+    if (saved) {
+      setIsReplying(false);
+      setShowReplies(true);
+    }
+    return saved;
+  };
+
+  const handleEdit = async (content: string) => {
+    const saved = await onEdit(comment.id, content);
+    if (saved) setIsEditing(false);
+    return saved;
+  };
+
+  const handleDownload = async (attachment: CommentAttachment) => {
+    try {
+      await documentService.downloadDocument(attachment);
+    } catch (error) {
+      console.error("Download error:", error);
+      toast({
+        title: "Error",
+        description: "Failed to download attachment",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDelete = async () => {
+    setIsDeleting(true);
+    try {
+      await onDelete(comment.id);
+      setIsDeleteOpen(false);
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div
+        id={`comment-${comment.id}`}
+        className={`flex gap-3 p-3 rounded-lg bg-gray-50 dark:bg-gray-800 ${
+          comment.id === highlightCommentId ? "ring-2 ring-primary" : ""
+        }`}
+      >
+        <Avatar className="w-8 h-8">
+          {!isDeleted && comment.user?.avatar_url ? (
+            <img src={comment.user.avatar_url} alt={comment.user.full_name} />
+          ) : (
+            <User className="w-4 h-4" />
+          )}
+        </Avatar>
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center justify-between gap-2">
+            <p className="font-medium text-sm">
+              {isDeleted ? "Deleted comment" : comment.user?.full_name || comment.user?.email}
+            </p>
+            <span className="text-xs text-gray-500 flex items-center gap-1">
+              {new Date(comment.created_at).toLocaleDateString()}
+              {comment.edited_at && !isDeleted && (
+                <EditHistory commentId={comment.id} editedAt={comment.edited_at} />
+              )}
+            </span>
+          </div>
+
+          {isEditing ? (
+            <div className="mt-2">
+              <CommentComposer
+                initialValue={comment.content}
+                onSubmit={handleEdit}
+                onCancel={() => setIsEditing(false)}
+                autoFocus
+              />
+            </div>
+          ) : isDeleted ? (
+            <p className="mt-1 text-sm italic text-gray-400">This comment was deleted</p>
+          ) : (
+            <MarkdownContent
+              content={comment.content}
+              mentions={mentionNames}
+              className="mt-1 text-gray-600 dark:text-gray-300"
+            />
+          )}
+
+          {!isDeleted && attachments.length > 0 && (
+            <ul className="mt-2 space-y-1">
+              {attachments.map((attachment) => (
+                <li key={attachment.id}>
+                  <button
+                    className="flex items-center gap-2 text-sm text-primary hover:underline"
+                    onClick={() => handleDownload(attachment)}
+                  >
+                    <Paperclip className="w-3 h-3" />
+                    <span className="truncate">{attachment.title}</span>
+                    <Download className="w-3 h-3" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {!isDeleted && (
+            <CommentReactions
+              reactions={comment.reactions ?? []}
+              currentUserId={currentUserId}
+              canReact={!!currentUserId}
+              onToggle={(emoji, reactedByMe) => onToggleReaction(comment.id, emoji, reactedByMe)}
+            />
+          )}
+
+          {!isEditing && (
+            <div className="flex items-center gap-1 mt-2 -ml-2">
+              {!isDeleted && (
+                <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={() => setIsReplying(!isReplying)}>
+                  <Reply className="w-3 h-3 mr-1" />
+                  Reply
+                </Button>
+              )}
+              {canEdit && (
+                <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={() => setIsEditing(true)}>
+                  <Pencil className="w-3 h-3 mr-1" />
+                  Edit
+                </Button>
+              )}
+              {canDelete && (
+                <Button variant="ghost" size="sm" className="h-7 px-2 text-xs text-destructive" onClick={() => setIsDeleteOpen(true)}>
+                  <Trash2 className="w-3 h-3 mr-1" />
+                  Delete
+                </Button>
+              )}
+              {replyCount > 0 && (
+                <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={() => setShowReplies(!showReplies)}>
+                  {showReplies ? <ChevronDown className="w-3 h-3 mr-1" /> : <ChevronRight className="w-3 h-3 mr-1" />}
+                  {showReplies ? "Hide replies" : `${replyCount} ${replyCount === 1 ? "reply" : "replies"}`}
+                </Button>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {(isReplying || (showReplies && replies.length > 0)) && (
+        <div className={depth < MAX_INDENT_DEPTH ? "ml-6 pl-3 border-l border-gray-200 dark:border-gray-700 space-y-2" : "space-y-2"}>
+          {isReplying && (
+            <CommentComposer
+              placeholder="Write a reply..."
+              submitLabel="Reply"
+              allowAttachments={canAttach}
+              onSubmit={handleReply}
+              onCancel={() => setIsReplying(false)}
+              autoFocus
+            />
+          )}
+          {showReplies && replies.map((reply) => (
+            <CommentItem
+              key={reply.comment.id}
+              thread={reply}
+              depth={depth + 1}
+              currentUserId={currentUserId}
+              canModerate={canModerate}
+              canAttach={canAttach}
+              mentionNames={mentionNames}
+              highlightCommentId={highlightCommentId}
+              onReply={onReply}
+              onEdit={onEdit}
+              onDelete={onDelete}
+              onToggleReaction={onToggleReaction}
+            />
+          ))}
+        </div>
+      )}
+
+      <Dialog open={isDeleteOpen} onOpenChange={setIsDeleteOpen}>
+        <DialogContent className="sm:max-w-[400px]">
+          <DialogHeader>
+            <DialogTitle>Delete Comment</DialogTitle>
+            <DialogDescription>
+              The comment text will be removed. Replies stay visible in the thread.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDeleteOpen(false)} disabled={isDeleting}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleDelete} disabled={isDeleting}>
+              {isDeleting ? "Deleting..." : "Delete"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
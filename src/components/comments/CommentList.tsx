@@ -1,93 +1,67 @@
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect, useMemo, useRef } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { useSessionContext } from "@supabase/auth-helpers-react";
 import { supabase } from "@/lib/supabase";
-import { MessageSquare, Send, User } from "lucide-react";
-import { Button } from "@/components/ui/button";
-import { Textarea } from "@/components/ui/textarea";
+import { MessageSquare } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import { Avatar } from "@/components/ui/avatar";
-import { useDebounce } from "@/hooks/use-debounce";
-
-interface Comment {
-  id: string;
-  content: string;
-  created_at: string;
-  user_id: string;
-  task_id: string;
-  user: {
-    email: string;
-    full_name: string;
-    avatar_url: string | null;
-  };
-}
-
-interface Profile {
-  id: string;
-  full_name: string;
-  email: string;
-  avatar_url: string | null;
-}
+import { usePermissions } from "@/hooks/use-permissions";
+import { CommentComposer } from "@/components/comments/CommentComposer";
+import { CommentItem } from "@/components/comments/CommentItem";
+import { commentService } from "@/services/commentService";
+import { documentService } from "@/services/documentService";
+import { Comment } from "@/types/comment";
+import { buildCommentThreads, pruneDeletedThreads } from "@/utils/commentThreads";
 
 interface CommentListProps {
   taskId: string;
+  highlightCommentId?: string | null;
 }
 
-export const CommentList = ({ taskId }: CommentListProps) => {
+export const CommentList = ({ taskId, highlightCommentId }: CommentListProps) => {
   const [comments, setComments] = useState<Comment[]>([]);
-  const [newComment, setNewComment] = useState("");
-  const [mentionSearch, setMentionSearch] = useState("");
-  const [showMentionSuggestions, setShowMentionSuggestions] = useState(false);
-  const [mentionSuggestions, setMentionSuggestions] = useState<Profile[]>([]);
-  const textareaRef = useRef<HTMLTextAreaElement>(null);
-  const mentionsRef = useRef<HTMLDivElement>(null);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const hasScrolledToHighlight = useRef(false);
+  // Read by the realtime handler, which is registered once per task
+  const commentIds = useRef(new Set<string>());
   const { session } = useSessionContext();
+  const { can } = usePermissions();
   const { toast } = useToast();
-  const debouncedMentionSearch = useDebounce(mentionSearch, 300);
+  const threads = pruneDeletedThreads(buildCommentThreads(comments));
+  const canAttach = can("documents.upload");
 
-  const fetchComments = async () => {
-    const { data, error } = await supabase
-      .from("comments")
-      .select(`
-        *,
-        user:profiles(
-          email,
-          full_name,
-          avatar_url
-        )
-      `)
-      .eq("task_id", taskId)
-      .order("created_at", { ascending: false });
+  const mentionedEmails = useMemo(
+    () => [...new Set(comments.flatMap((comment) => comment.mentions ?? []))].sort(),
+    [comments]
+  );
 
-    if (error) {
+  const { data: mentionedProfiles = [] } = useQuery({
+    queryKey: ['mentioned-profiles', mentionedEmails],
+    queryFn: () => commentService.getMentionedProfiles(mentionedEmails),
+    enabled: mentionedEmails.length > 0,
+  });
+
+  const mentionNames = useMemo(
+    () => Object.fromEntries(
+      mentionedProfiles.map((profile) => [profile.email.toLowerCase(), profile.full_name || profile.email])
+    ),
+    [mentionedProfiles]
+  );
+
+  const fetchComments = async () => {
+    try {
+      const data = await commentService.getComments(taskId);
+      commentIds.current = new Set(data.map((comment) => comment.id));
+      setComments(data);
+    } catch (error) {
+      console.error("Error fetching comments:", error);
       toast({
         title: "Error",
         description: "Failed to fetch comments",
         variant: "destructive",
       });
-      return;
-    }
-
-    setComments(data as Comment[]);
-  };
-
-  const fetchMentionSuggestions = async (search: string) => {
-    if (!search) {
-      setMentionSuggestions([]);
-      return;
+    } finally {
+      setIsLoaded(true);
     }
-
-    const { data, error } = await supabase
-      .from("profiles")
-      .select("id, full_name, email, avatar_url")
-      .ilike("full_name", `${search}%`)
-      .order("full_name");
-
-    if (error) {
-      console.error("Error fetching mention suggestions:", error);
-      return;
-    }
-
-    setMentionSuggestions(data);
   };
 
   useEffect(() => {
@@ -107,6 +81,23 @@ export const CommentList = ({ taskId }: CommentListProps) => {
           fetchComments();
         }
       )
+      .on(
+        "postgres_changes",
+        {
+          event: "*",
+          schema: "public",
+          table: "comment_reactions",
+        },
+        (payload) => {
+          // Deletes only carry the old row's primary key, which includes comment_id
+          const commentId =
+            (payload.new as { comment_id?: string }).comment_id ??
+            (payload.old as { comment_id?: string }).comment_id;
+          if (commentId && commentIds.current.has(commentId)) {
+            fetchComments();
+          }
+        }
+      )
       .subscribe();
 
     return () => {
@@ -114,74 +105,98 @@ export const CommentList = ({ taskId }: CommentListProps) => {
     };
   }, [taskId]);
 
+  // Deep links from mention notifications scroll to the comment once it loads
   useEffect(() => {
-    if (debouncedMentionSearch) {
-      fetchMentionSuggestions(debouncedMentionSearch);
-    }
-  }, [debouncedMentionSearch]);
-
-  const handleTextareaChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
-    const value = e.target.value;
-    setNewComment(value);
+    if (!highlightCommentId || hasScrolledToHighlight.current) return;
 
-    const cursorPos = e.target.selectionStart;
-    const textBeforeCursor = value.slice(0, cursorPos);
-    const mentionMatch = textBeforeCursor.match(/@(\w*)$/);
-
-    if (mentionMatch) {
-      setMentionSearch(mentionMatch[1]);
-      setShowMentionSuggestions(true);
-    } else {
-      setShowMentionSuggestions(false);
-      setMentionSearch("");
+    const element = document.getElementById(`comment-${highlightCommentId}`);
+    if (element) {
+      element.scrollIntoView({ behavior: "smooth", block: "center" });
+      hasScrolledToHighlight.current = true;
+    }
+  }, [comments, highlightCommentId]);
+
+  const handleSubmitComment = async (content: string, files: File[], parentId: string | null = null) => {
+    if ((!content.trim() && files.length === 0) || !session?.user) return false;
+
+    try {
+      // Files were checked with validateFile when they were picked
+      const documents = [];
+      for (const file of files) {
+        documents.push(await documentService.uploadDocument(file, session.user.id));
+      }
+
+      await commentService.addComment(
+        taskId,
+        content,
+        parentId,
+        documents.map((document) => document.id)
+      );
+      await fetchComments();
+      toast({
+        title: "Success",
+        description: parentId ? "Reply posted successfully" : "Comment posted successfully",
+      });
+      return true;
+    } catch (error) {
+      console.error("Error posting comment:", error);
+      toast({
+        title: "Error",
+        description: "Failed to post comment",
+        variant: "destructive",
+      });
+      return false;
     }
   };
 
-  const insertMention = (profile: Profile) => {
-    const cursorPos = textareaRef.current?.selectionStart || 0;
-    const textBeforeCursor = newComment.slice(0, cursorPos);
-    const textAfterCursor = newComment.slice(cursorPos);
-    const mentionMatch = textBeforeCursor.match(/@(\w*)$/);
+  const handleEditComment = async (commentId: string, content: string) => {
+    if (!content.trim()) return false;
 
-    if (mentionMatch) {
-      const newText = textBeforeCursor.slice(0, -mentionMatch[0].length) + 
-        `@${profile.email} ` + 
-        textAfterCursor;
-      setNewComment(newText);
+    try {
+      await commentService.updateComment(commentId, content);
+      await fetchComments();
+      return true;
+    } catch (error) {
+      console.error("Error editing comment:", error);
+      toast({
+        title: "Error",
+        description: "Failed to edit comment",
+        variant: "destructive",
+      });
+      return false;
     }
-
-    setShowMentionSuggestions(false);
-    setMentionSearch("");
-    textareaRef.current?.focus();
   };
 
-  const handleSubmitComment = async () => {
-    if (!newComment.trim() || !session?.user) return;
-
-    const mentionRegex = /@([a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,})/g;
-    const mentions = [...newComment.matchAll(mentionRegex)].map(match => match[1]);
-
-    const { error } = await supabase.from("comments").insert({
-      task_id: taskId,
-      user_id: session.user.id,
-      content: newComment,
-      mentions: mentions,
-    });
-
-    if (error) {
+  const handleDeleteComment = async (commentId: string) => {
+    try {
+      await commentService.deleteComment(commentId);
+      await fetchComments();
+    } catch (error) {
+      console.error("Error deleting comment:", error);
       toast({
         title: "Error",
-        description: "Failed to post comment",
+        description: "Failed to delete comment",
         variant: "destructive",
       });
-      return;
     }
+  };
 
-    setNewComment("");
-    toast({
-      title: "Success",
-      description: "Comment posted successfully",
-    });
+  const handleToggleReaction = async (commentId: string, emoji: string, reactedByMe: boolean) => {
+    try {
+      if (reactedByMe) {
+        await commentService.removeReaction(commentId, emoji);
+      } else {
+        await commentService.addReaction(commentId, emoji);
+      }
+      await fetchComments();
+    } catch (error) {
+      console.error("Error updating reaction:", error);
+      toast({
+        title: "Error",
+        description: "Failed to update reaction",
+        variant: "destructive",
+      });
+    }
   };
 
   return (
@@ -192,72 +207,32 @@ export const CommentList = ({ taskId }: CommentListProps) => {
       </div>
 
       <div className="space-y-4">
-        <div className="flex gap-2 relative">
-          <Textarea
-            ref={textareaRef}
-            value={newComment}
-            onChange={handleTextareaChange}
-            placeholder="Write a comment... Use @ to mention someone"
-            className="min-h-[80px]"
-          />
-          <Button onClick={handleSubmitComment} size="icon">
-            <Send className="w-4 h-4" />
-          </Button>
-
-          {showMentionSuggestions && mentionSuggestions.length > 0 && (
-            <div 
-              ref={mentionsRef}
-              className="absolute z-50 w-64 max-h-48 overflow-y-auto bg-white dark:bg-gray-800 rounded-md shadow-lg border border-gray-200 dark:border-gray-700"
-              style={{ 
-                top: textareaRef.current ? textareaRef.current.offsetTop + textareaRef.current.offsetHeight + 4 : 0,
-                left: textareaRef.current ? textareaRef.current.offsetLeft : 0
-              }}
-            >
-              {mentionSuggestions.map((profile) => (
-                <button
-                  key={profile.id}
-                  className="w-full px-4 py-2 text-left hover:bg-gray-100 dark:hover:bg-gray-700 flex items-center gap-2"
-                  onClick={() => insertMention(profile)}
-                >
-                  <Avatar className="w-6 h-6">
-                    {profile.avatar_url ? (
-                      <img src={profile.avatar_url} alt={profile.full_name} />
-                    ) : (
-                      <User className="w-4 h-4" />
-                    )}
-                  </Avatar>
-                  <span className="text-sm">{profile.full_name}</span>
-                </button>
-              ))}
-            </div>
-          )}
-        </div>
+        <CommentComposer
+          allowAttachments={canAttach}
+          onSubmit={(content, files) => handleSubmitComment(content, files)}
+        />
 
         <div className="space-y-4">
-          {comments.map((comment) => (
-            <div key={comment.id} className="flex gap-3 p-3 rounded-lg bg-gray-50 dark:bg-gray-800">
-              <Avatar className="w-8 h-8">
-                {comment.user?.avatar_url ? (
-                  <img src={comment.user.avatar_url} alt={comment.user.full_name} />
-                ) : (
-                  <User className="w-4 h-4" />
-                )}
-              </Avatar>
-              <div className="flex-1">
-                <div className="flex items-center justify-between">
-                  <p className="font-medium text-sm">
-                    {comment.user?.full_name || comment.user?.email}
-                  </p>
-                  <span className="text-xs text-gray-500">
-                    {new Date(comment.created_at).toLocaleDateString()}
-                  </span>
-                </div>
-                <p className="mt-1 text-sm text-gray-600 dark:text-gray-300">{comment.content}</p>
-              </div>
-            </div>
+          {threads.map((thread) => (
+            <CommentItem
+              key={thread.comment.id}
+              thread={thread}
+              currentUserId={session?.user?.id}
+              canModerate={can("comments.moderate")}
+              canAttach={canAttach}
+              mentionNames={mentionNames}
+              highlightCommentId={highlightCommentId}
+              onReply={(parentId, content, files) => handleSubmitComment(content, files, parentId)}
+              onEdit={handleEditComment}
+              onDelete={handleDeleteComment}
+              onToggleReaction={handleToggleReaction}
+            />
           ))}
+          {isLoaded && threads.length === 0 && (
+            <p className="text-sm text-gray-500 dark:text-gray-400">No comments yet</p>
+          )}
         </div>
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
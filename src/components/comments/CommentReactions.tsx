@@ -0,0 +1,89 @@
+import { useState } from "react";
+import { SmilePlus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { HoverCard, HoverCardContent, HoverCardTrigger } from "@/components/ui/hover-card";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { CommentReaction } from "@/types/comment";
+import { REACTION_EMOJIS, summarizeReactions } from "@/utils/commentReactions";
+
+interface CommentReactionsProps {
+  reactions: CommentReaction[];
+  currentUserId?: string;
+  canReact: boolean;
+  onToggle: (emoji: string, reactedByMe: boolean) => Promise<void>;
+}
+
+export const CommentReactions = ({ reactions, currentUserId, canReact, onToggle }: CommentReactionsProps) => {
+  const [isPickerOpen, setIsPickerOpen] = useState(false);
+  const [pendingEmoji, setPendingEmoji] = useState<string | null>(null);
+  const summaries = summarizeReactions(reactions, currentUserId);
+
+  const toggle = async (emoji: string, reactedByMe: boolean) => {
+    if (!canReact || pendingEmoji) return;
+
+    setPendingEmoji(emoji);
+    try {
+      await onToggle(emoji, reactedByMe);
+    } finally {
+      setPendingEmoji(null);
+    }
+  };
+
+  if (summaries.length === 0 && !canReact) return null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-1 mt-2">
+      {summaries.map((summary) => (
+        <HoverCard key={summary.emoji} openDelay={200}>
+          <HoverCardTrigger asChild>
+            <button
+              className={`flex items-center gap-1 rounded-full border px-2 py-0.5 text-xs transition-colors ${
+                summary.reactedByMe
+                  ? "border-primary bg-primary/10 text-primary"
+                  : "border-gray-200 dark:border-gray-700 hover:bg-gray-100 dark:hover:bg-gray-700"
+              }`}
+              onClick={() => toggle(summary.emoji, summary.reactedByMe)}
+              disabled={!canReact || pendingEmoji === summary.emoji}
+              aria-pressed={summary.reactedByMe}
+            >
+              <span>{summary.emoji}</span>
+              <span>{summary.count}</span>
+            </button>
+          </HoverCardTrigger>
+          <HoverCardContent className="w-auto max-w-xs text-sm">
+            {summary.reactors.join(", ")}
+          </HoverCardContent>
+        </HoverCard>
+      ))}
+
+      {canReact && (
+        <Popover open={isPickerOpen} onOpenChange={setIsPickerOpen}>
+          <PopoverTrigger asChild>
+            <Button variant="ghost" size="sm" className="h-6 w-6 p-0" aria-label="Add reaction">
+              <SmilePlus className="w-4 h-4" />
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-auto p-1">
+            <div className="flex gap-1">
+              {REACTION_EMOJIS.map((emoji) => {
+                const reactedByMe = summaries.some((summary) => summary.emoji === emoji && summary.reactedByMe);
+                return (
+                  <button
+                    key={emoji}
+                    className={`rounded p-1 text-lg hover:bg-gray-100 dark:hover:bg-gray-700 ${reactedByMe ? "bg-primary/10" : ""}`}
+                    onClick={() => {
+                      setIsPickerOpen(false);
+                      toggle(emoji, reactedByMe);
+                    }}
+                  >
+                    {emoji}
+                  </button>
+                );
+              })}
+            </div>
+          </PopoverContent>
+        </Popover>
+      )}
+    </div>
+  );
+};
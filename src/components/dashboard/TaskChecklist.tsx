@@ -0,0 +1,192 @@
+import { useEffect, useState } from "react";
+import { ArrowDown, ArrowUp, ListChecks, Plus, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+import { useToast } from "@/hooks/use-toast";
+import { Subtask, Task } from "@/types/task";
+import { taskService } from "@/services/taskService";
+import { getTaskProgress } from "@/utils/taskProgress";
+
+interface TaskChecklistProps {
+  task: Task;
+  canEdit: boolean;
+  onChange: () => void;
+}
+
+export const TaskChecklist = ({ task, canEdit, onChange }: TaskChecklistProps) => {
+  const [subtasks, setSubtasks] = useState<Subtask[]>(task.subtasks ?? []);
+  const [newTitle, setNewTitle] = useState("");
+  const [isAdding, setIsAdding] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    setSubtasks(task.subtasks ?? []);
+  }, [task.subtasks]);
+
+  const progress = getTaskProgress({ ...task, subtasks });
+
+  const showError = (description: string, error: unknown) => {
+    console.error(description, error);
+    toast({
+      title: "Error",
+      description,
+      variant: "destructive",
+    });
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const title = newTitle.trim();
+    if (!title) return;
+
+    setIsAdding(true);
+    try {
+      const position = subtasks.length > 0 ? subtasks[subtasks.length - 1].position + 1 : 0;
+      const subtask = await taskService.addSubtask(task.id, title, position);
+      setSubtasks((prev) => [...prev, subtask]);
+      setNewTitle("");
+      onChange();
+    } catch (error) {
+      showError("Failed to add checklist item", error);
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const handleToggle = async (subtask: Subtask, isCompleted: boolean) => {
+    setSubtasks((prev) =>
+      prev.map((s) => (s.id === subtask.id ? { ...s, is_completed: isCompleted } : s))
+    );
+
+    try {
+      await taskService.toggleSubtask(subtask.id, isCompleted);
+      onChange();
+    } catch (error) {
+      setSubtasks((prev) => prev.map((s) => (s.id === subtask.id ? subtask : s)));
+      showError("Failed to update checklist item", error);
+    }
+  };
+
+  const handleDelete = async (subtask: Subtask) => {
+    const previous = subtasks;
+    setSubtasks((prev) => prev.filter((s) => s.id !== subtask.id));
+
+    try {
+      await taskService.deleteSubtask(subtask.id);
+      onChange();
+    } catch (error) {
+      setSubtasks(previous);
+      showError("Failed to remove checklist item", error);
+    }
+  };
+
+  const handleMove = async (index: number, offset: -1 | 1) => {
+    const target = index + offset;
+    if (target < 0 || target >= subtasks.length) return;
+
+    const previous = subtasks;
+    const reordered = [...subtasks];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    setSubtasks(reordered.map((s, position) => ({ ...s, position })));
+
+    try {
+      await taskService.reorderSubtasks(reordered.map((s) => s.id));
+      onChange();
+    } catch (error) {
+      setSubtasks(previous);
+      showError("Failed to reorder checklist", error);
+    }
+  };
+
+  if (!canEdit && subtasks.length === 0) return null;
+
+  return (
+    <div className="mb-4">
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="text-sm font-medium flex items-center gap-2">
+          <ListChecks className="w-4 h-4" />
+          Checklist
+        </h4>
+        {progress && (
+          <span className="text-xs text-gray-500 dark:text-gray-400">
+            {progress.completed}/{progress.total} done
+          </span>
+        )}
+      </div>
+      {progress && <Progress value={progress.percent} className="h-1.5 mb-3" />}
+
+      <ul className="space-y-1">
+        {subtasks.map((subtask, index) => (
+          <li
+            key={subtask.id}
+            className="group flex items-center gap-2 p-1.5 rounded hover:bg-gray-50 dark:hover:bg-gray-700"
+          >
+            <Checkbox
+              id={`subtask-${subtask.id}`}
+              checked={subtask.is_completed}
+              disabled={!canEdit}
+              onCheckedChange={(checked) => handleToggle(subtask, checked === true)}
+            />
+            <label
+              htmlFor={`subtask-${subtask.id}`}
+              className={`flex-1 text-sm break-words ${
+                subtask.is_completed ? "line-through text-gray-400" : ""
+              }`}
+            >
+              {subtask.title}
+            </label>
+            {canEdit && (
+              <div className="flex items-center opacity-0 group-hover:opacity-100 transition-opacity">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 w-6 p-0"
+                  disabled={index === 0}
+                  onClick={() => handleMove(index, -1)}
+                  aria-label="Move up"
+                >
+                  <ArrowUp className="w-3 h-3" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 w-6 p-0"
+                  disabled={index === subtasks.length - 1}
+                  onClick={() => handleMove(index, 1)}
+                  aria-label="Move down"
+                >
+                  <ArrowDown className="w-3 h-3" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 w-6 p-0 text-red-500"
+                  onClick={() => handleDelete(subtask)}
+                  aria-label="Remove item"
+                >
+                  <X className="w-3 h-3" />
+                </Button>
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      {canEdit && (
+        <form onSubmit={handleAdd} className="flex gap-2 mt-2">
+          <Input
+            value={newTitle}
+            onChange={(e) => setNewTitle(e.target.value)}
+            placeholder="Add a checklist item"
+            className="h-8 text-sm"
+          />
+          <Button type="submit" size="sm" variant="outline" disabled={isAdding || !newTitle.trim()}>
+            <Plus className="w-4 h-4" />
+          </Button>
+        </form>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,167 @@
+import { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Link2, Lock, Plus, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useWorkflows } from "@/hooks/use-workflows";
+import { Task } from "@/types/task";
+import { DependencyCycleError, taskService } from "@/services/taskService";
+import { STATE_BADGE_CLASSES, formatStatusKey } from "@/utils/workflow";
+
+interface TaskDependenciesProps {
+  task: Task;
+  canEdit: boolean;
+}
+
+export const TaskDependencies = ({ task, canEdit }: TaskDependenciesProps) => {
+  const [selectedBlocker, setSelectedBlocker] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const { getState, isDone } = useWorkflows();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: dependencies } = useQuery({
+    queryKey: ['task-dependencies', task.id],
+    queryFn: () => taskService.getDependencies(task.id),
+  });
+
+  const { data: allTasks = [] } = useQuery({
+    queryKey: ['tasks'],
+    queryFn: taskService.getTasks,
+    enabled: canEdit,
+  });
+
+  const blockers = dependencies?.blockers ?? [];
+  const dependents = dependencies?.dependents ?? [];
+  const openBlockers = blockers.filter((blocker) => !isDone(blocker));
+
+  const candidates = allTasks.filter(
+    (candidate) =>
+      candidate.id !== task.id && !blockers.some((blocker) => blocker.id === candidate.id)
+  );
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ['task-dependencies'] });
+  };
+
+  const handleAdd = async () => {
+    if (!selectedBlocker) return;
+
+    setIsSaving(true);
+    try {
+      await taskService.addDependency(task.id, selectedBlocker);
+      setSelectedBlocker("");
+      refresh();
+    } catch (error) {
+      console.error("Error adding dependency:", error);
+      toast({
+        title: "Error",
+        description: error instanceof DependencyCycleError ? error.message : "Failed to add dependency",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRemove = async (blocker: Task) => {
+    try {
+      await taskService.removeDependency(task.id, blocker.id);
+      refresh();
+    } catch (error) {
+      console.error("Error removing dependency:", error);
+      toast({
+        title: "Error",
+        description: "Failed to remove dependency",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const renderTask = (related: Task, onRemove?: () => void) => {
+    const state = getState(related);
+    return (
+      <li
+        key={related.id}
+        className="flex items-center justify-between gap-2 p-2 bg-gray-50 dark:bg-gray-700 rounded"
+      >
+        <span className={`text-sm truncate ${isDone(related) ? "line-through text-gray-400" : ""}`}>
+          {related.title}
+        </span>
+        <div className="flex items-center gap-2 flex-shrink-0">
+          <span className={`text-xs px-2 py-0.5 rounded-full ${STATE_BADGE_CLASSES[state?.color ?? "gray"]}`}>
+            {state?.label ?? formatStatusKey(related.status)}
+          </span>
+          {onRemove && (
+            <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={onRemove} aria-label="Remove dependency">
+              <X className="w-3 h-3" />
+            </Button>
+          )}
+        </div>
+      </li>
+    );
+  };
+
+  if (!canEdit && blockers.length === 0 && dependents.length === 0) return null;
+
+  return (
+    <div className="mb-4 space-y-3">
+      <div>
+        <h4 className="text-sm font-medium mb-2 flex items-center gap-2">
+          <Lock className="w-4 h-4" />
+          Blocked by
+          {openBlockers.length > 0 && (
+            <span className="text-xs px-2 py-0.5 rounded-full bg-red-100 text-red-800">
+              {openBlockers.length} open
+            </span>
+          )}
+        </h4>
+        {blockers.length > 0 ? (
+          <ul className="space-y-1">
+            {blockers.map((blocker) =>
+              renderTask(blocker, canEdit ? () => handleRemove(blocker) : undefined)
+            )}
+          </ul>
+        ) : (
+          <p className="text-sm text-gray-500 dark:text-gray-400">No blockers</p>
+        )}
+        {canEdit && (
+          <div className="flex gap-2 mt-2">
+            <Select value={selectedBlocker} onValueChange={setSelectedBlocker}>
+              <SelectTrigger className="h-8 text-sm">
+                <SelectValue placeholder="Add a task this depends on" />
+              </SelectTrigger>
+              <SelectContent>
+                {candidates.map((candidate) => (
+                  <SelectItem key={candidate.id} value={candidate.id}>
+                    {candidate.title}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button size="sm" variant="outline" onClick={handleAdd} disabled={!selectedBlocker || isSaving}>
+              <Plus className="w-4 h-4" />
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {dependents.length > 0 && (
+        <div>
+          <h4 className="text-sm font-medium mb-2 flex items-center gap-2">
+            <Link2 className="w-4 h-4" />
+            Blocking
+          </h4>
+          <ul className="space-y-1">{dependents.map((dependent) => renderTask(dependent))}</ul>
+        </div>
+      )}
+    </div>
+  );
+};
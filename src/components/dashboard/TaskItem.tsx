@@ -2,13 +2,35 @@ import { useToast } from "@/hooks/use-toast";
 import { Task } from "@/types/task";
 import { supabase } from "@/lib/supabase";
 import { handleTaskStatusChange } from "@/utils/notificationUtils";
+import { TaskBlockedError, taskService } from "@/services/taskService";
+import { documentService } from "@/services/documentService";
 import { CommentList } from "@/components/comments/CommentList";
-import { useState, useEffect } from "react";
-import { ChevronDown, ChevronUp, FileText, Download, Calendar } from "lucide-react";
+import { MarkdownContent } from "@/components/MarkdownContent";
+import { TaskChecklist } from "@/components/dashboard/TaskChecklist";
+import { TaskDependencies } from "@/components/dashboard/TaskDependencies";
+import { EditTaskDialog } from "@/components/dashboard/task-form/EditTaskDialog";
+import { DocumentPreviewDialog } from "@/components/documents/DocumentPreviewDialog";
+import { usePermissions } from "@/hooks/use-permissions";
+import { useWorkflows } from "@/hooks/use-workflows";
+import { STATE_BADGE_CLASSES, STATE_DOT_CLASSES, formatStatusKey } from "@/utils/workflow";
+import { useState, useEffect, useRef } from "react";
+import { useSearchParams } from "react-router-dom";
+import { ChevronDown, ChevronUp, FileText, Download, Calendar, Pencil, Trash2, AlertTriangle, Clock, ListChecks, Repeat } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
 import { HoverCard, HoverCardContent, HoverCardTrigger } from "@/components/ui/hover-card";
-import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import { format } from "date-fns";
+import { formatHours, getTaskProgress } from "@/utils/taskProgress";
+import { validateRRule } from "@/lib/recurrence";
 
 interface TaskItemProps {
   task: Task;
@@ -40,10 +62,34 @@ export const TaskItem = ({
   const { toast } = useToast();
   const [isExpanded, setIsExpanded] = useState(false);
   const [documents, setDocuments] = useState<TaskDocument[]>([]);
-  const [selectedDocument, setSelectedDocument] = useState<TaskDocument | null>(null);
-  const [isViewOpen, setIsViewOpen] = useState(false);
-  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [previewDocument, setPreviewDocument] = useState<TaskDocument | null>(null);
   const [assignedUser, setAssignedUser] = useState<Profile | null>(null);
+  const [isEditOpen, setIsEditOpen] = useState(false);
+  const [isDeleteOpen, setIsDeleteOpen] = useState(false);
+  const [isDeleting, setIsDeleting] = useState(false);
+  const [searchParams] = useSearchParams();
+  const itemRef = useRef<HTMLDivElement>(null);
+  const { can, userId, userEmail } = usePermissions();
+  const { getState, getNextStates } = useWorkflows();
+  const currentState = getState(task);
+  const nextStates = getNextStates(task);
+
+  // Creators can edit their own tasks; managers and admins can edit any task
+  const canManageTask = can("tasks.manage_any") || task.user_id === userId;
+  // Assignees may additionally work through the checklist
+  const canUpdateTask = canManageTask || task.assigned_to === userEmail;
+  const progress = getTaskProgress(task);
+  const hasEstimates = task.estimate_hours != null || task.actual_hours != null;
+  // Notification links open a task (and optionally a comment) via ?task=&comment=
+  const isLinked = searchParams.get("task") === task.id;
+  const linkedCommentId = isLinked ? searchParams.get("comment") : null;
+
+  useEffect(() => {
+    if (isLinked) {
+      setIsExpanded(true);
+      itemRef.current?.scrollIntoView({ behavior: "smooth", block: "start" });
+    }
+  }, [isLinked]);
 
   useEffect(() => {
     fetchAssignedUser();
@@ -83,7 +129,9 @@ export const TaskItem = ({
             file_type
           )
         `)
-        .eq('task_id', task.id);
+        .eq('task_id', task.id)
+        // Trashed documents come back as null and are dropped below
+        .is('documents.deleted_at', null);
 
       if (error) throw error;
 
@@ -101,18 +149,7 @@ export const TaskItem = ({
 
   const handleDownload = async (document: TaskDocument) => {
     try {
-      const { data, error } = await supabase.storage
-        .from('documents')
-        .download(document.file_path);
-
-      if (error) throw error;
-
-      const url = URL.createObjectURL(data);
-      const a = window.document.createElement('a');
-      a.href = url;
-      a.download = document.title;
-      a.click();
-      URL.revokeObjectURL(url);
+      await documentService.downloadDocument(document);
 
       toast({
         title: "Success",
@@ -128,27 +165,6 @@ export const TaskItem = ({
     }
   };
 
-  const handleView = async (document: TaskDocument) => {
-    try {
-      const { data, error } = await supabase.storage
-        .from('documents')
-        .createSignedUrl(document.file_path, 300);
-
-      if (error) throw error;
-
-      setSelectedDocument(document);
-      setPreviewUrl(data.signedUrl);
-      setIsViewOpen(true);
-    } catch (error) {
-      console.error('View error:', error);
-      toast({
-        title: "Error",
-        description: "Failed to view document",
-        variant: "destructive",
-      });
-    }
-  };
-
   const formatDeadline = (deadline: string) => {
     try {
       return format(new Date(deadline), 'MMM d, yyyy');
@@ -162,32 +178,12 @@ export const TaskItem = ({
     return assignedUser.username || assignedUser.full_name || assignedUser.email;
   };
 
-  const getNextStatus = (currentStatus: Task["status"]): Task["status"] => {
-    switch (currentStatus) {
-      case "pending":
-        return "in-progress";
-      case "in-progress":
-        return "completed";
-      case "completed":
-        return "pending";
-      default:
-        return "pending";
-    }
-  };
-
-  const handleStatusClick = async () => {
+  const handleStatusSelect = async (nextStatus: Task["status"]) => {
     try {
-      const nextStatus = getNextStatus(task.status);
-      
-      const { error: updateError } = await supabase
-        .from('tasks')
-        .update({ status: nextStatus })
-        .eq('id', task.id);
-
-      if (updateError) throw updateError;
+      await taskService.updateTaskStatus(task.id, nextStatus);
 
       const updatedTask = { ...task, status: nextStatus };
-      await handleTaskStatusChange(updatedTask);
+      await handleTaskStatusChange(updatedTask, task.status);
       
       if (onStatusChange) {
         onStatusChange(task.id, nextStatus);
@@ -201,59 +197,37 @@ export const TaskItem = ({
     } catch (error) {
       console.error("Error updating task status:", error);
       toast({
-        title: "Error",
-        description: "Failed to update task status",
+        title: error instanceof TaskBlockedError ? "Task is blocked" : "Error",
+        description: error instanceof TaskBlockedError ? error.message : "Failed to update task status",
         variant: "destructive",
       });
     }
   };
 
-  const isPreviewableImage = (fileType: string) => {
-    return ['jpg', 'jpeg', 'png', 'gif', 'webp'].includes(fileType.toLowerCase());
-  };
-
-  const isPreviewableDocument = (fileType: string) => {
-    return ['pdf', 'doc', 'docx', 'docs'].includes(fileType.toLowerCase());
-  };
-
-  const renderPreview = (document: TaskDocument, url: string) => {
-    const fileType = document.file_type.toLowerCase();
-
-    if (isPreviewableImage(fileType)) {
-      return (
-        <img 
-          src={url} 
-          alt={document.title}
-          className="max-w-full h-auto rounded-lg"
-        />
-      );
-    }
-
-    if (isPreviewableDocument(fileType)) {
-      return (
-        <iframe
-          src={`https://docs.google.com/viewer?url=${encodeURIComponent(url)}&embedded=true`}
-          className="w-full h-[600px] rounded-lg"
-          title={document.title}
-        />
-      );
+  const handleConfirmDelete = async () => {
+    setIsDeleting(true);
+    try {
+      await taskService.deleteTask(task.id);
+      onTasksChange();
+      toast({
+        title: "Success",
+        description: "Task deleted successfully",
+      });
+    } catch (error) {
+      console.error("Error deleting task:", error);
+      toast({
+        title: "Error",
+        description: "Failed to delete task",
+        variant: "destructive",
+      });
+    } finally {
+      setIsDeleting(false);
+      setIsDeleteOpen(false);
     }
-
-    return (
-      <div className="text-center p-4">
-        <p>Preview not available for this file type.</p>
-        <Button
-          onClick={() => handleDownload(document)}
-          className="mt-2"
-        >
-          Download Instead
-        </Button>
-      </div>
-    );
   };
 
   return (
-    <div className="flex flex-col border rounded-lg bg-white dark:bg-gray-800 shadow-sm">
+    <div ref={itemRef} className="flex flex-col border rounded-lg bg-white dark:bg-gray-800 shadow-sm">
       <div 
         className="flex items-center justify-between p-4 cursor-pointer"
         onClick={() => setIsExpanded(!isExpanded)}
@@ -270,24 +244,46 @@ export const TaskItem = ({
               <Calendar className="w-4 h-4 flex-shrink-0" />
               <span className="truncate">Due: {formatDeadline(task.deadline)}</span>
             </p>
+            {task.recurrence_rule && (
+              <p className="text-sm text-gray-500 dark:text-gray-400 flex items-center space-x-1">
+                <Repeat className="w-4 h-4 flex-shrink-0" />
+                <span className="truncate">{validateRRule(task.recurrence_rule).summary ?? "Repeats"}</span>
+              </p>
+            )}
+            {progress && (
+              <div className="flex items-center gap-2 pt-1">
+                <ListChecks className="w-4 h-4 text-gray-500 flex-shrink-0" />
+                <Progress value={progress.percent} className="h-1.5 max-w-[160px]" />
+                <span className="text-xs text-gray-500 dark:text-gray-400 whitespace-nowrap">
+                  {progress.completed}/{progress.total}
+                </span>
+              </div>
+            )}
           </div>
         </div>
         <div className="flex items-center gap-2 ml-4 flex-shrink-0">
-          <button
-            onClick={(e) => {
-              e.stopPropagation();
-              handleStatusClick();
-            }}
-            className={`px-3 py-1 rounded-full text-sm font-medium whitespace-nowrap ${
-              task.status === "completed"
-                ? "bg-green-100 text-green-800 dark:bg-green-800 dark:text-green-100"
-                : task.status === "in-progress"
-                ? "bg-blue-100 text-blue-800 dark:bg-blue-800 dark:text-blue-100"
-                : "bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-100"
-            }`}
-          >
-            {task.status.replace("-", " ")}
-          </button>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild disabled={nextStates.length === 0}>
+              <button
+                onClick={(e) => e.stopPropagation()}
+                className={`px-3 py-1 rounded-full text-sm font-medium whitespace-nowrap capitalize disabled:cursor-default ${
+                  STATE_BADGE_CLASSES[currentState?.color ?? "gray"]
+                }`}
+              >
+                {currentState?.label ?? formatStatusKey(task.status)}
+              </button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end" onClick={(e) => e.stopPropagation()}>
+              <DropdownMenuLabel>Move to</DropdownMenuLabel>
+              <DropdownMenuSeparator />
+              {nextStates.map((state) => (
+                <DropdownMenuItem key={state.key} onClick={() => handleStatusSelect(state.key)}>
+                  <span className={`mr-2 h-2 w-2 rounded-full ${STATE_DOT_CLASSES[state.color]}`} />
+                  {state.label}
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
           {isExpanded ? (
             <ChevronUp className="w-5 h-5 text-gray-500 flex-shrink-0" />
           ) : (
@@ -298,6 +294,46 @@ export const TaskItem = ({
       
       {isExpanded && (
         <div className="border-t p-4">
+          {canManageTask && (
+            <div className="flex justify-end gap-2 mb-4">
+              <Button variant="outline" size="sm" onClick={() => setIsEditOpen(true)}>
+                <Pencil className="w-4 h-4 mr-2" />
+                Edit
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setIsDeleteOpen(true)}
+                className="text-red-500 hover:text-red-600 hover:bg-red-50"
+              >
+                <Trash2 className="w-4 h-4 mr-2" />
+                Delete
+              </Button>
+            </div>
+          )}
+          {task.description && (
+            <div className="mb-4">
+              <h4 className="text-sm font-medium mb-2">Description</h4>
+              <MarkdownContent content={task.description} />
+            </div>
+          )}
+          {hasEstimates && (
+            <div className="mb-4 flex flex-wrap gap-4 text-sm text-gray-600 dark:text-gray-300">
+              <span className="flex items-center gap-1">
+                <Clock className="w-4 h-4" />
+                Estimate: {formatHours(task.estimate_hours)}
+              </span>
+              <span className={
+                task.estimate_hours != null && task.actual_hours != null && task.actual_hours > task.estimate_hours
+                  ? "text-red-600"
+                  : ""
+              }>
+                Actual: {formatHours(task.actual_hours)}
+              </span>
+            </div>
+          )}
+          <TaskChecklist task={task} canEdit={canUpdateTask} onChange={onTasksChange} />
+          <TaskDependencies task={task} canEdit={canManageTask} />
           {documents.length > 0 && (
             <div className="mb-4">
               <h4 className="text-sm font-medium mb-2">Attached Documents</h4>
@@ -307,7 +343,7 @@ export const TaskItem = ({
                     <HoverCardTrigger asChild>
                       <div 
                         className="flex items-center justify-between p-2 bg-gray-50 dark:bg-gray-700 rounded hover:bg-gray-100 dark:hover:bg-gray-600 transition-colors cursor-pointer"
-                        onClick={() => handleView(doc)}
+                        onClick={() => setPreviewDocument(doc)}
                       >
                         <div className="flex items-center gap-2 min-w-0 flex-1"> {/* Added min-w-0 and flex-1 */}
                           <FileText className="w-4 h-4 text-gray-500 flex-shrink-0" />
@@ -342,20 +378,48 @@ export const TaskItem = ({
               </div>
             </div>
           )}
-          <CommentList taskId={task.id} />
+          <CommentList taskId={task.id} highlightCommentId={linkedCommentId} />
         </div>
       )}
 
-      <Dialog open={isViewOpen} onOpenChange={setIsViewOpen}>
-        <DialogContent className="max-w-3xl w-[95vw]"> {/* Added w-[95vw] for better mobile display */}
-          <DialogTitle className="text-lg font-semibold truncate">
-            {selectedDocument?.title}
-          </DialogTitle>
-          {selectedDocument && previewUrl && (
-            <div className="mt-4">
-              {renderPreview(selectedDocument, previewUrl)}
-            </div>
-          )}
+      <DocumentPreviewDialog
+        document={previewDocument}
+        open={!!previewDocument}
+        onOpenChange={(open) => !open && setPreviewDocument(null)}
+        onDownload={handleDownload}
+      />
+
+      {canManageTask && (
+        <EditTaskDialog
+          task={task}
+          open={isEditOpen}
+          onOpenChange={setIsEditOpen}
+          onTaskUpdated={() => {
+            fetchTaskDocuments();
+            onTasksChange();
+          }}
+        />
+      )}
+
+      <Dialog open={isDeleteOpen} onOpenChange={setIsDeleteOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <AlertTriangle className="h-5 w-5 text-red-500" />
+              Delete Task
+            </DialogTitle>
+            <DialogDescription>
+              Are you sure you want to delete "{task.title}"? Its comments and notifications will be removed. This action cannot be undone.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter className="sm:justify-start">
+            <Button variant="destructive" onClick={handleConfirmDelete} disabled={isDeleting}>
+              {isDeleting ? "Deleting..." : "Delete"}
+            </Button>
+            <Button variant="outline" onClick={() => setIsDeleteOpen(false)}>
+              Cancel
+            </Button>
+          </DialogFooter>
         </DialogContent>
       </Dialog>
     </div>
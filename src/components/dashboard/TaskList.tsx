@@ -3,6 +3,9 @@ import { Task } from "@/types/task";
 import { supabase } from "@/lib/supabase";
 import { useEffect } from "react";
 import { TaskItem } from "./TaskItem";
+import { Progress } from "@/components/ui/progress";
+import { getTaskProgress } from "@/utils/taskProgress";
+import { useWorkflows } from "@/hooks/use-workflows";
 
 interface TaskListProps {
   title: string;
@@ -19,6 +22,8 @@ export const TaskList = ({
   onStatusChange,
   onTasksChange 
 }: TaskListProps) => {
+  const { isDone } = useWorkflows();
+
   // Subscribe to real-time updates
   useEffect(() => {
     const channel = supabase
@@ -34,6 +39,17 @@ export const TaskList = ({
           onTasksChange();
         }
       )
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'task_subtasks'
+        },
+        () => {
+          onTasksChange();
+        }
+      )
       .subscribe();
 
     return () => {
@@ -41,10 +57,28 @@ export const TaskList = ({
     };
   }, [onTasksChange]);
 
+  // Completed tasks count in full; open tasks contribute their checklist share
+  const overallProgress = tasks.length === 0
+    ? null
+    : Math.round(
+        tasks.reduce((sum, task) => {
+          if (isDone(task)) return sum + 100;
+          return sum + (getTaskProgress(task)?.percent ?? 0);
+        }, 0) / tasks.length
+      );
+
   return (
     <Card className="overflow-hidden">
       <div className="p-4 md:p-6 bg-white dark:bg-gray-800">
         <h2 className="text-lg md:text-xl font-semibold">{title}</h2>
+        {overallProgress !== null && (
+          <div className="flex items-center gap-3 mt-2">
+            <Progress value={overallProgress} className="h-2" />
+            <span className="text-sm text-gray-500 dark:text-gray-400 whitespace-nowrap">
+              {overallProgress}% complete
+            </span>
+          </div>
+        )}
       </div>
       <div className="p-4 md:p-6 space-y-4">
         {tasks.map((task) => (
@@ -0,0 +1,41 @@
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from "@/components/ui/dialog";
+import { Task } from "@/types/task";
+import { TaskFormContent } from "./TaskFormContent";
+
+interface EditTaskDialogProps {
+  task: Task;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onTaskUpdated: (task: Task) => void;
+}
+
+export const EditTaskDialog = ({ task, open, onOpenChange, onTaskUpdated }: EditTaskDialogProps) => {
+  const handleSuccess = (updatedTask: Task) => {
+    onTaskUpdated(updatedTask);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[600px] p-6 gap-6 animate-in fade-in-0 zoom-in-95 duration-200">
+        <DialogHeader className="space-y-3">
+          <DialogTitle className="text-2xl font-semibold tracking-tight">Edit Task</DialogTitle>
+          <DialogDescription className="text-base text-muted-foreground">
+            Update the task details. Changing the assignee notifies the new assignee.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="bg-card rounded-lg">
+          {open && (
+            <TaskFormContent task={task} onSuccess={handleSuccess} onCancel={() => onOpenChange(false)} />
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,63 @@
+import { useState } from "react";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { presetForRule, PRESET_RULES, RecurrencePreset, validateRRule } from "@/lib/recurrence";
+
+interface RecurrenceFieldProps {
+  value: string | null;
+  onChange: (value: string | null) => void;
+}
+
+export const RecurrenceField = ({ value, onChange }: RecurrenceFieldProps) => {
+  const [preset, setPreset] = useState<RecurrencePreset>(presetForRule(value));
+  const { summary, error } = validateRRule(value);
+
+  const handlePresetChange = (next: RecurrencePreset) => {
+    setPreset(next);
+    if (next === "none") onChange(null);
+    else if (next === "custom") onChange(value || "FREQ=WEEKLY;BYDAY=MO");
+    else onChange(PRESET_RULES[next]);
+  };
+
+  return (
+    <div className="space-y-2.5">
+      <label htmlFor="recurrence" className="text-sm font-medium text-foreground">
+        Repeat
+      </label>
+      <Select value={preset} onValueChange={(next: RecurrencePreset) => handlePresetChange(next)}>
+        <SelectTrigger id="recurrence" className="w-full transition-colors">
+          <SelectValue placeholder="Does not repeat" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="none">Does not repeat</SelectItem>
+          <SelectItem value="daily">Daily</SelectItem>
+          <SelectItem value="weekly">Weekly</SelectItem>
+          <SelectItem value="monthly">Monthly</SelectItem>
+          <SelectItem value="custom">Custom (RRULE)</SelectItem>
+        </SelectContent>
+      </Select>
+      {preset === "custom" && (
+        <Input
+          value={value ?? ""}
+          onChange={(e) => onChange(e.target.value.trim() || null)}
+          placeholder="FREQ=MONTHLY;BYDAY=-1FR"
+          className="w-full font-mono text-sm transition-colors"
+          aria-invalid={!!error}
+        />
+      )}
+      {error ? (
+        <p className="text-sm text-destructive">{error}</p>
+      ) : summary ? (
+        <p className="text-sm text-muted-foreground">
+          {summary}, starting from the deadline. The next occurrence is created when this one is closed or falls due.
+        </p>
+      ) : null}
+    </div>
+  );
+};
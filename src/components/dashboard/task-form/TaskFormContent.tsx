@@ -1,6 +1,7 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
 import {
   Select,
   SelectContent,
@@ -11,8 +12,17 @@ import {
 import { useToast } from "@/hooks/use-toast";
 import { Task } from "@/types/task";
 import { supabase } from "@/lib/supabase";
+import { taskService } from "@/services/taskService";
+import { documentService } from "@/services/documentService";
+import { useWorkflows } from "@/hooks/use-workflows";
+import { useUploadQueue } from "@/hooks/use-upload-queue";
+import { validateRRule } from "@/lib/recurrence";
+import { RecurrenceField } from "./RecurrenceField";
+import { UploadDropZone } from "@/components/uploads/UploadDropZone";
+import { UploadQueue } from "@/components/uploads/UploadQueue";
 import { useNavigate } from "react-router-dom";
-import { Upload, X } from "lucide-react";
+import { Upload } from "lucide-react";
+import { format } from "date-fns";
 
 interface Profile {
   id: string;
@@ -22,18 +32,50 @@ interface Profile {
 }
 
 interface TaskFormContentProps {
+  task?: Task;
   onSuccess: (task: Task) => void;
   onCancel: () => void;
 }
 
-export const TaskFormContent = ({ onSuccess, onCancel }: TaskFormContentProps) => {
-  const [title, setTitle] = useState("");
-  const [deadline, setDeadline] = useState("");
-  const [priority, setPriority] = useState<Task["priority"]>("medium");
+const toDateTimeLocal = (value: string) => {
+  try {
+    return format(new Date(value), "yyyy-MM-dd'T'HH:mm");
+  } catch (error) {
+    return value;
+  }
+};
+
+const parseHours = (value: string) => {
+  const hours = parseFloat(value);
+  return Number.isFinite(hours) && hours >= 0 ? hours : null;
+};
+
+export const TaskFormContent = ({ task, onSuccess, onCancel }: TaskFormContentProps) => {
+  const isEditing = !!task;
+  const [title, setTitle] = useState(task?.title ?? "");
+  const [deadline, setDeadline] = useState(task ? toDateTimeLocal(task.deadline) : "");
+  const [priority, setPriority] = useState<Task["priority"]>(task?.priority ?? "medium");
+  const [description, setDescription] = useState(task?.description ?? "");
+  const [estimateHours, setEstimateHours] = useState(task?.estimate_hours?.toString() ?? "");
+  const [actualHours, setActualHours] = useState(task?.actual_hours?.toString() ?? "");
+  const [recurrenceRule, setRecurrenceRule] = useState<string | null>(task?.recurrence_rule ?? null);
   const [assignedTo, setAssignedTo] = useState("");
+  const [teamId, setTeamId] = useState("none");
+  const { teams } = useWorkflows();
   const [employees, setEmployees] = useState<Profile[]>([]);
-  const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
   const [uploading, setUploading] = useState(false);
+  // Set when the task was saved but some attachments still need a retry
+  const [pendingTask, setPendingTask] = useState<Task | null>(null);
+  const uploadTarget = useRef<{ taskId: string; userId: string } | null>(null);
+  const uploads = useUploadQueue({
+    upload: async (item, options) => {
+      if (!uploadTarget.current) throw new Error("Save the task before uploading attachments");
+      const { taskId, userId } = uploadTarget.current;
+      const document = await documentService.uploadDocument(item.file, userId, null, options);
+      await documentService.attachToTask(document.id, taskId);
+    },
+    autoStart: false,
+  });
   const { toast } = useToast();
   const navigate = useNavigate();
 
@@ -53,80 +95,60 @@ export const TaskFormContent = ({ onSuccess, onCancel }: TaskFormContentProps) =
       }
 
       setEmployees(data as Profile[]);
+
+      // Pre-select the current assignee when editing
+      if (task) {
+        const assignee = (data as Profile[]).find(emp => emp.email === task.assigned_to);
+        if (assignee) setAssignedTo(assignee.id);
+      }
     };
 
     fetchEmployees();
-  }, [toast]);
+  }, [toast, task]);
 
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files) {
-      const newFiles = Array.from(e.target.files);
-      setSelectedFiles(prev => [...prev, ...newFiles]);
+  // Attachments wait in the queue until the task they belong to is saved
+  const finishUploads = async (savedTask: Task, successMessage: string) => {
+    const results = await uploads.start();
+    const failed = results.filter((item) => item.status === "error").length;
+
+    if (failed > 0) {
+      setPendingTask(savedTask);
+      toast({
+        title: "Error",
+        description: `${failed} attachment${failed === 1 ? "" : "s"} failed to upload. Retry or remove ${failed === 1 ? "it" : "them"}, then click Finish.`,
+        variant: "destructive",
+      });
+      return;
     }
-  };
 
-  const removeFile = (index: number) => {
-    setSelectedFiles(prev => prev.filter((_, i) => i !== index));
+    onSuccess(savedTask);
+    toast({
+      title: "Success",
+      description: successMessage,
+    });
   };
 
-  const uploadFiles = async (taskId: string) => {
-    if (selectedFiles.length === 0) return [];
-
-    try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) throw new Error("User not authenticated");
-
-      const uploadedDocuments = [];
-
-      for (const file of selectedFiles) {
-        const fileExt = file.name.split('.').pop();
-        const fileName = `${crypto.randomUUID()}.${fileExt}`;
-        const filePath = `${user.id}/${fileName}`;
-
-        const { error: uploadError } = await supabase.storage
-          .from('documents')
-          .upload(filePath, file);
-
-        if (uploadError) throw uploadError;
-
-        const { data: document, error: documentError } = await supabase
-          .from('documents')
-          .insert({
-            title: file.name,
-            file_path: filePath,
-            file_type: fileExt || '',
-            size: file.size,
-            created_by: user.id,
-          })
-          .select()
-          .single();
-
-        if (documentError) throw documentError;
-
-        const { error: linkError } = await supabase
-          .from('documents_tasks')
-          .insert({
-            task_id: taskId,
-            document_id: document.id,
-          });
-
-        if (linkError) throw linkError;
-
-        uploadedDocuments.push(document);
-      }
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
 
-      return uploadedDocuments;
-    } catch (error) {
-      console.error('File upload error:', error);
-      throw error;
+    const recurrenceError = validateRRule(recurrenceRule).error;
+    if (recurrenceError) {
+      toast({
+        title: "Error",
+        description: recurrenceError,
+        variant: "destructive",
+      });
+      return;
     }
-  };
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
     setUploading(true);
     
     try {
+      if (pendingTask) {
+        await finishUploads(pendingTask, isEditing ? "Task updated successfully" : "Task created successfully");
+        return;
+      }
+
       const { data: { user } } = await supabase.auth.getUser();
       
       if (!user) {
@@ -149,11 +171,32 @@ export const TaskFormContent = ({ onSuccess, onCancel }: TaskFormContentProps) =
         return;
       }
 
+      if (task) {
+        await taskService.updateTask(task.id, {
+          title,
+          deadline,
+          priority,
+          description: description.trim() || null,
+          estimate_hours: parseHours(estimateHours),
+          actual_hours: parseHours(actualHours),
+          recurrence_rule: recurrenceRule,
+        });
+        const updatedTask = await taskService.reassignTask(task.id, assignedEmployee.email);
+
+        uploadTarget.current = { taskId: task.id, userId: user.id };
+        await finishUploads(updatedTask, "Task updated successfully");
+        return;
+      }
+
       const newTask = {
         title,
         deadline,
         priority,
-        status: "pending" as const,
+        description: description.trim() || null,
+        estimate_hours: parseHours(estimateHours),
+        recurrence_rule: recurrenceRule,
+        // The team decides the workflow; status starts at its initial state
+        team_id: teamId === "none" ? null : teamId,
         created_by: user.email || "Unknown",
         assigned_to: assignedEmployee.email,
         user_id: user.id,
@@ -167,26 +210,19 @@ export const TaskFormContent = ({ onSuccess, onCancel }: TaskFormContentProps) =
 
       if (taskError) throw taskError;
 
-      if (selectedFiles.length > 0) {
-        await uploadFiles(taskData.id);
-      }
-
       const taskWithCorrectTypes = {
         ...taskData,
         priority: taskData.priority as Task["priority"],
         status: taskData.status as Task["status"]
       } satisfies Task;
 
-      onSuccess(taskWithCorrectTypes);
-      toast({
-        title: "Success",
-        description: "Task created successfully",
-      });
+      uploadTarget.current = { taskId: taskData.id, userId: user.id };
+      await finishUploads(taskWithCorrectTypes, "Task created successfully");
     } catch (error) {
-      console.error("Task creation error:", error);
+      console.error(isEditing ? "Task update error:" : "Task creation error:", error);
       toast({
         title: "Error",
-        description: "Failed to create task",
+        description: isEditing ? "Failed to update task" : "Failed to create task",
         variant: "destructive",
       });
     } finally {
@@ -210,6 +246,18 @@ export const TaskFormContent = ({ onSuccess, onCancel }: TaskFormContentProps) =
             required
           />
         </div>
+        <div className="space-y-2.5">
+          <label htmlFor="description" className="text-sm font-medium text-foreground">
+            Description
+          </label>
+          <Textarea
+            id="description"
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            placeholder="Add details, acceptance criteria or links (Markdown supported)"
+            className="w-full min-h-[100px] transition-colors"
+          />
+        </div>
         <div className="space-y-2.5">
           <label htmlFor="deadline" className="text-sm font-medium text-foreground">
             Deadline
@@ -223,6 +271,7 @@ export const TaskFormContent = ({ onSuccess, onCancel }: TaskFormContentProps) =
             required
           />
         </div>
+        <RecurrenceField value={recurrenceRule} onChange={setRecurrenceRule} />
         <div className="space-y-2.5">
           <label htmlFor="priority" className="text-sm font-medium text-foreground">
             Priority
@@ -241,6 +290,60 @@ export const TaskFormContent = ({ onSuccess, onCancel }: TaskFormContentProps) =
             </SelectContent>
           </Select>
         </div>
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2.5">
+            <label htmlFor="estimateHours" className="text-sm font-medium text-foreground">
+              Estimate (hours)
+            </label>
+            <Input
+              id="estimateHours"
+              type="number"
+              min={0}
+              step={0.25}
+              value={estimateHours}
+              onChange={(e) => setEstimateHours(e.target.value)}
+              placeholder="e.g. 4"
+              className="w-full transition-colors"
+            />
+          </div>
+          {isEditing && (
+            <div className="space-y-2.5">
+              <label htmlFor="actualHours" className="text-sm font-medium text-foreground">
+                Actual (hours)
+              </label>
+              <Input
+                id="actualHours"
+                type="number"
+                min={0}
+                step={0.25}
+                value={actualHours}
+                onChange={(e) => setActualHours(e.target.value)}
+                placeholder="Time spent"
+                className="w-full transition-colors"
+              />
+            </div>
+          )}
+        </div>
+        {!isEditing && teams.length > 0 && (
+          <div className="space-y-2.5">
+            <label htmlFor="team" className="text-sm font-medium text-foreground">
+              Team
+            </label>
+            <Select value={teamId} onValueChange={setTeamId}>
+              <SelectTrigger id="team" className="w-full transition-colors">
+                <SelectValue placeholder="Select team" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">No team (standard workflow)</SelectItem>
+                {teams.map((team) => (
+                  <SelectItem key={team.id} value={team.id}>
+                    {team.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
         <div className="space-y-2.5">
           <label htmlFor="assignedTo" className="text-sm font-medium text-foreground">
             Assign To
@@ -262,38 +365,21 @@ export const TaskFormContent = ({ onSuccess, onCancel }: TaskFormContentProps) =
           </Select>
         </div>
         <div className="space-y-2.5">
-          <label htmlFor="file" className="text-sm font-medium text-foreground">
+          <label className="text-sm font-medium text-foreground">
             Attachments
           </label>
           <div className="space-y-4">
-            <Input
-              id="file"
-              type="file"
-              onChange={handleFileChange}
-              className="w-full transition-colors"
-              accept=".doc,.docx,.pdf,.jpg,.jpeg,.png"
-              multiple
+            <UploadDropZone
+              onFiles={(files) => uploads.addFiles(files)}
+              disabled={uploading}
+              className="p-4"
+            />
+            <UploadQueue
+              items={uploads.items}
+              onCancel={uploads.cancel}
+              onRetry={uploads.retry}
+              onRemove={uploads.remove}
             />
-            {selectedFiles.length > 0 && (
-              <div className="space-y-2">
-                {selectedFiles.map((file, index) => (
-                  <div 
-                    key={index}
-                    className="flex items-center justify-between p-2 bg-gray-50 dark:bg-gray-800 rounded"
-                  >
-                    <span className="text-sm truncate">{file.name}</span>
-                    <Button
-                      type="button"
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => removeFile(index)}
-                    >
-                      <X className="h-4 w-4" />
-                    </Button>
-                  </div>
-                ))}
-              </div>
-            )}
           </div>
         </div>
       </div>
@@ -301,11 +387,11 @@ export const TaskFormContent = ({ onSuccess, onCancel }: TaskFormContentProps) =
         <Button
           type="button"
           variant="outline"
-          onClick={onCancel}
+          onClick={pendingTask ? () => onSuccess(pendingTask) : onCancel}
           className="transition-colors"
           disabled={uploading}
         >
-          Cancel
+          {pendingTask ? "Close" : "Cancel"}
         </Button>
         <Button 
           type="submit"
@@ -315,10 +401,12 @@ export const TaskFormContent = ({ onSuccess, onCancel }: TaskFormContentProps) =
           {uploading ? (
             <>
               <Upload className="mr-2 h-4 w-4 animate-spin" />
-              Creating Task...
+              {isEditing ? 'Saving Changes...' : 'Creating Task...'}
             </>
+          ) : pendingTask ? (
+            'Finish'
           ) : (
-            'Create Task'
+            isEditing ? 'Save Changes' : 'Create Task'
           )}
         </Button>
       </div>
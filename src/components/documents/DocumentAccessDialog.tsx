@@ -0,0 +1,302 @@
+import { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Building2, Plus, ShieldCheck, User, Users, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useToast } from "@/hooks/use-toast";
+import { ROLES } from "@/lib/permissions";
+import { documentService } from "@/services/documentService";
+import { workflowService } from "@/services/workflowService";
+import { Document, DocumentPermission, DocumentPrincipalType } from "@/types/document";
+
+interface PersonOption {
+  id: string;
+  full_name: string;
+  email: string;
+}
+
+interface DocumentAccessDialogProps {
+  document: Document | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  people: PersonOption[];
+  userId?: string;
+}
+
+const ACTION_LABELS: Record<string, string> = {
+  view: "viewed",
+  download: "downloaded",
+  trash: "moved to trash",
+  restore: "restored",
+  delete: "deleted",
+};
+
+const PRINCIPAL_ICONS = {
+  user: User,
+  role: ShieldCheck,
+  team: Building2,
+};
+
+export const DocumentAccessDialog = ({ document, open, onOpenChange, people, userId }: DocumentAccessDialogProps) => {
+  const [principalType, setPrincipalType] = useState<DocumentPrincipalType>("user");
+  const [principalId, setPrincipalId] = useState("");
+  const [access, setAccess] = useState<DocumentPermission["access"]>("view");
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: permissions = [], isLoading } = useQuery({
+    queryKey: ['document-permissions', document?.id],
+    queryFn: () => documentService.getPermissions(document!.id),
+    enabled: open && !!document,
+  });
+
+  const { data: accessLog = [], isLoading: isLogLoading } = useQuery({
+    queryKey: ['document-access-log', document?.id],
+    queryFn: () => documentService.getAccessLog(document!.id),
+    enabled: open && !!document,
+  });
+
+  const { data: teams = [] } = useQuery({
+    queryKey: ['teams'],
+    queryFn: workflowService.getTeams,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const personNames = new Map(people.map((person) => [person.id, person.full_name || person.email]));
+
+  const principalOf = (permission: DocumentPermission): { type: DocumentPrincipalType; label: string } => {
+    if (permission.user_id) {
+      return { type: "user", label: permission.user?.full_name || permission.user?.email || "Unknown user" };
+    }
+    if (permission.team_id) return { type: "team", label: permission.team?.name ?? "Unknown team" };
+    return { type: "role", label: `Everyone with the ${permission.role} role` };
+  };
+
+  // Principals that already hold a grant are edited in place instead
+  const options =
+    principalType === "user"
+      ? people
+          .filter((person) => person.id !== document?.owner_id && !permissions.some((p) => p.user_id === person.id))
+          .map((person) => ({ id: person.id, label: person.full_name || person.email }))
+      : principalType === "team"
+        ? teams
+            .filter((team) => !permissions.some((p) => p.team_id === team.id))
+            .map((team) => ({ id: team.id, label: team.name }))
+        : ROLES.filter((role) => !permissions.some((p) => p.role === role)).map((role) => ({ id: role, label: role }));
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ['document-permissions', document?.id] });
+  };
+
+  const handleAdd = async () => {
+    if (!document || !userId || !principalId) return;
+
+    setIsSaving(true);
+    try {
+      await documentService.addPermission(
+        document.id,
+        {
+          user_id: principalType === "user" ? principalId : null,
+          role: principalType === "role" ? principalId : null,
+          team_id: principalType === "team" ? principalId : null,
+        },
+        access,
+        userId
+      );
+      setPrincipalId("");
+      refresh();
+    } catch (error) {
+      console.error("Error sharing document:", error);
+      toast({
+        title: "Error",
+        description: "Failed to share document",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleAccessChange = async (permission: DocumentPermission, next: DocumentPermission["access"]) => {
+    try {
+      await documentService.updatePermission(permission.id, next);
+      refresh();
+    } catch (error) {
+      console.error("Error updating access:", error);
+      toast({
+        title: "Error",
+        description: "Failed to update access",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleRemove = async (permission: DocumentPermission) => {
+    try {
+      await documentService.removePermission(permission.id);
+      refresh();
+    } catch (error) {
+      console.error("Error removing access:", error);
+      toast({
+        title: "Error",
+        description: "Failed to remove access",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Users className="w-5 h-5" />
+            Sharing & Access
+          </DialogTitle>
+          <DialogDescription className="truncate">{document?.title}</DialogDescription>
+        </DialogHeader>
+
+        <Tabs defaultValue="sharing">
+          <TabsList>
+            <TabsTrigger value="sharing">Sharing</TabsTrigger>
+            <TabsTrigger value="history">Access history</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="sharing" className="space-y-4">
+            <p className="text-sm text-gray-500">
+              Owned by {(document?.owner_id && personNames.get(document.owner_id)) || "Unknown user"}. Admins and
+              managers can always open it, as can anyone who can see a task or comment it is attached to.
+            </p>
+
+            <div className="flex flex-col sm:flex-row gap-2">
+              <Select
+                value={principalType}
+                onValueChange={(next: DocumentPrincipalType) => {
+                  setPrincipalType(next);
+                  setPrincipalId("");
+                }}
+              >
+                <SelectTrigger className="sm:w-28">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="user">Person</SelectItem>
+                  <SelectItem value="role">Role</SelectItem>
+                  <SelectItem value="team">Team</SelectItem>
+                </SelectContent>
+              </Select>
+              <Select value={principalId} onValueChange={setPrincipalId}>
+                <SelectTrigger className="flex-1">
+                  <SelectValue placeholder="Share with..." />
+                </SelectTrigger>
+                <SelectContent>
+                  {options.map((option) => (
+                    <SelectItem key={option.id} value={option.id}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={access} onValueChange={(next: DocumentPermission["access"]) => setAccess(next)}>
+                <SelectTrigger className="sm:w-28">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="view">Can view</SelectItem>
+                  <SelectItem value="edit">Can edit</SelectItem>
+                </SelectContent>
+              </Select>
+              <Button onClick={handleAdd} disabled={!principalId || isSaving}>
+                <Plus className="w-4 h-4" />
+              </Button>
+            </div>
+
+            {isLoading && <p className="text-sm text-gray-500">Loading...</p>}
+            {!isLoading && permissions.length === 0 && (
+              <p className="text-sm text-gray-500">Not shared with anyone yet</p>
+            )}
+            <ul className="space-y-2 max-h-[40vh] overflow-y-auto">
+              {permissions.map((permission) => {
+                const { type, label } = principalOf(permission);
+                const Icon = PRINCIPAL_ICONS[type];
+
+                return (
+                  <li key={permission.id} className="flex items-center justify-between gap-2 p-2 border rounded-lg">
+                    <span className="flex items-center gap-2 text-sm min-w-0">
+                      <Icon className="w-4 h-4 text-gray-400 flex-shrink-0" />
+                      <span className="truncate">{label}</span>
+                    </span>
+                    <div className="flex items-center gap-2 flex-shrink-0">
+                      <Select
+                        value={permission.access}
+                        onValueChange={(next: DocumentPermission["access"]) => handleAccessChange(permission, next)}
+                      >
+                        <SelectTrigger className="h-8 w-28 text-sm">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="view">Can view</SelectItem>
+                          <SelectItem value="edit">Can edit</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-8 w-8 p-0"
+                        onClick={() => handleRemove(permission)}
+                        aria-label="Remove access"
+                      >
+                        <X className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          </TabsContent>
+
+          <TabsContent value="history">
+            {isLogLoading && <p className="text-sm text-gray-500">Loading...</p>}
+            {!isLogLoading && accessLog.length === 0 && (
+              <p className="text-sm text-gray-500">No access recorded yet</p>
+            )}
+            <ul className="space-y-1 max-h-[50vh] overflow-y-auto">
+              {accessLog.map((entry) => (
+                <li key={entry.id} className="flex items-center justify-between gap-2 p-2 text-sm border-b last:border-0">
+                  <span className="truncate">
+                    <span className="font-medium">
+                      {(entry.user_id && personNames.get(entry.user_id)) || "Unknown user"}
+                    </span>{" "}
+                    {ACTION_LABELS[entry.action] ?? entry.action}
+                    {entry.new_data?.version_id && entry.new_data.version_id !== document?.current_version_id
+                      ? " an older version"
+                      : ""}
+                  </span>
+                  <span className="text-xs text-gray-500 flex-shrink-0">
+                    {new Date(entry.created_at).toLocaleString()}
+                    {entry.ip_address && ` • ${entry.ip_address}`}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,239 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Document, DocumentFolder, DocumentRetentionRule, DocumentUpdate } from "@/types/document";
+import { formatFolderPath } from "@/utils/documentFolders";
+
+const NONE = "none";
+
+interface OwnerOption {
+  id: string;
+  full_name: string;
+  email: string;
+}
+
+interface DocumentDetailsDialogProps {
+  document: Document | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  folders: DocumentFolder[];
+  owners: OwnerOption[];
+  retentionRules: DocumentRetentionRule[];
+  // Handing a document to someone else or changing how long it is kept is
+  // limited to those who manage it
+  canManage: boolean;
+  canSetLegalHold: boolean;
+  onSave: (updates: DocumentUpdate) => Promise<void>;
+}
+
+const parseTags = (value: string) =>
+  [...new Set(value.split(",").map((tag) => tag.trim().toLowerCase()).filter(Boolean))];
+
+export const DocumentDetailsDialog = ({
+  document,
+  open,
+  onOpenChange,
+  folders,
+  owners,
+  retentionRules,
+  canManage,
+  canSetLegalHold,
+  onSave,
+}: DocumentDetailsDialogProps) => {
+  const [title, setTitle] = useState("");
+  const [folderId, setFolderId] = useState(NONE);
+  const [tags, setTags] = useState("");
+  const [ownerId, setOwnerId] = useState(NONE);
+  const [department, setDepartment] = useState("");
+  const [category, setCategory] = useState(NONE);
+  const [legalHold, setLegalHold] = useState(false);
+  const [legalHoldReason, setLegalHoldReason] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (open && document) {
+      setTitle(document.title);
+      setFolderId(document.folder_id ?? NONE);
+      setTags((document.tags ?? []).join(", "));
+      setOwnerId(document.owner_id ?? NONE);
+      setDepartment(document.department ?? "");
+      setCategory(document.category ?? NONE);
+      setLegalHold(!!document.legal_hold);
+      setLegalHoldReason(document.legal_hold_reason ?? "");
+    }
+  }, [open, document]);
+
+  const folderOptions = folders
+    .map((folder) => ({ id: folder.id, label: formatFolderPath(folders, folder.id) }))
+    .sort((a, b) => a.label.localeCompare(b.label));
+
+  const handleSave = async () => {
+    if (!title.trim()) return;
+
+    setIsSaving(true);
+    try {
+      await onSave({
+        title: title.trim(),
+        folder_id: folderId === NONE ? null : folderId,
+        tags: parseTags(tags),
+        ...(canManage && {
+          owner_id: ownerId === NONE ? null : ownerId,
+          category: category === NONE ? null : category,
+        }),
+        department: department.trim() || null,
+        ...(canSetLegalHold && {
+          legal_hold: legalHold,
+          legal_hold_reason: legalHold ? legalHoldReason.trim() || null : null,
+        }),
+      });
+      onOpenChange(false);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>Document Details</DialogTitle>
+          <DialogDescription>Rename the document, move it to another folder or update its metadata.</DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-4 py-4">
+          <div className="space-y-2">
+            <label htmlFor="document-title" className="text-sm font-medium">
+              Name
+            </label>
+            <Input id="document-title" value={title} onChange={(e) => setTitle(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <label htmlFor="document-folder" className="text-sm font-medium">
+              Folder
+            </label>
+            <Select value={folderId} onValueChange={setFolderId}>
+              <SelectTrigger id="document-folder">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NONE}>No folder</SelectItem>
+                {folderOptions.map((option) => (
+                  <SelectItem key={option.id} value={option.id}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <label htmlFor="document-tags" className="text-sm font-medium">
+              Tags
+            </label>
+            <Input
+              id="document-tags"
+              value={tags}
+              onChange={(e) => setTags(e.target.value)}
+              placeholder="contract, 2026, onboarding"
+            />
+            <p className="text-xs text-muted-foreground">Separate tags with commas.</p>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <label htmlFor="document-owner" className="text-sm font-medium">
+                Owner
+              </label>
+              <Select value={ownerId} onValueChange={setOwnerId} disabled={!canManage}>
+                <SelectTrigger id="document-owner">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>Unassigned</SelectItem>
+                  {owners.map((owner) => (
+                    <SelectItem key={owner.id} value={owner.id}>
+                      {owner.full_name || owner.email}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <label htmlFor="document-department" className="text-sm font-medium">
+                Department
+              </label>
+              <Input
+                id="document-department"
+                value={department}
+                onChange={(e) => setDepartment(e.target.value)}
+                placeholder="Finance"
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <label htmlFor="document-category" className="text-sm font-medium">
+              Retention category
+            </label>
+            <Select value={category} onValueChange={setCategory} disabled={!canManage}>
+              <SelectTrigger id="document-category">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NONE}>Default</SelectItem>
+                {retentionRules
+                  .filter((rule) => rule.category !== "default")
+                  .map((rule) => (
+                    <SelectItem key={rule.category} value={rule.category}>
+                      {rule.category}
+                    </SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {canSetLegalHold && (
+            <div className="space-y-2 rounded-md border p-3">
+              <div className="flex items-center justify-between gap-4">
+                <label htmlFor="document-legal-hold" className="text-sm font-medium">
+                  Legal hold
+                </label>
+                <Switch id="document-legal-hold" checked={legalHold} onCheckedChange={setLegalHold} />
+              </div>
+              <p className="text-xs text-muted-foreground">
+                A document on hold cannot be moved to the trash or deleted until the hold is lifted.
+              </p>
+              {legalHold && (
+                <Input
+                  value={legalHoldReason}
+                  onChange={(e) => setLegalHoldReason(e.target.value)}
+                  placeholder="Reason, e.g. a case or request reference"
+                  aria-label="Legal hold reason"
+                />
+              )}
+            </div>
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving || !title.trim()}>
+            {isSaving ? "Saving..." : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,103 @@
+import { useEffect, useState } from "react";
+import { Download } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { documentService } from "@/services/documentService";
+import { Document, DocumentPreview } from "@/types/document";
+
+type PreviewableDocument = Pick<Document, "id" | "title" | "file_path" | "file_type">;
+
+interface DocumentPreviewDialogProps {
+  document: PreviewableDocument | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onDownload: (document: PreviewableDocument) => void;
+}
+
+export const DocumentPreviewDialog = ({ document, open, onOpenChange, onDownload }: DocumentPreviewDialogProps) => {
+  const [preview, setPreview] = useState<DocumentPreview | null>(null);
+  const [error, setError] = useState(false);
+
+  useEffect(() => {
+    if (!open || !document) return;
+
+    let cancelled = false;
+    let objectUrl: string | null = null;
+    setPreview(null);
+    setError(false);
+
+    documentService
+      .getPreview(document)
+      .then((result) => {
+        if ("url" in result) objectUrl = result.url;
+        if (cancelled) {
+          if (objectUrl) URL.revokeObjectURL(objectUrl);
+          return;
+        }
+        setPreview(result);
+      })
+      .catch((err) => {
+        console.error("Preview error:", err);
+        if (!cancelled) setError(true);
+      });
+
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [open, document]);
+
+  const renderPreview = () => {
+    if (!document) return null;
+
+    if (error || preview?.kind === "none") {
+      return (
+        <div className="text-center p-4">
+          <p>{error ? "This document could not be previewed." : "Preview not available for this file type."}</p>
+          <Button onClick={() => onDownload(document)} className="mt-2">
+            <Download className="w-4 h-4 mr-2" />
+            Download Instead
+          </Button>
+        </div>
+      );
+    }
+
+    if (!preview) {
+      return <p className="text-sm text-gray-500 text-center p-4">Loading preview...</p>;
+    }
+
+    if (preview.kind === "html") {
+      // Converted documents are untrusted markup: no scripts, no same-origin access
+      return (
+        <iframe
+          srcDoc={preview.html}
+          sandbox=""
+          className="w-full h-[70vh] rounded-lg border bg-white"
+          title={document.title}
+        />
+      );
+    }
+
+    if (preview.kind === "pdf") {
+      return <iframe src={preview.url} className="w-full h-[70vh] rounded-lg border" title={document.title} />;
+    }
+
+    return <img src={preview.url} alt={document.title} className="max-w-full h-auto rounded-lg" />;
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl w-[95vw]">
+        <DialogHeader>
+          <DialogTitle className="text-lg font-semibold truncate">{document?.title}</DialogTitle>
+        </DialogHeader>
+        <div className="mt-2">{renderPreview()}</div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,162 @@
+import { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { AlertTriangle, FileText, Lock, RotateCcw, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { documentService } from "@/services/documentService";
+import { Document } from "@/types/document";
+import { formatFileSize } from "@/utils/fileSize";
+
+interface DocumentTrashProps {
+  // Called after a restore so the document list picks the document up again
+  onRestored: () => void;
+}
+
+// Documents the user manages that are waiting to be purged. Each can be
+// restored until its purge date or deleted for good right away, unless it is
+// under legal hold.
+export const DocumentTrash = ({ onRestored }: DocumentTrashProps) => {
+  const [documentToPurge, setDocumentToPurge] = useState<Document | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: documents = [], isLoading } = useQuery({
+    queryKey: ['document-trash'],
+    queryFn: documentService.getTrash,
+  });
+
+  const handleRestore = async (document: Document) => {
+    setIsWorking(true);
+    try {
+      await documentService.restoreDocument(document.id);
+      queryClient.invalidateQueries({ queryKey: ['document-trash'] });
+      onRestored();
+      toast({
+        title: "Success",
+        description: `Restored ${document.title}`,
+      });
+    } catch (error) {
+      console.error('Restore error:', error);
+      toast({
+        title: "Error",
+        description: "Failed to restore document",
+        variant: "destructive",
+      });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleConfirmPurge = async () => {
+    if (!documentToPurge) return;
+
+    setIsWorking(true);
+    try {
+      await documentService.purgeDocument(documentToPurge.id);
+      queryClient.invalidateQueries({ queryKey: ['document-trash'] });
+      queryClient.invalidateQueries({ queryKey: ['storage-usage'] });
+      toast({
+        title: "Success",
+        description: "Document deleted permanently",
+      });
+    } catch (error) {
+      console.error('Purge error:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to delete document",
+        variant: "destructive",
+      });
+    } finally {
+      setIsWorking(false);
+      setDocumentToPurge(null);
+    }
+  };
+
+  if (isLoading) {
+    return <p className="text-sm text-gray-500 text-center py-8">Loading...</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {documents.length === 0 && (
+        <p className="text-sm text-gray-500 text-center py-8">The trash is empty</p>
+      )}
+      {documents.map((doc) => (
+        <div
+          key={doc.id}
+          className="flex flex-col md:flex-row md:items-center justify-between p-3 md:p-4 border rounded-lg gap-3 md:gap-4"
+        >
+          <div className="flex items-start md:items-center gap-3 md:gap-4 min-w-0">
+            <FileText className="w-5 h-5 md:w-6 md:h-6 text-gray-400 flex-shrink-0" />
+            <div className="min-w-0">
+              <h3 className="font-medium text-sm md:text-base truncate">{doc.title}</h3>
+              <p className="text-xs md:text-sm text-gray-500 truncate">
+                {doc.file_type.toUpperCase()} • {formatFileSize(doc.size)} •
+                Deleted {new Date(doc.deleted_at!).toLocaleDateString()}
+              </p>
+              {doc.legal_hold ? (
+                <p className="flex items-center gap-1 text-xs text-amber-700">
+                  <Lock className="w-3 h-3" />
+                  On legal hold{doc.legal_hold_reason && `: ${doc.legal_hold_reason}`}. Kept until the hold is lifted.
+                </p>
+              ) : (
+                doc.purge_after && (
+                  <p className="text-xs text-gray-500">
+                    Deleted permanently on {new Date(doc.purge_after).toLocaleDateString()}
+                  </p>
+                )
+              )}
+            </div>
+          </div>
+          <div className="flex items-center gap-2 ml-9 md:ml-0">
+            <Button variant="outline" size="sm" onClick={() => handleRestore(doc)} disabled={isWorking}>
+              <RotateCcw className="w-4 h-4 mr-2" />
+              Restore
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setDocumentToPurge(doc)}
+              disabled={isWorking || !!doc.legal_hold}
+              className="text-red-500 hover:text-red-600 hover:bg-red-50"
+            >
+              <Trash2 className="w-4 h-4 mr-2" />
+              Delete forever
+            </Button>
+          </div>
+        </div>
+      ))}
+
+      <Dialog open={!!documentToPurge} onOpenChange={(open) => !open && setDocumentToPurge(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <AlertTriangle className="h-5 w-5 text-red-500" />
+              Delete Permanently
+            </DialogTitle>
+            <DialogDescription>
+              Delete "{documentToPurge?.title}" and all of its versions permanently? This action cannot be undone.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter className="sm:justify-start">
+            <Button variant="destructive" onClick={handleConfirmPurge} disabled={isWorking}>
+              Delete forever
+            </Button>
+            <Button variant="outline" onClick={() => setDocumentToPurge(null)}>
+              Cancel
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
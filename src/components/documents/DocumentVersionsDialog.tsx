@@ -0,0 +1,205 @@
+import { useRef, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Download, History, RotateCcw, Upload } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { documentService } from "@/services/documentService";
+import { Document, DocumentVersion } from "@/types/document";
+import { validateFile } from "@/utils/documentSecurity";
+import { formatFileSize } from "@/utils/fileSize";
+
+interface DocumentVersionsDialogProps {
+  document: Document | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  canEdit: boolean;
+  userId?: string;
+  onChange: () => void;
+}
+
+// "report.pdf" version 2 downloads as "report-v2.pdf"
+const versionFileName = (title: string, version: DocumentVersion) => {
+  const base = title.replace(/\.[^.]+$/, "");
+  return `${base}-v${version.version_number}.${version.file_type}`;
+};
+
+export const DocumentVersionsDialog = ({
+  document,
+  open,
+  onOpenChange,
+  canEdit,
+  userId,
+  onChange,
+}: DocumentVersionsDialogProps) => {
+  const [isUploading, setIsUploading] = useState(false);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: versions = [], isLoading } = useQuery({
+    queryKey: ['document-versions', document?.id],
+    queryFn: () => documentService.getVersions(document!.id),
+    enabled: open && !!document,
+  });
+
+  const versionNumbers = new Map(versions.map((version) => [version.id, version.version_number]));
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ['document-versions', document?.id] });
+    onChange();
+  };
+
+  const handleUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file || !document || !userId || !validateFile(file)) return;
+
+    setIsUploading(true);
+    try {
+      await documentService.uploadVersion(document.id, file, userId);
+      toast({
+        title: "Success",
+        description: "New version uploaded",
+      });
+      refresh();
+    } catch (error) {
+      console.error("Version upload error:", error);
+      toast({
+        title: "Error",
+        description: "Failed to upload new version",
+        variant: "destructive",
+      });
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleRestore = async (version: DocumentVersion) => {
+    if (!userId) return;
+
+    setRestoringId(version.id);
+    try {
+      await documentService.restoreVersion(version, userId);
+      toast({
+        title: "Success",
+        description: `Version ${version.version_number} restored`,
+      });
+      refresh();
+    } catch (error) {
+      console.error("Restore error:", error);
+      toast({
+        title: "Error",
+        description: "Failed to restore version",
+        variant: "destructive",
+      });
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  const handleDownload = async (version: DocumentVersion) => {
+    if (!document) return;
+
+    try {
+      await documentService.downloadDocument(
+        {
+          id: document.id,
+          title: versionFileName(document.title, version),
+        },
+        version.id
+      );
+    } catch (error) {
+      console.error("Download error:", error);
+      toast({
+        title: "Error",
+        description: "Failed to download version",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="w-5 h-5" />
+            Version History
+          </DialogTitle>
+          <DialogDescription className="truncate">{document?.title}</DialogDescription>
+        </DialogHeader>
+
+        {canEdit && (
+          <div>
+            <input
+              ref={fileInputRef}
+              type="file"
+              className="hidden"
+              accept=".doc,.docx,.pdf,.jpg,.jpeg,.png"
+              onChange={handleUpload}
+            />
+            <Button variant="outline" onClick={() => fileInputRef.current?.click()} disabled={isUploading}>
+              <Upload className="w-4 h-4 mr-2" />
+              {isUploading ? "Uploading..." : "Upload New Version"}
+            </Button>
+          </div>
+        )}
+
+        <div className="space-y-2 max-h-[50vh] overflow-y-auto">
+          {isLoading && <p className="text-sm text-gray-500">Loading versions...</p>}
+          {versions.map((version) => {
+            const isCurrent = version.id === document?.current_version_id;
+            const restoredFrom = version.restored_from ? versionNumbers.get(version.restored_from) : undefined;
+
+            return (
+              <div
+                key={version.id}
+                className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 p-3 border rounded-lg"
+              >
+                <div className="min-w-0">
+                  <p className="font-medium text-sm flex items-center gap-2">
+                    Version {version.version_number}
+                    {isCurrent && <Badge variant="secondary">Current</Badge>}
+                    {restoredFrom !== undefined && (
+                      <span className="text-xs text-gray-500">restored from v{restoredFrom}</span>
+                    )}
+                  </p>
+                  <p className="text-xs text-gray-500 truncate">
+                    {version.uploader?.full_name || version.uploader?.email || "Unknown user"} •{" "}
+                    {new Date(version.created_at).toLocaleString()} • {version.file_type.toUpperCase()} •{" "}
+                    {formatFileSize(version.size)}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Button variant="ghost" size="icon" onClick={() => handleDownload(version)} aria-label="Download version">
+                    <Download className="w-4 h-4" />
+                  </Button>
+                  {canEdit && !isCurrent && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleRestore(version)}
+                      disabled={restoringId !== null}
+                    >
+                      <RotateCcw className="w-4 h-4 mr-1" />
+                      {restoringId === version.id ? "Restoring..." : "Restore"}
+                    </Button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
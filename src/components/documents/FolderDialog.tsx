@@ -0,0 +1,113 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { DocumentFolder } from "@/types/document";
+import { formatFolderPath, getFolderSubtreeIds } from "@/utils/documentFolders";
+
+const ROOT = "root";
+
+interface FolderDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  folders: DocumentFolder[];
+  // The folder being renamed/moved; null when creating one
+  folder: DocumentFolder | null;
+  defaultParentId: string | null;
+  onSave: (name: string, parentId: string | null) => Promise<void>;
+}
+
+export const FolderDialog = ({ open, onOpenChange, folders, folder, defaultParentId, onSave }: FolderDialogProps) => {
+  const [name, setName] = useState("");
+  const [parentId, setParentId] = useState<string>(ROOT);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setName(folder?.name ?? "");
+      setParentId((folder ? folder.parent_id : defaultParentId) ?? ROOT);
+    }
+  }, [open, folder, defaultParentId]);
+
+  // A folder cannot move into itself or below itself
+  const excluded = folder ? getFolderSubtreeIds(folders, folder.id) : new Set<string>();
+  const parentOptions = folders
+    .filter((candidate) => !excluded.has(candidate.id))
+    .map((candidate) => ({ id: candidate.id, label: formatFolderPath(folders, candidate.id) }))
+    .sort((a, b) => a.label.localeCompare(b.label));
+
+  const handleSave = async () => {
+    if (!name.trim()) return;
+
+    setIsSaving(true);
+    try {
+      await onSave(name, parentId === ROOT ? null : parentId);
+      onOpenChange(false);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[420px]">
+        <DialogHeader>
+          <DialogTitle>{folder ? "Rename or Move Folder" : "New Folder"}</DialogTitle>
+        </DialogHeader>
+        <div className="grid gap-4 py-4">
+          <div className="space-y-2">
+            <label htmlFor="folder-name" className="text-sm font-medium">
+              Name
+            </label>
+            <Input
+              id="folder-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              maxLength={100}
+              autoFocus
+            />
+          </div>
+          <div className="space-y-2">
+            <label htmlFor="folder-parent" className="text-sm font-medium">
+              Location
+            </label>
+            <Select value={parentId} onValueChange={setParentId}>
+              <SelectTrigger id="folder-parent">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ROOT}>Top level</SelectItem>
+                {parentOptions.map((option) => (
+                  <SelectItem key={option.id} value={option.id}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving || !name.trim()}>
+            {isSaving ? "Saving..." : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,130 @@
+import { useEffect, useState } from "react";
+import { ChevronDown, ChevronRight, Folder, FolderOpen, Library, MoreHorizontal, Pencil, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { DocumentFolder, DocumentFolderNode } from "@/types/document";
+
+interface FolderTreeProps {
+  tree: DocumentFolderNode[];
+  selectedFolderId: string | null;
+  // Folders on the path to the selection start expanded
+  expandedIds: Set<string>;
+  onSelect: (folderId: string | null) => void;
+  canCreate: boolean;
+  canManage: (folder: DocumentFolder) => boolean;
+  onCreate: (parentId: string | null) => void;
+  onEdit: (folder: DocumentFolder) => void;
+  onDelete: (folder: DocumentFolder) => void;
+}
+
+type FolderTreeItemProps = Omit<FolderTreeProps, "tree"> & {
+  node: DocumentFolderNode;
+  depth: number;
+};
+
+const FolderTreeItem = ({ node, depth, ...props }: FolderTreeItemProps) => {
+  const { folder, children } = node;
+  const [isOpen, setIsOpen] = useState(props.expandedIds.has(folder.id));
+  const isSelected = props.selectedFolderId === folder.id;
+
+  useEffect(() => {
+    if (props.expandedIds.has(folder.id)) setIsOpen(true);
+  }, [props.expandedIds, folder.id]);
+
+  return (
+    <li>
+      <div
+        className={`group flex items-center gap-1 rounded px-1 py-1 text-sm cursor-pointer ${
+          isSelected ? "bg-primary/10 text-primary" : "hover:bg-gray-100 dark:hover:bg-gray-700"
+        }`}
+        style={{ paddingLeft: `${depth * 12 + 4}px` }}
+        onClick={() => props.onSelect(folder.id)}
+      >
+        <button
+          className={`p-0.5 ${children.length === 0 ? "invisible" : ""}`}
+          onClick={(e) => {
+            e.stopPropagation();
+            setIsOpen(!isOpen);
+          }}
+          aria-label={isOpen ? "Collapse folder" : "Expand folder"}
+        >
+          {isOpen ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+        </button>
+        {isSelected ? <FolderOpen className="w-4 h-4 flex-shrink-0" /> : <Folder className="w-4 h-4 flex-shrink-0" />}
+        <span className="truncate flex-1">{folder.name}</span>
+        {(props.canCreate || props.canManage(folder)) && (
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild onClick={(e) => e.stopPropagation()}>
+              <Button variant="ghost" size="sm" className="h-6 w-6 p-0 opacity-0 group-hover:opacity-100" aria-label="Folder actions">
+                <MoreHorizontal className="w-3 h-3" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end" onClick={(e) => e.stopPropagation()}>
+              {props.canCreate && (
+                <DropdownMenuItem onClick={() => props.onCreate(folder.id)}>
+                  <Plus className="w-4 h-4 mr-2" />
+                  New subfolder
+                </DropdownMenuItem>
+              )}
+              {props.canManage(folder) && (
+                <>
+                  <DropdownMenuItem onClick={() => props.onEdit(folder)}>
+                    <Pencil className="w-4 h-4 mr-2" />
+                    Rename or move
+                  </DropdownMenuItem>
+                  <DropdownMenuItem className="text-destructive" onClick={() => props.onDelete(folder)}>
+                    <Trash2 className="w-4 h-4 mr-2" />
+                    Delete
+                  </DropdownMenuItem>
+                </>
+              )}
+            </DropdownMenuContent>
+          </DropdownMenu>
+        )}
+      </div>
+      {isOpen && children.length > 0 && (
+        <ul>
+          {children.map((child) => (
+            <FolderTreeItem key={child.folder.id} node={child} depth={depth + 1} {...props} />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+};
+
+export const FolderTree = ({ tree, ...props }: FolderTreeProps) => {
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <h2 className="text-sm font-semibold">Folders</h2>
+        {props.canCreate && (
+          <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => props.onCreate(null)} aria-label="New folder">
+            <Plus className="w-4 h-4" />
+          </Button>
+        )}
+      </div>
+      <ul className="space-y-0.5">
+        <li>
+          <div
+            className={`flex items-center gap-2 rounded px-2 py-1 text-sm cursor-pointer ${
+              props.selectedFolderId === null ? "bg-primary/10 text-primary" : "hover:bg-gray-100 dark:hover:bg-gray-700"
+            }`}
+            onClick={() => props.onSelect(null)}
+          >
+            <Library className="w-4 h-4" />
+            All documents
+          </div>
+        </li>
+        {tree.map((node) => (
+          <FolderTreeItem key={node.folder.id} node={node} depth={0} {...props} />
+        ))}
+      </ul>
+    </div>
+  );
+};
@@ -0,0 +1,260 @@
+import { useEffect, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { documentService } from "@/services/documentService";
+import { DocumentRetentionRule } from "@/types/document";
+
+interface RetentionRulesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  userId?: string;
+}
+
+interface RuleDraft {
+  category: string;
+  trashDays: string;
+  minRetentionDays: string;
+}
+
+const toDraft = (rule: DocumentRetentionRule): RuleDraft => ({
+  category: rule.category,
+  trashDays: String(rule.trash_days),
+  minRetentionDays: rule.min_retention_days === null ? "" : String(rule.min_retention_days),
+});
+
+const EMPTY_DRAFT: RuleDraft = { category: "", trashDays: "30", minRetentionDays: "" };
+
+// Null when the draft can't be saved: a name is required, trash days must be
+// zero or more and a minimum retention, if given, at least one day
+const parseDraft = (draft: RuleDraft): DocumentRetentionRule | null => {
+  const category = draft.category.trim().toLowerCase();
+  const trashDays = Number(draft.trashDays);
+  const minRetentionDays = draft.minRetentionDays.trim() ? Number(draft.minRetentionDays) : null;
+
+  if (!category || !draft.trashDays.trim() || !Number.isInteger(trashDays) || trashDays < 0) return null;
+  if (minRetentionDays !== null && (!Number.isInteger(minRetentionDays) || minRetentionDays < 1)) return null;
+
+  return { category, trash_days: trashDays, min_retention_days: minRetentionDays };
+};
+
+// Admin view of the retention categories: how long trashed documents can be
+// restored and how long documents must be kept before they may be trashed
+export const RetentionRulesDialog = ({ open, onOpenChange, userId }: RetentionRulesDialogProps) => {
+  const [drafts, setDrafts] = useState<RuleDraft[]>([]);
+  const [newRule, setNewRule] = useState<RuleDraft>(EMPTY_DRAFT);
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: rules, isLoading } = useQuery({
+    queryKey: ['document-retention-rules'],
+    queryFn: documentService.getRetentionRules,
+    enabled: open,
+  });
+
+  useEffect(() => {
+    if (open && rules) {
+      setDrafts(rules.map(toDraft));
+      setNewRule(EMPTY_DRAFT);
+    }
+  }, [open, rules]);
+
+  const updateDraft = (index: number, changes: Partial<RuleDraft>) => {
+    setDrafts((prev) => prev.map((draft, i) => (i === index ? { ...draft, ...changes } : draft)));
+  };
+
+  const runChange = async (change: () => Promise<void>, success: string) => {
+    setIsSaving(true);
+    try {
+      await change();
+      queryClient.invalidateQueries({ queryKey: ['document-retention-rules'] });
+      toast({
+        title: "Success",
+        description: success,
+      });
+    } catch (error) {
+      console.error('Retention rule error:', error);
+      toast({
+        title: "Error",
+        description: (error as { code?: string }).code === '23505'
+          ? "A category with this name already exists"
+          : "Failed to update retention rules",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSave = (index: number) => {
+    const rule = parseDraft(drafts[index]);
+    if (!rule || !userId || !rules) return;
+
+    // The default rule keeps its name
+    const previous = rules[index].category;
+    runChange(
+      () => documentService.saveRetentionRule(
+        previous === "default" ? { ...rule, category: previous } : rule,
+        userId,
+        previous
+      ),
+      `Retention rule "${rule.category}" updated`
+    );
+  };
+
+  const handleAdd = () => {
+    const rule = parseDraft(newRule);
+    if (!rule || !userId) return;
+
+    runChange(() => documentService.saveRetentionRule(rule, userId), `Retention rule "${rule.category}" added`);
+  };
+
+  const handleDelete = (category: string) => {
+    runChange(() => documentService.deleteRetentionRule(category), `Retention rule "${category}" removed`);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[720px]">
+        <DialogHeader>
+          <DialogTitle>Retention Rules</DialogTitle>
+          <DialogDescription>
+            Deleted documents stay in the trash for the category's trash period before they are purged. Leave the
+            minimum retention blank to allow deleting at any time. Documents without a category use the default rule.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Loading...</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Category</TableHead>
+                <TableHead>Days in trash</TableHead>
+                <TableHead>Minimum retention (days)</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {drafts.map((draft, index) => {
+                const isDefault = rules?.[index]?.category === "default";
+                return (
+                  <TableRow key={rules?.[index]?.category ?? index}>
+                    <TableCell>
+                      <Input
+                        value={draft.category}
+                        onChange={(e) => updateDraft(index, { category: e.target.value })}
+                        disabled={isDefault}
+                        aria-label="Category"
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        type="number"
+                        min={0}
+                        className="w-24"
+                        value={draft.trashDays}
+                        onChange={(e) => updateDraft(index, { trashDays: e.target.value })}
+                        aria-label={`Days in trash for ${draft.category}`}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        type="number"
+                        min={1}
+                        className="w-24"
+                        placeholder="None"
+                        value={draft.minRetentionDays}
+                        onChange={(e) => updateDraft(index, { minRetentionDays: e.target.value })}
+                        aria-label={`Minimum retention for ${draft.category}`}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex items-center justify-end gap-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleSave(index)}
+                          disabled={isSaving || !parseDraft(draft)}
+                        >
+                          Save
+                        </Button>
+                        {!isDefault && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => handleDelete(rules![index].category)}
+                            disabled={isSaving}
+                            className="text-red-500 hover:text-red-600 hover:bg-red-50"
+                            aria-label={`Remove ${draft.category}`}
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+              <TableRow>
+                <TableCell>
+                  <Input
+                    value={newRule.category}
+                    onChange={(e) => setNewRule((prev) => ({ ...prev, category: e.target.value }))}
+                    placeholder="New category, e.g. contracts"
+                    aria-label="New category"
+                  />
+                </TableCell>
+                <TableCell>
+                  <Input
+                    type="number"
+                    min={0}
+                    className="w-24"
+                    value={newRule.trashDays}
+                    onChange={(e) => setNewRule((prev) => ({ ...prev, trashDays: e.target.value }))}
+                    aria-label="Days in trash for the new category"
+                  />
+                </TableCell>
+                <TableCell>
+                  <Input
+                    type="number"
+                    min={1}
+                    className="w-24"
+                    placeholder="None"
+                    value={newRule.minRetentionDays}
+                    onChange={(e) => setNewRule((prev) => ({ ...prev, minRetentionDays: e.target.value }))}
+                    aria-label="Minimum retention for the new category"
+                  />
+                </TableCell>
+                <TableCell className="text-right">
+                  <Button size="sm" onClick={handleAdd} disabled={isSaving || !parseDraft(newRule)}>
+                    Add
+                  </Button>
+                </TableCell>
+              </TableRow>
+            </TableBody>
+          </Table>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
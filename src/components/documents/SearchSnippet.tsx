@@ -0,0 +1,23 @@
+interface SearchSnippetProps {
+  headline: string;
+}
+
+// Renders a search_documents headline. Only the <mark> delimiters are
+// interpreted; the excerpt itself is document text and is never parsed as HTML.
+export const SearchSnippet = ({ headline }: SearchSnippetProps) => {
+  const parts = headline.split(/<mark>|<\/mark>/);
+
+  return (
+    <p className="text-xs text-gray-600 line-clamp-2">
+      {parts.map((part, index) =>
+        index % 2 === 1 ? (
+          <mark key={index} className="bg-yellow-100 text-inherit rounded-sm px-0.5">
+            {part}
+          </mark>
+        ) : (
+          part
+        )
+      )}
+    </p>
+  );
+};
@@ -0,0 +1,227 @@
+import { useEffect, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { documentService } from "@/services/documentService";
+import { StorageConsumer } from "@/types/document";
+import { formatFileSize } from "@/utils/fileSize";
+import { formatQuotaGb, parseQuotaGb } from "@/utils/storageQuota";
+
+interface StorageQuotaDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  userId?: string;
+}
+
+// Admin view of storage: organization and default quotas, the largest
+// consumers and per-user overrides. Quotas are entered in GB.
+export const StorageQuotaDialog = ({ open, onOpenChange, userId }: StorageQuotaDialogProps) => {
+  const [organizationQuota, setOrganizationQuota] = useState("");
+  const [defaultQuota, setDefaultQuota] = useState("");
+  const [userQuotas, setUserQuotas] = useState<Record<string, string>>({});
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: quotas } = useQuery({
+    queryKey: ['storage-quotas'],
+    queryFn: documentService.getStorageQuotas,
+    enabled: open,
+  });
+
+  const { data: consumers, isLoading } = useQuery({
+    queryKey: ['storage-consumers'],
+    queryFn: () => documentService.getTopStorageConsumers(),
+    enabled: open,
+  });
+
+  useEffect(() => {
+    if (open && quotas) {
+      setOrganizationQuota(formatQuotaGb(quotas.organization));
+      setDefaultQuota(formatQuotaGb(quotas.user_default));
+    }
+  }, [open, quotas]);
+
+  useEffect(() => {
+    if (open && consumers) {
+      setUserQuotas(Object.fromEntries(
+        consumers.map((consumer) => [consumer.user_id, consumer.has_override ? formatQuotaGb(consumer.quota_bytes) : ""])
+      ));
+    }
+  }, [open, consumers]);
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ['storage-quotas'] });
+    queryClient.invalidateQueries({ queryKey: ['storage-consumers'] });
+    queryClient.invalidateQueries({ queryKey: ['storage-usage'] });
+  };
+
+  const showError = (error: unknown) => {
+    console.error('Storage quota error:', error);
+    toast({
+      title: "Error",
+      description: "Failed to update storage quota",
+      variant: "destructive",
+    });
+  };
+
+  const handleSaveQuotas = async () => {
+    if (!userId) return;
+
+    setIsSaving(true);
+    try {
+      await documentService.updateStorageQuota("organization", parseQuotaGb(organizationQuota), userId);
+      await documentService.updateStorageQuota("user_default", parseQuotaGb(defaultQuota), userId);
+      refresh();
+      toast({
+        title: "Success",
+        description: "Storage quotas updated",
+      });
+    } catch (error) {
+      showError(error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // A blank value removes the override, so the default quota applies again
+  const handleSaveUserQuota = async (consumer: StorageConsumer) => {
+    if (!userId) return;
+
+    setIsSaving(true);
+    try {
+      await documentService.setUserStorageQuota(consumer.user_id, parseQuotaGb(userQuotas[consumer.user_id] ?? ""), userId);
+      refresh();
+      toast({
+        title: "Success",
+        description: `Storage quota updated for ${consumer.full_name || consumer.email}`,
+      });
+    } catch (error) {
+      showError(error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[720px]">
+        <DialogHeader>
+          <DialogTitle>Storage Quotas</DialogTitle>
+          <DialogDescription>
+            Limit how much document storage the organization and each user may use. Leave blank for no limit.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 sm:grid-cols-[1fr_1fr_auto] sm:items-end">
+          <div className="space-y-1.5">
+            <label htmlFor="organization-quota" className="text-sm font-medium">
+              Organization (GB)
+            </label>
+            <Input
+              id="organization-quota"
+              type="number"
+              min={0}
+              step="any"
+              value={organizationQuota}
+              onChange={(e) => setOrganizationQuota(e.target.value)}
+            />
+          </div>
+          <div className="space-y-1.5">
+            <label htmlFor="default-quota" className="text-sm font-medium">
+              Per user by default (GB)
+            </label>
+            <Input
+              id="default-quota"
+              type="number"
+              min={0}
+              step="any"
+              value={defaultQuota}
+              onChange={(e) => setDefaultQuota(e.target.value)}
+            />
+          </div>
+          <Button onClick={handleSaveQuotas} disabled={isSaving || !quotas}>
+            Save
+          </Button>
+        </div>
+
+        <div className="space-y-2">
+          <h3 className="text-sm font-semibold">Largest consumers</h3>
+          {isLoading ? (
+            <p className="text-sm text-gray-500">Loading...</p>
+          ) : !consumers?.length ? (
+            <p className="text-sm text-gray-500">No documents stored yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>User</TableHead>
+                  <TableHead className="text-right">Files</TableHead>
+                  <TableHead className="text-right">Used</TableHead>
+                  <TableHead>Quota (GB)</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {consumers.map((consumer) => (
+                  <TableRow key={consumer.user_id}>
+                    <TableCell>
+                      <div className="font-medium">{consumer.full_name || consumer.email}</div>
+                      {consumer.full_name && <div className="text-xs text-gray-500">{consumer.email}</div>}
+                    </TableCell>
+                    <TableCell className="text-right">{consumer.file_count}</TableCell>
+                    <TableCell className="text-right whitespace-nowrap">
+                      {formatFileSize(consumer.used_bytes)}
+                      {consumer.quota_bytes !== null && (
+                        <div className="text-xs text-gray-500">
+                          of {formatFileSize(consumer.quota_bytes)}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        <Input
+                          type="number"
+                          min={0}
+                          step="any"
+                          className="w-24"
+                          placeholder="Default"
+                          value={userQuotas[consumer.user_id] ?? ""}
+                          onChange={(e) => setUserQuotas((prev) => ({ ...prev, [consumer.user_id]: e.target.value }))}
+                          aria-label={`Quota for ${consumer.full_name || consumer.email}`}
+                        />
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleSaveUserQuota(consumer)}
+                          disabled={isSaving}
+                        >
+                          Set
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,40 @@
+import { HardDrive } from "lucide-react";
+import { Progress } from "@/components/ui/progress";
+import { StorageUsage } from "@/types/document";
+import { formatFileSize } from "@/utils/fileSize";
+
+interface StorageUsageMeterProps {
+  usage: StorageUsage;
+}
+
+const percentOf = (used: number, quota: number) => Math.min(100, Math.round((used / quota) * 100));
+
+export const StorageUsageMeter = ({ usage }: StorageUsageMeterProps) => {
+  const { user_used_bytes: used, user_quota_bytes: quota, org_used_bytes: orgUsed, org_quota_bytes: orgQuota } = usage;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2 text-sm">
+        <HardDrive className="w-4 h-4 text-gray-500" />
+        <span className="font-medium">Your storage</span>
+        <span className="ml-auto text-gray-600">
+          {quota === null
+            ? `${formatFileSize(used)} used`
+            : `${formatFileSize(used)} of ${formatFileSize(quota)}`}
+        </span>
+      </div>
+      {quota !== null && (
+        <Progress
+          value={percentOf(used, quota)}
+          className="h-2"
+          aria-label="Your storage usage"
+        />
+      )}
+      {orgQuota !== null && (
+        <p className="text-xs text-gray-500">
+          Organization: {formatFileSize(orgUsed)} of {formatFileSize(orgQuota)} ({percentOf(orgUsed, orgQuota)}%)
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,130 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/lib/supabase";
+import { ROLES, Role, canAssignRole } from "@/lib/permissions";
+import { getFunctionErrorMessage } from "@/utils/functions";
+
+interface InviteEmployeeDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  currentRole: Role | null;
+}
+
+export const InviteEmployeeDialog = ({ open, onOpenChange, currentRole }: InviteEmployeeDialogProps) => {
+  const [email, setEmail] = useState("");
+  const [role, setRole] = useState<Role>("employee");
+  const [inviteError, setInviteError] = useState("");
+  const [isSending, setIsSending] = useState(false);
+  const { toast } = useToast();
+
+  const assignableRoles = ROLES.filter((r) => canAssignRole(currentRole, r));
+
+  const reset = () => {
+    setEmail("");
+    setRole("employee");
+    setInviteError("");
+  };
+
+  const handleSendInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!email) {
+      setInviteError("Please enter an email address");
+      return;
+    }
+
+    setIsSending(true);
+    setInviteError("");
+
+    try {
+      const { error } = await supabase.functions.invoke('create-invitation', {
+        body: { email, role },
+      });
+
+      if (error) {
+        throw new Error(await getFunctionErrorMessage(error, 'Failed to send invitation'));
+      }
+
+      toast({
+        title: "Invitation sent",
+        description: `${email} has been invited as ${role}`,
+      });
+      reset();
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error sending invitation:', error);
+      setInviteError(error instanceof Error ? error.message : 'Failed to send invitation');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(isOpen) => {
+        if (!isOpen) reset();
+        onOpenChange(isOpen);
+      }}
+    >
+      <DialogContent className="sm:max-w-[425px]">
+        <form onSubmit={handleSendInvite}>
+          <DialogHeader>
+            <DialogTitle>Invite Employee</DialogTitle>
+            <DialogDescription>
+              Send a single-use invitation link. The recipient creates their own account with the selected role.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-4 py-4">
+            <div className="space-y-2">
+              <label htmlFor="invite-email" className="text-sm font-medium">Email</label>
+              <Input
+                id="invite-email"
+                type="email"
+                placeholder="name@company.com"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Role</label>
+              <Select value={role} onValueChange={(value: Role) => setRole(value)}>
+                <SelectTrigger className="capitalize">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {assignableRoles.map((r) => (
+                    <SelectItem key={r} value={r} className="capitalize">
+                      {r}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {inviteError && (
+              <p className="text-sm text-red-500">{inviteError}</p>
+            )}
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSending}>
+              {isSending ? "Sending..." : "Send Invitation"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
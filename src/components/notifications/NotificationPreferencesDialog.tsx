@@ -0,0 +1,249 @@
+import { useEffect, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { notificationService } from "@/services/notificationService";
+import { DigestFrequency, NOTIFICATION_TYPES, NotificationChannel, NotificationType } from "@/types/notification";
+
+interface NotificationPreferencesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const browserTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+
+const isValidTimeZone = (timeZone: string) => {
+  try {
+    new Intl.DateTimeFormat(undefined, { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const NotificationPreferencesDialog = ({ open, onOpenChange }: NotificationPreferencesDialogProps) => {
+  const [channels, setChannels] = useState<Partial<Record<NotificationType, NotificationChannel>>>({});
+  const [quietStart, setQuietStart] = useState("");
+  const [quietEnd, setQuietEnd] = useState("");
+  const [timezone, setTimezone] = useState(browserTimeZone());
+  const [digestFrequency, setDigestFrequency] = useState<DigestFrequency>("off");
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: preferences } = useQuery({
+    queryKey: ['notification-preferences'],
+    queryFn: notificationService.getPreferences,
+    enabled: open,
+  });
+
+  const { data: settings } = useQuery({
+    queryKey: ['notification-settings'],
+    queryFn: notificationService.getSettings,
+    enabled: open,
+  });
+
+  useEffect(() => {
+    if (open && preferences) {
+      setChannels(Object.fromEntries(preferences.map((preference) => [preference.type, preference.channel])));
+    }
+  }, [open, preferences]);
+
+  useEffect(() => {
+    if (open && settings !== undefined) {
+      // Postgres returns times as HH:MM:SS; the time input wants HH:MM
+      setQuietStart(settings?.quiet_hours_start?.slice(0, 5) ?? "");
+      setQuietEnd(settings?.quiet_hours_end?.slice(0, 5) ?? "");
+      setTimezone(settings?.timezone ?? browserTimeZone());
+      setDigestFrequency(settings?.digest_frequency ?? "off");
+    }
+  }, [open, settings]);
+
+  const hasQuietHours = quietStart !== "" || quietEnd !== "";
+  const quietHoursError =
+    hasQuietHours && (!quietStart || !quietEnd)
+      ? "Set both a start and an end time"
+      : hasQuietHours && quietStart === quietEnd
+        ? "Start and end times must differ"
+        : null;
+  const timezoneError = isValidTimeZone(timezone.trim()) ? null : "Unknown time zone";
+  const hasDigestOnlyTypes = Object.values(channels).includes("email_digest");
+
+  const handleSave = async () => {
+    if (quietHoursError || timezoneError) return;
+
+    setIsSaving(true);
+    try {
+      await Promise.all(
+        NOTIFICATION_TYPES.map(({ type }) =>
+          notificationService.updatePreference(type, channels[type] ?? "in_app")
+        )
+      );
+      await notificationService.updateSettings({
+        quiet_hours_start: quietStart || null,
+        quiet_hours_end: quietEnd || null,
+        timezone: timezone.trim() || "UTC",
+        digest_frequency: digestFrequency,
+      });
+      queryClient.invalidateQueries({ queryKey: ['notification-preferences'] });
+      queryClient.invalidateQueries({ queryKey: ['notification-settings'] });
+      toast({
+        title: "Success",
+        description: "Notification preferences saved",
+      });
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Error saving notification preferences:", error);
+      toast({
+        title: "Error",
+        description: "Failed to save notification preferences",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[520px]">
+        <DialogHeader>
+          <DialogTitle>Notification Preferences</DialogTitle>
+          <DialogDescription>
+            Choose how each kind of notification reaches you. Muted notifications are not created at all.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-4 py-4">
+          {NOTIFICATION_TYPES.map(({ type, label, description }) => (
+            <div key={type} className="flex items-center justify-between gap-4">
+              <div>
+                <p className="text-sm font-medium">{label}</p>
+                <p className="text-xs text-muted-foreground">{description}</p>
+              </div>
+              <Select
+                value={channels[type] ?? "in_app"}
+                onValueChange={(channel: NotificationChannel) => {
+                  setChannels((prev) => ({ ...prev, [type]: channel }));
+                  // Routing something to the digest turns it on if it was off
+                  if (channel === "email_digest" && digestFrequency === "off") setDigestFrequency("daily");
+                }}
+              >
+                <SelectTrigger className="w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="in_app">In-app</SelectItem>
+                  <SelectItem value="email_digest">Email digest</SelectItem>
+                  <SelectItem value="muted">Muted</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+
+          <div className="border-t pt-4 space-y-2">
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <p className="text-sm font-medium">Email digest</p>
+                <p className="text-xs text-muted-foreground">
+                  Notifications set to "Email digest" are summarised in an email.
+                </p>
+              </div>
+              <Select value={digestFrequency} onValueChange={(frequency: DigestFrequency) => setDigestFrequency(frequency)}>
+                <SelectTrigger className="w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="hourly">Hourly</SelectItem>
+                  <SelectItem value="daily">Daily</SelectItem>
+                  <SelectItem value="off">Off</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {digestFrequency === "off" && hasDigestOnlyTypes && (
+              <p className="text-sm text-warning">
+                Notifications set to "Email digest" will not reach you while the digest is off.
+              </p>
+            )}
+          </div>
+
+          <div className="border-t pt-4 space-y-3">
+            <div>
+              <p className="text-sm font-medium">Quiet hours</p>
+              <p className="text-xs text-muted-foreground">
+                In-app notifications created during quiet hours appear once they end.
+              </p>
+            </div>
+            <div className="flex items-center gap-2">
+              <Input
+                type="time"
+                aria-label="Quiet hours start"
+                value={quietStart}
+                onChange={(e) => setQuietStart(e.target.value)}
+                className="w-32"
+              />
+              <span className="text-sm text-muted-foreground">to</span>
+              <Input
+                type="time"
+                aria-label="Quiet hours end"
+                value={quietEnd}
+                onChange={(e) => setQuietEnd(e.target.value)}
+                className="w-32"
+              />
+              {hasQuietHours && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => {
+                    setQuietStart("");
+                    setQuietEnd("");
+                  }}
+                >
+                  Clear
+                </Button>
+              )}
+            </div>
+            <div className="flex items-center gap-2">
+              <label htmlFor="notification-timezone" className="text-sm font-medium">
+                Time zone
+              </label>
+              <Input
+                id="notification-timezone"
+                value={timezone}
+                onChange={(e) => setTimezone(e.target.value)}
+                placeholder="Europe/Berlin"
+                className="flex-1"
+              />
+            </div>
+            {(quietHoursError || timezoneError) && (
+              <p className="text-sm text-destructive">{quietHoursError ?? timezoneError}</p>
+            )}
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving || !!quietHoursError || !!timezoneError}>
+            {isSaving ? "Saving..." : "Save Preferences"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,81 @@
+import { useRef, useState } from "react";
+import { Upload } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { ALLOWED_FILE_TYPES, MAX_FILE_SIZE } from "@/lib/fileValidation";
+import { validateFile } from "@/utils/documentSecurity";
+import { formatFileSize } from "@/utils/fileSize";
+
+const ACCEPTED_TYPES = ALLOWED_FILE_TYPES.map((type) => `.${type}`).join(",");
+
+interface UploadDropZoneProps {
+  onFiles: (files: File[]) => void;
+  disabled?: boolean;
+  label?: string;
+  className?: string;
+}
+
+// Accepts files dropped on it or picked with the file dialog; files that fail
+// validateFile are reported there and left out
+export const UploadDropZone = ({
+  onFiles,
+  disabled = false,
+  label = "Drag files here or click to browse",
+  className,
+}: UploadDropZoneProps) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isDragging, setIsDragging] = useState(false);
+
+  const handleFiles = (fileList: FileList | null) => {
+    const files = Array.from(fileList ?? []).filter(validateFile);
+    if (files.length > 0) onFiles(files);
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDragging(false);
+    if (!disabled) handleFiles(e.dataTransfer.files);
+  };
+
+  return (
+    <div
+      role="button"
+      tabIndex={disabled ? -1 : 0}
+      aria-disabled={disabled}
+      onClick={() => !disabled && inputRef.current?.click()}
+      onKeyDown={(e) => {
+        if (!disabled && (e.key === "Enter" || e.key === " ")) {
+          e.preventDefault();
+          inputRef.current?.click();
+        }
+      }}
+      onDragOver={(e) => {
+        e.preventDefault();
+        if (!disabled) setIsDragging(true);
+      }}
+      onDragLeave={() => setIsDragging(false)}
+      onDrop={handleDrop}
+      className={cn(
+        "flex flex-col items-center justify-center gap-2 rounded-lg border-2 border-dashed p-6 text-center text-sm text-gray-500 transition-colors cursor-pointer",
+        isDragging ? "border-primary bg-primary/5" : "border-gray-200 hover:border-gray-300 dark:border-gray-700",
+        disabled && "cursor-not-allowed opacity-60",
+        className
+      )}
+    >
+      <Upload className="w-6 h-6" />
+      <span>{label}</span>
+      <span className="text-xs">Word documents, PDFs and images up to {formatFileSize(MAX_FILE_SIZE)}</span>
+      <input
+        ref={inputRef}
+        type="file"
+        multiple
+        className="hidden"
+        accept={ACCEPTED_TYPES}
+        onClick={(e) => e.stopPropagation()}
+        onChange={(e) => {
+          handleFiles(e.target.files);
+          e.target.value = "";
+        }}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,90 @@
+import { AlertCircle, CheckCircle2, RotateCw, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { UploadItem, UploadStatus } from "@/hooks/use-upload-queue";
+import { formatFileSize } from "@/utils/fileSize";
+
+interface UploadQueueProps<C> {
+  items: UploadItem<C>[];
+  onCancel: (id: string) => void;
+  onRetry: (id: string) => void;
+  onRemove: (id: string) => void;
+  onClearFinished?: () => void;
+}
+
+const STATUS_LABELS: Record<UploadStatus, string> = {
+  queued: "Waiting",
+  uploading: "Uploading",
+  done: "Uploaded",
+  error: "Failed",
+  cancelled: "Cancelled",
+};
+
+export const UploadQueue = <C,>({ items, onCancel, onRetry, onRemove, onClearFinished }: UploadQueueProps<C>) => {
+  if (items.length === 0) return null;
+
+  const finished = items.filter((item) => item.status === "done").length;
+
+  return (
+    <div className="space-y-2">
+      {onClearFinished && (
+        <div className="flex items-center justify-between text-sm">
+          <span className="text-gray-600">
+            {finished} of {items.length} uploaded
+          </span>
+          {finished > 0 && (
+            <Button type="button" variant="ghost" size="sm" onClick={onClearFinished}>
+              Clear finished
+            </Button>
+          )}
+        </div>
+      )}
+      {items.map((item) => {
+        const percent = item.file.size > 0 ? Math.round((item.uploaded / item.file.size) * 100) : 0;
+        // Files that haven't started are simply dropped from the queue
+        const isActive = item.status === "uploading";
+
+        return (
+          <div key={item.id} className="rounded-md border p-2 space-y-1.5 bg-gray-50 dark:bg-gray-800">
+            <div className="flex items-center gap-2">
+              {item.status === "done" && <CheckCircle2 className="w-4 h-4 text-green-600 flex-shrink-0" />}
+              {item.status === "error" && <AlertCircle className="w-4 h-4 text-destructive flex-shrink-0" />}
+              <span className="text-sm truncate flex-1" title={item.file.name}>{item.file.name}</span>
+              <span className="text-xs text-gray-500 whitespace-nowrap">
+                {item.status === "uploading"
+                  ? `${formatFileSize(item.uploaded)} of ${formatFileSize(item.file.size)}`
+                  : STATUS_LABELS[item.status]}
+              </span>
+              {(item.status === "error" || item.status === "cancelled") && (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  onClick={() => onRetry(item.id)}
+                  aria-label={`Retry ${item.file.name}`}
+                >
+                  <RotateCw className="w-4 h-4" />
+                </Button>
+              )}
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                onClick={() => (isActive ? onCancel(item.id) : onRemove(item.id))}
+                aria-label={isActive ? `Cancel ${item.file.name}` : `Remove ${item.file.name}`}
+              >
+                <X className="w-4 h-4" />
+              </Button>
+            </div>
+            {item.status === "uploading" && <Progress value={percent} className="h-1.5" />}
+            {item.status === "error" && item.error && (
+              <p className="text-xs text-destructive">{item.error}</p>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,33 @@
+import { useCallback } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useSessionContext } from "@supabase/auth-helpers-react";
+import { supabase } from "@/lib/supabase";
+import { hasPermission, Permission, Role } from "@/lib/permissions";
+
+export function usePermissions() {
+  const { session } = useSessionContext();
+  const userId = session?.user?.id;
+  const userEmail = session?.user?.email;
+
+  const { data: role = null, isLoading } = useQuery({
+    queryKey: ["current-role", userId],
+    enabled: !!userId,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("profiles")
+        .select("role")
+        .eq("id", userId)
+        .single();
+
+      if (error) throw error;
+      return data.role as Role;
+    },
+  });
+
+  const can = useCallback(
+    (permission: Permission) => hasPermission(role, permission),
+    [role]
+  );
+
+  return { role, can, isLoading, userId, userEmail };
+}
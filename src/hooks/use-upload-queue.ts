@@ -0,0 +1,145 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { UploadCancelledError, UploadOptions } from "@/lib/resumableUpload";
+
+export type UploadStatus = "queued" | "uploading" | "done" | "error" | "cancelled";
+
+export interface UploadItem<C = void> {
+  id: string;
+  file: File;
+  // Whatever the caller needs to finish this file, e.g. the target folder
+  context: C;
+  status: UploadStatus;
+  uploaded: number;
+  error?: string;
+}
+
+interface UploadQueueOptions<C> {
+  upload: (item: UploadItem<C>, options: UploadOptions) => Promise<void>;
+  onUploaded?: (item: UploadItem<C>) => void;
+  // When false, queued files wait for start(); task attachments need the task first
+  autoStart?: boolean;
+  concurrency?: number;
+}
+
+// Uploads files a few at a time with per-file progress, cancel and retry.
+// The queue lives in a ref so workers see updates without waiting for a render.
+export function useUploadQueue<C = void>({
+  upload,
+  onUploaded,
+  autoStart = true,
+  concurrency = 2,
+}: UploadQueueOptions<C>) {
+  const [items, setItems] = useState<UploadItem<C>[]>([]);
+  const itemsRef = useRef<UploadItem<C>[]>([]);
+  const controllers = useRef(new Map<string, AbortController>());
+  const callbacks = useRef({ upload, onUploaded });
+  const running = useRef<Promise<UploadItem<C>[]> | null>(null);
+
+  useEffect(() => {
+    callbacks.current = { upload, onUploaded };
+  }, [upload, onUploaded]);
+
+  // Abort whatever is still in flight when the owner unmounts
+  useEffect(() => {
+    const inFlight = controllers.current;
+    return () => inFlight.forEach((controller) => controller.abort());
+  }, []);
+
+  const update = useCallback((id: string, changes: Partial<UploadItem<C>>) => {
+    itemsRef.current = itemsRef.current.map((item) => (item.id === id ? { ...item, ...changes } : item));
+    setItems(itemsRef.current);
+  }, []);
+
+  const runItem = useCallback(async (item: UploadItem<C>) => {
+    const controller = new AbortController();
+    controllers.current.set(item.id, controller);
+    update(item.id, { status: "uploading", error: undefined });
+
+    try {
+      await callbacks.current.upload(item, {
+        signal: controller.signal,
+        onProgress: (uploaded) => update(item.id, { uploaded }),
+      });
+      update(item.id, { status: "done", uploaded: item.file.size });
+      callbacks.current.onUploaded?.(item);
+    } catch (error) {
+      if (error instanceof UploadCancelledError) {
+        update(item.id, { status: "cancelled" });
+      } else {
+        console.error("Upload error:", error);
+        update(item.id, {
+          status: "error",
+          error: error instanceof Error ? error.message : "Upload failed",
+        });
+      }
+    } finally {
+      controllers.current.delete(item.id);
+    }
+  }, [update]);
+
+  // Resolves with the final state of every file once nothing is queued or uploading
+  const start = useCallback((): Promise<UploadItem<C>[]> => {
+    if (running.current) return running.current;
+
+    const worker = async () => {
+      let next = itemsRef.current.find((item) => item.status === "queued");
+      while (next) {
+        await runItem(next);
+        next = itemsRef.current.find((item) => item.status === "queued");
+      }
+    };
+
+    running.current = Promise.all(Array.from({ length: concurrency }, worker)).then(() => {
+      running.current = null;
+      // Files queued while the last workers were finishing
+      if (autoStart && itemsRef.current.some((item) => item.status === "queued")) {
+        return start();
+      }
+      return itemsRef.current;
+    });
+    return running.current;
+  }, [autoStart, concurrency, runItem]);
+
+  const addFiles = useCallback((files: File[], context: C) => {
+    if (files.length === 0) return;
+
+    const added = files.map((file) => ({
+      id: crypto.randomUUID(),
+      file,
+      context,
+      status: "queued" as const,
+      uploaded: 0,
+    }));
+    itemsRef.current = [...itemsRef.current, ...added];
+    setItems(itemsRef.current);
+
+    if (autoStart) start();
+  }, [autoStart, start]);
+
+  const retry = useCallback((id: string) => {
+    update(id, { status: "queued", error: undefined });
+    if (autoStart) start();
+  }, [autoStart, start, update]);
+
+  const cancel = useCallback((id: string) => {
+    const controller = controllers.current.get(id);
+    if (controller) {
+      controller.abort();
+    } else {
+      update(id, { status: "cancelled" });
+    }
+  }, [update]);
+
+  const remove = useCallback((id: string) => {
+    controllers.current.get(id)?.abort();
+    itemsRef.current = itemsRef.current.filter((item) => item.id !== id);
+    setItems(itemsRef.current);
+  }, []);
+
+  const clearFinished = useCallback(() => {
+    itemsRef.current = itemsRef.current.filter((item) => item.status !== "done");
+    setItems(itemsRef.current);
+  }, []);
+
+  return { items, addFiles, start, retry, cancel, remove, clearFinished };
+}
@@ -0,0 +1,64 @@
+import { useCallback, useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { workflowService } from "@/services/workflowService";
+import { Task } from "@/types/task";
+import { WorkflowState } from "@/types/workflow";
+import { findState, findWorkflow, getNextStates } from "@/utils/workflow";
+
+type TaskRef = Pick<Task, "status" | "workflow_id">;
+
+export function useWorkflows() {
+  const { data: workflows = [], isLoading } = useQuery({
+    queryKey: ["task-workflows"],
+    queryFn: workflowService.getWorkflows,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const { data: teams = [] } = useQuery({
+    queryKey: ["teams"],
+    queryFn: workflowService.getTeams,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const getWorkflow = useCallback(
+    (task: Pick<Task, "workflow_id">) => findWorkflow(workflows, task.workflow_id),
+    [workflows]
+  );
+
+  const getState = useCallback(
+    (task: TaskRef) => findState(getWorkflow(task), task.status),
+    [getWorkflow]
+  );
+
+  const getTaskNextStates = useCallback(
+    (task: TaskRef) => getNextStates(getWorkflow(task), task.status),
+    [getWorkflow]
+  );
+
+  const isDone = useCallback(
+    (task: TaskRef) => getState(task)?.category === "done",
+    [getState]
+  );
+
+  // Every state key across workflows, first definition wins; used for filters
+  const allStates = useMemo(() => {
+    const byKey = new Map<string, WorkflowState>();
+    workflows.forEach((workflow) =>
+      workflow.states.forEach((state) => {
+        if (!byKey.has(state.key)) byKey.set(state.key, state);
+      })
+    );
+    return [...byKey.values()];
+  }, [workflows]);
+
+  return {
+    workflows,
+    teams,
+    isLoading,
+    allStates,
+    getWorkflow,
+    getState,
+    getNextStates: getTaskNextStates,
+    isDone,
+  };
+}
@@ -14,22 +14,28 @@ export type Database = {
           created_at: string
           created_by: string | null
           description: string | null
+          expires_at: string | null
           id: string
           ip_address: string
+          rule_type: string
         }
         Insert: {
           created_at?: string
           created_by?: string | null
           description?: string | null
+          expires_at?: string | null
           id?: string
           ip_address: string
+          rule_type?: string
         }
         Update: {
           created_at?: string
           created_by?: string | null
           description?: string | null
+          expires_at?: string | null
           id?: string
           ip_address?: string
+          rule_type?: string
         }
         Relationships: []
       }
@@ -69,32 +75,166 @@ export type Database = {
         }
         Relationships: []
       }
+      comment_attachments: {
+        Row: {
+          comment_id: string
+          created_at: string
+          document_id: string
+        }
+        Insert: {
+          comment_id: string
+          created_at?: string
+          document_id: string
+        }
+        Update: {
+          comment_id?: string
+          created_at?: string
+          document_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "comment_attachments_comment_id_fkey"
+            columns: ["comment_id"]
+            isOneToOne: false
+            referencedRelation: "comments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "comment_attachments_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "documents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      comment_edits: {
+        Row: {
+          comment_id: string
+          content: string
+          edited_at: string
+          edited_by: string | null
+          id: string
+        }
+        Insert: {
+          comment_id: string
+          content: string
+          edited_at?: string
+          edited_by?: string | null
+          id?: string
+        }
+        Update: {
+          comment_id?: string
+          content?: string
+          edited_at?: string
+          edited_by?: string | null
+          id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "comment_edits_comment_id_fkey"
+            columns: ["comment_id"]
+            isOneToOne: false
+            referencedRelation: "comments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "comment_edits_edited_by_fkey"
+            columns: ["edited_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      comment_reactions: {
+        Row: {
+          comment_id: string
+          created_at: string
+          emoji: string
+          user_id: string
+        }
+        Insert: {
+          comment_id: string
+          created_at?: string
+          emoji: string
+          user_id: string
+        }
+        Update: {
+          comment_id?: string
+          created_at?: string
+          emoji?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "comment_reactions_comment_id_fkey"
+            columns: ["comment_id"]
+            isOneToOne: false
+            referencedRelation: "comments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "comment_reactions_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       comments: {
         Row: {
           content: string
           created_at: string
+          deleted_at: string | null
+          deleted_by: string | null
+          edited_at: string | null
           id: string
           mentions: string[] | null
+          parent_id: string | null
           task_id: string | null
           user_id: string | null
         }
         Insert: {
           content: string
           created_at?: string
+          deleted_at?: string | null
+          deleted_by?: string | null
+          edited_at?: string | null
           id?: string
           mentions?: string[] | null
+          parent_id?: string | null
           task_id?: string | null
           user_id?: string | null
         }
         Update: {
           content?: string
           created_at?: string
+          deleted_at?: string | null
+          deleted_by?: string | null
+          edited_at?: string | null
           id?: string
           mentions?: string[] | null
+          parent_id?: string | null
           task_id?: string | null
           user_id?: string | null
         }
         Relationships: [
+          {
+            foreignKeyName: "comments_deleted_by_fkey"
+            columns: ["deleted_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "comments_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "comments"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "comments_task_id_fkey"
             columns: ["task_id"]
@@ -111,41 +251,333 @@ export type Database = {
           },
         ]
       }
+      document_folders: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          name: string
+          parent_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name: string
+          parent_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name?: string
+          parent_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "document_folders_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "document_folders_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "document_folders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      document_permissions: {
+        Row: {
+          access: string
+          created_at: string
+          created_by: string | null
+          document_id: string
+          id: string
+          role: string | null
+          team_id: string | null
+          user_id: string | null
+        }
+        Insert: {
+          access?: string
+          created_at?: string
+          created_by?: string | null
+          document_id: string
+          id?: string
+          role?: string | null
+          team_id?: string | null
+          user_id?: string | null
+        }
+        Update: {
+          access?: string
+          created_at?: string
+          created_by?: string | null
+          document_id?: string
+          id?: string
+          role?: string | null
+          team_id?: string | null
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "document_permissions_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "document_permissions_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "documents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "document_permissions_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "document_permissions_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      document_retention_rules: {
+        Row: {
+          category: string
+          min_retention_days: number | null
+          trash_days: number
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          category: string
+          min_retention_days?: number | null
+          trash_days: number
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          category?: string
+          min_retention_days?: number | null
+          trash_days?: number
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "document_retention_rules_updated_by_fkey"
+            columns: ["updated_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      document_versions: {
+        Row: {
+          created_at: string
+          document_id: string
+          file_path: string
+          file_type: string
+          id: string
+          restored_from: string | null
+          size: number
+          uploaded_by: string | null
+          version_number: number
+        }
+        Insert: {
+          created_at?: string
+          document_id: string
+          file_path: string
+          file_type: string
+          id?: string
+          restored_from?: string | null
+          size: number
+          uploaded_by?: string | null
+          version_number?: number
+        }
+        Update: {
+          created_at?: string
+          document_id?: string
+          file_path?: string
+          file_type?: string
+          id?: string
+          restored_from?: string | null
+          size?: number
+          uploaded_by?: string | null
+          version_number?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "document_versions_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "documents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "document_versions_restored_from_fkey"
+            columns: ["restored_from"]
+            isOneToOne: false
+            referencedRelation: "document_versions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "document_versions_uploaded_by_fkey"
+            columns: ["uploaded_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       documents: {
         Row: {
+          category: string | null
           content: string | null
+          content_version_id: string | null
           created_at: string
           created_by: string
+          current_version_id: string | null
+          deleted_at: string | null
+          deleted_by: string | null
+          department: string | null
           file_path: string
           file_type: string
+          folder_id: string | null
           id: string
           last_modified: string
+          legal_hold: boolean
+          legal_hold_at: string | null
+          legal_hold_by: string | null
+          legal_hold_reason: string | null
+          owner_id: string | null
+          purge_after: string | null
+          purging_at: string | null
+          search_vector: unknown | null
           size: number
+          tags: string[]
+          thumbnail_path: string | null
           title: string
         }
         Insert: {
+          category?: string | null
           content?: string | null
+          content_version_id?: string | null
           created_at?: string
           created_by: string
+          current_version_id?: string | null
+          deleted_at?: string | null
+          deleted_by?: string | null
+          department?: string | null
           file_path: string
           file_type: string
+          folder_id?: string | null
           id?: string
           last_modified?: string
+          legal_hold?: boolean
+          legal_hold_at?: string | null
+          legal_hold_by?: string | null
+          legal_hold_reason?: string | null
+          owner_id?: string | null
+          purge_after?: string | null
+          purging_at?: string | null
+          search_vector?: unknown | null
           size: number
+          tags?: string[]
+          thumbnail_path?: string | null
           title: string
         }
         Update: {
+          category?: string | null
           content?: string | null
+          content_version_id?: string | null
           created_at?: string
           created_by?: string
+          current_version_id?: string | null
+          deleted_at?: string | null
+          deleted_by?: string | null
+          department?: string | null
           file_path?: string
           file_type?: string
+          folder_id?: string | null
           id?: string
           last_modified?: string
+          legal_hold?: boolean
+          legal_hold_at?: string | null
+          legal_hold_by?: string | null
+          legal_hold_reason?: string | null
+          owner_id?: string | null
+          purge_after?: string | null
+          purging_at?: string | null
+          search_vector?: unknown | null
           size?: number
+          tags?: string[]
+          thumbnail_path?: string | null
           title?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "documents_category_fkey"
+            columns: ["category"]
+            isOneToOne: false
+            referencedRelation: "document_retention_rules"
+            referencedColumns: ["category"]
+          },
+          {
+            foreignKeyName: "documents_content_version_id_fkey"
+            columns: ["content_version_id"]
+            isOneToOne: false
+            referencedRelation: "document_versions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "documents_current_version_id_fkey"
+            columns: ["current_version_id"]
+            isOneToOne: false
+            referencedRelation: "document_versions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "documents_deleted_by_fkey"
+            columns: ["deleted_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "documents_folder_id_fkey"
+            columns: ["folder_id"]
+            isOneToOne: false
+            referencedRelation: "document_folders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "documents_legal_hold_by_fkey"
+            columns: ["legal_hold_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "documents_owner_id_fkey"
+            columns: ["owner_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       documents_tasks: {
         Row: {
@@ -218,30 +650,162 @@ export type Database = {
           },
         ]
       }
-      notifications: {
+      invitations: {
         Row: {
+          accepted_at: string | null
+          accepted_by: string | null
           created_at: string
+          email: string
+          expires_at: string
           id: string
-          message: string
-          status: string
-          task_id: string
-          title: string
-          type: string
-          user_id: string
+          invited_by: string | null
+          revoked_at: string | null
+          role: string
+          token_hash: string
         }
         Insert: {
+          accepted_at?: string | null
+          accepted_by?: string | null
           created_at?: string
+          email: string
+          expires_at: string
           id?: string
-          message: string
-          status?: string
-          task_id: string
-          title: string
-          type: string
-          user_id: string
+          invited_by?: string | null
+          revoked_at?: string | null
+          role?: string
+          token_hash: string
         }
         Update: {
+          accepted_at?: string | null
+          accepted_by?: string | null
           created_at?: string
+          email?: string
+          expires_at?: string
+          id?: string
+          invited_by?: string | null
+          revoked_at?: string | null
+          role?: string
+          token_hash?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invitations_invited_by_fkey"
+            columns: ["invited_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notification_preferences: {
+        Row: {
+          channel: string
+          type: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          channel?: string
+          type: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          channel?: string
+          type?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notification_preferences_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notification_settings: {
+        Row: {
+          digest_frequency: string
+          last_digest_at: string | null
+          quiet_hours_end: string | null
+          quiet_hours_start: string | null
+          timezone: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          digest_frequency?: string
+          last_digest_at?: string | null
+          quiet_hours_end?: string | null
+          quiet_hours_start?: string | null
+          timezone?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          digest_frequency?: string
+          last_digest_at?: string | null
+          quiet_hours_end?: string | null
+          quiet_hours_start?: string | null
+          timezone?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notification_settings_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notifications: {
+        Row: {
+          comment_id: string | null
+          created_at: string
+          dedupe_key: string | null
+          deliver_after: string
+          delivery: string
+          emailed_at: string | null
+          id: string
+          link: string | null
+          message: string
+          status: string
+          task_id: string
+          title: string
+          type: string
+          user_id: string
+        }
+        Insert: {
+          comment_id?: string | null
+          created_at?: string
+          dedupe_key?: string | null
+          deliver_after?: string
+          delivery?: string
+          emailed_at?: string | null
           id?: string
+          link?: string | null
+          message: string
+          status?: string
+          task_id: string
+          title: string
+          type: string
+          user_id: string
+        }
+        Update: {
+          comment_id?: string | null
+          created_at?: string
+          dedupe_key?: string | null
+          deliver_after?: string
+          delivery?: string
+          emailed_at?: string | null
+          id?: string
+          link?: string | null
           message?: string
           status?: string
           task_id?: string
@@ -250,6 +814,13 @@ export type Database = {
           user_id?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "notifications_comment_id_fkey"
+            columns: ["comment_id"]
+            isOneToOne: false
+            referencedRelation: "comments"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "notifications_task_id_fkey"
             columns: ["task_id"]
@@ -269,7 +840,7 @@ export type Database = {
           full_name: string
           id: string
           location: string | null
-          role: string | null
+          role: string
           username: string | null
         }
         Insert: {
@@ -281,7 +852,7 @@ export type Database = {
           full_name: string
           id: string
           location?: string | null
-          role?: string | null
+          role?: string
           username?: string | null
         }
         Update: {
@@ -293,11 +864,71 @@ export type Database = {
           full_name?: string
           id?: string
           location?: string | null
-          role?: string | null
+          role?: string
           username?: string | null
         }
         Relationships: []
       }
+      quarantined_files: {
+        Row: {
+          created_at: string
+          details: string | null
+          file_name: string
+          file_path: string
+          id: string
+          reason: string
+          reviewed_at: string | null
+          reviewed_by: string | null
+          scanner: string | null
+          size: number
+          status: string
+          uploaded_by: string | null
+        }
+        Insert: {
+          created_at?: string
+          details?: string | null
+          file_name: string
+          file_path: string
+          id?: string
+          reason: string
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          scanner?: string | null
+          size: number
+          status?: string
+          uploaded_by?: string | null
+        }
+        Update: {
+          created_at?: string
+          details?: string | null
+          file_name?: string
+          file_path?: string
+          id?: string
+          reason?: string
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          scanner?: string | null
+          size?: number
+          status?: string
+          uploaded_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "quarantined_files_reviewed_by_fkey"
+            columns: ["reviewed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "quarantined_files_uploaded_by_fkey"
+            columns: ["uploaded_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       security_audits: {
         Row: {
           audit_type: string
@@ -352,47 +983,464 @@ export type Database = {
         }
         Relationships: []
       }
+      storage_quotas: {
+        Row: {
+          quota_bytes: number | null
+          scope: string
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          quota_bytes?: number | null
+          scope: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          quota_bytes?: number | null
+          scope?: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "storage_quotas_updated_by_fkey"
+            columns: ["updated_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      task_wip_limits: {
+        Row: {
+          status: string
+          updated_at: string
+          updated_by: string | null
+          wip_limit: number | null
+          workflow_id: string
+        }
+        Insert: {
+          status: string
+          updated_at?: string
+          updated_by?: string | null
+          wip_limit?: number | null
+          workflow_id: string
+        }
+        Update: {
+          status?: string
+          updated_at?: string
+          updated_by?: string | null
+          wip_limit?: number | null
+          workflow_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "task_wip_limits_updated_by_fkey"
+            columns: ["updated_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_wip_limits_workflow_state_fkey"
+            columns: ["workflow_id", "status"]
+            isOneToOne: false
+            referencedRelation: "workflow_states"
+            referencedColumns: ["workflow_id", "key"]
+          },
+        ]
+      }
+      task_dependencies: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          depends_on_task_id: string
+          task_id: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          depends_on_task_id: string
+          task_id: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          depends_on_task_id?: string
+          task_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "task_dependencies_depends_on_task_id_fkey"
+            columns: ["depends_on_task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_dependencies_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      task_subtasks: {
+        Row: {
+          completed_at: string | null
+          created_at: string
+          id: string
+          is_completed: boolean
+          position: number
+          task_id: string
+          title: string
+        }
+        Insert: {
+          completed_at?: string | null
+          created_at?: string
+          id?: string
+          is_completed?: boolean
+          position?: number
+          task_id: string
+          title: string
+        }
+        Update: {
+          completed_at?: string | null
+          created_at?: string
+          id?: string
+          is_completed?: boolean
+          position?: number
+          task_id?: string
+          title?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "task_subtasks_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       tasks: {
         Row: {
+          actual_hours: number | null
           assigned_to: string
           created_at: string
           created_by: string
           deadline: string
+          description: string | null
+          estimate_hours: number | null
           id: string
           priority: string
+          recurrence_rule: string | null
+          recurrence_start: string | null
+          series_id: string | null
           status: string
+          team_id: string | null
           title: string
           user_id: string
+          workflow_id: string | null
         }
         Insert: {
+          actual_hours?: number | null
           assigned_to: string
           created_at?: string
           created_by: string
           deadline: string
+          description?: string | null
+          estimate_hours?: number | null
           id?: string
           priority: string
-          status: string
+          recurrence_rule?: string | null
+          recurrence_start?: string | null
+          series_id?: string | null
+          status?: string
+          team_id?: string | null
           title: string
           user_id: string
+          workflow_id?: string | null
         }
         Update: {
+          actual_hours?: number | null
           assigned_to?: string
           created_at?: string
           created_by?: string
           deadline?: string
+          description?: string | null
+          estimate_hours?: number | null
           id?: string
           priority?: string
+          recurrence_rule?: string | null
+          recurrence_start?: string | null
+          series_id?: string | null
           status?: string
+          team_id?: string | null
           title?: string
           user_id?: string
+          workflow_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "tasks_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tasks_workflow_id_fkey"
+            columns: ["workflow_id"]
+            isOneToOne: false
+            referencedRelation: "task_workflows"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      task_workflows: {
+        Row: {
+          created_at: string
+          id: string
+          is_default: boolean
+          name: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          is_default?: boolean
+          name: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          is_default?: boolean
+          name?: string
         }
         Relationships: []
       }
+      team_members: {
+        Row: {
+          created_at: string
+          team_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          team_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          team_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "team_members_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "team_members_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      teams: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          workflow_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          workflow_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          workflow_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "teams_workflow_id_fkey"
+            columns: ["workflow_id"]
+            isOneToOne: false
+            referencedRelation: "task_workflows"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_storage_quotas: {
+        Row: {
+          quota_bytes: number
+          updated_at: string
+          updated_by: string | null
+          user_id: string
+        }
+        Insert: {
+          quota_bytes: number
+          updated_at?: string
+          updated_by?: string | null
+          user_id: string
+        }
+        Update: {
+          quota_bytes?: number
+          updated_at?: string
+          updated_by?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_storage_quotas_updated_by_fkey"
+            columns: ["updated_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "user_storage_quotas_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      workflow_states: {
+        Row: {
+          category: string
+          color: string
+          is_initial: boolean
+          key: string
+          label: string
+          position: number
+          requires_unblocked: boolean
+          workflow_id: string
+        }
+        Insert: {
+          category: string
+          color?: string
+          is_initial?: boolean
+          key: string
+          label: string
+          position?: number
+          requires_unblocked?: boolean
+          workflow_id: string
+        }
+        Update: {
+          category?: string
+          color?: string
+          is_initial?: boolean
+          key?: string
+          label?: string
+          position?: number
+          requires_unblocked?: boolean
+          workflow_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "workflow_states_workflow_id_fkey"
+            columns: ["workflow_id"]
+            isOneToOne: false
+            referencedRelation: "task_workflows"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      workflow_transitions: {
+        Row: {
+          from_state: string
+          notification_template: string | null
+          notification_type: string | null
+          to_state: string
+          workflow_id: string
+        }
+        Insert: {
+          from_state: string
+          notification_template?: string | null
+          notification_type?: string | null
+          to_state: string
+          workflow_id: string
+        }
+        Update: {
+          from_state?: string
+          notification_template?: string | null
+          notification_type?: string | null
+          to_state?: string
+          workflow_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "workflow_transitions_workflow_id_fkey"
+            columns: ["workflow_id"]
+            isOneToOne: false
+            referencedRelation: "task_workflows"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
+      access_level: {
+        Args: {
+          "": Database["public"]["Tables"]["documents"]["Row"]
+        }
+        Returns: string
+      }
+      bootstrap_admin: {
+        Args: {
+          p_email: string
+        }
+        Returns: string
+      }
+      can_access_document: {
+        Args: {
+          p_access?: string
+          p_document_id: string
+          p_user_id: string
+        }
+        Returns: boolean
+      }
+      can_access_document_file: {
+        Args: {
+          p_access?: string
+          p_path: string
+        }
+        Returns: boolean
+      }
+      can_view_task: {
+        Args: {
+          p_task_id: string
+          p_user_id: string
+        }
+        Returns: boolean
+      }
+      claim_document_purge: {
+        Args: {
+          p_document_id: string
+        }
+        Returns: boolean
+      }
+      current_user_role: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
       decrypt_sensitive_data: {
         Args: {
           encrypted_data: string
@@ -400,6 +1448,25 @@ export type Database = {
         }
         Returns: string
       }
+      document_access_level: {
+        Args: {
+          p_document_id: string
+          p_user_id: string
+        }
+        Returns: string
+      }
+      documents_pending_indexing: {
+        Args: {
+          p_limit?: number
+        }
+        Returns: Database["public"]["Tables"]["documents"]["Row"][]
+      }
+      documents_pending_purge: {
+        Args: {
+          p_limit?: number
+        }
+        Returns: Database["public"]["Tables"]["documents"]["Row"][]
+      }
       encrypt_sensitive_data: {
         Args: {
           data: string
@@ -407,6 +1474,120 @@ export type Database = {
         }
         Returns: string
       }
+      has_role: {
+        Args: {
+          roles: string[]
+        }
+        Returns: boolean
+      }
+      mentioned_profiles: {
+        Args: {
+          p_emails: string[]
+        }
+        Returns: {
+          email: string
+          full_name: string
+        }[]
+      }
+      post_comment: {
+        Args: {
+          p_content: string
+          p_document_ids?: string[]
+          p_parent_id?: string
+          p_task_id: string
+        }
+        Returns: string
+      }
+      profile_ids_by_email: {
+        Args: {
+          p_emails: string[]
+        }
+        Returns: {
+          id: string
+          email: string
+        }[]
+      }
+      search_documents: {
+        Args: {
+          p_limit?: number
+          p_query: string
+        }
+        Returns: {
+          headline: string
+          id: string
+          rank: number
+        }[]
+      }
+      series_occurrences_due: {
+        Args: {
+          p_now?: string
+          p_series_id?: string
+        }
+        Returns: Database["public"]["Tables"]["tasks"]["Row"][]
+      }
+      storage_quota_exceeded: {
+        Args: {
+          p_size: number
+          p_user_id: string
+        }
+        Returns: string | null
+      }
+      storage_top_consumers: {
+        Args: {
+          p_limit?: number
+        }
+        Returns: {
+          email: string
+          file_count: number
+          full_name: string
+          has_override: boolean
+          quota_bytes: number | null
+          used_bytes: number
+          user_id: string
+        }[]
+      }
+      storage_usage: {
+        Args: {
+          p_user_id?: string
+        }
+        Returns: {
+          org_quota_bytes: number | null
+          org_used_bytes: number
+          user_quota_bytes: number | null
+          user_used_bytes: number
+        }[]
+      }
+      stored_document_files: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          file_path: string
+          size: number
+          uploaded_by: string | null
+        }[]
+      }
+      task_open_blockers: {
+        Args: {
+          p_task_id: string
+        }
+        Returns: Database["public"]["Tables"]["tasks"]["Row"][]
+      }
+      unregistered_document_files: {
+        Args: {
+          p_limit?: number
+          p_older_than?: unknown
+        }
+        Returns: {
+          file_path: string
+          size: number
+          uploaded_by: string | null
+        }[]
+      }
+      user_storage_quota: {
+        Args: {
+          p_user_id: string
+        }
+        Returns: number | null
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import {
+  checkFileContent,
+  checkFileMetadata,
+  getFileExtension,
+  MAX_FILE_SIZE,
+  sniffFileType,
+} from "./fileValidation";
+
+const PNG = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+const PDF = new Uint8Array([0x25, 0x50, 0x44, 0x46, 0x2d, 0x31, 0x2e, 0x37]);
+const EXE = new Uint8Array([0x4d, 0x5a, 0x90, 0x00, 0x03, 0x00, 0x00, 0x00]);
+
+describe("getFileExtension", () => {
+  it("returns the lowercased last extension", () => {
+    expect(getFileExtension("Report.Final.PDF")).toBe("pdf");
+    expect(getFileExtension("README")).toBe("");
+  });
+});
+
+describe("checkFileMetadata", () => {
+  it("accepts allowed types within the size limit", () => {
+    expect(checkFileMetadata("scan.jpeg", MAX_FILE_SIZE)).toBeNull();
+  });
+
+  it("rejects oversized files", () => {
+    expect(checkFileMetadata("scan.pdf", MAX_FILE_SIZE + 1)).toBe("File size must be less than 10MB");
+  });
+
+  it("rejects other types", () => {
+    expect(checkFileMetadata("setup.exe", 1024)).toMatch(/^Invalid file type/);
+  });
+});
+
+describe("checkFileContent", () => {
+  it("accepts content matching the extension", () => {
+    expect(checkFileContent("scan.png", PNG)).toBeNull();
+    expect(checkFileContent("contract.pdf", PDF)).toBeNull();
+  });
+
+  it("names the detected type when it differs from the extension", () => {
+    expect(sniffFileType(PNG)).toBe("png");
+    expect(checkFileContent("contract.pdf", PNG)).toBe(
+      "File content is PNG, which does not match its .pdf extension"
+    );
+  });
+
+  it("rejects unknown content", () => {
+    expect(sniffFileType(EXE)).toBeNull();
+    expect(checkFileContent("contract.pdf", EXE)).toBe("File content does not match its .pdf extension");
+  });
+
+  it("rejects too few bytes to compare", () => {
+    expect(checkFileContent("scan.png", PNG.slice(0, 4))).not.toBeNull();
+  });
+});
@@ -0,0 +1,4 @@
+// Upload rules shared by the browser and handle-document-upload, which
+// enforces them again on the stored file. There is a single source module so
+// the two sides cannot drift apart.
+export * from "../../supabase/functions/_shared/fileValidation";
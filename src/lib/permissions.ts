@@ -0,0 +1,2 @@
+// The edge functions check the same permissions, so both import one module
+export * from "../../supabase/functions/_shared/permissions";
@@ -0,0 +1,115 @@
+import { describe, expect, it } from "vitest";
+import {
+  describeRRule,
+  formatRRule,
+  nextOccurrence,
+  occurrencesBetween,
+  parseRRule,
+  presetForRule,
+  RecurrenceError,
+  validateRRule,
+} from "./recurrence";
+
+const utc = (value: string) => new Date(`${value}Z`);
+const isoDates = (dates: Date[]) => dates.map((date) => date.toISOString());
+
+describe("parseRRule", () => {
+  it("parses frequency, interval and weekdays", () => {
+    expect(parseRRule("RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,FR")).toEqual({
+      freq: "WEEKLY",
+      interval: 2,
+      byDay: [{ weekday: 1 }, { weekday: 5 }],
+    });
+  });
+
+  it("treats a date-only UNTIL as the end of that day", () => {
+    expect(parseRRule("FREQ=DAILY;UNTIL=20261031").until?.toISOString()).toBe("2026-10-31T23:59:59.000Z");
+  });
+
+  it.each([
+    ["FREQ=HOURLY"],
+    ["FREQ=DAILY;INTERVAL=0"],
+    ["FREQ=DAILY;COUNT=3;UNTIL=20261031"],
+    ["FREQ=WEEKLY;BYDAY=1MO"],
+    ["FREQ=WEEKLY;BYMONTHDAY=1"],
+    ["FREQ=YEARLY;BYMONTHDAY=1"],
+    ["FREQ=MONTHLY;BYSETPOS=1"],
+  ])("rejects %s", (value) => {
+    expect(() => parseRRule(value)).toThrow(RecurrenceError);
+  });
+
+  it("round-trips through formatRRule", () => {
+    const value = "FREQ=MONTHLY;BYDAY=-1FR;COUNT=6";
+    expect(formatRRule(parseRRule(value))).toBe(value);
+  });
+});
+
+describe("occurrences", () => {
+  it("repeats on the chosen weekdays, starting after dtstart", () => {
+    const rule = parseRRule("FREQ=WEEKLY;BYDAY=MO,FR");
+    const start = utc("2026-10-14T09:00:00");
+
+    expect(isoDates(occurrencesBetween(rule, start, start, utc("2026-10-24T00:00:00")))).toEqual([
+      "2026-10-16T09:00:00.000Z",
+      "2026-10-19T09:00:00.000Z",
+      "2026-10-23T09:00:00.000Z",
+    ]);
+  });
+
+  it("skips months that are too short for the start day", () => {
+    const rule = parseRRule("FREQ=MONTHLY");
+    const start = utc("2026-01-31T09:00:00");
+
+    expect(isoDates(occurrencesBetween(rule, start, start, utc("2026-06-01T00:00:00")))).toEqual([
+      "2026-03-31T09:00:00.000Z",
+      "2026-05-31T09:00:00.000Z",
+    ]);
+  });
+
+  it("finds the last weekday of the next month", () => {
+    const rule = parseRRule("FREQ=MONTHLY;BYDAY=-1FR");
+    const start = utc("2026-10-30T17:00:00");
+
+    expect(nextOccurrence(rule, start, start)?.toISOString()).toBe("2026-11-27T17:00:00.000Z");
+  });
+
+  it("counts dtstart towards COUNT", () => {
+    const rule = parseRRule("FREQ=DAILY;COUNT=3");
+    const start = utc("2026-10-05T09:00:00");
+
+    expect(isoDates(occurrencesBetween(rule, start, start, utc("2026-10-31T00:00:00")))).toEqual([
+      "2026-10-06T09:00:00.000Z",
+      "2026-10-07T09:00:00.000Z",
+    ]);
+    expect(nextOccurrence(rule, start, utc("2026-10-07T09:00:00"))).toBeNull();
+  });
+
+  it("stops after UNTIL", () => {
+    const rule = parseRRule("FREQ=DAILY;UNTIL=20261006");
+    const start = utc("2026-10-05T09:00:00");
+
+    expect(nextOccurrence(rule, start, utc("2026-10-06T09:00:00"))).toBeNull();
+  });
+});
+
+describe("describing rules", () => {
+  it("summarizes a rule", () => {
+    expect(describeRRule(parseRRule("FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,FR;COUNT=6"))).toBe(
+      "Every 2 weeks on Mon, Fri, 6 times"
+    );
+  });
+
+  it("reports why a rule is invalid", () => {
+    expect(validateRRule("FREQ=DAILY;COUNT=x")).toEqual({
+      summary: null,
+      error: "COUNT must be a positive integer",
+    });
+    expect(validateRRule(null)).toEqual({ summary: null, error: null });
+  });
+
+  it("maps rules to presets", () => {
+    expect(presetForRule(null)).toBe("none");
+    expect(presetForRule("FREQ=WEEKLY")).toBe("weekly");
+    expect(presetForRule("FREQ=WEEKLY;BYDAY=MO")).toBe("custom");
+  });
+});
@@ -0,0 +1,71 @@
+// Recurrence rules are evaluated by a module shared with the edge functions;
+// this file adds what only the browser needs: summaries and form presets.
+import { Frequency, parseRRule, RecurrenceError, RecurrenceRule } from "../../supabase/functions/_shared/recurrence";
+
+export * from "../../supabase/functions/_shared/recurrence";
+
+const WEEKDAY_NAMES = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const ORDINAL_NAMES: Record<number, string> = {
+  1: "first",
+  2: "second",
+  3: "third",
+  4: "fourth",
+  5: "fifth",
+  [-1]: "last",
+};
+const FREQUENCY_UNITS: Record<Frequency, string> = {
+  DAILY: "day",
+  WEEKLY: "week",
+  MONTHLY: "month",
+  YEARLY: "year",
+};
+
+// Human readable summary such as "Every 2 weeks on Mon, Fri, 6 times"
+export const describeRRule = (rule: RecurrenceRule) => {
+  const unit = FREQUENCY_UNITS[rule.freq];
+  let text = rule.interval > 1 ? `Every ${rule.interval} ${unit}s` : `Every ${unit}`;
+
+  if (rule.byDay?.length) {
+    const days = rule.byDay.map((spec) =>
+      spec.ordinal
+        ? `${ORDINAL_NAMES[spec.ordinal] ?? `#${spec.ordinal}`} ${WEEKDAY_NAMES[spec.weekday]}`
+        : WEEKDAY_NAMES[spec.weekday]
+    );
+    text += ` on ${days.join(", ")}`;
+  }
+  if (rule.byMonthDay?.length) {
+    text += ` on day ${rule.byMonthDay.map((day) => (day === -1 ? "last" : day)).join(", ")}`;
+  }
+  if (rule.count) text += `, ${rule.count} times`;
+  if (rule.until) text += `, until ${rule.until.toISOString().slice(0, 10)}`;
+  return text;
+};
+
+export type RecurrencePreset = "none" | "daily" | "weekly" | "monthly" | "custom";
+
+export const PRESET_RULES: Record<Exclude<RecurrencePreset, "none" | "custom">, string> = {
+  daily: "FREQ=DAILY",
+  weekly: "FREQ=WEEKLY",
+  monthly: "FREQ=MONTHLY",
+};
+
+export const presetForRule = (value: string | null | undefined): RecurrencePreset => {
+  if (!value) return "none";
+  const preset = (Object.keys(PRESET_RULES) as (keyof typeof PRESET_RULES)[]).find(
+    (key) => PRESET_RULES[key] === value
+  );
+  return preset ?? "custom";
+};
+
+// Summary of a rule for display, or the parse error when it is invalid
+export const validateRRule = (value: string | null | undefined) => {
+  if (!value) return { summary: null, error: null };
+  try {
+    return { summary: describeRRule(parseRRule(value)), error: null };
+  } catch (error) {
+    return {
+      summary: null,
+      error: error instanceof RecurrenceError ? error.message : "Invalid recurrence rule",
+    };
+  }
+};
@@ -0,0 +1,201 @@
+// A minimal client for Supabase Storage's resumable (TUS 1.0.0) endpoint.
+// Files go up in chunks over XMLHttpRequest so progress is reported per byte,
+// and the upload URL is remembered in localStorage so an interrupted upload
+// of the same file continues where it stopped instead of starting over.
+import { supabase, supabaseKey, supabaseUrl } from "@/lib/supabase";
+
+const ENDPOINT = `${supabaseUrl}/storage/v1/upload/resumable`;
+// Supabase requires exactly 6MB chunks; only the last one may be smaller
+const CHUNK_SIZE = 6 * 1024 * 1024;
+const STORAGE_PREFIX = "resumable-upload:";
+
+export interface UploadOptions {
+  onProgress?: (uploaded: number, total: number) => void;
+  signal?: AbortSignal;
+}
+
+interface ResumableUploadParams extends UploadOptions {
+  bucket: string;
+  file: File;
+  // Used for new uploads; a resumed upload keeps its original path
+  path: string;
+}
+
+interface StoredUpload {
+  url: string;
+  path: string;
+}
+
+export class UploadCancelledError extends Error {
+  constructor() {
+    super("Upload cancelled");
+    this.name = "UploadCancelledError";
+  }
+}
+
+// The same file picked again from the same folder maps to the same upload
+const getFingerprint = (bucket: string, path: string, file: File) =>
+  `${STORAGE_PREFIX}${bucket}/${path.split("/")[0]}:${file.name}:${file.size}:${file.lastModified}`;
+
+const readStoredUpload = (key: string): StoredUpload | null => {
+  try {
+    const value = localStorage.getItem(key);
+    return value ? (JSON.parse(value) as StoredUpload) : null;
+  } catch {
+    return null;
+  }
+};
+
+// TUS metadata values are base64; this keeps non-ASCII characters intact
+const encodeMetadata = (metadata: Record<string, string>) =>
+  Object.entries(metadata)
+    .map(([key, value]) => {
+      const bytes = new TextEncoder().encode(value);
+      return `${key} ${btoa(String.fromCharCode(...bytes))}`;
+    })
+    .join(",");
+
+const request = (
+  method: string,
+  url: string,
+  headers: Record<string, string>,
+  signal?: AbortSignal,
+  body?: Blob,
+  onProgress?: (loaded: number) => void
+) =>
+  new Promise<XMLHttpRequest>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new UploadCancelledError());
+      return;
+    }
+
+    const xhr = new XMLHttpRequest();
+    const abort = () => xhr.abort();
+
+    xhr.open(method, url);
+    Object.entries(headers).forEach(([name, value]) => xhr.setRequestHeader(name, value));
+    if (onProgress) {
+      xhr.upload.onprogress = (event) => onProgress(event.loaded);
+    }
+
+    xhr.onload = () => resolve(xhr);
+    xhr.onerror = () => reject(new Error("Network error while uploading"));
+    xhr.onabort = () => reject(new UploadCancelledError());
+    xhr.onloadend = () => signal?.removeEventListener("abort", abort);
+    signal?.addEventListener("abort", abort);
+
+    xhr.send(body ?? null);
+  });
+
+const responseError = (xhr: XMLHttpRequest, fallback: string) => {
+  try {
+    const { message, error } = JSON.parse(xhr.responseText);
+    return new Error(message || error || fallback);
+  } catch {
+    return new Error(xhr.responseText || fallback);
+  }
+};
+
+// Returns the offset to continue from, or null if the server no longer
+// knows the upload (completed, expired or never created)
+const getOffset = async (url: string, headers: Record<string, string>, signal?: AbortSignal) => {
+  const xhr = await request("HEAD", url, headers, signal);
+  if (xhr.status !== 200) return null;
+
+  const offset = Number(xhr.getResponseHeader("Upload-Offset"));
+  return Number.isFinite(offset) ? offset : null;
+};
+
+const createUpload = async (
+  bucket: string,
+  path: string,
+  file: File,
+  headers: Record<string, string>,
+  signal?: AbortSignal
+) => {
+  const xhr = await request(
+    "POST",
+    ENDPOINT,
+    {
+      ...headers,
+      "Upload-Length": String(file.size),
+      "Upload-Metadata": encodeMetadata({
+        bucketName: bucket,
+        objectName: path,
+        contentType: file.type || "application/octet-stream",
+        cacheControl: "no-cache",
+      }),
+      "x-upsert": "false",
+    },
+    signal
+  );
+
+  const location = xhr.getResponseHeader("Location");
+  if (xhr.status !== 201 || !location) {
+    throw responseError(xhr, "Failed to start upload");
+  }
+
+  return new URL(location, ENDPOINT).toString();
+};
+
+// Uploads a file and resolves with the path it was stored under. Rejects
+// with UploadCancelledError when the signal aborts; calling again with the
+// same file then resumes from the last chunk the server acknowledged.
+export const uploadResumable = async ({ bucket, file, path, onProgress, signal }: ResumableUploadParams) => {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) throw new Error("Not authenticated");
+
+  const headers = {
+    Authorization: `Bearer ${session.access_token}`,
+    apikey: supabaseKey,
+    "Tus-Resumable": "1.0.0",
+  };
+
+  const key = getFingerprint(bucket, path, file);
+  const stored = readStoredUpload(key);
+  let upload: StoredUpload | null = null;
+  let offset = 0;
+
+  if (stored) {
+    const storedOffset = await getOffset(stored.url, headers, signal);
+    if (storedOffset !== null) {
+      upload = stored;
+      offset = storedOffset;
+    }
+  }
+
+  if (!upload) {
+    upload = { url: await createUpload(bucket, path, file, headers, signal), path };
+    localStorage.setItem(key, JSON.stringify(upload));
+  }
+
+  onProgress?.(offset, file.size);
+
+  while (offset < file.size) {
+    const chunk = file.slice(offset, offset + CHUNK_SIZE);
+    const chunkStart = offset;
+
+    const xhr = await request(
+      "PATCH",
+      upload.url,
+      {
+        ...headers,
+        "Content-Type": "application/offset+octet-stream",
+        "Upload-Offset": String(offset),
+      },
+      signal,
+      chunk,
+      (loaded) => onProgress?.(chunkStart + loaded, file.size)
+    );
+
+    if (xhr.status !== 204) {
+      throw responseError(xhr, "Failed to upload file");
+    }
+
+    offset = Number(xhr.getResponseHeader("Upload-Offset")) || offset + chunk.size;
+    onProgress?.(offset, file.size);
+  }
+
+  localStorage.removeItem(key);
+  return upload.path;
+};
@@ -8,7 +8,8 @@ import { supabase } from "@/lib/supabase";
 import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { useState, useEffect } from "react";
 import { EventList } from "@/components/calendar/EventList";
-import { startOfDay, endOfDay, parseISO, isEqual } from "date-fns";
+import { startOfDay, endOfDay, parseISO, isEqual, max } from "date-fns";
+import { occurrencesBetween, parseRRule, RecurrenceError } from "@/lib/recurrence";
 
 const Calendar = () => {
   const [date, setDate] = useState<Date | undefined>(new Date());
@@ -84,7 +85,7 @@ const Calendar = () => {
     const start = startOfDay(selectedDate);
     const end = endOfDay(selectedDate);
 
-    return tasks
+    const savedEvents = tasks
       .filter(task => {
         const taskDate = parseISO(task.deadline);
         return taskDate >= start && taskDate <= end;
@@ -96,9 +97,54 @@ const Calendar = () => {
         type: 'task' as const,
         priority: task.priority,
         status: task.status,
+        workflow_id: task.workflow_id,
         created_by: task.created_by,
-        assigned_to: task.assigned_to
+        assigned_to: task.assigned_to,
+        recurring: !!task.recurrence_rule
       }));
+
+    return [...savedEvents, ...getUpcomingOccurrences(start, end)]
+      .sort((a, b) => a.date.getTime() - b.date.getTime());
+  };
+
+  // Future occurrences of recurring tasks are computed from the latest saved
+  // occurrence of each series; no rows exist for them until they are due
+  const getUpcomingOccurrences = (start: Date, end: Date) => {
+    const latestBySeries = new Map<string, Task>();
+    tasks.forEach(task => {
+      if (!task.series_id) return;
+      const current = latestBySeries.get(task.series_id);
+      if (!current || parseISO(task.deadline) > parseISO(current.deadline)) {
+        latestBySeries.set(task.series_id, task);
+      }
+    });
+
+    return [...latestBySeries.values()].flatMap(task => {
+      if (!task.recurrence_rule) return [];
+
+      try {
+        const rule = parseRRule(task.recurrence_rule);
+        const dtstart = parseISO(task.recurrence_start ?? task.deadline);
+        const after = max([parseISO(task.deadline), new Date(start.getTime() - 1)]);
+
+        return occurrencesBetween(rule, dtstart, after, end).map(date => ({
+          id: `${task.series_id}-${date.toISOString()}`,
+          title: task.title,
+          date,
+          type: 'occurrence' as const,
+          priority: task.priority,
+          status: task.status,
+          workflow_id: task.workflow_id,
+          created_by: task.created_by,
+          assigned_to: task.assigned_to,
+          recurring: true
+        }));
+      } catch (error) {
+        if (!(error instanceof RecurrenceError)) throw error;
+        console.error(`Invalid recurrence rule on task ${task.id}:`, error.message);
+        return [];
+      }
+    });
   };
 
   const events = date ? getEventsForDate(date) : [];
@@ -2,10 +2,8 @@ import { Layout } from "@/components/Layout";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { Progress } from "@/components/ui/progress";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
 import { 
-  Plus, 
   FileText, 
   Download, 
   File, 
@@ -14,36 +12,182 @@ import {
   Eye,
   Trash2,
   AlertTriangle,
-  Shield
+  Shield,
+  History,
+  Pencil,
+  Tag,
+  Users,
+  HardDrive,
+  Lock,
+  Archive,
+  X
 } from "lucide-react";
-import { useState, useEffect } from "react";
+import { Fragment, useState, useEffect, useMemo } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
+import { useDebounce } from "@/hooks/use-debounce";
+import { useUploadQueue } from "@/hooks/use-upload-queue";
 import { supabase } from "@/lib/supabase";
 import { useSessionContext } from "@supabase/auth-helpers-react";
-import { validateFile, sanitizeFileName } from "@/utils/documentSecurity";
-
-interface Document {
+import { usePermissions } from "@/hooks/use-permissions";
+import { documentService } from "@/services/documentService";
+import { Document, DocumentFolder, DocumentUpdate } from "@/types/document";
+import { DocumentVersionsDialog } from "@/components/documents/DocumentVersionsDialog";
+import { DocumentAccessDialog } from "@/components/documents/DocumentAccessDialog";
+import { DocumentDetailsDialog } from "@/components/documents/DocumentDetailsDialog";
+import { DocumentPreviewDialog } from "@/components/documents/DocumentPreviewDialog";
+import { DocumentTrash } from "@/components/documents/DocumentTrash";
+import { FolderDialog } from "@/components/documents/FolderDialog";
+import { FolderTree } from "@/components/documents/FolderTree";
+import { RetentionRulesDialog } from "@/components/documents/RetentionRulesDialog";
+import { SearchSnippet } from "@/components/documents/SearchSnippet";
+import { StorageQuotaDialog } from "@/components/documents/StorageQuotaDialog";
+import { StorageUsageMeter } from "@/components/documents/StorageUsageMeter";
+import { UploadDropZone } from "@/components/uploads/UploadDropZone";
+import { UploadQueue } from "@/components/uploads/UploadQueue";
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from "@/components/ui/breadcrumb";
+import { buildFolderTree, getFolderPath, getFolderSubtreeIds } from "@/utils/documentFolders";
+import { formatFileSize } from "@/utils/fileSize";
+import { getExceededQuota } from "@/utils/storageQuota";
+import { QUOTA_EXCEEDED_MESSAGES } from "@/lib/fileValidation";
+
+interface Profile {
   id: string;
-  title: string;
-  file_type: string;
-  file_path: string;
-  size: number;
-  created_at: string;
-  content: string | null;
-  created_by: string;
+  full_name: string;
+  email: string;
 }
 
 const Documents = () => {
   const [documents, setDocuments] = useState<Document[]>([]);
   const [searchQuery, setSearchQuery] = useState("");
-  const [uploading, setUploading] = useState(false);
-  const [uploadProgress, setUploadProgress] = useState(0);
-  const [selectedDocument, setSelectedDocument] = useState<Document | null>(null);
-  const [isViewOpen, setIsViewOpen] = useState(false);
+  const debouncedSearch = useDebounce(searchQuery.trim(), 300);
+  const [previewDocument, setPreviewDocument] = useState<Document | null>(null);
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
   const [documentToDelete, setDocumentToDelete] = useState<Document | null>(null);
+  const [versionsDocumentId, setVersionsDocumentId] = useState<string | null>(null);
+  const [detailsDocumentId, setDetailsDocumentId] = useState<string | null>(null);
+  const [accessDocumentId, setAccessDocumentId] = useState<string | null>(null);
+  const [selectedFolderId, setSelectedFolderId] = useState<string | null>(null);
+  const [selectedTags, setSelectedTags] = useState<string[]>([]);
+  const [folderDialog, setFolderDialog] = useState<{ folder: DocumentFolder | null; parentId: string | null } | null>(null);
+  const [folderToDelete, setFolderToDelete] = useState<DocumentFolder | null>(null);
+  const [isQuotaDialogOpen, setIsQuotaDialogOpen] = useState(false);
+  const [isRetentionDialogOpen, setIsRetentionDialogOpen] = useState(false);
+  const [showTrash, setShowTrash] = useState(false);
+  const queryClient = useQueryClient();
   const { toast } = useToast();
   const { session } = useSessionContext();
+  const { can } = usePermissions();
+
+  // Each file goes to the folder that was open when it was added
+  const uploads = useUploadQueue<string | null>({
+    upload: async (item, options) => {
+      if (!session?.user) throw new Error("You must be logged in to upload documents");
+      await documentService.uploadDocument(item.file, session.user.id, item.context, options);
+    },
+    onUploaded: () => {
+      fetchDocuments();
+      queryClient.invalidateQueries({ queryKey: ['storage-usage'] });
+    },
+  });
+
+  const { data: storageUsage } = useQuery({
+    queryKey: ['storage-usage'],
+    queryFn: documentService.getStorageUsage,
+    enabled: !!session?.user && can("documents.upload"),
+  });
+
+  // Refuses a batch that cannot fit, counting files still in the queue
+  const handleFilesAdded = (files: File[]) => {
+    const pendingBytes = uploads.items
+      .filter((item) => item.status === "queued" || item.status === "uploading")
+      .reduce((sum, item) => sum + item.file.size, 0);
+    const batchBytes = files.reduce((sum, file) => sum + file.size, 0);
+    const exceeded = storageUsage && getExceededQuota(storageUsage, pendingBytes + batchBytes);
+
+    if (exceeded) {
+      toast({
+        title: "Error",
+        description: QUOTA_EXCEEDED_MESSAGES[exceeded],
+        variant: "destructive",
+      });
+      return;
+    }
+
+    uploads.addFiles(files, selectedFolderId);
+  };
+
+  // Owners, managers and admins may upload new versions of a document and delete it
+  // access_level comes from the same rules the database enforces
+  const canManage = (document: Document) => document.access_level === "manage";
+  const canEdit = (document: Document) => document.access_level === "manage" || document.access_level === "edit";
+
+  // Read from the list so the dialog sees the current version after a change
+  const versionsDocument = documents.find((doc) => doc.id === versionsDocumentId) ?? null;
+  const detailsDocument = documents.find((doc) => doc.id === detailsDocumentId) ?? null;
+  const accessDocument = documents.find((doc) => doc.id === accessDocumentId) ?? null;
+
+  const canManageFolder = (folder: DocumentFolder) =>
+    can("documents.delete_any") || folder.created_by === session?.user?.id;
+
+  const { data: folders = [] } = useQuery({
+    queryKey: ['document-folders'],
+    queryFn: documentService.getFolders,
+  });
+
+  const { data: owners = [] } = useQuery({
+    queryKey: ['employees'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('*');
+
+      if (error) throw error;
+      return data as Profile[];
+    },
+  });
+
+  const { data: retentionRules = [] } = useQuery({
+    queryKey: ['document-retention-rules'],
+    queryFn: documentService.getRetentionRules,
+  });
+
+  const isFullTextSearch = debouncedSearch.length >= 2;
+  const { data: searchResults } = useQuery({
+    queryKey: ['document-search', debouncedSearch],
+    queryFn: () => documentService.searchDocuments(debouncedSearch),
+    enabled: isFullTextSearch,
+  });
+
+  // Until results for the current query arrive, fall back to matching titles
+  const searchMatches = isFullTextSearch && searchResults
+    ? new Map(searchResults.map((result) => [result.id, result]))
+    : null;
+
+  const thumbnailPaths = documents
+    .map((doc) => doc.thumbnail_path)
+    .filter((path): path is string => !!path)
+    .sort();
+
+  const { data: thumbnailUrls } = useQuery({
+    queryKey: ['document-thumbnails', thumbnailPaths],
+    queryFn: () => documentService.getThumbnailUrls(thumbnailPaths),
+    enabled: thumbnailPaths.length > 0,
+    // Signed for an hour; refreshed well before they expire
+    staleTime: 30 * 60 * 1000,
+  });
+
+  const folderTree = useMemo(() => buildFolderTree(folders), [folders]);
+  const folderPath = useMemo(() => getFolderPath(folders, selectedFolderId), [folders, selectedFolderId]);
+  const expandedFolderIds = useMemo(() => new Set(folderPath.map((folder) => folder.id)), [folderPath]);
+  const ownerNames = new Map(owners.map((owner) => [owner.id, owner.full_name || owner.email]));
 
   useEffect(() => {
     fetchDocuments();
@@ -52,18 +196,10 @@ const Documents = () => {
   const fetchDocuments = async () => {
     try {
       console.log("Fetching documents...");
-      const { data, error } = await supabase
-        .from('documents')
-        .select('*')
-        .order('created_at', { ascending: false });
-
-      if (error) {
-        console.error('Error fetching documents:', error);
-        throw error;
-      }
-
+      const data = await documentService.getDocuments();
       console.log("Fetched documents:", data);
-      setDocuments(data || []);
+      setDocuments(data);
+      queryClient.invalidateQueries({ queryKey: ['document-search'] });
     } catch (error) {
       console.error('Error fetching documents:', error);
       toast({
@@ -74,138 +210,90 @@ const Documents = () => {
     }
   };
 
-  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file || !session?.user) return;
-
-    if (!validateFile(file)) return;
-
-    setUploading(true);
-    setUploadProgress(0);
+  const refreshFolders = () => {
+    queryClient.invalidateQueries({ queryKey: ['document-folders'] });
+  };
 
+  const handleSaveFolder = async (name: string, parentId: string | null) => {
     try {
-      const sanitizedFileName = sanitizeFileName(file.name);
-      const filePath = `${session.user.id}/${crypto.randomUUID()}.${sanitizedFileName.split('.').pop()}`;
-
-      // Simulate progress before actual upload starts
-      const progressInterval = setInterval(() => {
-        setUploadProgress(prev => {
-          if (prev >= 90) {
-            clearInterval(progressInterval);
-            return 90;
-          }
-          return prev + 10;
-        });
-      }, 100);
-
-      const { error: uploadError } = await supabase.storage
-        .from('documents')
-        .upload(filePath, file, {
-          cacheControl: 'no-cache',
-          upsert: false,
-          contentType: file.type,
-        });
-
-      clearInterval(progressInterval);
-
-      if (uploadError) throw uploadError;
-
-      // Set to 95% after successful upload
-      setUploadProgress(95);
-
-      const { error: dbError } = await supabase
-        .from('documents')
-        .insert({
-          title: sanitizedFileName,
-          file_path: filePath,
-          file_type: sanitizedFileName.split('.').pop()?.toLowerCase() || '',
-          size: file.size,
-          created_by: session.user.id
-        });
-
-      if (dbError) throw dbError;
-
-      // Set to 100% after database update
-      setUploadProgress(100);
-
+      if (folderDialog?.folder) {
+        await documentService.updateFolder(folderDialog.folder.id, { name, parent_id: parentId });
+      } else if (session?.user) {
+        const folder = await documentService.createFolder(name, parentId, session.user.id);
+        setSelectedFolderId(folder.id);
+      }
+      refreshFolders();
+    } catch (error) {
+      console.error('Folder save error:', error);
+      const { code, hint } = error as { code?: string; hint?: string };
       toast({
-        title: "Success",
-        description: "Document uploaded successfully",
+        title: "Error",
+        description: hint === 'folder_cycle'
+          ? "A folder cannot be moved into one of its own subfolders"
+          : code === '23505'
+            ? "A folder with this name already exists here"
+            : "Failed to save folder",
+        variant: "destructive",
       });
+      throw error;
+    }
+  };
 
-      await fetchDocuments();
+  const handleConfirmDeleteFolder = async () => {
+    if (!folderToDelete) return;
+
+    try {
+      await documentService.deleteFolder(folderToDelete.id);
+      if (selectedFolderId === folderToDelete.id) setSelectedFolderId(folderToDelete.parent_id);
+      refreshFolders();
     } catch (error) {
-      console.error('Upload error:', error);
+      console.error('Folder delete error:', error);
       toast({
         title: "Error",
-        description: error instanceof Error ? error.message : "Failed to upload document",
+        description: (error as { code?: string }).code === '23503'
+          ? "Move or delete the folder's documents and subfolders first"
+          : "Failed to delete folder",
         variant: "destructive",
       });
     } finally {
-      // Reset after a brief delay to show the 100% state
-      setTimeout(() => {
-        setUploading(false);
-        setUploadProgress(0);
-      }, 500);
-      
-      const fileInput = document.getElementById('file-upload') as HTMLInputElement;
-      if (fileInput) {
-        fileInput.value = '';
-      }
+      setFolderToDelete(null);
     }
   };
 
-  const handleDownload = async (document: Document) => {
-    try {
-      const { data, error } = await supabase.storage
-        .from('documents')
-        .download(document.file_path);
-
-      if (error) throw error;
-
-      const url = URL.createObjectURL(data);
-      const a = window.document.createElement('a');
-      a.href = url;
-      a.download = document.title;
-      a.click();
-      URL.revokeObjectURL(url);
+  const handleSaveDetails = async (updates: DocumentUpdate) => {
+    if (!detailsDocument) return;
 
-      toast({
-        title: "Success",
-        description: `Downloaded ${document.title}`,
-      });
+    try {
+      await documentService.updateDocument(detailsDocument.id, updates);
+      await fetchDocuments();
     } catch (error) {
-      console.error('Download error:', error);
+      console.error('Document update error:', error);
       toast({
         title: "Error",
-        description: "Failed to download document",
+        description: "Failed to update document",
         variant: "destructive",
       });
+      throw error;
     }
   };
 
-  const handleView = async (document: Document) => {
-    try {
-      const { data, error } = await supabase.storage
-        .from('documents')
-        .createSignedUrl(document.file_path, 300);
+  const toggleTag = (tag: string) => {
+    setSelectedTags((prev) => (prev.includes(tag) ? prev.filter((t) => t !== tag) : [...prev, tag]));
+  };
 
-      if (error) throw error;
+  const handleDownload = async (document: Pick<Document, "id" | "file_path" | "title">) => {
+    try {
+      await documentService.downloadDocument(document);
 
-      if (['doc', 'docx'].includes(document.file_type)) {
-        const officeOnlineUrl = `https://view.officeapps.live.com/op/view.aspx?src=${encodeURIComponent(data.signedUrl)}`;
-        window.open(officeOnlineUrl, '_blank');
-      } else if (['pdf'].includes(document.file_type)) {
-        window.open(data.signedUrl, '_blank');
-      } else if (['jpg', 'jpeg', 'png'].includes(document.file_type)) {
-        setSelectedDocument({ ...document, content: data.signedUrl });
-        setIsViewOpen(true);
-      }
+      toast({
+        title: "Success",
+        description: `Downloaded ${document.title}`,
+      });
     } catch (error) {
-      console.error('View error:', error);
+      console.error('Download error:', error);
       toast({
         title: "Error",
-        description: "Failed to view document",
+        description: "Failed to download document",
         variant: "destructive",
       });
     }
@@ -221,30 +309,24 @@ const Documents = () => {
     if (!documentToDelete) return;
 
     try {
-      const { error: storageError } = await supabase.storage
-        .from('documents')
-        .remove([documentToDelete.file_path]);
-
-      if (storageError) throw storageError;
-
-      const { error: dbError } = await supabase
-        .from('documents')
-        .delete()
-        .eq('id', documentToDelete.id);
-
-      if (dbError) throw dbError;
+      await documentService.trashDocument(documentToDelete.id);
+      queryClient.invalidateQueries({ queryKey: ['document-trash'] });
 
       toast({
         title: "Success",
-        description: "Document deleted successfully",
+        description: "Document moved to the trash",
       });
 
       await fetchDocuments();
     } catch (error) {
       console.error('Delete error:', error);
+      // Legal holds and retention periods come back with the date or reason
+      const { hint, message } = error as { hint?: string; message?: string };
       toast({
         title: "Error",
-        description: error instanceof Error ? error.message : "Failed to delete document",
+        description: hint === 'legal_hold' || hint === 'retention_period'
+          ? message
+          : "Failed to move document to the trash",
         variant: "destructive",
       });
     } finally {
@@ -253,17 +335,23 @@ const Documents = () => {
     }
   };
 
-  const filteredDocuments = documents.filter(doc =>
-    doc.title.toLowerCase().includes(searchQuery.toLowerCase())
+  const trashDays = (document: Document | null) =>
+    retentionRules.find((rule) => rule.category === (document?.category ?? "default"))?.trash_days;
+
+  // A folder shows its own documents and those of its subfolders
+  const folderScope = selectedFolderId ? getFolderSubtreeIds(folders, selectedFolderId) : null;
+  const documentsInScope = documents.filter(doc =>
+    !folderScope || (!!doc.folder_id && folderScope.has(doc.folder_id))
   );
+  const availableTags = [...new Set(documentsInScope.flatMap((doc) => doc.tags ?? []))].sort();
 
-  const formatFileSize = (bytes: number) => {
-    if (bytes === 0) return '0 Bytes';
-    const k = 1024;
-    const sizes = ['Bytes', 'KB', 'MB', 'GB'];
-    const i = Math.floor(Math.log(bytes) / Math.log(k));
-    return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
-  };
+  const filteredDocuments = documentsInScope.filter(doc =>
+    (searchMatches ? searchMatches.has(doc.id) : doc.title.toLowerCase().includes(searchQuery.toLowerCase())) &&
+    selectedTags.every((tag) => doc.tags?.includes(tag))
+  );
+  if (searchMatches) {
+    filteredDocuments.sort((a, b) => searchMatches.get(b.id)!.rank - searchMatches.get(a.id)!.rank);
+  }
 
   return (
     <Layout>
@@ -273,33 +361,39 @@ const Documents = () => {
             <h1 className="text-2xl md:text-3xl font-bold">Document Management</h1>
             <p className="text-sm md:text-base text-gray-600 mt-1">Manage and organize company documents</p>
           </div>
-          <div className="flex items-center gap-4">
-            <Input
-              type="file"
-              className="hidden"
-              id="file-upload"
-              onChange={handleFileUpload}
-              accept=".doc,.docx,.pdf,.jpg,.jpeg,.png"
-            />
-            <label htmlFor="file-upload">
-              <Button asChild className="whitespace-nowrap">
-                <span>
-                  <Plus className="w-4 h-4 mr-2" />
-                  Upload Document
-                </span>
+          <div className="flex flex-wrap gap-2">
+            {can("documents.manage_retention") && (
+              <Button variant="outline" onClick={() => setIsRetentionDialogOpen(true)} className="whitespace-nowrap">
+                <Archive className="w-4 h-4 mr-2" />
+                Retention Rules
+              </Button>
+            )}
+            {can("documents.manage_quotas") && (
+              <Button variant="outline" onClick={() => setIsQuotaDialogOpen(true)} className="whitespace-nowrap">
+                <HardDrive className="w-4 h-4 mr-2" />
+                Storage Quotas
               </Button>
-            </label>
+            )}
           </div>
         </div>
 
-        {uploading && (
-          <div className="space-y-2">
-            <div className="flex justify-between text-sm">
-              <span>Uploading...</span>
-              <span>{uploadProgress}%</span>
-            </div>
-            <Progress value={uploadProgress} />
-          </div>
+        {can("documents.upload") && (
+          <Card className="p-4 space-y-4">
+            {storageUsage && <StorageUsageMeter usage={storageUsage} />}
+            <UploadDropZone
+              onFiles={handleFilesAdded}
+              label={folderPath.length > 0
+                ? `Drop files here or click to upload to "${folderPath[folderPath.length - 1].name}"`
+                : "Drop files here or click to upload"}
+            />
+            <UploadQueue
+              items={uploads.items}
+              onCancel={uploads.cancel}
+              onRetry={uploads.retry}
+              onRemove={uploads.remove}
+              onClearFinished={uploads.clearFinished}
+            />
+          </Card>
         )}
 
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4 md:gap-6">
@@ -313,7 +407,7 @@ const Documents = () => {
             <FileCheck className="w-6 h-6 md:w-8 md:h-8 text-green-600 mb-2" />
             <h3 className="font-semibold text-sm md:text-base">Word Documents</h3>
             <p className="text-xl md:text-2xl font-bold mt-2">
-              {documents.filter(d => ['doc', 'docx'].includes(d.file_type)).length}
+              {documentsInScope.filter(d => ['doc', 'docx'].includes(d.file_type)).length}
             </p>
           </Card>
           
@@ -321,88 +415,322 @@ const Documents = () => {
             <File className="w-6 h-6 md:w-8 md:h-8 text-orange-600 mb-2" />
             <h3 className="font-semibold text-sm md:text-base">Other Files</h3>
             <p className="text-xl md:text-2xl font-bold mt-2">
-              {documents.filter(d => !['doc', 'docx'].includes(d.file_type)).length}
+              {documentsInScope.filter(d => !['doc', 'docx'].includes(d.file_type)).length}
             </p>
           </Card>
         </div>
 
-        <Card className="p-4 md:p-6">
-          <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4 mb-6">
-            <h2 className="text-lg md:text-xl font-semibold">Recent Documents</h2>
-            <div className="w-full md:w-64">
-              <div className="relative">
-                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
-                <Input
-                  type="text"
-                  placeholder="Search documents..."
-                  className="pl-10"
-                  value={searchQuery}
-                  onChange={(e) => setSearchQuery(e.target.value)}
-                />
-              </div>
-            </div>
-          </div>
+        <div className="flex flex-col lg:flex-row gap-4 md:gap-6">
+          <Card className="p-4 lg:w-64 flex-shrink-0 self-start">
+            <h2 className="text-sm font-semibold mb-2">Folders</h2>
+            <FolderTree
+              tree={folderTree}
+              selectedFolderId={selectedFolderId}
+              expandedIds={expandedFolderIds}
+              onSelect={(folderId) => {
+                setShowTrash(false);
+                setSelectedFolderId(folderId);
+              }}
+              canCreate={can("documents.upload")}
+              canManage={canManageFolder}
+              onCreate={(parentId) => setFolderDialog({ folder: null, parentId })}
+              onEdit={(folder) => setFolderDialog({ folder, parentId: folder.parent_id })}
+              onDelete={setFolderToDelete}
+            />
+            <Button
+              variant={showTrash ? "secondary" : "ghost"}
+              size="sm"
+              className="w-full justify-start mt-2"
+              onClick={() => setShowTrash(true)}
+              aria-pressed={showTrash}
+            >
+              <Trash2 className="w-4 h-4 mr-2" />
+              Trash
+            </Button>
+          </Card>
 
-          <div className="space-y-4">
-            {filteredDocuments.map((doc) => (
-              <div
-                key={doc.id}
-                className="flex flex-col md:flex-row md:items-center justify-between p-3 md:p-4 border rounded-lg hover:border-primary/20 transition-colors gap-3 md:gap-4"
-              >
-                <div className="flex items-start md:items-center gap-3 md:gap-4">
-                  <FileText className="w-5 h-5 md:w-6 md:h-6 text-gray-400 flex-shrink-0" />
-                  <div className="min-w-0">
-                    <h3 className="font-medium text-sm md:text-base truncate">{doc.title}</h3>
-                    <p className="text-xs md:text-sm text-gray-500 truncate">
-                      {doc.file_type.toUpperCase()} • {formatFileSize(doc.size)} • 
-                      Last modified: {new Date(doc.created_at).toLocaleDateString()}
-                    </p>
+          <Card className="p-4 md:p-6 flex-1 min-w-0">
+            {showTrash ? (
+              <>
+                <div className="mb-4">
+                  <h2 className="text-lg md:text-xl font-semibold">Trash</h2>
+                  <p className="text-sm text-gray-500">
+                    Deleted documents can be restored until they are purged.
+                  </p>
+                </div>
+                <DocumentTrash onRestored={fetchDocuments} />
+              </>
+            ) : (
+              <>
+                <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4 mb-4">
+                  <Breadcrumb>
+                    <BreadcrumbList>
+                      <BreadcrumbItem>
+                        {folderPath.length > 0 ? (
+                          <BreadcrumbLink asChild>
+                            <button type="button" onClick={() => setSelectedFolderId(null)}>
+                              All documents
+                            </button>
+                          </BreadcrumbLink>
+                        ) : (
+                          <BreadcrumbPage className="text-lg md:text-xl font-semibold">All documents</BreadcrumbPage>
+                        )}
+                      </BreadcrumbItem>
+                      {folderPath.map((folder, index) => (
+                        <Fragment key={folder.id}>
+                          <BreadcrumbSeparator />
+                          <BreadcrumbItem>
+                            {index === folderPath.length - 1 ? (
+                              <BreadcrumbPage className="text-lg md:text-xl font-semibold">{folder.name}</BreadcrumbPage>
+                            ) : (
+                              <BreadcrumbLink asChild>
+                                <button type="button" onClick={() => setSelectedFolderId(folder.id)}>
+                                  {folder.name}
+                                </button>
+                              </BreadcrumbLink>
+                            )}
+                          </BreadcrumbItem>
+                        </Fragment>
+                      ))}
+                    </BreadcrumbList>
+                  </Breadcrumb>
+                  <div className="w-full md:w-64">
+                    <div className="relative">
+                      <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
+                      <Input
+                        type="text"
+                        placeholder="Search titles, tags and text..."
+                        className="pl-10"
+                        value={searchQuery}
+                        onChange={(e) => setSearchQuery(e.target.value)}
+                      />
+                    </div>
                   </div>
                 </div>
-                <div className="flex items-center gap-2 ml-9 md:ml-0">
-                  <Button 
-                    variant="ghost" 
-                    size="icon"
-                    onClick={() => handleView(doc)}
-                  >
-                    <Eye className="w-4 h-4" />
-                  </Button>
-                  <Button
-                    variant="ghost"
-                    size="icon"
-                    onClick={() => handleDownload(doc)}
-                  >
-                    <Download className="w-4 h-4" />
-                  </Button>
-                  <Button
-                    variant="ghost"
-                    size="icon"
-                    onClick={(e) => handleDeleteClick(e, doc)}
-                    className="text-red-500 hover:text-red-600 hover:bg-red-50"
-                  >
-                    <Trash2 className="w-4 h-4" />
-                  </Button>
+
+                {availableTags.length > 0 && (
+                  <div className="flex flex-wrap items-center gap-2 mb-6">
+                    <Tag className="w-4 h-4 text-gray-400" />
+                    {availableTags.map((tag) => (
+                      <button
+                        key={tag}
+                        type="button"
+                        onClick={() => toggleTag(tag)}
+                        aria-pressed={selectedTags.includes(tag)}
+                        className={`text-xs px-2 py-0.5 rounded-full border transition-colors ${
+                          selectedTags.includes(tag)
+                            ? "bg-primary text-primary-foreground border-primary"
+                            : "bg-gray-50 text-gray-600 hover:border-primary/40"
+                        }`}
+                      >
+                        {tag}
+                      </button>
+                    ))}
+                    {selectedTags.length > 0 && (
+                      <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => setSelectedTags([])}>
+                        <X className="w-3 h-3 mr-1" />
+                        Clear
+                      </Button>
+                    )}
+                  </div>
+                )}
+
+                <div className="space-y-4">
+                  {filteredDocuments.length === 0 && (
+                    <p className="text-sm text-gray-500 text-center py-8">No documents match the current filters</p>
+                  )}
+                  {filteredDocuments.map((doc) => (
+                    <div
+                      key={doc.id}
+                      className="flex flex-col md:flex-row md:items-center justify-between p-3 md:p-4 border rounded-lg hover:border-primary/20 transition-colors gap-3 md:gap-4"
+                    >
+                      <div className="flex items-start md:items-center gap-3 md:gap-4">
+                        {doc.thumbnail_path && thumbnailUrls?.get(doc.thumbnail_path) ? (
+                          <img
+                            src={thumbnailUrls.get(doc.thumbnail_path)}
+                            alt=""
+                            className="w-9 h-12 md:w-12 md:h-16 object-cover object-top rounded border flex-shrink-0"
+                            loading="lazy"
+                          />
+                        ) : (
+                          <FileText className="w-5 h-5 md:w-6 md:h-6 text-gray-400 flex-shrink-0" />
+                        )}
+                        <div className="min-w-0">
+                          <h3 className="font-medium text-sm md:text-base truncate">{doc.title}</h3>
+                          <p className="text-xs md:text-sm text-gray-500 truncate">
+                            {doc.file_type.toUpperCase()} • {formatFileSize(doc.size)} • 
+                            Last modified: {new Date(doc.last_modified ?? doc.created_at).toLocaleDateString()}
+                          </p>
+                          {searchMatches?.has(doc.id) && <SearchSnippet headline={searchMatches.get(doc.id)!.headline} />}
+                          {(doc.owner_id || doc.department) && (
+                            <p className="text-xs text-gray-500 truncate">
+                              {doc.owner_id && <>Owner: {ownerNames.get(doc.owner_id) ?? "Unknown"}</>}
+                              {doc.owner_id && doc.department && " • "}
+                              {doc.department}
+                            </p>
+                          )}
+                          {!!doc.tags?.length && (
+                            <div className="flex flex-wrap gap-1 mt-1">
+                              {doc.tags.map((tag) => (
+                                <span key={tag} className="text-xs px-2 py-0.5 rounded-full bg-gray-100 text-gray-600">
+                                  {tag}
+                                </span>
+                              ))}
+                            </div>
+                          )}
+                          {doc.legal_hold && (
+                            <p
+                              className="flex items-center gap-1 text-xs text-amber-700 mt-1"
+                              title={doc.legal_hold_reason ?? undefined}
+                            >
+                              <Lock className="w-3 h-3" />
+                              Legal hold
+                            </p>
+                          )}
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-2 ml-9 md:ml-0">
+                        <Button 
+                          variant="ghost" 
+                          size="icon"
+                          onClick={() => setPreviewDocument(doc)}
+                        >
+                          <Eye className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => handleDownload(doc)}
+                        >
+                          <Download className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => setVersionsDocumentId(doc.id)}
+                          aria-label="Version history"
+                        >
+                          <History className="w-4 h-4" />
+                        </Button>
+                        {canEdit(doc) && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => setDetailsDocumentId(doc.id)}
+                            aria-label="Edit details"
+                          >
+                            <Pencil className="w-4 h-4" />
+                          </Button>
+                        )}
+                        {canManage(doc) && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => setAccessDocumentId(doc.id)}
+                            aria-label="Sharing and access history"
+                          >
+                            <Users className="w-4 h-4" />
+                          </Button>
+                        )}
+                        {canManage(doc) && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={(e) => handleDeleteClick(e, doc)}
+                            disabled={!!doc.legal_hold}
+                            title={doc.legal_hold ? "On legal hold" : undefined}
+                            className="text-red-500 hover:text-red-600 hover:bg-red-50"
+                            aria-label="Move to trash"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                  ))}
                 </div>
-              </div>
-            ))}
-          </div>
-        </Card>
+              </>
+            )}
+          </Card>
+        </div>
       </div>
 
-      <Dialog open={isViewOpen} onOpenChange={setIsViewOpen}>
-        <DialogContent className="max-w-3xl">
+      <DocumentPreviewDialog
+        document={previewDocument}
+        open={!!previewDocument}
+        onOpenChange={(open) => !open && setPreviewDocument(null)}
+        onDownload={handleDownload}
+      />
+
+      <DocumentVersionsDialog
+        document={versionsDocument}
+        open={!!versionsDocument}
+        onOpenChange={(open) => !open && setVersionsDocumentId(null)}
+        canEdit={!!versionsDocument && canEdit(versionsDocument)}
+        userId={session?.user?.id}
+        onChange={fetchDocuments}
+      />
+
+      <DocumentDetailsDialog
+        document={detailsDocument}
+        open={!!detailsDocument}
+        onOpenChange={(open) => !open && setDetailsDocumentId(null)}
+        folders={folders}
+        owners={owners}
+        retentionRules={retentionRules}
+        canManage={!!detailsDocument && canManage(detailsDocument)}
+        canSetLegalHold={can("documents.manage_retention")}
+        onSave={handleSaveDetails}
+      />
+
+      <DocumentAccessDialog
+        document={accessDocument}
+        open={!!accessDocument}
+        onOpenChange={(open) => !open && setAccessDocumentId(null)}
+        people={owners}
+        userId={session?.user?.id}
+      />
+
+      <RetentionRulesDialog
+        open={isRetentionDialogOpen}
+        onOpenChange={setIsRetentionDialogOpen}
+        userId={session?.user?.id}
+      />
+
+      <StorageQuotaDialog
+        open={isQuotaDialogOpen}
+        onOpenChange={setIsQuotaDialogOpen}
+        userId={session?.user?.id}
+      />
+
+      <FolderDialog
+        open={!!folderDialog}
+        onOpenChange={(open) => !open && setFolderDialog(null)}
+        folders={folders}
+        folder={folderDialog?.folder ?? null}
+        defaultParentId={folderDialog?.parentId ?? null}
+        onSave={handleSaveFolder}
+      />
+
+      <Dialog open={!!folderToDelete} onOpenChange={(open) => !open && setFolderToDelete(null)}>
+        <DialogContent>
           <DialogHeader>
-            <DialogTitle>{selectedDocument?.title}</DialogTitle>
+            <DialogTitle className="flex items-center gap-2">
+              <AlertTriangle className="h-5 w-5 text-red-500" />
+              Delete Folder
+            </DialogTitle>
+            <DialogDescription>
+              Delete the folder "{folderToDelete?.name}"? Only empty folders can be deleted.
+            </DialogDescription>
           </DialogHeader>
-          {selectedDocument?.content && (
-            <div className="mt-4">
-              <img 
-                src={selectedDocument.content} 
-                alt={selectedDocument.title}
-                className="max-w-full h-auto rounded-lg"
-              />
-            </div>
-          )}
+          <DialogFooter className="sm:justify-start">
+            <Button variant="destructive" onClick={handleConfirmDeleteFolder}>
+              Delete
+            </Button>
+            <Button variant="outline" onClick={() => setFolderToDelete(null)}>
+              Cancel
+            </Button>
+          </DialogFooter>
         </DialogContent>
       </Dialog>
 
@@ -411,10 +739,12 @@ const Documents = () => {
           <DialogHeader>
             <DialogTitle className="flex items-center gap-2">
               <AlertTriangle className="h-5 w-5 text-red-500" />
-              Confirm Deletion
+              Move to Trash
             </DialogTitle>
             <DialogDescription>
-              Are you sure you want to delete "{documentToDelete?.title}"? This action cannot be undone.
+              Move "{documentToDelete?.title}" to the trash? It can be restored from the trash
+              {trashDays(documentToDelete) !== undefined && <> for {trashDays(documentToDelete)} days</>} before it is
+              deleted permanently along with all of its versions.
             </DialogDescription>
           </DialogHeader>
           <DialogFooter className="sm:justify-start">
@@ -422,7 +752,7 @@ const Documents = () => {
               variant="destructive"
               onClick={handleConfirmDelete}
             >
-              Delete
+              Move to Trash
             </Button>
             <Button
               variant="outline"
@@ -13,8 +13,12 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog";
-import { Input } from "@/components/ui/input";
 import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { usePermissions } from "@/hooks/use-permissions";
+import { ROLES, Role } from "@/lib/permissions";
+import { InviteEmployeeDialog } from "@/components/employees/InviteEmployeeDialog";
 
 interface Profile {
   id: string;
@@ -25,19 +29,19 @@ interface Profile {
   username: string | null;
   contact_number: string | null;
   location: string | null;
-  role: string;
+  role: Role;
 }
 
 const Employees = () => {
   const [employees, setEmployees] = useState<Profile[]>([]);
   const [searchTerm, setSearchTerm] = useState("");
   const [isDeleteModalOpen, setIsDeleteModalOpen] = useState(false);
+  const [isInviteModalOpen, setIsInviteModalOpen] = useState(false);
   const [selectedEmployees, setSelectedEmployees] = useState<string[]>([]);
-  const [adminUsername, setAdminUsername] = useState("");
-  const [adminPassword, setAdminPassword] = useState("");
   const [deleteError, setDeleteError] = useState("");
   const [isDeleting, setIsDeleting] = useState(false);
   const { toast } = useToast();
+  const { can, role: currentRole, userId } = usePermissions();
 
   useEffect(() => {
     fetchEmployees();
@@ -57,7 +61,7 @@ const Employees = () => {
       return;
     }
 
-    setEmployees(data || []);
+    setEmployees((data || []) as Profile[]);
   };
 
   const handleDeleteEmployees = async () => {
@@ -73,8 +77,6 @@ const Employees = () => {
       const { data, error } = await supabase.functions.invoke('delete-users', {
         body: {
           userIds: selectedEmployees,
-          adminUsername,
-          adminPassword,
         },
       });
 
@@ -90,8 +92,6 @@ const Employees = () => {
       // Reset state and close modal
       setIsDeleteModalOpen(false);
       setSelectedEmployees([]);
-      setAdminUsername("");
-      setAdminPassword("");
       setDeleteError("");
       
       // Refresh employee list
@@ -109,6 +109,31 @@ const Employees = () => {
     }
   };
 
+  const handleRoleChange = async (employee: Profile, role: Role) => {
+    try {
+      const { error } = await supabase.functions.invoke('update-user-role', {
+        body: { userId: employee.id, role },
+      });
+
+      if (error) {
+        throw new Error(error.message || 'Failed to update role');
+      }
+
+      setEmployees(prev => prev.map(e => e.id === employee.id ? { ...e, role } : e));
+      toast({
+        title: "Success",
+        description: `${employee.full_name} is now ${role}`,
+      });
+    } catch (error) {
+      console.error('Error updating role:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update role",
+        variant: "destructive",
+      });
+    }
+  };
+
   const filteredEmployees = employees.filter(employee => 
     employee.full_name.toLowerCase().includes(searchTerm.toLowerCase()) ||
     employee.email.toLowerCase().includes(searchTerm.toLowerCase()) ||
@@ -124,18 +149,22 @@ const Employees = () => {
             <p className="text-sm md:text-base text-gray-600 mt-1">Manage and view employee information</p>
           </div>
           <div className="flex flex-col md:flex-row gap-3 md:gap-4 w-full md:w-auto">
-            <Button 
-              variant="destructive" 
-              onClick={() => setIsDeleteModalOpen(true)}
-              className="w-full md:w-auto"
-            >
-              <Trash2 className="w-4 h-4 mr-2" />
-              Delete Employees
-            </Button>
-            <Button className="w-full md:w-auto">
-              <Plus className="w-4 h-4 mr-2" />
-              Add Employee
-            </Button>
+            {can("employees.delete") && (
+              <Button 
+                variant="destructive" 
+                onClick={() => setIsDeleteModalOpen(true)}
+                className="w-full md:w-auto"
+              >
+                <Trash2 className="w-4 h-4 mr-2" />
+                Delete Employees
+              </Button>
+            )}
+            {can("employees.invite") && (
+              <Button className="w-full md:w-auto" onClick={() => setIsInviteModalOpen(true)}>
+                <Plus className="w-4 h-4 mr-2" />
+                Add Employee
+              </Button>
+            )}
           </div>
         </div>
 
@@ -166,6 +195,26 @@ const Employees = () => {
                       <p className="text-xs md:text-sm text-gray-500 truncate">@{employee.username}</p>
                     )}
                   </div>
+
+                  {can("employees.manage_roles") && employee.id !== userId ? (
+                    <Select
+                      value={employee.role}
+                      onValueChange={(value: Role) => handleRoleChange(employee, value)}
+                    >
+                      <SelectTrigger className="h-8 w-32 text-xs capitalize">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {ROLES.map((role) => (
+                          <SelectItem key={role} value={role} className="capitalize">
+                            {role}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  ) : (
+                    <Badge variant="secondary" className="capitalize">{employee.role}</Badge>
+                  )}
                   
                   <div className="space-y-2">
                     <div className="flex items-center text-xs md:text-sm text-gray-600">
@@ -199,6 +248,12 @@ const Employees = () => {
         </div>
       </div>
 
+      <InviteEmployeeDialog
+        open={isInviteModalOpen}
+        onOpenChange={setIsInviteModalOpen}
+        currentRole={currentRole}
+      />
+
       <Dialog open={isDeleteModalOpen} onOpenChange={setIsDeleteModalOpen}>
         <DialogContent className="sm:max-w-[425px]">
           <DialogHeader>
@@ -209,7 +264,7 @@ const Employees = () => {
           </DialogHeader>
           <div className="grid gap-4 py-4">
             <div className="space-y-4 max-h-[200px] overflow-y-auto">
-              {employees.map((employee) => (
+              {employees.filter(employee => employee.id !== userId).map((employee) => (
                 <div key={employee.id} className="flex items-center space-x-2">
                   <Checkbox
                     id={employee.id}
@@ -228,29 +283,14 @@ const Employees = () => {
                 </div>
               ))}
             </div>
-            <div className="space-y-2">
-              <Input
-                placeholder="Admin Username"
-                value={adminUsername}
-                onChange={(e) => setAdminUsername(e.target.value)}
-              />
-              <Input
-                type="password"
-                placeholder="Admin Password"
-                value={adminPassword}
-                onChange={(e) => setAdminPassword(e.target.value)}
-              />
-              {deleteError && (
-                <p className="text-sm text-red-500">{deleteError}</p>
-              )}
-            </div>
+            {deleteError && (
+              <p className="text-sm text-red-500">{deleteError}</p>
+            )}
           </div>
           <DialogFooter>
             <Button variant="outline" onClick={() => {
               setIsDeleteModalOpen(false);
               setSelectedEmployees([]);
-              setAdminUsername("");
-              setAdminPassword("");
               setDeleteError("");
             }}>
               Cancel
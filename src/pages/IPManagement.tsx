@@ -3,25 +3,43 @@ import { Layout } from "@/components/Layout";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Plus, Trash2, Shield } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/lib/supabase";
+import { usePermissions } from "@/hooks/use-permissions";
+import { getIpVersion, isCidrBlock, isValidIpOrCidr } from "@/utils/ipAddress";
 
 interface AllowedIP {
   id: string;
   ip_address: string;
   description: string | null;
+  rule_type: "allow" | "deny";
+  expires_at: string | null;
   created_at: string;
 }
 
+// rule_id is only returned to those who manage the rules
+interface IPValidationResult {
+  allowed: boolean;
+  rule_id?: string | null;
+}
+
 const IPManagement = () => {
   const [newIP, setNewIP] = useState("");
   const [description, setDescription] = useState("");
+  const [ruleType, setRuleType] = useState<AllowedIP["rule_type"]>("allow");
+  const [expiresAt, setExpiresAt] = useState("");
   const [currentIP, setCurrentIP] = useState<string>("");
   const [isCurrentIPAllowed, setIsCurrentIPAllowed] = useState<boolean | null>(null);
+  // undefined when the caller may not see which rule decided
+  const [matchedRuleId, setMatchedRuleId] = useState<string | null | undefined>(undefined);
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const { can } = usePermissions();
+  const canManage = can("ip.manage");
 
   // Fetch current IP and validate it
   useEffect(() => {
@@ -32,9 +50,13 @@ const IPManagement = () => {
         const data = await response.json();
         setCurrentIP(data.ip);
 
-        // Validate IP access
-        const { data: validationData } = await supabase.functions.invoke<{ allowed: boolean }>('validate-ip');
+        // Validate IP access and find out which rule decided it
+        const { data: validationData, error: validationError } =
+          await supabase.functions.invoke<IPValidationResult>('validate-ip');
+        if (validationError) throw validationError;
+
         setIsCurrentIPAllowed(validationData?.allowed ?? false);
+        setMatchedRuleId(validationData?.rule_id);
       } catch (error) {
         console.error('Error fetching IP:', error);
         setIsCurrentIPAllowed(false);
@@ -57,6 +79,8 @@ const IPManagement = () => {
     }
   });
 
+  const matchedRule = allowedIPs?.find((ip) => ip.id === matchedRuleId) ?? null;
+
   // Add new IP
   const addIPMutation = useMutation({
     mutationFn: async () => {
@@ -66,8 +90,10 @@ const IPManagement = () => {
       const { error } = await supabase
         .from('allowed_ips')
         .insert([{ 
-          ip_address: newIP, 
+          ip_address: newIP.trim(), 
           description,
+          rule_type: ruleType,
+          expires_at: expiresAt ? new Date(expiresAt).toISOString() : null,
           created_by: user.id 
         }]);
 
@@ -77,9 +103,11 @@ const IPManagement = () => {
       queryClient.invalidateQueries({ queryKey: ['allowed-ips'] });
       setNewIP("");
       setDescription("");
+      setRuleType("allow");
+      setExpiresAt("");
       toast({
         title: "Success",
-        description: "IP address has been added to the allowlist",
+        description: "IP rule has been added",
       });
     },
     onError: (error) => {
@@ -129,15 +157,29 @@ const IPManagement = () => {
       });
       return;
     }
+    if (!isValidIpOrCidr(newIP)) {
+      toast({
+        title: "Error",
+        description: "Please enter a valid IP address or CIDR block",
+        variant: "destructive",
+      });
+      return;
+    }
     addIPMutation.mutate();
   };
 
+  const isExpired = (ip: AllowedIP) => !!ip.expires_at && new Date(ip.expires_at) <= new Date();
+
+  const ipInputError = newIP && !isValidIpOrCidr(newIP)
+    ? "Enter a valid IPv4/IPv6 address or CIDR block (e.g. 203.0.113.0/24 or 2001:db8::/32)"
+    : "";
+
   return (
     <Layout>
       <div className="space-y-6">
         <div>
           <h1 className="text-2xl font-bold">IP Access Management</h1>
-          <p className="text-muted-foreground">Manage allowed IP addresses for application access</p>
+          <p className="text-muted-foreground">Manage IP and CIDR rules for application access. Deny rules override allow rules.</p>
         </div>
 
         {currentIP && (
@@ -153,42 +195,77 @@ const IPManagement = () => {
                     <span className="text-destructive">Not Allowed</span>
                   )}
                 </p>
+                {matchedRule ? (
+                  <p className="text-sm text-muted-foreground">
+                    Matched {matchedRule.rule_type} rule: {matchedRule.ip_address}
+                    {matchedRule.description ? ` (${matchedRule.description})` : ""}
+                  </p>
+                ) : matchedRuleId === null ? (
+                  <p className="text-sm text-muted-foreground">No rule matches this address</p>
+                ) : null}
               </div>
             </div>
           </Card>
         )}
 
-        <Card className="p-6">
-          <form onSubmit={handleAddIP} className="space-y-4">
-            <div className="grid gap-4 md:grid-cols-2">
-              <div>
-                <label htmlFor="ip" className="text-sm font-medium">IP Address</label>
-                <Input
-                  id="ip"
-                  placeholder="Enter IP address"
-                  value={newIP}
-                  onChange={(e) => setNewIP(e.target.value)}
-                />
-              </div>
-              <div>
-                <label htmlFor="description" className="text-sm font-medium">Description (Optional)</label>
-                <Input
-                  id="description"
-                  placeholder="Enter description"
-                  value={description}
-                  onChange={(e) => setDescription(e.target.value)}
-                />
+        {canManage && (
+          <Card className="p-6">
+            <form onSubmit={handleAddIP} className="space-y-4">
+              <div className="grid gap-4 md:grid-cols-2">
+                <div>
+                  <label htmlFor="ip" className="text-sm font-medium">IP Address or CIDR Block</label>
+                  <Input
+                    id="ip"
+                    placeholder="e.g. 203.0.113.7, 203.0.113.0/24 or 2001:db8::/32"
+                    value={newIP}
+                    onChange={(e) => setNewIP(e.target.value)}
+                    aria-invalid={!!ipInputError}
+                  />
+                  {ipInputError && (
+                    <p className="text-sm text-destructive mt-1">{ipInputError}</p>
+                  )}
+                </div>
+                <div>
+                  <label htmlFor="description" className="text-sm font-medium">Description (Optional)</label>
+                  <Input
+                    id="description"
+                    placeholder="Enter description"
+                    value={description}
+                    onChange={(e) => setDescription(e.target.value)}
+                  />
+                </div>
+                <div>
+                  <label className="text-sm font-medium">Rule Type</label>
+                  <Select value={ruleType} onValueChange={(value: AllowedIP["rule_type"]) => setRuleType(value)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="allow">Allow</SelectItem>
+                      <SelectItem value="deny">Deny</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <label htmlFor="expires-at" className="text-sm font-medium">Expires At (Optional)</label>
+                  <Input
+                    id="expires-at"
+                    type="datetime-local"
+                    value={expiresAt}
+                    onChange={(e) => setExpiresAt(e.target.value)}
+                  />
+                </div>
               </div>
-            </div>
-            <Button type="submit" disabled={addIPMutation.isPending}>
-              <Plus className="w-4 h-4 mr-2" />
-              Add IP Address
-            </Button>
-          </form>
-        </Card>
+              <Button type="submit" disabled={addIPMutation.isPending || !!ipInputError}>
+                <Plus className="w-4 h-4 mr-2" />
+                Add IP Rule
+              </Button>
+            </form>
+          </Card>
+        )}
 
         <div className="space-y-4">
-          <h2 className="text-xl font-semibold">Allowed IP Addresses</h2>
+          <h2 className="text-xl font-semibold">IP Rules</h2>
           {isLoading ? (
             <div className="flex items-center justify-center p-6">
               <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
@@ -204,22 +281,43 @@ const IPManagement = () => {
           ) : (
             <div className="grid gap-4">
               {allowedIPs?.map((ip) => (
-                <Card key={ip.id} className="p-4">
+                <Card
+                  key={ip.id}
+                  className={`p-4 ${matchedRuleId === ip.id ? "border-primary" : ""} ${isExpired(ip) ? "opacity-60" : ""}`}
+                >
                   <div className="flex items-center justify-between">
                     <div>
-                      <p className="font-medium">{ip.ip_address}</p>
+                      <div className="flex flex-wrap items-center gap-2">
+                        <p className="font-medium">{ip.ip_address}</p>
+                        <Badge variant={ip.rule_type === "deny" ? "destructive" : "secondary"} className="capitalize">
+                          {ip.rule_type}
+                        </Badge>
+                        <Badge variant="outline">
+                          IPv{getIpVersion(ip.ip_address) ?? "?"}{isCidrBlock(ip.ip_address) ? " range" : ""}
+                        </Badge>
+                        {matchedRuleId === ip.id && (
+                          <Badge>Matches your IP</Badge>
+                        )}
+                      </div>
                       {ip.description && (
                         <p className="text-sm text-muted-foreground">{ip.description}</p>
                       )}
+                      {ip.expires_at && (
+                        <p className="text-xs text-muted-foreground">
+                          {isExpired(ip) ? "Expired" : "Expires"} {new Date(ip.expires_at).toLocaleString()}
+                        </p>
+                      )}
                     </div>
-                    <Button
-                      variant="destructive"
-                      size="icon"
-                      onClick={() => deleteIPMutation.mutate(ip.id)}
-                      disabled={deleteIPMutation.isPending}
-                    >
-                      <Trash2 className="w-4 h-4" />
-                    </Button>
+                    {canManage && (
+                      <Button
+                        variant="destructive"
+                        size="icon"
+                        onClick={() => deleteIPMutation.mutate(ip.id)}
+                        disabled={deleteIPMutation.isPending}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    )}
                   </div>
                 </Card>
               ))}
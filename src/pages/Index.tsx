@@ -5,7 +5,9 @@ import { TaskList } from "@/components/dashboard/TaskList";
 import { TaskForm } from "@/components/dashboard/TaskForm";
 import { CheckCircle2, Clock, AlertCircle } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { useWorkflows } from "@/hooks/use-workflows";
 import { Task } from "@/types/task";
+import { WorkflowStateCategory } from "@/types/workflow";
 import { supabase } from "@/lib/supabase";
 import { useNavigate } from "react-router-dom";
 
@@ -13,6 +15,7 @@ const Index = () => {
   const [tasks, setTasks] = useState<Task[]>([]);
   const { toast } = useToast();
   const navigate = useNavigate();
+  const { getState, isDone } = useWorkflows();
 
   const fetchTasks = async () => {
     const { data: { session } } = await supabase.auth.getSession();
@@ -26,7 +29,7 @@ const Index = () => {
     } else {
       const { data, error } = await supabase
         .from('tasks')
-        .select('*')
+        .select('*, subtasks:task_subtasks(*)')
         .eq('user_id', session.user.id)
         .order('created_at', { ascending: false });
 
@@ -70,9 +73,12 @@ const Index = () => {
     setTasks(prevTasks => [newTask, ...prevTasks]);
   };
 
-  const pendingTasks = tasks.filter(task => task.status === "pending").length;
-  const inProgressTasks = tasks.filter(task => task.status === "in-progress").length;
-  const completedTasks = tasks.filter(task => task.status === "completed").length;
+  const countByCategory = (category: WorkflowStateCategory) =>
+    tasks.filter(task => getState(task)?.category === category).length;
+
+  const pendingTasks = countByCategory("todo");
+  const inProgressTasks = countByCategory("active");
+  const completedTasks = countByCategory("done");
 
   return (
     <Layout>
@@ -109,13 +115,13 @@ const Index = () => {
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 md:gap-6">
           <TaskList 
             title="My Tasks" 
-            tasks={tasks.filter(task => task.status !== "completed")}
+            tasks={tasks.filter(task => !isDone(task))}
             onStatusChange={handleStatusChange}
             onTasksChange={fetchTasks}
           />
           <TaskList 
             title="Completed Tasks" 
-            tasks={tasks.filter(task => task.status === "completed")}
+            tasks={tasks.filter(task => isDone(task))}
             onStatusChange={handleStatusChange}
             onTasksChange={fetchTasks}
           />
@@ -13,8 +13,9 @@ import { AlertCircle } from "lucide-react";
 const Login = () => {
   const navigate = useNavigate();
   const { toast } = useToast();
-  const [showSignup, setShowSignup] = useState(false);
   const [searchParams] = useSearchParams();
+  const inviteToken = searchParams.get("invite");
+  const [showSignup, setShowSignup] = useState(!!inviteToken);
   const [emailConfirmationError, setEmailConfirmationError] = useState(false);
   const [unconfirmedEmail, setUnconfirmedEmail] = useState<string | null>(null);
 
@@ -114,9 +115,9 @@ const Login = () => {
     <Layout>
       <div className="min-h-screen flex items-center justify-center py-12 px-4 sm:px-6 lg:px-8">
         <div className="max-w-md w-full space-y-8">
-          {showSignup ? (
+          {showSignup && inviteToken ? (
             <>
-              <SignupForm />
+              <SignupForm inviteToken={inviteToken} />
               <p className="text-center mt-6 text-sm text-gray-600">
                 Already have an account?{" "}
                 <button
@@ -188,13 +189,19 @@ const Login = () => {
                 />
               </div>
               <p className="text-center mt-6 text-sm text-gray-600">
-                Don't have an account?{" "}
-                <button
-                  onClick={() => setShowSignup(true)}
-                  className="font-medium text-primary hover:text-primary/90 transition-colors"
-                >
-                  Sign up
-                </button>
+                {inviteToken ? (
+                  <>
+                    Have an invitation?{" "}
+                    <button
+                      onClick={() => setShowSignup(true)}
+                      className="font-medium text-primary hover:text-primary/90 transition-colors"
+                    >
+                      Sign up
+                    </button>
+                  </>
+                ) : (
+                  "Don't have an account? Ask your administrator for an invitation."
+                )}
               </p>
             </>
           )}
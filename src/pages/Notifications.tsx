@@ -1,27 +1,34 @@
 import { Layout } from "@/components/Layout";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { Bell, CheckCircle2, Clock, AlertTriangle, Trash2, AtSign } from "lucide-react";
+import { Bell, CheckCircle2, Clock, AlertTriangle, Trash2, AtSign, Settings2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
-import { useEffect } from "react";
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
 import { supabase } from "@/lib/supabase";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { NotificationPreferencesDialog } from "@/components/notifications/NotificationPreferencesDialog";
+import { NotificationType } from "@/types/notification";
 
 interface Notification {
   id: string;
   title: string;
   message: string;
-  type: "deadline" | "overdue" | "status" | "completed" | "assignment" | "mention";
+  type: NotificationType;
   status: "unread" | "read";
   created_at: string;
   task_id: string;
+  comment_id: string | null;
+  link: string | null;
   user_id: string;
 }
 
 const Notifications = () => {
+  const [isPreferencesOpen, setIsPreferencesOpen] = useState(false);
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const navigate = useNavigate();
 
   const { data: notifications = [], isLoading } = useQuery({
     queryKey: ['notifications'],
@@ -33,6 +40,8 @@ const Notifications = () => {
         .from('notifications')
         .select('*')
         .eq('user_id', user.id)
+        .eq('delivery', 'in_app')
+        .lte('deliver_after', new Date().toISOString())
         .order('created_at', { ascending: false });
 
       if (error) throw error;
@@ -59,7 +68,9 @@ const Notifications = () => {
       const { error } = await supabase
         .from('notifications')
         .update({ status: 'read' })
-        .eq('status', 'unread');
+        .eq('status', 'unread')
+        .eq('delivery', 'in_app')
+        .lte('deliver_after', new Date().toISOString());
       
       if (error) throw error;
     },
@@ -178,6 +189,14 @@ const Notifications = () => {
     deleteAllNotificationsMutation.mutate();
   };
 
+  const handleOpen = (notification: Notification) => {
+    if (!notification.link) return;
+    if (notification.status === "unread") {
+      markAsReadMutation.mutate(notification.id);
+    }
+    navigate(notification.link);
+  };
+
   const handleDeleteNotification = (id: string) => {
     deleteNotificationMutation.mutate(id);
   };
@@ -205,6 +224,10 @@ const Notifications = () => {
             </p>
           </div>
           <div className="flex gap-2">
+            <Button variant="outline" onClick={() => setIsPreferencesOpen(true)}>
+              <Settings2 className="w-4 h-4 mr-2" />
+              Preferences
+            </Button>
             {unreadCount > 0 && (
               <Button onClick={handleMarkAllAsRead}>
                 Mark all as read
@@ -241,6 +264,15 @@ const Notifications = () => {
                     </span>
                   </div>
                   <p className="text-gray-600 mt-1">{notification.message}</p>
+                  {notification.link && (
+                    <Button
+                      variant="link"
+                      className="h-auto p-0 mt-1"
+                      onClick={() => handleOpen(notification)}
+                    >
+                      {notification.comment_id ? "View comment" : "View task"}
+                    </Button>
+                  )}
                 </div>
                 <div className="flex gap-2">
                   {notification.status === "unread" && (
@@ -270,6 +302,8 @@ const Notifications = () => {
           )}
         </div>
       </div>
+
+      <NotificationPreferencesDialog open={isPreferencesOpen} onOpenChange={setIsPreferencesOpen} />
     </Layout>
   );
 };
@@ -0,0 +1,324 @@
+import { useEffect, useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Layout } from "@/components/Layout";
+import { BoardColumn, BoardColumnHeader } from "@/components/board/BoardColumn";
+import { WipLimitsDialog } from "@/components/board/WipLimitsDialog";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/use-permissions";
+import { useWorkflows } from "@/hooks/use-workflows";
+import { Task, TASK_PRIORITIES } from "@/types/task";
+import { TaskBlockedError, taskService } from "@/services/taskService";
+import { handleTaskStatusChange } from "@/utils/notificationUtils";
+import { canTransition, findState, findWorkflow, formatStatusKey } from "@/utils/workflow";
+import { supabase } from "@/lib/supabase";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { List, SlidersHorizontal } from "lucide-react";
+
+interface Profile {
+  id: string;
+  full_name: string;
+  email: string;
+}
+
+type Swimlane = "none" | "assignee" | "priority";
+
+interface Lane {
+  key: string;
+  label: string | null;
+  tasks: Task[];
+}
+
+const TaskBoard = () => {
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { can } = usePermissions();
+  const { workflows, getWorkflow } = useWorkflows();
+  const [swimlane, setSwimlane] = useState<Swimlane>("none");
+  const [selectedWorkflowId, setSelectedWorkflowId] = useState<string | null>(null);
+  const [isWipDialogOpen, setIsWipDialogOpen] = useState(false);
+
+  const { data: tasks = [], isLoading: tasksLoading } = useQuery({
+    queryKey: ['tasks'],
+    queryFn: taskService.getTasks,
+    staleTime: 0,
+    gcTime: 0,
+  });
+
+  const { data: wipLimits = [] } = useQuery({
+    queryKey: ['task-wip-limits'],
+    queryFn: taskService.getWipLimits,
+  });
+
+  const { data: employees = [] } = useQuery({
+    queryKey: ['employees'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('*');
+
+      if (error) {
+        toast({
+          title: "Error",
+          description: "Failed to fetch employees",
+          variant: "destructive",
+        });
+        return [];
+      }
+      return data as Profile[];
+    },
+  });
+
+  // Keep the board in sync with changes made elsewhere
+  useEffect(() => {
+    const channel = supabase
+      .channel('task_board_changes')
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'tasks'
+        },
+        () => {
+          queryClient.invalidateQueries({ queryKey: ['tasks'] });
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [queryClient]);
+
+  // The board shows one workflow at a time since columns differ between workflows
+  const workflow = findWorkflow(workflows, selectedWorkflowId);
+  const states = useMemo(() => workflow?.states ?? [], [workflow]);
+
+  const limitsByStatus = useMemo(
+    () => Object.fromEntries(
+      wipLimits
+        .filter((limit) => limit.workflow_id === workflow?.id)
+        .map((limit) => [limit.status, limit.wip_limit])
+    ) as Partial<Record<string, number | null>>,
+    [wipLimits, workflow]
+  );
+
+  const boardTasks = useMemo(
+    () => tasks.filter((task) => getWorkflow(task)?.id === workflow?.id),
+    [tasks, getWorkflow, workflow]
+  );
+
+  const getAssigneeName = (email: string) =>
+    employees.find((employee) => employee.email === email)?.full_name || email;
+
+  const getStateLabel = (status: Task["status"]) =>
+    findState(workflow, status)?.label ?? formatStatusKey(status);
+
+  const countByStatus = (status: Task["status"]) =>
+    boardTasks.filter((task) => task.status === status).length;
+
+  const lanes: Lane[] = useMemo(() => {
+    if (swimlane === "priority") {
+      return TASK_PRIORITIES.map((priority) => ({
+        key: priority,
+        label: `${priority.charAt(0).toUpperCase()}${priority.slice(1)} priority`,
+        tasks: boardTasks.filter((task) => task.priority === priority),
+      }));
+    }
+
+    if (swimlane === "assignee") {
+      const assignees = [...new Set(boardTasks.map((task) => task.assigned_to))].sort();
+      return assignees.map((email) => ({
+        key: email,
+        label: employees.find((employee) => employee.email === email)?.full_name || email,
+        tasks: boardTasks.filter((task) => task.assigned_to === email),
+      }));
+    }
+
+    return [{ key: "all", label: null, tasks: boardTasks }];
+  }, [swimlane, boardTasks, employees]);
+
+  const handleDropTask = async (taskId: string, status: Task["status"]) => {
+    const task = boardTasks.find((t) => t.id === taskId);
+    if (!task || task.status === status) return;
+
+    if (!canTransition(workflow, task.status, status)) {
+      toast({
+        title: "Move not allowed",
+        description: `Tasks can't move from ${getStateLabel(task.status)} to ${getStateLabel(status)}`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const wipLimit = limitsByStatus[status] ?? null;
+    if (wipLimit !== null && countByStatus(status) >= wipLimit) {
+      toast({
+        title: "WIP limit reached",
+        description: `The ${getStateLabel(status)} column already holds ${wipLimit} task(s)`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const previousTasks = queryClient.getQueryData<Task[]>(['tasks']);
+    queryClient.setQueryData<Task[]>(['tasks'], (current = []) =>
+      current.map((t) => (t.id === taskId ? { ...t, status } : t))
+    );
+
+    try {
+      await taskService.updateTaskStatus(taskId, status);
+      await handleTaskStatusChange({ ...task, status }, task.status);
+
+      toast({
+        title: "Success",
+        description: "Task status updated successfully",
+      });
+    } catch (error) {
+      console.error("Error updating task status:", error);
+      queryClient.setQueryData(['tasks'], previousTasks);
+      toast({
+        title: error instanceof TaskBlockedError ? "Task is blocked" : "Error",
+        description: error instanceof TaskBlockedError ? error.message : "Failed to update task status",
+        variant: "destructive",
+      });
+    } finally {
+      queryClient.invalidateQueries({ queryKey: ['tasks'] });
+    }
+  };
+
+  const handleSaveWipLimits = async (limits: Record<string, number | null>) => {
+    if (!workflow) return;
+
+    try {
+      await Promise.all(
+        states.map((state) => taskService.updateWipLimit(workflow.id, state.key, limits[state.key]))
+      );
+      queryClient.invalidateQueries({ queryKey: ['task-wip-limits'] });
+      toast({
+        title: "Success",
+        description: "WIP limits updated",
+      });
+    } catch (error) {
+      console.error("Error updating WIP limits:", error);
+      toast({
+        title: "Error",
+        description: "Failed to update WIP limits",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const columnsStyle = { gridTemplateColumns: `repeat(${states.length}, minmax(0, 1fr))` };
+
+  if (tasksLoading) {
+    return (
+      <Layout>
+        <div className="flex items-center justify-center h-screen">
+          <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-primary"></div>
+        </div>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout>
+      <div className="space-y-6 md:space-y-8">
+        <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
+          <div>
+            <h1 className="text-2xl md:text-3xl font-bold">Task Board</h1>
+            <p className="text-gray-600 mt-1 text-sm md:text-base">Drag tasks between columns to change their status</p>
+          </div>
+          <div className="flex flex-wrap items-center gap-3">
+            {workflows.length > 1 && (
+              <Select
+                value={workflow?.id ?? ""}
+                onValueChange={(value) => setSelectedWorkflowId(value)}
+              >
+                <SelectTrigger className="w-48">
+                  <SelectValue placeholder="Workflow" />
+                </SelectTrigger>
+                <SelectContent>
+                  {workflows.map((w) => (
+                    <SelectItem key={w.id} value={w.id}>
+                      {w.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            <Select value={swimlane} onValueChange={(value: Swimlane) => setSwimlane(value)}>
+              <SelectTrigger className="w-48">
+                <SelectValue placeholder="Swimlanes" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">No swimlanes</SelectItem>
+                <SelectItem value="assignee">Group by assignee</SelectItem>
+                <SelectItem value="priority">Group by priority</SelectItem>
+              </SelectContent>
+            </Select>
+            {can("tasks.configure_board") && (
+              <Button variant="outline" onClick={() => setIsWipDialogOpen(true)}>
+                <SlidersHorizontal className="w-4 h-4 mr-2" />
+                WIP Limits
+              </Button>
+            )}
+            <Button variant="outline" onClick={() => navigate("/tasks")}>
+              <List className="w-4 h-4 mr-2" />
+              List View
+            </Button>
+          </div>
+        </div>
+
+        <div className="overflow-x-auto">
+          <div className="space-y-4" style={{ minWidth: `${states.length * 240}px` }}>
+            <div className="grid gap-4" style={columnsStyle}>
+              {states.map((state) => (
+                <BoardColumnHeader
+                  key={state.key}
+                  state={state}
+                  count={countByStatus(state.key)}
+                  wipLimit={limitsByStatus[state.key] ?? null}
+                />
+              ))}
+            </div>
+
+            {lanes.map((lane) => (
+              <div key={lane.key} className="space-y-2">
+                {lane.label && (
+                  <h2 className="text-sm font-semibold text-gray-700 dark:text-gray-300">
+                    {lane.label} <span className="font-normal text-gray-500">({lane.tasks.length})</span>
+                  </h2>
+                )}
+                <div className="grid gap-4" style={columnsStyle}>
+                  {states.map((state) => (
+                    <BoardColumn
+                      key={state.key}
+                      status={state.key}
+                      tasks={lane.tasks.filter((task) => task.status === state.key)}
+                      getAssigneeName={getAssigneeName}
+                      onDropTask={handleDropTask}
+                    />
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <WipLimitsDialog
+        open={isWipDialogOpen}
+        onOpenChange={setIsWipDialogOpen}
+        states={states}
+        limits={limitsByStatus}
+        onSave={handleSaveWipLimits}
+      />
+    </Layout>
+  );
+};
+
+export default TaskBoard;
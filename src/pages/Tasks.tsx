@@ -1,4 +1,5 @@
 import { useState } from "react";
+import { useNavigate } from "react-router-dom";
 import { Layout } from "@/components/Layout";
 import { TaskList } from "@/components/dashboard/TaskList";
 import { useToast } from "@/hooks/use-toast";
@@ -8,6 +9,9 @@ import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { supabase } from "@/lib/supabase";
+import { Button } from "@/components/ui/button";
+import { LayoutGrid } from "lucide-react";
+import { useWorkflows } from "@/hooks/use-workflows";
 
 interface Profile {
   id: string;
@@ -20,10 +24,12 @@ interface Profile {
 const Tasks = () => {
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const navigate = useNavigate();
   const [searchTerm, setSearchTerm] = useState("");
   const [priorityFilter, setPriorityFilter] = useState<string>("all");
   const [statusFilter, setStatusFilter] = useState<string>("all");
   const [employeeFilter, setEmployeeFilter] = useState<string>("all");
+  const { allStates } = useWorkflows();
 
   const { data: tasks = [], isLoading: tasksLoading } = useQuery({
     queryKey: ['tasks'],
@@ -80,9 +86,15 @@ const Tasks = () => {
   return (
     <Layout>
       <div className="space-y-6 md:space-y-8">
-        <div>
-          <h1 className="text-2xl md:text-3xl font-bold">Tasks</h1>
-          <p className="text-gray-600 mt-1 text-sm md:text-base">View and manage all tasks</p>
+        <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
+          <div>
+            <h1 className="text-2xl md:text-3xl font-bold">Tasks</h1>
+            <p className="text-gray-600 mt-1 text-sm md:text-base">View and manage all tasks</p>
+          </div>
+          <Button variant="outline" onClick={() => navigate("/tasks/board")}>
+            <LayoutGrid className="w-4 h-4 mr-2" />
+            Board View
+          </Button>
         </div>
 
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
@@ -117,9 +129,11 @@ const Tasks = () => {
               </SelectTrigger>
               <SelectContent>
                 <SelectItem value="all">All Statuses</SelectItem>
-                <SelectItem value="pending">Pending</SelectItem>
-                <SelectItem value="in-progress">In Progress</SelectItem>
-                <SelectItem value="completed">Completed</SelectItem>
+                {allStates.map((state) => (
+                  <SelectItem key={state.key} value={state.key}>
+                    {state.label}
+                  </SelectItem>
+                ))}
               </SelectContent>
             </Select>
           </div>
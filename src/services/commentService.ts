@@ -0,0 +1,123 @@
+import { supabase } from '@/lib/supabase';
+import { Comment, CommentEdit, MentionedProfile } from '@/types/comment';
+
+// comments has two foreign keys to profiles (author and deleter), so the
+// embedded author must name its relationship
+const COMMENT_SELECT = `
+  *,
+  user:profiles!comments_user_id_fkey(
+    email,
+    full_name,
+    avatar_url
+  ),
+  attachments:comment_attachments(
+    document:documents(id, title, file_path, file_type, size)
+  ),
+  reactions:comment_reactions(
+    emoji,
+    user_id,
+    created_at,
+    user:profiles(full_name, email)
+  )
+`;
+
+export const commentService = {
+  async getComments(taskId: string) {
+    const { data, error } = await supabase
+      .from('comments')
+      .select(COMMENT_SELECT)
+      .eq('task_id', taskId)
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return data as Comment[];
+  },
+
+  // The comment and its attachments are inserted in one transaction.
+  // comments.mentions is derived from the content by the database, which
+  // also notifies the mentioned users
+  async addComment(
+    taskId: string,
+    content: string,
+    parentId: string | null = null,
+    documentIds: string[] = []
+  ) {
+    const { data, error } = await supabase.rpc('post_comment', {
+      p_task_id: taskId,
+      p_content: content,
+      p_parent_id: parentId,
+      p_document_ids: documentIds,
+    });
+
+    if (error) throw error;
+    return data as string;
+  },
+
+  // The previous content is kept in comment_edits by a database trigger
+  async updateComment(id: string, content: string) {
+    const { error } = await supabase
+      .from('comments')
+      .update({ content })
+      .eq('id', id);
+
+    if (error) throw error;
+  },
+
+  async deleteComment(id: string) {
+    const { error } = await supabase
+      .from('comments')
+      .update({ deleted_at: new Date().toISOString() })
+      .eq('id', id);
+
+    if (error) throw error;
+  },
+
+  async addReaction(commentId: string, emoji: string) {
+    const { data: userData, error: userError } = await supabase.auth.getUser();
+    if (userError) throw userError;
+
+    const { error } = await supabase
+      .from('comment_reactions')
+      .upsert(
+        { comment_id: commentId, user_id: userData.user.id, emoji },
+        { onConflict: 'comment_id,user_id,emoji', ignoreDuplicates: true }
+      );
+
+    if (error) throw error;
+  },
+
+  async removeReaction(commentId: string, emoji: string) {
+    const { data: userData, error: userError } = await supabase.auth.getUser();
+    if (userError) throw userError;
+
+    const { error } = await supabase
+      .from('comment_reactions')
+      .delete()
+      .eq('comment_id', commentId)
+      .eq('user_id', userData.user.id)
+      .eq('emoji', emoji);
+
+    if (error) throw error;
+  },
+
+  // Mentions are stored lowercased; profile emails are matched ignoring case
+  async getMentionedProfiles(emails: string[]) {
+    if (emails.length === 0) return [];
+
+    const { data, error } = await supabase.rpc('mentioned_profiles', { p_emails: emails });
+
+    if (error) throw error;
+    return data as MentionedProfile[];
+  },
+
+  async getEditHistory(commentId: string) {
+    const { data, error } = await supabase
+      .from('comment_edits')
+      .select('id, comment_id, content, edited_at, editor:profiles(full_name, email)')
+      .eq('comment_id', commentId)
+      .order('edited_at', { ascending: false });
+
+    if (error) throw error;
+    return data as CommentEdit[];
+  },
+};
@@ -0,0 +1,439 @@
+import { supabase } from '@/lib/supabase';
+import { uploadResumable, UploadOptions } from '@/lib/resumableUpload';
+import {
+  Document,
+  DocumentAccessLogEntry,
+  DocumentFolder,
+  DocumentPermission,
+  DocumentPreview,
+  DocumentRetentionRule,
+  DocumentSearchResult,
+  DocumentUpdate,
+  DocumentVersion,
+  StorageConsumer,
+  StorageQuotaScope,
+  StorageUsage,
+} from '@/types/document';
+import { sanitizeFileName } from '@/utils/documentSecurity';
+import { getPreviewKind } from '@/utils/documentPreview';
+import { getFunctionErrorMessage } from '@/utils/functions';
+import { checkFileContent, getFileExtension, QUOTA_EXCEEDED_MESSAGES, SNIFF_LENGTH } from '@/lib/fileValidation';
+
+// Stores a file in the documents bucket under the uploader's folder, then has
+// handle-document-upload check its content, scan it and record it as a new
+// document or a new version. A retry of an interrupted upload resumes it and
+// keeps its original path.
+const uploadFile = async (
+  file: File,
+  userId: string,
+  target: { folder_id: string | null } | { document_id: string },
+  options: UploadOptions
+) => {
+  const fileName = sanitizeFileName(file.name);
+
+  // Catches a mislabelled file before it is uploaded; the function checks again
+  const head = new Uint8Array(await file.slice(0, SNIFF_LENGTH).arrayBuffer());
+  const contentError = checkFileContent(fileName, head);
+  if (contentError) throw new Error(contentError);
+
+  const { data: exceeded, error: quotaError } = await supabase.rpc('storage_quota_exceeded', {
+    p_user_id: userId,
+    p_size: file.size,
+  });
+  if (quotaError) throw quotaError;
+  if (exceeded) throw new Error(QUOTA_EXCEEDED_MESSAGES[exceeded]);
+
+  const filePath = await uploadResumable({
+    ...options,
+    bucket: 'documents',
+    file,
+    path: `${userId}/${crypto.randomUUID()}.${getFileExtension(fileName)}`,
+  });
+
+  const { data, error } = await supabase.functions.invoke('handle-document-upload', {
+    body: { ...target, file_path: filePath, file_name: fileName },
+  });
+
+  if (error) throw new Error(await getFunctionErrorMessage(error, 'Failed to upload document'));
+  return data.document as Document;
+};
+
+// Not awaited: extraction can take a while, and the scheduled sweep in
+// handle-document-upload retries anything this misses
+const requestIndexing = (documentId: string) => {
+  supabase.functions
+    .invoke('handle-document-upload', { body: { document_id: documentId } })
+    .then(({ error }) => {
+      if (error) console.error('Error indexing document:', error);
+    });
+};
+
+// Everything but the extracted text and its search vector, which can be large
+const DOCUMENT_COLUMNS =
+  'id, title, file_type, file_path, size, created_at, last_modified, current_version_id, created_by, folder_id, tags, owner_id, department, thumbnail_path, category, deleted_at, purge_after, legal_hold, legal_hold_reason';
+
+// Files are served by the document-file function, which logs the view or
+// download in audit_logs before handing out a short-lived signed URL. Users
+// cannot read the documents bucket directly.
+const fetchFile = async (documentId: string, action: 'view' | 'download', versionId?: string) => {
+  const { data, error } = await supabase.functions.invoke<{ url: string }>('document-file', {
+    body: { document_id: documentId, version_id: versionId, action },
+  });
+
+  if (error) throw new Error(await getFunctionErrorMessage(error, 'Failed to load document'));
+
+  const response = await fetch(data!.url);
+  if (!response.ok) throw new Error('Failed to load document');
+  return response.blob();
+};
+
+export const documentService = {
+  // access_level is a computed column (public.access_level), which the
+  // generated types don't describe
+  async getDocuments() {
+    const { data, error } = await supabase
+      .from('documents')
+      .select(`${DOCUMENT_COLUMNS}, access_level`)
+      .is('deleted_at', null)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return data as unknown as Document[];
+  },
+
+  // Trashed documents the caller manages; nobody else can see them
+  async getTrash() {
+    const { data, error } = await supabase
+      .from('documents')
+      .select(`${DOCUMENT_COLUMNS}, access_level`)
+      .not('deleted_at', 'is', null)
+      .order('deleted_at', { ascending: false });
+
+    if (error) throw error;
+    return data as unknown as Document[];
+  },
+
+  // Uploads the file and records it; the database creates version 1. Callers
+  // run validateFile first so problems are reported before anything is uploaded.
+  async uploadDocument(file: File, userId: string, folderId: string | null = null, options: UploadOptions = {}) {
+    return uploadFile(file, userId, { folder_id: folderId }, options);
+  },
+
+  async attachToTask(documentId: string, taskId: string) {
+    const { error } = await supabase
+      .from('documents_tasks')
+      .insert({ document_id: documentId, task_id: taskId });
+
+    if (error) throw error;
+  },
+
+  // Renames, moves, retags or recategorises a document; the file itself is
+  // untouched. Only admins may include legal_hold.
+  async updateDocument(id: string, updates: DocumentUpdate) {
+    const { error } = await supabase
+      .from('documents')
+      .update(updates)
+      .eq('id', id);
+
+    if (error) throw error;
+  },
+
+  async getFolders() {
+    const { data, error } = await supabase
+      .from('document_folders')
+      .select('*')
+      .order('name');
+
+    if (error) throw error;
+    return data as DocumentFolder[];
+  },
+
+  async createFolder(name: string, parentId: string | null, userId: string) {
+    const { data, error } = await supabase
+      .from('document_folders')
+      .insert({ name: name.trim(), parent_id: parentId, created_by: userId })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data as DocumentFolder;
+  },
+
+  async updateFolder(id: string, updates: Partial<Pick<DocumentFolder, 'name' | 'parent_id'>>) {
+    const { error } = await supabase
+      .from('document_folders')
+      .update(updates.name !== undefined ? { ...updates, name: updates.name.trim() } : updates)
+      .eq('id', id);
+
+    if (error) throw error;
+  },
+
+  // Fails while the folder still holds documents or subfolders
+  async deleteFolder(id: string) {
+    const { error } = await supabase
+      .from('document_folders')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+  },
+
+  // Adds a version to an existing document, which becomes its current content
+  async uploadVersion(documentId: string, file: File, userId: string, options: UploadOptions = {}) {
+    await uploadFile(file, userId, { document_id: documentId }, options);
+  },
+
+  async getVersions(documentId: string) {
+    const { data, error } = await supabase
+      .from('document_versions')
+      .select('*, uploader:profiles!document_versions_uploaded_by_fkey(full_name, email)')
+      .eq('document_id', documentId)
+      .order('version_number', { ascending: false });
+
+    if (error) throw error;
+    return data as DocumentVersion[];
+  },
+
+  // Restoring republishes an older version's file as a new version, so the
+  // history stays append-only
+  async restoreVersion(version: DocumentVersion, userId: string) {
+    const { error } = await supabase
+      .from('document_versions')
+      .insert({
+        document_id: version.document_id,
+        file_path: version.file_path,
+        file_type: version.file_type,
+        size: version.size,
+        uploaded_by: userId,
+        restored_from: version.id,
+      });
+
+    if (error) throw error;
+    requestIndexing(version.document_id);
+  },
+
+  // Moves a document to the trash. The database stamps the time and the
+  // purge date from the document's retention rule, and refuses documents
+  // under legal hold or still inside their minimum retention period.
+  async trashDocument(id: string) {
+    const { error } = await supabase
+      .from('documents')
+      .update({ deleted_at: new Date().toISOString() })
+      .eq('id', id);
+
+    if (error) throw error;
+  },
+
+  async restoreDocument(id: string) {
+    const { error } = await supabase
+      .from('documents')
+      .update({ deleted_at: null })
+      .eq('id', id);
+
+    if (error) throw error;
+  },
+
+  // Deletes a trashed document and its files for good, ahead of the
+  // scheduled purge
+  async purgeDocument(id: string) {
+    const { error } = await supabase.functions.invoke('purge-documents', {
+      body: { document_id: id },
+    });
+
+    if (error) throw new Error(await getFunctionErrorMessage(error, 'Failed to delete document'));
+  },
+
+  // Loads the current file for in-page viewing. Nothing leaves our own
+  // storage and functions: PDFs and images become object URLs the caller
+  // revokes, DOCX files come back converted to HTML.
+  async getPreview(document: Pick<Document, 'id' | 'file_type'>): Promise<DocumentPreview> {
+    const kind = getPreviewKind(document.file_type);
+    if (kind === 'none') return { kind };
+
+    if (kind === 'html') {
+      const { data, error } = await supabase.functions.invoke<{ html: string }>('document-preview', {
+        body: { document_id: document.id },
+      });
+
+      if (error) throw error;
+      return { kind, html: data!.html };
+    }
+
+    const data = await fetchFile(document.id, 'view');
+
+    // The stored content type may be generic; the browser only renders a PDF
+    // inline when the blob says it is one
+    const blob = kind === 'pdf' ? new Blob([data], { type: 'application/pdf' }) : data;
+    return { kind, url: URL.createObjectURL(blob) };
+  },
+
+  // Signed URLs for list thumbnails, keyed by thumbnail path
+  async getThumbnailUrls(paths: string[]) {
+    const { data, error } = await supabase.storage
+      .from('document-previews')
+      .createSignedUrls(paths, 60 * 60);
+
+    if (error) throw error;
+    return new Map(
+      data
+        .filter((item) => item.signedUrl && item.path)
+        .map((item) => [item.path!, item.signedUrl])
+    );
+  },
+
+  // versionId is set when an older version is downloaded from the history
+  async downloadDocument(document: Pick<Document, 'id' | 'title'>, versionId?: string) {
+    const data = await fetchFile(document.id, 'download', versionId);
+
+    const url = URL.createObjectURL(data);
+    const a = window.document.createElement('a');
+    a.href = url;
+    a.download = document.title;
+    a.click();
+    URL.revokeObjectURL(url);
+  },
+
+  // Ranked matches on title, tags and extracted text; RLS limits the results
+  // to documents the caller can see
+  async searchDocuments(query: string) {
+    const { data, error } = await supabase.rpc('search_documents', { p_query: query });
+
+    if (error) throw error;
+    return data as DocumentSearchResult[];
+  },
+
+  async getPermissions(documentId: string) {
+    const { data, error } = await supabase
+      .from('document_permissions')
+      .select('*, user:profiles!document_permissions_user_id_fkey(full_name, email), team:teams(name)')
+      .eq('document_id', documentId)
+      .order('created_at');
+
+    if (error) throw error;
+    return data as DocumentPermission[];
+  },
+
+  async addPermission(
+    documentId: string,
+    principal: Pick<DocumentPermission, 'user_id' | 'role' | 'team_id'>,
+    access: DocumentPermission['access'],
+    userId: string
+  ) {
+    const { error } = await supabase
+      .from('document_permissions')
+      .insert({ ...principal, document_id: documentId, access, created_by: userId });
+
+    if (error) throw error;
+  },
+
+  async updatePermission(id: string, access: DocumentPermission['access']) {
+    const { error } = await supabase
+      .from('document_permissions')
+      .update({ access })
+      .eq('id', id);
+
+    if (error) throw error;
+  },
+
+  async removePermission(id: string) {
+    const { error } = await supabase
+      .from('document_permissions')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+  },
+
+  async getAccessLog(documentId: string) {
+    const { data, error } = await supabase
+      .from('audit_logs')
+      .select('id, action, user_id, ip_address, new_data, created_at')
+      .eq('table_name', 'documents')
+      .eq('record_id', documentId)
+      .order('created_at', { ascending: false })
+      .limit(100);
+
+    if (error) throw error;
+    return data as DocumentAccessLogEntry[];
+  },
+
+  // The caller's usage and quotas
+  async getStorageUsage() {
+    const { data, error } = await supabase.rpc('storage_usage');
+
+    if (error) throw error;
+    return data[0] as StorageUsage;
+  },
+
+  async getStorageQuotas() {
+    const { data, error } = await supabase
+      .from('storage_quotas')
+      .select('scope, quota_bytes');
+
+    if (error) throw error;
+    return Object.fromEntries(data.map((row) => [row.scope, row.quota_bytes])) as Record<StorageQuotaScope, number | null>;
+  },
+
+  async updateStorageQuota(scope: StorageQuotaScope, quotaBytes: number | null, userId: string) {
+    const { error } = await supabase
+      .from('storage_quotas')
+      .update({ quota_bytes: quotaBytes, updated_by: userId, updated_at: new Date().toISOString() })
+      .eq('scope', scope);
+
+    if (error) throw error;
+  },
+
+  // Admins only: the users storing the most
+  async getTopStorageConsumers(limit = 10) {
+    const { data, error } = await supabase.rpc('storage_top_consumers', { p_limit: limit });
+
+    if (error) throw error;
+    return data as StorageConsumer[];
+  },
+
+  async getRetentionRules() {
+    const { data, error } = await supabase
+      .from('document_retention_rules')
+      .select('category, trash_days, min_retention_days')
+      .order('category');
+
+    if (error) throw error;
+    return data as DocumentRetentionRule[];
+  },
+
+  // Renaming a category carries its documents along (on update cascade)
+  async saveRetentionRule(rule: DocumentRetentionRule, userId: string, previousCategory?: string) {
+    const values = { ...rule, updated_by: userId, updated_at: new Date().toISOString() };
+    const { error } = previousCategory
+      ? await supabase.from('document_retention_rules').update(values).eq('category', previousCategory)
+      : await supabase.from('document_retention_rules').insert(values);
+
+    if (error) throw error;
+  },
+
+  // Documents in the category fall back to the default rule
+  async deleteRetentionRule(category: string) {
+    const { error } = await supabase
+      .from('document_retention_rules')
+      .delete()
+      .eq('category', category);
+
+    if (error) throw error;
+  },
+
+  // A null quota drops the override, so the default applies again
+  async setUserStorageQuota(userId: string, quotaBytes: number | null, adminId: string) {
+    const { error } = quotaBytes === null
+      ? await supabase.from('user_storage_quotas').delete().eq('user_id', userId)
+      : await supabase
+          .from('user_storage_quotas')
+          .upsert({
+            user_id: userId,
+            quota_bytes: quotaBytes,
+            updated_by: adminId,
+            updated_at: new Date().toISOString(),
+          });
+
+    if (error) throw error;
+  },
+};
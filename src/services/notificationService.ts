@@ -0,0 +1,63 @@
+import { supabase } from '@/lib/supabase';
+import {
+  NotificationChannel,
+  NotificationPreference,
+  NotificationSettings,
+  NotificationType,
+} from '@/types/notification';
+
+const getUserId = async () => {
+  const { data: userData, error } = await supabase.auth.getUser();
+  if (error) throw error;
+  return userData.user.id;
+};
+
+// Preferences are applied by a database trigger when notifications are
+// inserted; these methods only read and write the user's choices
+export const notificationService = {
+  async getPreferences() {
+    const { data, error } = await supabase
+      .from('notification_preferences')
+      .select('type, channel')
+      .eq('user_id', await getUserId());
+
+    if (error) throw error;
+    return data as NotificationPreference[];
+  },
+
+  async updatePreference(type: NotificationType, channel: NotificationChannel) {
+    const { error } = await supabase
+      .from('notification_preferences')
+      .upsert({
+        user_id: await getUserId(),
+        type,
+        channel,
+        updated_at: new Date().toISOString(),
+      });
+
+    if (error) throw error;
+  },
+
+  async getSettings() {
+    const { data, error } = await supabase
+      .from('notification_settings')
+      .select('quiet_hours_start, quiet_hours_end, timezone, digest_frequency')
+      .eq('user_id', await getUserId())
+      .maybeSingle();
+
+    if (error) throw error;
+    return data as NotificationSettings | null;
+  },
+
+  async updateSettings(settings: NotificationSettings) {
+    const { error } = await supabase
+      .from('notification_settings')
+      .upsert({
+        user_id: await getUserId(),
+        ...settings,
+        updated_at: new Date().toISOString(),
+      });
+
+    if (error) throw error;
+  },
+};
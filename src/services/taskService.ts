@@ -1,15 +1,48 @@
 import { supabase } from '@/lib/supabase';
-import { Task } from '@/types/task';
+import { Subtask, Task, WipLimit } from '@/types/task';
+import { handleTaskAssignment } from '@/utils/notificationUtils';
+
+export type TaskUpdate = Partial<
+  Pick<
+    Task,
+    'title' | 'deadline' | 'priority' | 'description' | 'estimate_hours' | 'actual_hours' | 'recurrence_rule'
+  >
+>;
+
+// Raised when a status change is refused because the task has open blockers
+export class TaskBlockedError extends Error {
+  constructor(public blockers: Task[]) {
+    super(`Blocked by ${blockers.map((blocker) => `"${blocker.title}"`).join(', ')}`);
+    this.name = 'TaskBlockedError';
+  }
+}
+
+export class DependencyCycleError extends Error {
+  constructor() {
+    super('Adding this dependency would create a cycle');
+    this.name = 'DependencyCycleError';
+  }
+}
+
+export interface TaskDependencies {
+  blockers: Task[];
+  dependents: Task[];
+}
+
+const sortSubtasks = (task: Task): Task => ({
+  ...task,
+  subtasks: [...(task.subtasks ?? [])].sort((a, b) => a.position - b.position),
+});
 
 export const taskService = {
   async getTasks() {
     const { data, error } = await supabase
       .from('tasks')
-      .select('*')
+      .select('*, subtasks:task_subtasks(*)')
       .order('created_at', { ascending: false });
 
     if (error) throw error;
-    return data as Task[];
+    return (data as Task[]).map(sortSubtasks);
   },
 
   async createTask(task: Omit<Task, 'id' | 'created_at'>) {
@@ -34,7 +67,228 @@ export const taskService = {
       .select()
       .single();
 
+    // The database refuses to start a task while its blockers are open
+    if (error?.hint === 'task_blocked') {
+      throw new TaskBlockedError(await taskService.getOpenBlockers(taskId));
+    }
+    if (error) throw error;
+
+    // Closing an occurrence of a recurring task schedules the next one right
+    // away instead of waiting for the next scheduled run
+    const closesOccurrence = data.series_id && (await taskService.isDoneState(data.workflow_id, status));
+    if (closesOccurrence) {
+      const { error: materializeError } = await supabase.functions.invoke('materialize-recurring-tasks', {
+        body: { task_id: taskId },
+      });
+      if (materializeError) console.error('Error scheduling next occurrence:', materializeError);
+    }
+
+    return data as Task;
+  },
+
+  // Whether the status is a "done" state of the workflow
+  async isDoneState(workflowId: string | null, status: Task['status']) {
+    if (!workflowId) return false;
+
+    const { data, error } = await supabase
+      .from('workflow_states')
+      .select('category')
+      .eq('workflow_id', workflowId)
+      .eq('key', status)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data?.category === 'done';
+  },
+
+  async updateTask(taskId: string, updates: TaskUpdate) {
+    const { data, error } = await supabase
+      .from('tasks')
+      .update(updates)
+      .eq('id', taskId)
+      .select()
+      .single();
+
     if (error) throw error;
     return data as Task;
+  },
+
+  // Changes the assignee and notifies them; a no-op if the assignee is unchanged
+  async reassignTask(taskId: string, assigneeEmail: string) {
+    const { data: current, error: fetchError } = await supabase
+      .from('tasks')
+      .select('assigned_to')
+      .eq('id', taskId)
+      .single();
+
+    if (fetchError) throw fetchError;
+
+    const { data, error } = await supabase
+      .from('tasks')
+      .update({ assigned_to: assigneeEmail })
+      .eq('id', taskId)
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    const task = data as Task;
+    if (current.assigned_to !== assigneeEmail) {
+      const { data: userData } = await supabase.auth.getUser();
+      await handleTaskAssignment(task, userData?.user?.email);
+    }
+    return task;
+  },
+
+  // Comments, notifications and document links go with the task (on delete
+  // cascade). Attached documents stay in the document library.
+  async deleteTask(taskId: string) {
+    const { error } = await supabase
+      .from('tasks')
+      .delete()
+      .eq('id', taskId);
+
+    if (error) throw error;
+  },
+
+  async getSubtasks(taskId: string) {
+    const { data, error } = await supabase
+      .from('task_subtasks')
+      .select('*')
+      .eq('task_id', taskId)
+      .order('position', { ascending: true });
+
+    if (error) throw error;
+    return data as Subtask[];
+  },
+
+  async addSubtask(taskId: string, title: string, position: number) {
+    const { data, error } = await supabase
+      .from('task_subtasks')
+      .insert({ task_id: taskId, title, position })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data as Subtask;
+  },
+
+  async toggleSubtask(subtaskId: string, isCompleted: boolean) {
+    const { data, error } = await supabase
+      .from('task_subtasks')
+      .update({
+        is_completed: isCompleted,
+        completed_at: isCompleted ? new Date().toISOString() : null,
+      })
+      .eq('id', subtaskId)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data as Subtask;
+  },
+
+  async deleteSubtask(subtaskId: string) {
+    const { error } = await supabase
+      .from('task_subtasks')
+      .delete()
+      .eq('id', subtaskId);
+
+    if (error) throw error;
+  },
+
+  // Persists a new checklist order; positions follow the order of the given ids
+  async reorderSubtasks(subtaskIds: string[]) {
+    const results = await Promise.all(
+      subtaskIds.map((id, position) =>
+        supabase
+          .from('task_subtasks')
+          .update({ position })
+          .eq('id', id)
+      )
+    );
+
+    const failed = results.find((result) => result.error);
+    if (failed?.error) throw failed.error;
+  },
+
+  async getDependencies(taskId: string): Promise<TaskDependencies> {
+    const [blockersResult, dependentsResult] = await Promise.all([
+      supabase
+        .from('task_dependencies')
+        .select('task:tasks!task_dependencies_depends_on_task_id_fkey(*)')
+        .eq('task_id', taskId),
+      supabase
+        .from('task_dependencies')
+        .select('task:tasks!task_dependencies_task_id_fkey(*)')
+        .eq('depends_on_task_id', taskId),
+    ]);
+
+    if (blockersResult.error) throw blockersResult.error;
+    if (dependentsResult.error) throw dependentsResult.error;
+
+    return {
+      blockers: blockersResult.data.map((row) => row.task).filter(Boolean) as Task[],
+      dependents: dependentsResult.data.map((row) => row.task).filter(Boolean) as Task[],
+    };
+  },
+
+  async getOpenBlockers(taskId: string) {
+    const { data, error } = await supabase.rpc('task_open_blockers', { p_task_id: taskId });
+
+    if (error) throw error;
+    return data as Task[];
+  },
+
+  async addDependency(taskId: string, dependsOnTaskId: string) {
+    const { data: userData, error: userError } = await supabase.auth.getUser();
+    if (userError) throw userError;
+
+    const { error } = await supabase
+      .from('task_dependencies')
+      .insert({
+        task_id: taskId,
+        depends_on_task_id: dependsOnTaskId,
+        created_by: userData.user.id,
+      });
+
+    if (error?.hint === 'dependency_cycle') throw new DependencyCycleError();
+    if (error) throw error;
+  },
+
+  async removeDependency(taskId: string, dependsOnTaskId: string) {
+    const { error } = await supabase
+      .from('task_dependencies')
+      .delete()
+      .eq('task_id', taskId)
+      .eq('depends_on_task_id', dependsOnTaskId);
+
+    if (error) throw error;
+  },
+
+  async getWipLimits() {
+    const { data, error } = await supabase
+      .from('task_wip_limits')
+      .select('workflow_id, status, wip_limit');
+
+    if (error) throw error;
+    return data as WipLimit[];
+  },
+
+  async updateWipLimit(workflowId: string, status: Task['status'], wipLimit: number | null) {
+    const { data: userData, error: userError } = await supabase.auth.getUser();
+    if (userError) throw userError;
+
+    const { error } = await supabase
+      .from('task_wip_limits')
+      .upsert({
+        workflow_id: workflowId,
+        status,
+        wip_limit: wipLimit,
+        updated_by: userData.user.id,
+        updated_at: new Date().toISOString(),
+      });
+
+    if (error) throw error;
   }
 };
\ No newline at end of file
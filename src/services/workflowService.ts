@@ -0,0 +1,54 @@
+import { supabase } from '@/lib/supabase';
+import { Team, Workflow, WorkflowState, WorkflowTransition } from '@/types/workflow';
+
+export const workflowService = {
+  async getWorkflows() {
+    const { data, error } = await supabase
+      .from('task_workflows')
+      .select('*, states:workflow_states(*), transitions:workflow_transitions(*)')
+      .order('name', { ascending: true });
+
+    if (error) throw error;
+    return (data as Workflow[]).map((workflow) => ({
+      ...workflow,
+      states: [...workflow.states].sort((a, b) => a.position - b.position),
+    }));
+  },
+
+  async getTeams() {
+    const { data, error } = await supabase
+      .from('teams')
+      .select('id, name, workflow_id')
+      .order('name', { ascending: true });
+
+    if (error) throw error;
+    return data as Team[];
+  },
+
+  // Looks up a single transition together with the state it leads to
+  async getTransition(workflowId: string, fromState: string, toState: string) {
+    const { data: transition, error } = await supabase
+      .from('workflow_transitions')
+      .select('*')
+      .eq('workflow_id', workflowId)
+      .eq('from_state', fromState)
+      .eq('to_state', toState)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!transition) return null;
+
+    const { data: state, error: stateError } = await supabase
+      .from('workflow_states')
+      .select('*')
+      .eq('workflow_id', workflowId)
+      .eq('key', toState)
+      .single();
+
+    if (stateError) throw stateError;
+    return {
+      transition: transition as WorkflowTransition,
+      state: state as WorkflowState,
+    };
+  },
+};
@@ -10,7 +10,7 @@ export const signupSchema = z.object({
   gender: z.enum(["male", "female", "other"], {
     required_error: "Please select a gender",
   }),
-  security_code: z.string().min(1, "Security code is required"),
+  invite_token: z.string().min(1, "An invitation is required to sign up"),
   position: z.string().min(3, "Position must be at least 3 characters"),
   full_name: z.string().min(3, "Full name must be at least 3 characters"),
 });
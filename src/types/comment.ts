@@ -0,0 +1,57 @@
+import { Document } from "@/types/document";
+
+export interface CommentAuthor {
+  email: string;
+  full_name: string;
+  avatar_url: string | null;
+}
+
+export interface Comment {
+  id: string;
+  content: string;
+  created_at: string;
+  user_id: string;
+  task_id: string;
+  parent_id: string | null;
+  mentions: string[] | null;
+  edited_at: string | null;
+  // Soft-deleted comments keep their place in the thread with empty content
+  deleted_at: string | null;
+  user: CommentAuthor | null;
+  attachments?: { document: CommentAttachment | null }[];
+  reactions?: CommentReaction[];
+}
+
+export interface CommentReaction {
+  emoji: string;
+  user_id: string;
+  created_at: string;
+  user: Pick<CommentAuthor, "full_name" | "email"> | null;
+}
+
+export interface ReactionSummary {
+  emoji: string;
+  count: number;
+  reactedByMe: boolean;
+  reactors: string[];
+}
+
+export type CommentAttachment = Pick<Document, "id" | "title" | "file_path" | "file_type" | "size">;
+
+export interface MentionedProfile {
+  email: string;
+  full_name: string;
+}
+
+export interface CommentEdit {
+  id: string;
+  comment_id: string;
+  content: string;
+  edited_at: string;
+  editor: Pick<CommentAuthor, "full_name" | "email"> | null;
+}
+
+export interface CommentThread {
+  comment: Comment;
+  replies: CommentThread[];
+}
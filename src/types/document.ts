@@ -0,0 +1,130 @@
+// "manage" covers sharing and deletion, "edit" metadata and new versions
+export type DocumentAccessLevel = "view" | "edit" | "manage";
+
+export interface Document {
+  id: string;
+  title: string;
+  // file_path, file_type and size describe the current version
+  file_type: string;
+  file_path: string;
+  size: number;
+  created_at: string;
+  last_modified?: string;
+  current_version_id?: string | null;
+  // Text extracted from PDF and DOCX files for search; not loaded with lists
+  content?: string | null;
+  created_by: string;
+  folder_id?: string | null;
+  tags?: string[];
+  owner_id?: string | null;
+  department?: string | null;
+  // In the document-previews bucket; generated for each new version
+  thumbnail_path?: string | null;
+  // Retention rule; null falls back to the "default" rule
+  category?: string | null;
+  // Set while the document is in the trash; purged after purge_after
+  deleted_at?: string | null;
+  purge_after?: string | null;
+  // A held document can't be trashed or purged; only admins set it
+  legal_hold?: boolean;
+  legal_hold_reason?: string | null;
+  // Computed for the signed-in user when selected with "*, access_level"
+  access_level?: DocumentAccessLevel | null;
+}
+
+export type DocumentUpdate = Partial<
+  Pick<Document, "title" | "folder_id" | "tags" | "owner_id" | "department" | "category" | "legal_hold" | "legal_hold_reason">
+>;
+
+export interface DocumentRetentionRule {
+  category: string;
+  // Days a trashed document can still be restored
+  trash_days: number;
+  // Minimum age in days before a document may be trashed
+  min_retention_days: number | null;
+}
+
+export interface DocumentFolder {
+  id: string;
+  name: string;
+  parent_id: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+export interface DocumentFolderNode {
+  folder: DocumentFolder;
+  children: DocumentFolderNode[];
+}
+
+export interface DocumentVersion {
+  id: string;
+  document_id: string;
+  version_number: number;
+  file_path: string;
+  file_type: string;
+  size: number;
+  created_at: string;
+  restored_from: string | null;
+  uploader: { full_name: string; email: string } | null;
+}
+
+export type DocumentPrincipalType = "user" | "role" | "team";
+
+// Exactly one of user_id, role and team_id is set
+export interface DocumentPermission {
+  id: string;
+  document_id: string;
+  user_id: string | null;
+  role: string | null;
+  team_id: string | null;
+  access: "view" | "edit";
+  created_at: string;
+  user: { full_name: string; email: string } | null;
+  team: { name: string } | null;
+}
+
+export type DocumentPreviewKind = "image" | "pdf" | "html" | "none";
+
+// url is an object URL the caller revokes; html is a converted DOCX page
+export type DocumentPreview =
+  | { kind: "image" | "pdf"; url: string }
+  | { kind: "html"; html: string }
+  | { kind: "none" };
+
+export interface DocumentSearchResult {
+  id: string;
+  rank: number;
+  // Excerpt with matches wrapped in <mark></mark>; everything else is plain text
+  headline: string;
+}
+
+export interface DocumentAccessLogEntry {
+  id: string;
+  action: "view" | "download" | "trash" | "restore" | "delete";
+  user_id: string | null;
+  ip_address: string | null;
+  new_data: { version_id?: string } | null;
+  created_at: string;
+}
+
+// Bytes; a null quota means unlimited
+export interface StorageUsage {
+  user_used_bytes: number;
+  user_quota_bytes: number | null;
+  org_used_bytes: number;
+  org_quota_bytes: number | null;
+}
+
+export type StorageQuotaScope = "organization" | "user_default";
+
+export interface StorageConsumer {
+  user_id: string;
+  full_name: string;
+  email: string;
+  used_bytes: number;
+  file_count: number;
+  // The user's effective quota; has_override tells whether it is their own
+  quota_bytes: number | null;
+  has_override: boolean;
+}
@@ -0,0 +1,26 @@
+export type NotificationType = "deadline" | "overdue" | "status" | "completed" | "assignment" | "mention";
+
+export type NotificationChannel = "in_app" | "email_digest" | "muted";
+
+export type DigestFrequency = "hourly" | "daily" | "off";
+
+export const NOTIFICATION_TYPES: { type: NotificationType; label: string; description: string }[] = [
+  { type: "assignment", label: "Assignments", description: "A task is assigned to you" },
+  { type: "status", label: "Status changes", description: "Tasks you are involved in change state" },
+  { type: "completed", label: "Completions", description: "Tasks you are involved in are completed" },
+  { type: "deadline", label: "Upcoming deadlines", description: "Your tasks are nearly due" },
+  { type: "overdue", label: "Overdue tasks", description: "Your tasks are past their deadline" },
+  { type: "mention", label: "Mentions", description: "Someone mentions you in a comment" },
+];
+
+export interface NotificationPreference {
+  type: NotificationType;
+  channel: NotificationChannel;
+}
+
+export interface NotificationSettings {
+  quiet_hours_start: string | null;
+  quiet_hours_end: string | null;
+  timezone: string;
+  digest_frequency: DigestFrequency;
+}
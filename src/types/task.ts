@@ -3,9 +3,37 @@ export interface Task {
   title: string;
   priority: "high" | "medium" | "low";
   deadline: string;
-  status: "pending" | "in-progress" | "completed";
+  // Key of a state in the task's workflow (see WorkflowState)
+  status: string;
   created_by: string;
   assigned_to: string;
   user_id: string;
   created_at?: string;
-}
\ No newline at end of file
+  team_id?: string | null;
+  workflow_id?: string | null;
+  description?: string | null;
+  estimate_hours?: number | null;
+  actual_hours?: number | null;
+  subtasks?: Subtask[];
+  // RFC 5545 RRULE body, e.g. "FREQ=WEEKLY;BYDAY=MO"; null for one-off tasks
+  recurrence_rule?: string | null;
+  recurrence_start?: string | null;
+  series_id?: string | null;
+}
+
+export interface Subtask {
+  id: string;
+  task_id: string;
+  title: string;
+  is_completed: boolean;
+  position: number;
+  completed_at: string | null;
+}
+
+export const TASK_PRIORITIES: Task["priority"][] = ["high", "medium", "low"];
+
+export interface WipLimit {
+  workflow_id: string;
+  status: Task["status"];
+  wip_limit: number | null;
+}
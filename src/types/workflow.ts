@@ -0,0 +1,37 @@
+export type WorkflowStateCategory = "todo" | "active" | "done";
+
+export type WorkflowStateColor = "gray" | "blue" | "yellow" | "green" | "red" | "purple" | "orange";
+
+export interface WorkflowState {
+  workflow_id: string;
+  key: string;
+  label: string;
+  category: WorkflowStateCategory;
+  color: WorkflowStateColor;
+  position: number;
+  is_initial: boolean;
+  // Entering this state requires all of the task's blockers to be done
+  requires_unblocked: boolean;
+}
+
+export interface WorkflowTransition {
+  workflow_id: string;
+  from_state: string;
+  to_state: string;
+  notification_type: "status" | "completed" | null;
+  notification_template: string | null;
+}
+
+export interface Workflow {
+  id: string;
+  name: string;
+  is_default: boolean;
+  states: WorkflowState[];
+  transitions: WorkflowTransition[];
+}
+
+export interface Team {
+  id: string;
+  name: string;
+  workflow_id: string | null;
+}
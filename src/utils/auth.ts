@@ -1,6 +1,5 @@
 import { AuthError } from "@supabase/supabase-js";
 import { supabase } from "@/lib/supabase";
-import { SignupFormValues } from "@/types/auth";
 
 export const checkExistingEmail = async (email: string) => {
   const { data, error } = await supabase
@@ -16,35 +15,6 @@ export const checkExistingEmail = async (email: string) => {
   return data;
 };
 
-export const handleSignup = async (data: SignupFormValues): Promise<{ success: boolean; error?: string }> => {
-  try {
-    const { error: signUpError } = await supabase.auth.signUp({
-      email: data.email,
-      password: data.password,
-      options: {
-        data: {
-          username: data.username,
-          contact_number: data.contact_number,
-          position: data.position,
-          full_name: data.full_name,
-        },
-        emailRedirectTo: `${window.location.origin}/verify`,
-      },
-    });
-
-    if (signUpError) {
-      return { success: false, error: signUpError.message };
-    }
-
-    return { success: true };
-  } catch (error: any) {
-    return { 
-      success: false, 
-      error: error.message || "An error occurred during signup" 
-    };
-  }
-};
-
 export const handleAuthError = (error: AuthError) => {
   if (error.message?.toLowerCase().includes("user already registered")) {
     return "This email is already registered. Please use a different email or try logging in.";
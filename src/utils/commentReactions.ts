@@ -0,0 +1,30 @@
+import { CommentReaction, ReactionSummary } from "@/types/comment";
+
+export const REACTION_EMOJIS = ["👍", "❤️", "🎉", "😄", "👀", "🚀", "✅"];
+
+// Groups reactions by emoji, keeping the order in which each emoji was first used
+export const summarizeReactions = (
+  reactions: CommentReaction[],
+  currentUserId?: string
+): ReactionSummary[] => {
+  const summaries = new Map<string, ReactionSummary>();
+  const byCreated = [...reactions].sort(
+    (a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
+  );
+
+  for (const reaction of byCreated) {
+    const summary = summaries.get(reaction.emoji) ?? {
+      emoji: reaction.emoji,
+      count: 0,
+      reactedByMe: false,
+      reactors: [],
+    };
+
+    summary.count++;
+    summary.reactedByMe ||= reaction.user_id === currentUserId;
+    summary.reactors.push(reaction.user?.full_name || reaction.user?.email || "Unknown user");
+    summaries.set(reaction.emoji, summary);
+  }
+
+  return [...summaries.values()];
+};
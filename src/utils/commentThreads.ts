@@ -0,0 +1,32 @@
+import { Comment, CommentThread } from "@/types/comment";
+
+// Builds reply trees from a flat list. Top-level threads are newest first;
+// replies read oldest first, like a conversation.
+export const buildCommentThreads = (comments: Comment[]): CommentThread[] => {
+  const nodes = new Map<string, CommentThread>(
+    comments.map((comment) => [comment.id, { comment, replies: [] }])
+  );
+  const roots: CommentThread[] = [];
+
+  const byCreated = [...comments].sort(
+    (a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
+  );
+
+  for (const comment of byCreated) {
+    const node = nodes.get(comment.id)!;
+    const parent = comment.parent_id ? nodes.get(comment.parent_id) : undefined;
+    if (parent) parent.replies.push(node);
+    else roots.push(node);
+  }
+
+  return roots.reverse();
+};
+
+export const countReplies = (thread: CommentThread): number =>
+  thread.replies.reduce((total, reply) => total + 1 + countReplies(reply), 0);
+
+// Deleted comments with no remaining replies have nothing left to show
+export const pruneDeletedThreads = (threads: CommentThread[]): CommentThread[] =>
+  threads
+    .map((thread) => ({ ...thread, replies: pruneDeletedThreads(thread.replies) }))
+    .filter((thread) => !thread.comment.deleted_at || thread.replies.length > 0);
@@ -0,0 +1,61 @@
+import { DocumentFolder, DocumentFolderNode } from "@/types/document";
+
+export const buildFolderTree = (folders: DocumentFolder[]): DocumentFolderNode[] => {
+  const nodes = new Map<string, DocumentFolderNode>(
+    folders.map((folder) => [folder.id, { folder, children: [] }])
+  );
+  const roots: DocumentFolderNode[] = [];
+
+  for (const folder of folders) {
+    const node = nodes.get(folder.id) as DocumentFolderNode;
+    const parent = folder.parent_id ? nodes.get(folder.parent_id) : undefined;
+    if (parent) parent.children.push(node);
+    else roots.push(node);
+  }
+
+  const sortByName = (list: DocumentFolderNode[]) => {
+    list.sort((a, b) => a.folder.name.localeCompare(b.folder.name));
+    list.forEach((node) => sortByName(node.children));
+  };
+  sortByName(roots);
+
+  return roots;
+};
+
+// Folders from the root down to `folderId`, for breadcrumbs
+export const getFolderPath = (folders: DocumentFolder[], folderId: string | null): DocumentFolder[] => {
+  const byId = new Map(folders.map((folder) => [folder.id, folder]));
+  const path: DocumentFolder[] = [];
+  const seen = new Set<string>();
+
+  let current = folderId ? byId.get(folderId) : undefined;
+  while (current && !seen.has(current.id)) {
+    seen.add(current.id);
+    path.unshift(current);
+    current = current.parent_id ? byId.get(current.parent_id) : undefined;
+  }
+
+  return path;
+};
+
+// The folder itself plus everything nested below it
+export const getFolderSubtreeIds = (folders: DocumentFolder[], folderId: string): Set<string> => {
+  const ids = new Set([folderId]);
+  let added = true;
+
+  while (added) {
+    added = false;
+    for (const folder of folders) {
+      if (folder.parent_id && ids.has(folder.parent_id) && !ids.has(folder.id)) {
+        ids.add(folder.id);
+        added = true;
+      }
+    }
+  }
+
+  return ids;
+};
+
+// "Finance / Invoices / 2026" style label used in folder pickers
+export const formatFolderPath = (folders: DocumentFolder[], folderId: string | null) =>
+  getFolderPath(folders, folderId).map((folder) => folder.name).join(" / ");
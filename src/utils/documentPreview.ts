@@ -0,0 +1,13 @@
+import { DocumentPreviewKind } from "@/types/document";
+
+const IMAGE_TYPES = ["jpg", "jpeg", "png", "gif", "webp"];
+
+// PDFs and images are shown by the browser itself; DOCX files are converted
+// to HTML by the document-preview function. Legacy .doc files have no preview.
+export const getPreviewKind = (fileType: string): DocumentPreviewKind => {
+  const type = fileType.toLowerCase();
+  if (IMAGE_TYPES.includes(type)) return "image";
+  if (type === "pdf") return "pdf";
+  if (type === "docx") return "html";
+  return "none";
+};
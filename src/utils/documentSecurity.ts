@@ -1,25 +1,14 @@
 import { toast } from "@/hooks/use-toast";
+import { checkFileMetadata } from "@/lib/fileValidation";
 
-const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
-const ALLOWED_FILE_TYPES = ['doc', 'docx', 'pdf', 'jpg', 'jpeg', 'png'];
-
+// Checks name and size when files are picked; content is checked when the
+// upload starts and again by handle-document-upload
 export const validateFile = (file: File): boolean => {
-  // Check file size
-  if (file.size > MAX_FILE_SIZE) {
-    toast({
-      title: "Error",
-      description: "File size must be less than 10MB",
-      variant: "destructive",
-    });
-    return false;
-  }
-
-  // Check file type
-  const fileExt = file.name.split('.').pop()?.toLowerCase();
-  if (!fileExt || !ALLOWED_FILE_TYPES.includes(fileExt)) {
+  const error = checkFileMetadata(file.name, file.size);
+  if (error) {
     toast({
       title: "Error",
-      description: "Invalid file type. Only Word documents, PDFs, and images are allowed.",
+      description: error,
       variant: "destructive",
     });
     return false;
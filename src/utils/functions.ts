@@ -0,0 +1,15 @@
+import { FunctionsHttpError } from "@supabase/supabase-js";
+
+// Edge functions reply with { error } on failure, but supabase-js only exposes
+// a generic message; read the response body to surface the real reason.
+export const getFunctionErrorMessage = async (error: unknown, fallback: string): Promise<string> => {
+  if (error instanceof FunctionsHttpError) {
+    try {
+      const body = await error.context.json();
+      if (body?.error) return body.error;
+    } catch {
+      // Body was not JSON; fall through to the fallback
+    }
+  }
+  return fallback;
+};
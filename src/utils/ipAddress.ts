@@ -0,0 +1,47 @@
+// Syntax checks mirror supabase/functions/_shared/ip.ts, which does the matching
+const parseIPv4 = (value: string): number[] | null => {
+  const parts = value.split(".");
+  if (parts.length !== 4) return null;
+  const bytes = parts.map((part) => (/^\d{1,3}$/.test(part) ? Number(part) : NaN));
+  return bytes.every((b) => b >= 0 && b <= 255) ? bytes : null;
+};
+
+const isValidIPv6 = (value: string): boolean => {
+  let address = value.split("%")[0];
+
+  // An embedded IPv4 tail (e.g. ::ffff:10.0.0.1) takes the place of two hextets
+  const lastColon = address.lastIndexOf(":");
+  const tail = address.slice(lastColon + 1);
+  if (tail.includes(".")) {
+    if (!parseIPv4(tail)) return false;
+    address = `${address.slice(0, lastColon + 1)}0:0`;
+  }
+
+  const halves = address.split("::");
+  if (halves.length > 2) return false;
+
+  const toHextets = (part: string) => (part === "" ? [] : part.split(":"));
+  const hextets = halves.flatMap(toHextets);
+  if (!hextets.every((h) => /^[0-9a-f]{1,4}$/i.test(h))) return false;
+
+  return halves.length === 1 ? hextets.length === 8 : hextets.length < 8;
+};
+
+export type IpVersion = 4 | 6;
+
+// Returns the IP version of an address or CIDR block, or null when invalid
+export const getIpVersion = (value: string): IpVersion | null => {
+  const [address, prefixPart, ...extra] = value.trim().split("/");
+  if (!address || extra.length > 0) return null;
+
+  const version: IpVersion | null = parseIPv4(address) ? 4 : isValidIPv6(address) ? 6 : null;
+  if (!version) return null;
+
+  if (prefixPart === undefined) return version;
+  if (!/^\d{1,3}$/.test(prefixPart)) return null;
+  return Number(prefixPart) <= (version === 4 ? 32 : 128) ? version : null;
+};
+
+export const isValidIpOrCidr = (value: string) => getIpVersion(value) !== null;
+
+export const isCidrBlock = (value: string) => value.includes("/");
@@ -1,6 +1,10 @@
 import { supabase } from "@/lib/supabase";
 import { Task } from "@/types/task";
+import { workflowService } from "@/services/workflowService";
+import { renderTransitionMessage } from "@/utils/workflow";
 
+// The user's notification preferences are applied by a database trigger, so
+// the insert may be dropped (muted) or routed to the email digest
 export const createNotification = async (notification: {
   title: string;
   message: string;
@@ -20,59 +24,66 @@ export const createNotification = async (notification: {
   }
 };
 
-export const checkTaskDeadlines = async (tasks: Task[]) => {
-  const today = new Date();
-  
-  for (const task of tasks) {
-    const deadline = new Date(task.deadline);
-    const daysDiff = Math.ceil((deadline.getTime() - today.getTime()) / (1000 * 60 * 60 * 24));
+// Tells the assignees of tasks waiting on `blocker` that it is done, and
+// whether anything else still blocks them
+export const notifyDependents = async (blocker: Task, completedBy: string) => {
+  const { data: dependents, error } = await supabase
+    .from('task_dependencies')
+    .select('task:tasks!task_dependencies_task_id_fkey(id, title, assigned_to)')
+    .eq('depends_on_task_id', blocker.id);
 
-    if (daysDiff <= 2 && task.status !== "completed") {
-      // Get the assignee's profile to get their ID
-      const { data: assigneeProfile } = await supabase
-        .from('profiles')
-        .select('id')
-        .eq('email', task.assigned_to)
-        .single();
+  if (error) throw error;
 
-      if (assigneeProfile) {
-        try {
-          await createNotification({
-            title: "Task Deadline Approaching",
-            message: `Task "${task.title}" is due in ${daysDiff} days`,
-            type: "deadline",
-            task_id: task.id,
-            user_id: assigneeProfile.id,
-          });
-        } catch (error) {
-          console.error("Error checking task deadlines:", error);
-        }
-      }
-    }
+  for (const { task: dependent } of dependents) {
+    if (!dependent) continue;
+
+    const { data: remaining, error: blockersError } = await supabase
+      .rpc('task_open_blockers', { p_task_id: dependent.id });
+    if (blockersError) throw blockersError;
+
+    const { data: assigneeProfile } = await supabase
+      .from('profiles')
+      .select('id')
+      .eq('email', dependent.assigned_to)
+      .single();
+
+    if (!assigneeProfile) continue;
+
+    await createNotification({
+      title: remaining.length === 0 ? "Task Unblocked" : "Blocker Completed",
+      message: remaining.length === 0
+        ? `Task "${dependent.title}" is ready to start: "${blocker.title}" was completed by ${completedBy}`
+        : `"${blocker.title}" was completed by ${completedBy}; "${dependent.title}" is still waiting on ${remaining.length} task(s)`,
+      type: "status",
+      task_id: dependent.id,
+      user_id: assigneeProfile.id,
+    });
   }
 };
 
-export const handleTaskStatusChange = async (task: Task) => {
+// Notifies the assignee and creator when the workflow transition that was just
+// taken is configured to notify; transitions without a notification_type are
+// silent. Closing a task also notifies the tasks that depend on it.
+export const handleTaskStatusChange = async (task: Task, previousStatus: string) => {
   try {
     const { data: userData } = await supabase.auth.getUser();
-    if (!userData?.user) return;
+    if (!userData?.user || !task.workflow_id) return;
+
+    const match = await workflowService.getTransition(task.workflow_id, previousStatus, task.status);
 
-    let notificationType = "";
-    let message = "";
-
-    switch (task.status) {
-      case "completed":
-        notificationType = "completed";
-        message = `Task "${task.title}" has been completed by ${userData.user.email}`;
-        break;
-      case "in-progress":
-        notificationType = "status";
-        message = `Task "${task.title}" is now in progress, updated by ${userData.user.email}`;
-        break;
-      default:
-        return; // Don't create notification for pending status
+    if (match?.state.category === "done") {
+      await notifyDependents(task, userData.user.email || "a teammate");
     }
 
+    if (!match?.transition.notification_type) return;
+
+    const notificationType = match.transition.notification_type;
+    const message = renderTransitionMessage(match.transition.notification_template, {
+      task,
+      state: match.state.label,
+      actor: userData.user.email || "a teammate",
+    });
+
     // Get assignee's profile
     const { data: assigneeProfile } = await supabase
       .from('profiles')
@@ -115,7 +126,7 @@ export const handleTaskStatusChange = async (task: Task) => {
   }
 };
 
-export const handleTaskAssignment = async (task: Task) => {
+export const handleTaskAssignment = async (task: Task, assignedBy?: string) => {
   try {
     const { data: userData } = await supabase.auth.getUser();
     if (!userData?.user) return;
@@ -131,7 +142,7 @@ export const handleTaskAssignment = async (task: Task) => {
       // Create notification for the assignee
       await createNotification({
         title: "New Task Assignment",
-        message: `You have been assigned to task "${task.title}" by ${task.created_by}`,
+        message: `You have been assigned to task "${task.title}" by ${assignedBy || task.created_by}`,
         type: "assignment",
         task_id: task.id,
         user_id: assigneeProfile.id,
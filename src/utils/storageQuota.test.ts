@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { formatQuotaGb, getExceededQuota, parseQuotaGb } from "./storageQuota";
+
+const GB = 1024 * 1024 * 1024;
+
+describe("getExceededQuota", () => {
+  const usage = {
+    user_used_bytes: 9 * GB,
+    user_quota_bytes: 10 * GB,
+    org_used_bytes: 95 * GB,
+    org_quota_bytes: 100 * GB,
+  };
+
+  it("allows uploads that fit both quotas", () => {
+    expect(getExceededQuota(usage, GB)).toBeNull();
+  });
+
+  it("reports the user quota before the organization quota", () => {
+    expect(getExceededQuota(usage, 6 * GB)).toBe("user");
+  });
+
+  it("reports the organization quota", () => {
+    expect(getExceededQuota({ ...usage, user_quota_bytes: null }, 6 * GB)).toBe("organization");
+  });
+
+  it("treats missing quotas as unlimited", () => {
+    expect(getExceededQuota({ ...usage, user_quota_bytes: null, org_quota_bytes: null }, 1000 * GB)).toBeNull();
+  });
+});
+
+describe("quota input", () => {
+  it("parses gigabytes into bytes", () => {
+    expect(parseQuotaGb("1.5")).toBe(1.5 * GB);
+  });
+
+  it("treats blank and non-positive values as unlimited", () => {
+    expect(parseQuotaGb("")).toBeNull();
+    expect(parseQuotaGb("0")).toBeNull();
+    expect(parseQuotaGb("-2")).toBeNull();
+  });
+
+  it("formats bytes back to gigabytes", () => {
+    expect(formatQuotaGb(1.5 * GB)).toBe("1.5");
+    expect(formatQuotaGb(null)).toBe("");
+  });
+});
@@ -0,0 +1,24 @@
+import { StorageUsage } from "@/types/document";
+
+// Mirrors public.storage_quota_exceeded so a batch can be refused before any
+// of it is uploaded; the server checks each file again
+export const getExceededQuota = (usage: StorageUsage, additionalBytes: number) => {
+  if (usage.user_quota_bytes !== null && usage.user_used_bytes + additionalBytes > usage.user_quota_bytes) {
+    return "user";
+  }
+  if (usage.org_quota_bytes !== null && usage.org_used_bytes + additionalBytes > usage.org_quota_bytes) {
+    return "organization";
+  }
+  return null;
+};
+
+const BYTES_PER_GB = 1024 * 1024 * 1024;
+
+// Quotas are entered in GB; blank or non-positive means unlimited
+export const parseQuotaGb = (value: string) => {
+  const gb = parseFloat(value);
+  return Number.isFinite(gb) && gb > 0 ? Math.round(gb * BYTES_PER_GB) : null;
+};
+
+export const formatQuotaGb = (bytes: number | null) =>
+  bytes === null ? "" : parseFloat((bytes / BYTES_PER_GB).toFixed(2)).toString();
@@ -0,0 +1,19 @@
+import { Task } from "@/types/task";
+
+export interface TaskProgress {
+  completed: number;
+  total: number;
+  percent: number;
+}
+
+// Checklist completion for a task, or null when it has no subtasks
+export const getTaskProgress = (task: Task): TaskProgress | null => {
+  const total = task.subtasks?.length ?? 0;
+  if (total === 0) return null;
+
+  const completed = task.subtasks!.filter((subtask) => subtask.is_completed).length;
+  return { completed, total, percent: Math.round((completed / total) * 100) };
+};
+
+export const formatHours = (hours: number | null | undefined) =>
+  hours === null || hours === undefined ? "—" : `${Number(hours)}h`;
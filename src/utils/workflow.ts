@@ -0,0 +1,58 @@
+import { Task } from "@/types/task";
+import { Workflow, WorkflowState, WorkflowStateColor } from "@/types/workflow";
+
+export const STATE_BADGE_CLASSES: Record<WorkflowStateColor, string> = {
+  gray: "bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-100",
+  blue: "bg-blue-100 text-blue-800 dark:bg-blue-800 dark:text-blue-100",
+  yellow: "bg-yellow-100 text-yellow-800 dark:bg-yellow-800 dark:text-yellow-100",
+  green: "bg-green-100 text-green-800 dark:bg-green-800 dark:text-green-100",
+  red: "bg-red-100 text-red-800 dark:bg-red-800 dark:text-red-100",
+  purple: "bg-purple-100 text-purple-800 dark:bg-purple-800 dark:text-purple-100",
+  orange: "bg-orange-100 text-orange-800 dark:bg-orange-800 dark:text-orange-100",
+};
+
+export const STATE_DOT_CLASSES: Record<WorkflowStateColor, string> = {
+  gray: "bg-gray-400",
+  blue: "bg-blue-500",
+  yellow: "bg-yellow-500",
+  green: "bg-green-500",
+  red: "bg-red-500",
+  purple: "bg-purple-500",
+  orange: "bg-orange-500",
+};
+
+export const DEFAULT_TRANSITION_TEMPLATE = 'Task "{title}" moved to {state} by {actor}';
+
+// Used when a status key is not (or no longer) defined in any workflow
+export const formatStatusKey = (key: string) => key.replace(/-/g, " ");
+
+export const findWorkflow = (workflows: Workflow[], workflowId?: string | null) =>
+  workflows.find((workflow) => workflow.id === workflowId) ??
+  workflows.find((workflow) => workflow.is_default);
+
+export const findState = (workflow: Workflow | undefined, key: string) =>
+  workflow?.states.find((state) => state.key === key);
+
+export const getNextStates = (workflow: Workflow | undefined, from: string): WorkflowState[] => {
+  if (!workflow) return [];
+  const targets = new Set(
+    workflow.transitions
+      .filter((transition) => transition.from_state === from)
+      .map((transition) => transition.to_state)
+  );
+  return workflow.states.filter((state) => targets.has(state.key));
+};
+
+export const canTransition = (workflow: Workflow | undefined, from: string, to: string) =>
+  !!workflow?.transitions.some(
+    (transition) => transition.from_state === from && transition.to_state === to
+  );
+
+export const renderTransitionMessage = (
+  template: string | null,
+  values: { task: Pick<Task, "title">; state: string; actor: string }
+) =>
+  (template || DEFAULT_TRANSITION_TEMPLATE)
+    .replace(/\{title\}/g, values.task.title)
+    .replace(/\{state\}/g, values.state)
+    .replace(/\{actor\}/g, values.actor);
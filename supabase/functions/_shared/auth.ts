@@ -0,0 +1,70 @@
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1'
+import { corsHeaders } from './cors.ts'
+import { hasPermission, Permission, Role } from './permissions.ts'
+
+export interface Caller {
+  id: string
+  email: string
+  role: Role
+}
+
+type AuthResult =
+  | { caller: Caller; response?: undefined }
+  | { caller?: undefined; response: Response }
+
+const errorResponse = (error: string, status: number) =>
+  new Response(
+    JSON.stringify({ error }),
+    { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status }
+  )
+
+export const createServiceClient = () =>
+  createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+  )
+
+// True when the request carries the service role key, as scheduled jobs do
+export const isServiceRoleRequest = (req: Request) => {
+  const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '')
+  const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+  return !!token && !!serviceKey && token === serviceKey
+}
+
+// Resolves the caller from the request JWT and checks their profile role.
+// Returns either the caller or a ready-to-send 401/403 response.
+export const authorize = async (
+  req: Request,
+  supabase: SupabaseClient,
+  permission?: Permission
+): Promise<AuthResult> => {
+  const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '')
+  if (!token) {
+    return { response: errorResponse('Missing authorization header', 401) }
+  }
+
+  const { data: { user }, error: userError } = await supabase.auth.getUser(token)
+  if (userError || !user) {
+    return { response: errorResponse('Invalid or expired session', 401) }
+  }
+
+  const { data: profile, error: profileError } = await supabase
+    .from('profiles')
+    .select('role')
+    .eq('id', user.id)
+    .single()
+
+  if (profileError || !profile) {
+    console.error('Error loading caller profile:', profileError)
+    return { response: errorResponse('Caller profile not found', 403) }
+  }
+
+  const caller: Caller = { id: user.id, email: user.email ?? '', role: profile.role as Role }
+
+  if (permission && !hasPermission(caller.role, permission)) {
+    console.error(`Caller ${caller.id} (${caller.role}) lacks permission ${permission}`)
+    return { response: errorResponse('Insufficient permissions', 403) }
+  }
+
+  return { caller }
+}
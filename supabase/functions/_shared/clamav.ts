@@ -0,0 +1,85 @@
+import type { Scanner } from './scanner.ts'
+
+export interface ClamdConfig {
+  hostname: string
+  port: number
+  timeoutMs: number
+}
+
+// Defaults match a clamd listening on its standard TCP port, e.g. the
+// clamav/clamav container
+export const clamdConfigFromEnv = (): ClamdConfig => ({
+  hostname: Deno.env.get('CLAMD_HOST') ?? 'localhost',
+  port: Number(Deno.env.get('CLAMD_PORT') ?? '3310'),
+  timeoutMs: Number(Deno.env.get('CLAMD_TIMEOUT_MS') ?? '30000'),
+})
+
+const CHUNK_SIZE = 64 * 1024
+
+const writeAll = async (conn: Deno.Conn, data: Uint8Array) => {
+  let written = 0
+  while (written < data.length) {
+    written += await conn.write(data.subarray(written))
+  }
+}
+
+// Replies are a single line ending in NUL (or the connection closing)
+const readReply = async (conn: Deno.Conn) => {
+  const decoder = new TextDecoder()
+  const buffer = new Uint8Array(1024)
+  let reply = ''
+
+  while (true) {
+    const read = await conn.read(buffer)
+    if (read === null) break
+    reply += decoder.decode(buffer.subarray(0, read))
+    if (buffer[read - 1] === 0) break
+  }
+
+  return reply.replaceAll('\u0000', '').trim()
+}
+
+// Streams the file to clamd with the INSTREAM command. clamd refuses streams
+// longer than its StreamMaxLength (25MB by default), so set that to at least
+// the upload limit or large files will fail to scan.
+export const createClamdScanner = (config = clamdConfigFromEnv()): Scanner => ({
+  name: 'clamav',
+  async scan(bytes) {
+    const conn = await Deno.connect({ hostname: config.hostname, port: config.port })
+    // Closing the connection makes the pending read or write throw
+    const timer = setTimeout(() => conn.close(), config.timeoutMs)
+
+    try {
+      await writeAll(conn, new TextEncoder().encode('zINSTREAM\0'))
+
+      for (let offset = 0; offset < bytes.length; offset += CHUNK_SIZE) {
+        const chunk = bytes.subarray(offset, offset + CHUNK_SIZE)
+        const header = new Uint8Array(4)
+        new DataView(header.buffer).setUint32(0, chunk.length)
+        await writeAll(conn, header)
+        await writeAll(conn, chunk)
+      }
+      // A zero-length chunk ends the stream
+      await writeAll(conn, new Uint8Array(4))
+
+      const reply = await readReply(conn)
+      if (reply.endsWith(' OK')) {
+        return { clean: true }
+      }
+
+      const found = reply.match(/^stream: (.+) FOUND$/)
+      if (found) {
+        return { clean: false, signature: found[1] }
+      }
+
+      throw new Error(`Unexpected reply from clamd: ${reply}`)
+    } finally {
+      clearTimeout(timer)
+      try {
+        conn.close()
+      } catch {
+        // Already closed by the timeout
+      }
+    }
+  },
+})
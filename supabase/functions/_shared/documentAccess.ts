@@ -0,0 +1,29 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1'
+
+export type DocumentAccessAction = 'view' | 'download'
+
+// Files are only handed out by edge functions, which record every view and
+// download here before returning the content
+export const logDocumentAccess = async (
+  supabase: SupabaseClient,
+  req: Request,
+  documentId: string,
+  userId: string,
+  action: DocumentAccessAction,
+  details: Record<string, string> | null = null
+) => {
+  const ipAddress = req.headers.get('x-forwarded-for')?.split(',')[0].trim() || null
+
+  const { error } = await supabase
+    .from('audit_logs')
+    .insert({
+      action,
+      table_name: 'documents',
+      record_id: documentId,
+      user_id: userId,
+      new_data: details,
+      ip_address: ipAddress,
+    })
+
+  if (error) throw error
+}
@@ -0,0 +1,64 @@
+// Upload rules shared by the browser and handle-document-upload, which
+// enforces them again on the stored file.
+// The browser imports this module through src/lib/fileValidation.ts.
+
+// Larger files reach storage in resumable chunks from the browser
+export const MAX_FILE_SIZE = 10 * 1024 * 1024 // 10MB
+export const ALLOWED_FILE_TYPES = ['doc', 'docx', 'pdf', 'jpg', 'jpeg', 'png']
+
+// Leading bytes of each allowed type. DOCX is a ZIP container and legacy DOC
+// an OLE compound file.
+const SIGNATURES: Record<string, number[]> = {
+  pdf: [0x25, 0x50, 0x44, 0x46, 0x2d], // %PDF-
+  docx: [0x50, 0x4b, 0x03, 0x04],
+  doc: [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1],
+  jpg: [0xff, 0xd8, 0xff],
+  jpeg: [0xff, 0xd8, 0xff],
+  png: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a],
+}
+
+// Enough leading bytes to tell every allowed type apart
+export const SNIFF_LENGTH = 8
+
+export const getFileExtension = (fileName: string) =>
+  fileName.includes('.') ? fileName.split('.').pop()!.toLowerCase() : ''
+
+const startsWith = (bytes: Uint8Array, signature: number[]) =>
+  bytes.length >= signature.length && signature.every((byte, index) => bytes[index] === byte)
+
+// The allowed type the content looks like, whatever the file is called
+export const sniffFileType = (bytes: Uint8Array) =>
+  Object.keys(SIGNATURES).find((type) => startsWith(bytes, SIGNATURES[type])) ?? null
+
+// Returns why a file may not be uploaded, judging by its name and size
+export const checkFileMetadata = (fileName: string, size: number): string | null => {
+  if (size > MAX_FILE_SIZE) {
+    return 'File size must be less than 10MB'
+  }
+  if (!ALLOWED_FILE_TYPES.includes(getFileExtension(fileName))) {
+    return 'Invalid file type. Only Word documents, PDFs, and images are allowed.'
+  }
+  return null
+}
+
+// Returns why a file's content doesn't match its extension, e.g. an
+// executable renamed to .pdf. Needs at least SNIFF_LENGTH leading bytes.
+export const checkFileContent = (fileName: string, bytes: Uint8Array): string | null => {
+  const extension = getFileExtension(fileName)
+  const signature = SIGNATURES[extension]
+  if (!signature) {
+    return 'Invalid file type. Only Word documents, PDFs, and images are allowed.'
+  }
+  if (startsWith(bytes, signature)) return null
+
+  const detected = sniffFileType(bytes)
+  return detected
+    ? `File content is ${detected.toUpperCase()}, which does not match its .${extension} extension`
+    : `File content does not match its .${extension} extension`
+}
+
+// Messages for the scopes public.storage_quota_exceeded reports
+export const QUOTA_EXCEEDED_MESSAGES: Record<string, string> = {
+  user: 'This upload would exceed your storage quota',
+  organization: "This upload would exceed the organization's storage quota",
+}
@@ -0,0 +1,115 @@
+// Keep in sync with src/utils/ipAddress.ts
+export interface ParsedCidr {
+  bytes: number[]
+  prefix: number
+  version: 4 | 6
+}
+
+const parseIPv4 = (value: string): number[] | null => {
+  const parts = value.split('.')
+  if (parts.length !== 4) return null
+  const bytes = parts.map((part) => (/^\d{1,3}$/.test(part) ? Number(part) : NaN))
+  return bytes.every((b) => b >= 0 && b <= 255) ? bytes : null
+}
+
+const parseIPv6 = (value: string): number[] | null => {
+  let address = value.split('%')[0]
+
+  // An embedded IPv4 tail (e.g. ::ffff:10.0.0.1) becomes two hextets
+  const lastColon = address.lastIndexOf(':')
+  const tail = address.slice(lastColon + 1)
+  if (tail.includes('.')) {
+    const v4 = parseIPv4(tail)
+    if (!v4) return null
+    address = `${address.slice(0, lastColon + 1)}${((v4[0] << 8) | v4[1]).toString(16)}:${((v4[2] << 8) | v4[3]).toString(16)}`
+  }
+
+  const halves = address.split('::')
+  if (halves.length > 2) return null
+
+  const toHextets = (part: string) => (part === '' ? [] : part.split(':'))
+  const head = toHextets(halves[0])
+  const rest = halves.length === 2 ? toHextets(halves[1]) : []
+  const missing = 8 - head.length - rest.length
+
+  if (halves.length === 1 ? head.length !== 8 : missing < 1) return null
+
+  const hextets = [...head, ...Array(halves.length === 2 ? missing : 0).fill('0'), ...rest]
+  if (!hextets.every((h) => /^[0-9a-f]{1,4}$/i.test(h))) return null
+
+  return hextets.flatMap((h) => {
+    const n = parseInt(h, 16)
+    return [n >> 8, n & 0xff]
+  })
+}
+
+// Parses an address or CIDR block. IPv4-mapped IPv6 addresses are normalized
+// to IPv4 so that ::ffff:10.0.0.1 matches a 10.0.0.0/8 rule.
+export const parseCidr = (value: string): ParsedCidr | null => {
+  const [address, prefixPart, ...extra] = value.trim().split('/')
+  if (!address || extra.length > 0) return null
+
+  const v4 = parseIPv4(address)
+  let bytes = v4 ?? parseIPv6(address)
+  if (!bytes) return null
+
+  let version: 4 | 6 = v4 ? 4 : 6
+  const maxPrefix = version === 4 ? 32 : 128
+
+  if (prefixPart !== undefined && !/^\d{1,3}$/.test(prefixPart)) return null
+  let prefix = prefixPart === undefined ? maxPrefix : Number(prefixPart)
+  if (prefix > maxPrefix) return null
+
+  const isMapped = version === 6 &&
+    bytes.slice(0, 10).every((b) => b === 0) && bytes[10] === 0xff && bytes[11] === 0xff
+  if (isMapped && prefix >= 96) {
+    bytes = bytes.slice(12)
+    version = 4
+    prefix -= 96
+  }
+
+  return { bytes, prefix, version }
+}
+
+export const isValidIpOrCidr = (value: string) => parseCidr(value) !== null
+
+export const cidrContains = (block: ParsedCidr, address: ParsedCidr) => {
+  if (block.version !== address.version) return false
+
+  const fullBytes = Math.floor(block.prefix / 8)
+  for (let i = 0; i < fullBytes; i++) {
+    if (block.bytes[i] !== address.bytes[i]) return false
+  }
+
+  const remainingBits = block.prefix % 8
+  if (remainingBits === 0) return true
+
+  const mask = (0xff << (8 - remainingBits)) & 0xff
+  return (block.bytes[fullBytes] & mask) === (address.bytes[fullBytes] & mask)
+}
+
+export interface IpRule {
+  id: string
+  ip_address: string
+  rule_type: 'allow' | 'deny'
+  expires_at: string | null
+}
+
+// Deny rules always win; otherwise the most specific matching allow rule is
+// reported. Expired and unparseable rules are ignored.
+export const evaluateIpRules = (rules: IpRule[], clientIP: string, now = new Date()) => {
+  const address = parseCidr(clientIP)
+  if (!address) return { allowed: false, rule: null }
+
+  const matches = rules
+    .filter((rule) => !rule.expires_at || new Date(rule.expires_at) > now)
+    .map((rule) => ({ rule, block: parseCidr(rule.ip_address) }))
+    .filter(({ block }) => block && cidrContains(block, address))
+    .sort((a, b) => b.block!.prefix - a.block!.prefix)
+
+  const deny = matches.find(({ rule }) => rule.rule_type === 'deny')
+  if (deny) return { allowed: false, rule: deny.rule }
+
+  const allow = matches.find(({ rule }) => rule.rule_type === 'allow')
+  return { allowed: !!allow, rule: allow?.rule ?? null }
+}
@@ -0,0 +1,48 @@
+import { createSmtpMailer } from './smtp.ts'
+
+export interface MailMessage {
+  to: string
+  subject: string
+  html: string
+  text: string
+}
+
+export interface Mailer {
+  send(message: MailMessage): Promise<void>
+}
+
+// Writes each message as a JSON file instead of delivering it. Used for local
+// development and as the default until a real transport is configured.
+export const createFileSinkMailer = (
+  dir = Deno.env.get('MAIL_SINK_DIR') ?? './.mail-sink'
+): Mailer => ({
+  async send(message) {
+    await Deno.mkdir(dir, { recursive: true })
+    const file = `${dir}/${Date.now()}-${crypto.randomUUID()}.json`
+    await Deno.writeTextFile(
+      file,
+      JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2)
+    )
+    console.log(`Mail to ${message.to} written to ${file}`)
+  },
+})
+
+const transports: Record<string, () => Mailer> = {
+  file: () => createFileSinkMailer(),
+}
+
+export const registerMailTransport = (name: string, factory: () => Mailer) => {
+  transports[name] = factory
+}
+
+registerMailTransport('smtp', () => createSmtpMailer())
+
+// Picks the transport named by MAIL_TRANSPORT, defaulting to the file sink
+export const createMailer = (): Mailer => {
+  const name = Deno.env.get('MAIL_TRANSPORT') ?? 'file'
+  const factory = transports[name]
+  if (!factory) {
+    throw new Error(`Unknown mail transport: ${name}`)
+  }
+  return factory()
+}
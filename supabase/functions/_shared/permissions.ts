@@ -0,0 +1,56 @@
+// Role permissions for the edge functions and, through src/lib/permissions.ts,
+// the browser
+export type Role = 'admin' | 'manager' | 'employee' | 'viewer'
+
+export type Permission =
+  | 'employees.delete'
+  | 'employees.invite'
+  | 'employees.manage_roles'
+  | 'ip.manage'
+  | 'documents.upload'
+  | 'documents.delete_any'
+  | 'documents.manage_quotas'
+  | 'documents.manage_retention'
+  | 'tasks.configure_board'
+  | 'tasks.manage_any'
+  | 'comments.moderate'
+
+export const ROLES: Role[] = ['admin', 'manager', 'employee', 'viewer']
+
+export const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  admin: [
+    'employees.delete',
+    'employees.invite',
+    'employees.manage_roles',
+    'ip.manage',
+    'documents.upload',
+    'documents.delete_any',
+    'documents.manage_quotas',
+    'documents.manage_retention',
+    'tasks.configure_board',
+    'tasks.manage_any',
+    'comments.moderate',
+  ],
+  manager: [
+    'employees.invite',
+    'documents.upload',
+    'documents.delete_any',
+    'tasks.configure_board',
+    'tasks.manage_any',
+  ],
+  employee: ['documents.upload'],
+  viewer: [],
+}
+
+// Own keys only, so strings like "constructor" are not taken for roles
+export const isRole = (value: unknown): value is Role =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(ROLE_PERMISSIONS, value)
+
+export const hasPermission = (role: Role | null | undefined, permission: Permission) =>
+  isRole(role) && ROLE_PERMISSIONS[role].includes(permission)
+
+// Higher rank can grant any role at or below its own
+const ROLE_RANK: Record<Role, number> = { admin: 3, manager: 2, employee: 1, viewer: 0 }
+
+export const canAssignRole = (callerRole: Role | null | undefined, role: Role) =>
+  isRole(callerRole) && isRole(role) && ROLE_RANK[role] <= ROLE_RANK[callerRole]
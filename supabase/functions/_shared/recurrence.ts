@@ -0,0 +1,271 @@
+// A subset of RFC 5545 recurrence rules: FREQ (DAILY, WEEKLY, MONTHLY, YEARLY),
+// INTERVAL, COUNT, UNTIL, BYDAY and BYMONTHDAY. Rules are evaluated in UTC.
+// The browser imports this module through src/lib/recurrence.ts.
+
+export type Frequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY'
+
+export interface WeekdaySpec {
+  // 0 = Sunday, matching Date#getUTCDay
+  weekday: number
+  // e.g. 1 for the first or -1 for the last such weekday of the month
+  ordinal?: number
+}
+
+export interface RecurrenceRule {
+  freq: Frequency
+  interval: number
+  count?: number
+  until?: Date
+  byDay?: WeekdaySpec[]
+  byMonthDay?: number[]
+}
+
+export class RecurrenceError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'RecurrenceError'
+  }
+}
+
+const FREQUENCIES: Frequency[] = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY']
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA']
+const DAY_MS = 24 * 60 * 60 * 1000
+// Upper bound on the periods walked per evaluation, roughly 13 years of a daily rule
+const MAX_PERIODS = 5000
+
+const parsePositiveInt = (key: string, value: string) => {
+  const n = Number(value)
+  if (!Number.isInteger(n) || n < 1) {
+    throw new RecurrenceError(`${key} must be a positive integer`)
+  }
+  return n
+}
+
+const parseWeekday = (value: string): WeekdaySpec => {
+  const match = /^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/.exec(value)
+  if (!match) throw new RecurrenceError(`Invalid BYDAY value "${value}"`)
+
+  const spec: WeekdaySpec = { weekday: WEEKDAY_CODES.indexOf(match[2]) }
+  if (match[1]) {
+    const ordinal = Number(match[1])
+    if (ordinal === 0 || Math.abs(ordinal) > 5) {
+      throw new RecurrenceError(`Invalid BYDAY ordinal in "${value}"`)
+    }
+    spec.ordinal = ordinal
+  }
+  return spec
+}
+
+const parseUntil = (value: string) => {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/.exec(value)
+  if (!match) throw new RecurrenceError(`Invalid UNTIL value "${value}"`)
+
+  const [, y, m, d, hh, mm, ss] = match
+  // A date-only UNTIL includes the whole day
+  return hh === undefined
+    ? new Date(Date.UTC(+y, +m - 1, +d, 23, 59, 59))
+    : new Date(Date.UTC(+y, +m - 1, +d, +hh, +mm, +ss))
+}
+
+export const parseRRule = (value: string): RecurrenceRule => {
+  const text = value.trim().replace(/^RRULE:/i, '')
+  const parts = new Map<string, string>()
+
+  for (const part of text.split(';').filter(Boolean)) {
+    const [key, val] = part.split('=')
+    if (!key || !val) throw new RecurrenceError(`Malformed rule part "${part}"`)
+    parts.set(key.trim().toUpperCase(), val.trim().toUpperCase())
+  }
+
+  const freq = parts.get('FREQ') as Frequency | undefined
+  if (!freq || !FREQUENCIES.includes(freq)) {
+    throw new RecurrenceError('FREQ must be one of DAILY, WEEKLY, MONTHLY or YEARLY')
+  }
+
+  const rule: RecurrenceRule = { freq, interval: 1 }
+
+  for (const [key, val] of parts) {
+    switch (key) {
+      case 'FREQ':
+        break
+      case 'INTERVAL':
+        rule.interval = parsePositiveInt(key, val)
+        break
+      case 'COUNT':
+        rule.count = parsePositiveInt(key, val)
+        break
+      case 'UNTIL':
+        rule.until = parseUntil(val)
+        break
+      case 'BYDAY':
+        rule.byDay = val.split(',').map(parseWeekday)
+        break
+      case 'BYMONTHDAY':
+        rule.byMonthDay = val.split(',').map((day) => {
+          const n = Number(day)
+          if (!Number.isInteger(n) || n === 0 || Math.abs(n) > 31) {
+            throw new RecurrenceError(`Invalid BYMONTHDAY value "${day}"`)
+          }
+          return n
+        })
+        break
+      case 'WKST':
+        if (val !== 'MO') throw new RecurrenceError('Only WKST=MO is supported')
+        break
+      default:
+        throw new RecurrenceError(`Unsupported rule part ${key}`)
+    }
+  }
+
+  if (rule.count && rule.until) {
+    throw new RecurrenceError('COUNT and UNTIL cannot be combined')
+  }
+  if (rule.byDay?.some((spec) => spec.ordinal) && rule.freq !== 'MONTHLY') {
+    throw new RecurrenceError('BYDAY ordinals are only supported with FREQ=MONTHLY')
+  }
+  if (rule.byMonthDay && rule.freq === 'WEEKLY') {
+    throw new RecurrenceError('BYMONTHDAY cannot be used with FREQ=WEEKLY')
+  }
+  if (rule.freq === 'YEARLY' && (rule.byDay || rule.byMonthDay)) {
+    throw new RecurrenceError('FREQ=YEARLY repeats on the start date and takes no BY rules')
+  }
+
+  return rule
+}
+
+const formatUntil = (date: Date) =>
+  date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+
+export const formatRRule = (rule: RecurrenceRule) => {
+  const parts = [`FREQ=${rule.freq}`]
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`)
+  if (rule.byDay?.length) {
+    parts.push(`BYDAY=${rule.byDay.map((spec) => `${spec.ordinal ?? ''}${WEEKDAY_CODES[spec.weekday]}`).join(',')}`)
+  }
+  if (rule.byMonthDay?.length) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`)
+  if (rule.count) parts.push(`COUNT=${rule.count}`)
+  if (rule.until) parts.push(`UNTIL=${formatUntil(rule.until)}`)
+  return parts.join(';')
+}
+
+const utcDayStart = (date: Date) =>
+  Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate())
+
+const daysInMonth = (year: number, month: number) =>
+  new Date(Date.UTC(year, month + 1, 0)).getUTCDate()
+
+const monthDaysMatching = (rule: RecurrenceRule, year: number, month: number, fallbackDay: number) => {
+  const dim = daysInMonth(year, month)
+
+  let days: number[] | null = null
+  if (rule.byMonthDay) {
+    days = rule.byMonthDay
+      .map((day) => (day < 0 ? dim + 1 + day : day))
+      .filter((day) => day >= 1 && day <= dim)
+  }
+
+  if (rule.byDay) {
+    const weekdayDays = rule.byDay.flatMap((spec) => {
+      const matches: number[] = []
+      for (let day = 1; day <= dim; day++) {
+        if (new Date(Date.UTC(year, month, day)).getUTCDay() === spec.weekday) matches.push(day)
+      }
+      if (!spec.ordinal) return matches
+      const picked = spec.ordinal > 0 ? matches[spec.ordinal - 1] : matches[matches.length + spec.ordinal]
+      return picked === undefined ? [] : [picked]
+    })
+    days = days ? days.filter((day) => weekdayDays.includes(day)) : weekdayDays
+  }
+
+  // Without BY rules the rule repeats on the start date's day, skipping short months
+  return days ?? (fallbackDay <= dim ? [fallbackDay] : [])
+}
+
+// Candidate day starts (UTC midnight, in ms) for the k-th period of the rule
+const periodDays = (rule: RecurrenceRule, dtstart: Date, k: number): number[] => {
+  const startDay = utcDayStart(dtstart)
+  const step = k * rule.interval
+
+  switch (rule.freq) {
+    case 'DAILY': {
+      const day = startDay + step * DAY_MS
+      const date = new Date(day)
+      if (rule.byDay && !rule.byDay.some((spec) => spec.weekday === date.getUTCDay())) return []
+      if (rule.byMonthDay) {
+        const dim = daysInMonth(date.getUTCFullYear(), date.getUTCMonth())
+        const matches = rule.byMonthDay.some((d) => (d < 0 ? dim + 1 + d : d) === date.getUTCDate())
+        if (!matches) return []
+      }
+      return [day]
+    }
+    case 'WEEKLY': {
+      if (!rule.byDay) return [startDay + step * 7 * DAY_MS]
+      const monday = startDay - ((dtstart.getUTCDay() + 6) % 7) * DAY_MS + step * 7 * DAY_MS
+      return rule.byDay.map((spec) => monday + ((spec.weekday + 6) % 7) * DAY_MS)
+    }
+    case 'MONTHLY': {
+      const monthIndex = dtstart.getUTCMonth() + step
+      const year = dtstart.getUTCFullYear() + Math.floor(monthIndex / 12)
+      const month = monthIndex % 12
+      return monthDaysMatching(rule, year, month, dtstart.getUTCDate())
+        .map((day) => Date.UTC(year, month, day))
+    }
+    case 'YEARLY': {
+      const year = dtstart.getUTCFullYear() + step
+      const month = dtstart.getUTCMonth()
+      const day = dtstart.getUTCDate()
+      return day <= daysInMonth(year, month) ? [Date.UTC(year, month, day)] : []
+    }
+  }
+}
+
+// Walks occurrences after dtstart in order. dtstart itself is the first
+// occurrence of the series and counts towards COUNT but is not visited.
+const walk = (rule: RecurrenceRule, dtstart: Date, visit: (date: Date) => boolean) => {
+  const timeOfDay = dtstart.getTime() - utcDayStart(dtstart)
+  let emitted = 1
+
+  for (let k = 0; k < MAX_PERIODS; k++) {
+    const candidates = [...new Set(periodDays(rule, dtstart, k))].sort((a, b) => a - b)
+
+    for (const day of candidates) {
+      const date = new Date(day + timeOfDay)
+      if (date <= dtstart) continue
+      if (rule.until && date > rule.until) return
+      if (rule.count && emitted >= rule.count) return
+
+      emitted++
+      if (!visit(date)) return
+    }
+  }
+}
+
+// First occurrence strictly after `after`, or null once the series has ended
+export const nextOccurrence = (rule: RecurrenceRule, dtstart: Date, after: Date): Date | null => {
+  let next: Date | null = null
+  walk(rule, dtstart, (date) => {
+    if (date > after) {
+      next = date
+      return false
+    }
+    return true
+  })
+  return next
+}
+
+// Occurrences in the half-open range (from, to]
+export const occurrencesBetween = (
+  rule: RecurrenceRule,
+  dtstart: Date,
+  from: Date,
+  to: Date,
+  limit = 366
+): Date[] => {
+  const dates: Date[] = []
+  walk(rule, dtstart, (date) => {
+    if (date > to) return false
+    if (date > from) dates.push(date)
+    return dates.length < limit
+  })
+  return dates
+}
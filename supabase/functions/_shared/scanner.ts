@@ -0,0 +1,43 @@
+import { createClamdScanner } from './clamav.ts'
+
+export interface ScanResult {
+  clean: boolean
+  // Name of what was found, e.g. 'Win.Test.EICAR_HDB-1'
+  signature?: string
+}
+
+// Scanners throw when they cannot give a verdict; callers treat that as a
+// failed upload rather than a clean file
+export interface Scanner {
+  name: string
+  scan(bytes: Uint8Array): Promise<ScanResult>
+}
+
+// Accepts everything. The default until a real scanner is configured, so
+// local development works without a daemon.
+export const createNoopScanner = (): Scanner => ({
+  name: 'none',
+  async scan() {
+    return { clean: true }
+  },
+})
+
+const scanners: Record<string, () => Scanner> = {
+  none: () => createNoopScanner(),
+}
+
+export const registerScanner = (name: string, factory: () => Scanner) => {
+  scanners[name] = factory
+}
+
+registerScanner('clamav', () => createClamdScanner())
+
+// Picks the scanner named by MALWARE_SCANNER, defaulting to none
+export const createScanner = (): Scanner => {
+  const name = Deno.env.get('MALWARE_SCANNER') ?? 'none'
+  const factory = scanners[name]
+  if (!factory) {
+    throw new Error(`Unknown malware scanner: ${name}`)
+  }
+  return factory()
+}
@@ -0,0 +1,53 @@
+import { SMTPClient } from 'https://deno.land/x/denomailer@1.6.0/mod.ts'
+import type { Mailer } from './mailer.ts'
+
+export interface SmtpConfig {
+  hostname: string
+  port: number
+  tls: boolean
+  username?: string
+  password?: string
+  from: string
+}
+
+// Defaults point at a local mail catcher (Mailpit/MailHog listen on 1025
+// without TLS or auth)
+export const smtpConfigFromEnv = (): SmtpConfig => ({
+  hostname: Deno.env.get('SMTP_HOST') ?? 'localhost',
+  port: Number(Deno.env.get('SMTP_PORT') ?? '1025'),
+  tls: Deno.env.get('SMTP_TLS') === 'true',
+  username: Deno.env.get('SMTP_USERNAME') || undefined,
+  password: Deno.env.get('SMTP_PASSWORD') || undefined,
+  from: Deno.env.get('MAIL_FROM') ?? 'HR Management <no-reply@localhost>',
+})
+
+// Opens a connection per message; volumes are small enough that pooling is
+// not worth the reconnect handling
+export const createSmtpMailer = (config = smtpConfigFromEnv()): Mailer => ({
+  async send(message) {
+    const client = new SMTPClient({
+      connection: {
+        hostname: config.hostname,
+        port: config.port,
+        tls: config.tls,
+        auth: config.username
+          ? { username: config.username, password: config.password ?? '' }
+          : undefined,
+      },
+      // Mail catchers speak plain SMTP; real servers should use SMTP_TLS=true
+      debug: config.tls ? undefined : { allowUnsecure: true, noStartTLS: true },
+    })
+
+    try {
+      await client.send({
+        from: config.from,
+        to: message.to,
+        subject: message.subject,
+        content: message.text,
+        html: message.html,
+      })
+    } finally {
+      await client.close()
+    }
+  },
+})
@@ -0,0 +1,16 @@
+const toBase64Url = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '')
+
+export const generateToken = (byteLength = 32) =>
+  toBase64Url(crypto.getRandomValues(new Uint8Array(byteLength)))
+
+// Only the hash is persisted so a database leak does not expose usable tokens
+export const hashToken = async (token: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token))
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('')
+}
@@ -0,0 +1,128 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { corsHeaders } from '../_shared/cors.ts'
+import { createServiceClient } from '../_shared/auth.ts'
+import { hashToken } from '../_shared/tokens.ts'
+
+const jsonResponse = (body: Record<string, unknown>, status: number) =>
+  new Response(
+    JSON.stringify(body),
+    { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status }
+  )
+
+// Public endpoint: the invitation token itself is the credential.
+//   { action: 'validate', token }            -> { email, role }
+//   { action: 'accept', token, password, ... } -> creates the account
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    const { action = 'validate', token, password, username, full_name, contact_number, position } = await req.json()
+
+    if (!token) {
+      return jsonResponse({ error: 'Invitation token is required' }, 400)
+    }
+
+    const supabase = createServiceClient()
+
+    const { data: invitation, error: lookupError } = await supabase
+      .from('invitations')
+      .select('id, email, role, expires_at, accepted_at, revoked_at')
+      .eq('token_hash', await hashToken(token))
+      .maybeSingle()
+
+    if (lookupError) {
+      console.error('Error looking up invitation:', lookupError)
+      return jsonResponse({ error: 'Failed to validate invitation' }, 500)
+    }
+
+    if (!invitation || invitation.revoked_at) {
+      return jsonResponse({ error: 'This invitation is not valid' }, 404)
+    }
+
+    if (invitation.accepted_at) {
+      return jsonResponse({ error: 'This invitation has already been used' }, 410)
+    }
+
+    if (new Date(invitation.expires_at) < new Date()) {
+      return jsonResponse({ error: 'This invitation has expired' }, 410)
+    }
+
+    if (action === 'validate') {
+      return jsonResponse({ email: invitation.email, role: invitation.role }, 200)
+    }
+
+    if (action !== 'accept') {
+      return jsonResponse({ error: `Unknown action: ${action}` }, 400)
+    }
+
+    if (typeof password !== 'string' || password.length < 8) {
+      return jsonResponse({ error: 'Password must be at least 8 characters' }, 400)
+    }
+
+    // Claim the invitation first so concurrent requests cannot both succeed
+    const { data: claimed, error: claimError } = await supabase
+      .from('invitations')
+      .update({ accepted_at: new Date().toISOString() })
+      .eq('id', invitation.id)
+      .is('accepted_at', null)
+      .select('id')
+
+    if (claimError || !claimed?.length) {
+      console.error('Error claiming invitation:', claimError)
+      return jsonResponse({ error: 'This invitation has already been used' }, 410)
+    }
+
+    // The invitation email proves ownership of the address, so it is confirmed up front
+    const { data: created, error: createError } = await supabase.auth.admin.createUser({
+      email: invitation.email,
+      password,
+      email_confirm: true,
+      user_metadata: { username, full_name, contact_number, position },
+    })
+
+    if (createError || !created?.user) {
+      console.error('Error creating user from invitation:', createError)
+      await supabase
+        .from('invitations')
+        .update({ accepted_at: null })
+        .eq('id', invitation.id)
+
+      return jsonResponse({ error: createError?.message ?? 'Failed to create account' }, 400)
+    }
+
+    const userId = created.user.id
+
+    const { data: assigned, error: roleError } = await supabase
+      .from('profiles')
+      .update({ role: invitation.role })
+      .eq('id', userId)
+      .select('id')
+
+    // An account with the wrong role is worse than none; undo and let them retry
+    if (roleError || !assigned?.length) {
+      console.error(`Error assigning role to ${userId}:`, roleError)
+      await supabase.auth.admin.deleteUser(userId)
+      await supabase
+        .from('invitations')
+        .update({ accepted_at: null })
+        .eq('id', invitation.id)
+
+      return jsonResponse({ error: 'Failed to create account' }, 500)
+    }
+
+    await supabase
+      .from('invitations')
+      .update({ accepted_by: userId })
+      .eq('id', invitation.id)
+
+    console.log(`Invitation ${invitation.id} accepted by ${userId}`)
+
+    return jsonResponse({ message: 'Account created successfully' }, 200)
+  } catch (error) {
+    console.error('Unexpected error:', error)
+    return jsonResponse({ error: 'An unexpected error occurred' }, 500)
+  }
+})
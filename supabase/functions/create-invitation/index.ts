@@ -0,0 +1,133 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { corsHeaders } from '../_shared/cors.ts'
+import { authorize, createServiceClient } from '../_shared/auth.ts'
+import { canAssignRole, Role } from '../_shared/permissions.ts'
+import { createMailer } from '../_shared/mailer.ts'
+import { escapeHtml } from '../_shared/html.ts'
+import { generateToken, hashToken } from '../_shared/tokens.ts'
+
+const INVITATION_TTL_HOURS = Number(Deno.env.get('INVITATION_TTL_HOURS') ?? '72')
+
+const renderInvitationEmail = (inviteUrl: string, role: Role, invitedBy: string, expiresAt: Date) => ({
+  subject: "You're invited to HR Management",
+  text: [
+    `${invitedBy} has invited you to join HR Management as ${role}.`,
+    '',
+    `Create your account here: ${inviteUrl}`,
+    '',
+    `This link can be used once and expires on ${expiresAt.toUTCString()}.`,
+  ].join('\n'),
+  html: `
+    <p>${escapeHtml(invitedBy)} has invited you to join <strong>HR Management</strong> as <strong>${escapeHtml(role)}</strong>.</p>
+    <p><a href="${escapeHtml(inviteUrl)}">Create your account</a></p>
+    <p>This link can be used once and expires on ${expiresAt.toUTCString()}.</p>
+  `,
+})
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    const supabase = createServiceClient()
+
+    const { caller, response } = await authorize(req, supabase, 'employees.invite')
+    if (response) return response
+
+    const { email: rawEmail, role = 'employee' } = await req.json()
+    const email = typeof rawEmail === 'string' ? rawEmail.trim().toLowerCase() : ''
+
+    if (!email || !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+      return new Response(
+        JSON.stringify({ error: 'A valid email is required' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+      )
+    }
+
+    if (!canAssignRole(caller.role, role)) {
+      return new Response(
+        JSON.stringify({ error: `You cannot invite users with the ${role} role` }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 403 }
+      )
+    }
+
+    const { data: existingProfile } = await supabase
+      .from('profiles')
+      .select('id')
+      .ilike('email', email)
+      .maybeSingle()
+
+    if (existingProfile) {
+      return new Response(
+        JSON.stringify({ error: 'This email is already registered' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 409 }
+      )
+    }
+
+    const token = generateToken()
+    const expiresAt = new Date(Date.now() + INVITATION_TTL_HOURS * 60 * 60 * 1000)
+
+    const { data: invitation, error: insertError } = await supabase
+      .from('invitations')
+      .insert({
+        email,
+        role,
+        token_hash: await hashToken(token),
+        invited_by: caller.id,
+        expires_at: expiresAt.toISOString(),
+      })
+      .select('id, email, role, expires_at')
+      .single()
+
+    if (insertError) {
+      console.error('Error creating invitation:', insertError)
+      return new Response(
+        JSON.stringify({ error: 'Failed to create invitation' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
+      )
+    }
+
+    const appUrl = Deno.env.get('APP_URL') ?? req.headers.get('origin') ?? ''
+    const inviteUrl = `${appUrl}/login?invite=${encodeURIComponent(token)}`
+
+    // An invitation nobody received would stay usable until it expires
+    try {
+      await createMailer().send({
+        to: email,
+        ...renderInvitationEmail(inviteUrl, role, caller.email, expiresAt),
+      })
+    } catch (error) {
+      await supabase
+        .from('invitations')
+        .delete()
+        .eq('id', invitation.id)
+
+      throw error
+    }
+
+    // Re-inviting supersedes any outstanding invitation for the same address,
+    // but only once the new one has been delivered
+    await supabase
+      .from('invitations')
+      .update({ revoked_at: new Date().toISOString() })
+      .ilike('email', email)
+      .neq('id', invitation.id)
+      .is('accepted_at', null)
+      .is('revoked_at', null)
+
+    console.log(`Invitation ${invitation.id} sent to ${email} by ${caller.id}`)
+
+    return new Response(
+      JSON.stringify({ message: 'Invitation sent', invitation }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 200 }
+    )
+  } catch (error) {
+    console.error('Unexpected error:', error)
+    return new Response(
+      JSON.stringify({ error: 'An unexpected error occurred' }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
+    )
+  }
+})
@@ -1,6 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1'
 import { corsHeaders } from '../_shared/cors.ts'
+import { authorize, createServiceClient } from '../_shared/auth.ts'
 
 serve(async (req) => {
   // Handle CORS
@@ -9,13 +9,23 @@ serve(async (req) => {
   }
 
   try {
-    const { userId } = await req.json()
-    
     // Initialize Supabase client with service role key
-    const supabase = createClient(
-      Deno.env.get('SUPABASE_URL') ?? '',
-      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
-    )
+    const supabase = createServiceClient()
+
+    const { caller, response } = await authorize(req, supabase, 'employees.delete')
+    if (response) return response
+
+    const { userId } = await req.json()
+
+    if (!userId || userId === caller.id) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid user to delete' }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 400,
+        }
+      )
+    }
 
     // Delete the user from auth.users
     const { error: deleteError } = await supabase.auth.admin.deleteUser(
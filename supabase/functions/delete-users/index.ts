@@ -1,10 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1'
-
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-}
+import { corsHeaders } from '../_shared/cors.ts'
+import { authorize, createServiceClient } from '../_shared/auth.ts'
 
 serve(async (req) => {
   // Handle CORS preflight requests
@@ -13,26 +9,35 @@ serve(async (req) => {
   }
 
   try {
-    const { userIds, adminUsername, adminPassword } = await req.json()
-    console.log('Received request to delete users:', { userIds, adminUsername })
-    
-    // Verify admin credentials
-    if (adminUsername !== "hradmin712" || adminPassword !== "@dm1n712") {
-      console.error('Invalid admin credentials')
+    // Initialize Supabase client with service role key
+    const supabase = createServiceClient()
+
+    // Only callers whose role grants employee deletion may proceed
+    const { caller, response } = await authorize(req, supabase, 'employees.delete')
+    if (response) return response
+
+    const { userIds } = await req.json()
+    console.log('Received request to delete users:', { userIds, requestedBy: caller.id })
+
+    if (!Array.isArray(userIds) || userIds.length === 0) {
       return new Response(
-        JSON.stringify({ error: 'Invalid admin credentials' }),
-        { 
+        JSON.stringify({ error: 'userIds must be a non-empty array' }),
+        {
           headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-          status: 401 
+          status: 400,
         }
       )
     }
 
-    // Initialize Supabase client with service role key
-    const supabase = createClient(
-      Deno.env.get('SUPABASE_URL') ?? '',
-      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
-    )
+    if (userIds.includes(caller.id)) {
+      return new Response(
+        JSON.stringify({ error: 'You cannot delete your own account' }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 400,
+        }
+      )
+    }
 
     const errors = []
     console.log('Starting user deletion process')
@@ -0,0 +1,87 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { corsHeaders } from '../_shared/cors.ts'
+import { authorize, createServiceClient } from '../_shared/auth.ts'
+import { logDocumentAccess } from '../_shared/documentAccess.ts'
+
+// Long enough for the browser to start fetching, short enough that a copied
+// link is of no use
+const SIGNED_URL_TTL_SECONDS = 60
+
+const jsonResponse = (body: unknown, status: number) =>
+  new Response(
+    JSON.stringify(body),
+    { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status }
+  )
+
+// Hands out a short-lived signed URL for a document file. Users have no read
+// access to the documents bucket, so every view and download passes through
+// here and is logged before the URL is issued.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    const supabase = createServiceClient()
+
+    const { caller, response } = await authorize(req, supabase)
+    if (response) return response
+
+    const {
+      document_id: documentId,
+      version_id: versionId,
+      action,
+    } = await req.json().catch(() => ({}))
+
+    if (typeof documentId !== 'string') {
+      return jsonResponse({ error: 'document_id is required' }, 400)
+    }
+    if (versionId !== undefined && typeof versionId !== 'string') {
+      return jsonResponse({ error: 'version_id must be a string' }, 400)
+    }
+    if (action !== 'view' && action !== 'download') {
+      return jsonResponse({ error: 'action must be view or download' }, 400)
+    }
+
+    const { data: canAccess, error: accessError } = await supabase.rpc('can_access_document', {
+      p_document_id: documentId,
+      p_user_id: caller.id,
+    })
+    if (accessError) throw accessError
+    if (!canAccess) {
+      return jsonResponse({ error: 'Document not found' }, 404)
+    }
+
+    // Older versions are only served for the document they belong to
+    const { data: file, error: fileError } = versionId
+      ? await supabase
+          .from('document_versions')
+          .select('file_path')
+          .eq('id', versionId)
+          .eq('document_id', documentId)
+          .maybeSingle()
+      : await supabase
+          .from('documents')
+          .select('file_path')
+          .eq('id', documentId)
+          .maybeSingle()
+
+    if (fileError) throw fileError
+    if (!file) {
+      return jsonResponse({ error: 'Document not found' }, 404)
+    }
+
+    await logDocumentAccess(supabase, req, documentId, caller.id, action, versionId ? { version_id: versionId } : null)
+
+    const { data: signed, error: signError } = await supabase.storage
+      .from('documents')
+      .createSignedUrl(file.file_path, SIGNED_URL_TTL_SECONDS)
+
+    if (signError) throw signError
+
+    return jsonResponse({ url: signed.signedUrl }, 200)
+  } catch (error) {
+    console.error('Unexpected error:', error)
+    return jsonResponse({ error: 'Failed to load document' }, 500)
+  }
+})
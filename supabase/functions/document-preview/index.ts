@@ -0,0 +1,107 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import mammoth from 'https://esm.sh/mammoth@1.8.0'
+import { corsHeaders } from '../_shared/cors.ts'
+import { authorize, createServiceClient } from '../_shared/auth.ts'
+import { logDocumentAccess } from '../_shared/documentAccess.ts'
+import { escapeHtml } from '../_shared/html.ts'
+
+const jsonResponse = (body: unknown, status: number) =>
+  new Response(
+    JSON.stringify(body),
+    { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status }
+  )
+
+// The browser shows this in a sandboxed iframe, so it carries its own styles
+const wrapHtml = (title: string, body: string) => `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>
+  body { font-family: Georgia, serif; line-height: 1.5; color: #111827; max-width: 48rem; margin: 2rem auto; padding: 0 1.5rem; }
+  img { max-width: 100%; height: auto; }
+  table { border-collapse: collapse; }
+  td, th { border: 1px solid #d1d5db; padding: 0.25rem 0.5rem; }
+</style>
+</head>
+<body>${body}</body>
+</html>`
+
+// Converts the current version of a DOCX document to HTML. Conversions are
+// cached in the document-previews bucket per version, so each version is
+// converted once.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    const supabase = createServiceClient()
+
+    const { caller, response } = await authorize(req, supabase)
+    if (response) return response
+
+    const { document_id: documentId } = await req.json().catch(() => ({}))
+    if (typeof documentId !== 'string') {
+      return jsonResponse({ error: 'document_id is required' }, 400)
+    }
+
+    const { data: canAccess, error: accessError } = await supabase.rpc('can_access_document', {
+      p_document_id: documentId,
+      p_user_id: caller.id,
+    })
+    if (accessError) throw accessError
+
+    const { data: document, error: documentError } = canAccess
+      ? await supabase
+          .from('documents')
+          .select('id, title, file_path, file_type, current_version_id')
+          .eq('id', documentId)
+          .maybeSingle()
+      : { data: null, error: null }
+
+    if (documentError) throw documentError
+    if (!document) {
+      return jsonResponse({ error: 'Document not found' }, 404)
+    }
+
+    if (document.file_type !== 'docx') {
+      return jsonResponse({ error: 'Only DOCX documents are converted' }, 400)
+    }
+
+    await logDocumentAccess(supabase, req, document.id, caller.id, 'view')
+
+    const cachePath = `${document.id}/${document.current_version_id}.html`
+    const { data: cached } = await supabase.storage
+      .from('document-previews')
+      .download(cachePath)
+
+    if (cached) {
+      return jsonResponse({ html: await cached.text() }, 200)
+    }
+
+    const { data: file, error: downloadError } = await supabase.storage
+      .from('documents')
+      .download(document.file_path)
+
+    if (downloadError) throw downloadError
+
+    const { value, messages } = await mammoth.convertToHtml({ arrayBuffer: await file.arrayBuffer() })
+    if (messages.length > 0) {
+      console.log(`Converted document ${document.id} with ${messages.length} warning(s)`)
+    }
+
+    const html = wrapHtml(document.title, value)
+
+    const { error: cacheError } = await supabase.storage
+      .from('document-previews')
+      .upload(cachePath, html, { contentType: 'text/html', upsert: true })
+
+    if (cacheError) console.error('Error caching converted document:', cacheError)
+
+    return jsonResponse({ html }, 200)
+  } catch (error) {
+    console.error('Unexpected error:', error)
+    return jsonResponse({ error: 'Failed to convert document' }, 500)
+  }
+})
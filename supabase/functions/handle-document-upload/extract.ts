@@ -0,0 +1,65 @@
+import { extractText as extractPdfText } from 'https://esm.sh/unpdf@0.12.1'
+import { strFromU8, unzipSync } from 'https://esm.sh/fflate@0.8.2'
+
+export const EXTRACTABLE_TYPES = ['pdf', 'docx']
+
+// Keeps the generated tsvector well below Postgres' 1MB limit
+const MAX_CONTENT_LENGTH = 200_000
+
+const XML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+}
+
+const decodeXmlEntities = (text: string) =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10)
+      return Number.isNaN(code) ? match : String.fromCodePoint(code)
+    }
+    return XML_ENTITIES[entity] ?? match
+  })
+
+// The body of a DOCX is word/document.xml; paragraphs, tabs and line breaks
+// are kept as whitespace so words from adjacent runs don't run together
+const extractDocxText = (bytes: Uint8Array) => {
+  const files = unzipSync(bytes, { filter: (file) => file.name === 'word/document.xml' })
+  const xml = files['word/document.xml']
+  if (!xml) throw new Error('Not a Word document: word/document.xml is missing')
+
+  return decodeXmlEntities(
+    strFromU8(xml)
+      .replace(/<w:tab\/>/g, '\t')
+      .replace(/<w:(br|cr)\/>/g, '\n')
+      .replace(/<\/w:p>/g, '\n')
+      .replace(/<[^>]+>/g, '')
+  )
+}
+
+// Postgres text columns reject NUL characters, which some PDFs produce
+const normalizeText = (text: string) =>
+  text
+    .replaceAll('\u0000', '')
+    .replace(/[ \t]+/g, ' ')
+    .replace(/\s*\n\s*/g, '\n')
+    .trim()
+    .slice(0, MAX_CONTENT_LENGTH)
+
+// Returns the plain text of a PDF or DOCX file, or null for types that carry
+// no extractable text (images, legacy .doc)
+export const extractDocumentText = async (fileType: string, bytes: Uint8Array) => {
+  let text: string
+  if (fileType === 'pdf') {
+    const { text: pages } = await extractPdfText(bytes, { mergePages: true })
+    text = Array.isArray(pages) ? pages.join('\n') : pages
+  } else if (fileType === 'docx') {
+    text = extractDocxText(bytes)
+  } else {
+    return null
+  }
+
+  return normalizeText(text) || null
+}
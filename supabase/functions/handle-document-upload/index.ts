@@ -1,9 +1,457 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1'
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1'
+import { corsHeaders } from '../_shared/cors.ts'
+import { authorize, Caller, createServiceClient, isServiceRoleRequest } from '../_shared/auth.ts'
+import { checkFileContent, checkFileMetadata, getFileExtension, QUOTA_EXCEEDED_MESSAGES } from '../_shared/fileValidation.ts'
+import { createScanner } from '../_shared/scanner.ts'
+import { EXTRACTABLE_TYPES, extractDocumentText } from './extract.ts'
+import { createThumbnail, IMAGE_TYPES } from './thumbnail.ts'
 
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+interface IndexableDocument {
+  id: string
+  title: string
+  file_path: string
+  file_type: string
+  current_version_id: string | null
+  content_version_id: string | null
+}
+
+interface RegisterRequest {
+  file_path: string
+  file_name?: unknown
+  folder_id?: unknown
+  document_id?: unknown
+}
+
+type ScreenResult =
+  | { accepted: true }
+  | { accepted: false; status: number; error: string }
+
+const INDEXABLE_COLUMNS = 'id, title, file_path, file_type, current_version_id, content_version_id'
+
+// What the browser lists; leaves out the extracted text and search vector
+const DOCUMENT_COLUMNS =
+  'id, title, file_type, file_path, size, created_at, last_modified, current_version_id, created_by, folder_id, tags, owner_id, department, thumbnail_path, category, deleted_at, purge_after, legal_hold, legal_hold_reason'
+
+// Documents indexed per scheduled run; the rest wait for the next one
+const SWEEP_BATCH_SIZE = 20
+
+// Uploads that were never registered are removed once they are this old
+const UNREGISTERED_FILE_TTL = '1 day'
+const UNREGISTERED_BATCH_SIZE = 100
+
+const jsonResponse = (body: unknown, status: number) =>
+  new Response(
+    JSON.stringify(body),
+    { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status }
+  )
+
+// Stores the thumbnail next to the document's other previews
+const uploadThumbnail = async (supabase: SupabaseClient, document: IndexableDocument, content: string | null, bytes?: Uint8Array) => {
+  const thumbnail = await createThumbnail(document.file_type, document.title, bytes, content)
+  if (!thumbnail) return null
+
+  const path = `${document.id}/${document.current_version_id}-thumbnail.${thumbnail.extension}`
+  const { error } = await supabase.storage
+    .from('document-previews')
+    .upload(path, thumbnail.body, { contentType: thumbnail.contentType, upsert: true })
+
+  if (error) throw error
+  return path
+}
+
+// Extracts the text of the document's current version into documents.content
+// and generates its thumbnail. A file that can't be parsed is recorded with no
+// content rather than retried forever; a failed download throws so the next
+// sweep tries again.
+const indexDocument = async (supabase: SupabaseClient, document: IndexableDocument, bytes?: Uint8Array) => {
+  let content: string | null = null
+  let thumbnailPath: string | null = null
+  const isImage = IMAGE_TYPES.includes(document.file_type)
+
+  if (EXTRACTABLE_TYPES.includes(document.file_type) || isImage) {
+    if (!bytes) {
+      const { data, error } = await supabase.storage
+        .from('documents')
+        .download(document.file_path)
+
+      if (error) throw error
+      bytes = new Uint8Array(await data.arrayBuffer())
+    }
+
+    if (!isImage) {
+      try {
+        content = await extractDocumentText(document.file_type, bytes)
+      } catch (error) {
+        console.error(`Text extraction failed for document ${document.id}:`, error)
+      }
+    }
+  }
+
+  try {
+    thumbnailPath = await uploadThumbnail(supabase, document, content, bytes)
+  } catch (error) {
+    console.error(`Thumbnail generation failed for document ${document.id}:`, error)
+  }
+
+  // Skipped when a newer version was published while this one was parsed
+  let query = supabase
+    .from('documents')
+    .update({ content, thumbnail_path: thumbnailPath, content_version_id: document.current_version_id })
+    .eq('id', document.id)
+
+  query = document.current_version_id
+    ? query.eq('current_version_id', document.current_version_id)
+    : query.is('current_version_id', null)
+
+  const { error } = await query
+  if (error) throw error
+
+  return content !== null
+}
+
+// Moves a flagged file out of the documents bucket's reach and records it
+// for an admin to review
+const quarantineFile = async (
+  supabase: SupabaseClient,
+  caller: Caller,
+  fileName: string,
+  bytes: Uint8Array,
+  reason: 'content_mismatch' | 'malware',
+  details: string,
+  scanner: string | null = null
+) => {
+  const path = `${caller.id}/${crypto.randomUUID()}`
+  const { error: uploadError } = await supabase.storage
+    .from('quarantine')
+    .upload(path, bytes, { contentType: 'application/octet-stream' })
+
+  if (uploadError) throw uploadError
+
+  const { error } = await supabase
+    .from('quarantined_files')
+    .insert({
+      file_path: path,
+      file_name: fileName,
+      size: bytes.length,
+      uploaded_by: caller.id,
+      reason,
+      details,
+      scanner,
+    })
+
+  if (error) throw error
+  console.warn(`Quarantined ${fileName} uploaded by ${caller.id}: ${details}`)
+}
+
+// Checks an upload's name, size and leading bytes, then runs the malware
+// scanner over it. Must pass before any documents row points at the file.
+const screenFile = async (
+  supabase: SupabaseClient,
+  caller: Caller,
+  fileName: string,
+  bytes: Uint8Array
+): Promise<ScreenResult> => {
+  const metadataError = checkFileMetadata(fileName, bytes.length)
+  if (metadataError) {
+    return { accepted: false, status: 400, error: metadataError }
+  }
+
+  const contentError = checkFileContent(fileName, bytes)
+  if (contentError) {
+    await quarantineFile(supabase, caller, fileName, bytes, 'content_mismatch', contentError)
+    return { accepted: false, status: 422, error: contentError }
+  }
+
+  const scanner = createScanner()
+  let result
+  try {
+    result = await scanner.scan(bytes)
+  } catch (error) {
+    // No verdict is not a clean verdict
+    console.error(`Malware scan failed (${scanner.name}):`, error)
+    return { accepted: false, status: 503, error: 'The file could not be scanned for malware. Please try again later.' }
+  }
+
+  if (!result.clean) {
+    await quarantineFile(supabase, caller, fileName, bytes, 'malware', result.signature ?? 'Malware detected', scanner.name)
+    return { accepted: false, status: 422, error: 'The file was flagged as malware and has been quarantined' }
+  }
+
+  return { accepted: true }
+}
+
+// Returns why storing the file would take the uploader or the organization
+// over quota, or null when it fits
+const checkStorageQuota = async (supabase: SupabaseClient, userId: string, size: number) => {
+  const { data: exceeded, error } = await supabase.rpc('storage_quota_exceeded', {
+    p_user_id: userId,
+    p_size: size,
+  })
+
+  if (error) throw error
+  return exceeded ? QUOTA_EXCEEDED_MESSAGES[exceeded] : null
+}
+
+const loadDocument = async (supabase: SupabaseClient, documentId: string) => {
+  const { data, error } = await supabase
+    .from('documents')
+    .select(INDEXABLE_COLUMNS)
+    .eq('id', documentId)
+    .maybeSingle()
+
+  if (error) throw error
+  return data as IndexableDocument | null
+}
+
+const sweepPendingDocuments = async (supabase: SupabaseClient) => {
+  const { data, error } = await supabase.rpc('documents_pending_indexing', { p_limit: SWEEP_BATCH_SIZE })
+  if (error) throw error
+
+  let indexed = 0
+  let failed = 0
+  for (const document of data as IndexableDocument[]) {
+    try {
+      await indexDocument(supabase, document)
+      indexed++
+    } catch (error) {
+      console.error(`Error indexing document ${document.id}:`, error)
+      failed++
+    }
+  }
+
+  return { indexed, failed }
+}
+
+// Removes files browsers uploaded but never registered, e.g. after closing
+// the tab mid-upload. They were never screened and only take up quota.
+const sweepUnregisteredFiles = async (supabase: SupabaseClient) => {
+  const { data, error } = await supabase.rpc('unregistered_document_files', {
+    p_older_than: UNREGISTERED_FILE_TTL,
+    p_limit: UNREGISTERED_BATCH_SIZE,
+  })
+  if (error) throw error
+
+  const paths = (data as { file_path: string }[]).map((file) => file.file_path)
+  if (paths.length === 0) return 0
+
+  const { error: removeError } = await supabase.storage.from('documents').remove(paths)
+  if (removeError) throw removeError
+  return paths.length
+}
+
+const handleUpload = async (req: Request, supabase: SupabaseClient) => {
+  // The uploader is always the authenticated caller, never a form field
+  const { caller, response } = await authorize(req, supabase, 'documents.upload')
+  if (response) return response
+
+  const formData = await req.formData()
+  const file = formData.get('file')
+  const title = formData.get('title')
+  const userId = caller.id
+
+  if (!file || !title) {
+    return jsonResponse({ error: 'Missing required fields' }, 400)
+  }
+
+  const bytes = new Uint8Array(await file.arrayBuffer())
+  const quotaError = await checkStorageQuota(supabase, userId, bytes.length)
+  if (quotaError) {
+    return jsonResponse({ error: quotaError }, 413)
+  }
+
+  const screen = await screenFile(supabase, caller, file.name, bytes)
+  if (!screen.accepted) {
+    return jsonResponse({ error: screen.error }, screen.status)
+  }
+
+  const fileExt = getFileExtension(file.name)
+  const fileName = `${crypto.randomUUID()}.${fileExt}`
+  const filePath = `${userId}/${fileName}`
+
+  const { error: uploadError } = await supabase.storage
+    .from('documents')
+    .upload(filePath, bytes, {
+      contentType: file.type,
+      upsert: false
+    })
+
+  if (uploadError) {
+    console.error('Upload error:', uploadError)
+    return jsonResponse({ error: 'Failed to upload file', details: uploadError }, 500)
+  }
+
+  const { data: inserted, error: dbError } = await supabase
+    .from('documents')
+    .insert({
+      title: title,
+      file_path: filePath,
+      file_type: fileExt,
+      size: bytes.length,
+      created_by: userId,
+    })
+    .select('id')
+    .single()
+
+  if (dbError) {
+    console.error('Database error:', dbError)
+    return jsonResponse({ error: 'Failed to save document metadata', details: dbError }, 500)
+  }
+
+  // Re-read so current_version_id reflects the version the database created
+  let indexed = false
+  try {
+    const document = await loadDocument(supabase, inserted.id)
+    if (document) indexed = await indexDocument(supabase, document, bytes)
+  } catch (error) {
+    console.error(`Error indexing document ${inserted.id}:`, error)
+  }
+
+  return jsonResponse({ message: 'Document uploaded successfully', filePath, documentId: inserted.id, indexed }, 200)
+}
+
+// Turns a file the browser stored in its own folder into a new document, or
+// into a new version of document_id, once it passes screening. Rejected files
+// are removed from the documents bucket.
+const handleRegister = async (req: Request, supabase: SupabaseClient, body: RegisterRequest) => {
+  const { caller, response } = await authorize(req, supabase, 'documents.upload')
+  if (response) return response
+
+  const { file_path: filePath, file_name: fileName, folder_id: folderId = null, document_id: documentId } = body
+
+  if (typeof fileName !== 'string' || !fileName.trim()) {
+    return jsonResponse({ error: 'file_name is required' }, 400)
+  }
+  if (folderId !== null && typeof folderId !== 'string') {
+    return jsonResponse({ error: 'folder_id must be a string' }, 400)
+  }
+  if (documentId !== undefined && typeof documentId !== 'string') {
+    return jsonResponse({ error: 'document_id must be a string' }, 400)
+  }
+
+  // The storage policies only let browsers write to their own folder
+  if (!filePath.startsWith(`${caller.id}/`)) {
+    return jsonResponse({ error: 'File not found' }, 404)
+  }
+
+  const { count, error: existingError } = await supabase
+    .from('document_versions')
+    .select('id', { count: 'exact', head: true })
+    .eq('file_path', filePath)
+
+  if (existingError) throw existingError
+  if (count) {
+    return jsonResponse({ error: 'File is already registered' }, 409)
+  }
+
+  if (documentId) {
+    const { data: canEdit, error: accessError } = await supabase.rpc('can_access_document', {
+      p_document_id: documentId,
+      p_user_id: caller.id,
+      p_access: 'edit',
+    })
+    if (accessError) throw accessError
+    if (!canEdit) {
+      return jsonResponse({ error: 'Document not found' }, 404)
+    }
+  }
+
+  const { data: file, error: downloadError } = await supabase.storage
+    .from('documents')
+    .download(filePath)
+
+  if (downloadError || !file) {
+    return jsonResponse({ error: 'File not found' }, 404)
+  }
+
+  // The stored file already counts towards the quota while it is unregistered
+  const bytes = new Uint8Array(await file.arrayBuffer())
+  const quotaError = await checkStorageQuota(supabase, caller.id, 0)
+  if (quotaError) {
+    await supabase.storage.from('documents').remove([filePath])
+    return jsonResponse({ error: quotaError }, 413)
+  }
+
+  const screen = await screenFile(supabase, caller, fileName, bytes)
+  if (!screen.accepted) {
+    await supabase.storage.from('documents').remove([filePath])
+    return jsonResponse({ error: screen.error }, screen.status)
+  }
+
+  const fileType = getFileExtension(fileName)
+  const { data: inserted, error: insertError } = documentId
+    ? await supabase
+        .from('document_versions')
+        .insert({
+          document_id: documentId,
+          file_path: filePath,
+          file_type: fileType,
+          size: bytes.length,
+          uploaded_by: caller.id,
+        })
+        .select('document_id')
+        .single()
+    : await supabase
+        .from('documents')
+        .insert({
+          title: fileName.trim(),
+          file_path: filePath,
+          file_type: fileType,
+          size: bytes.length,
+          created_by: caller.id,
+          folder_id: folderId,
+        })
+        .select('document_id:id')
+        .single()
+
+  if (insertError) {
+    await supabase.storage.from('documents').remove([filePath])
+    throw insertError
+  }
+
+  // The bytes are already here, so index now rather than on the next sweep
+  try {
+    const document = await loadDocument(supabase, inserted.document_id)
+    if (document) await indexDocument(supabase, document, bytes)
+  } catch (error) {
+    console.error(`Error indexing document ${inserted.document_id}:`, error)
+  }
+
+  const { data: document, error: documentError } = await supabase
+    .from('documents')
+    .select(DOCUMENT_COLUMNS)
+    .eq('id', inserted.document_id)
+    .single()
+
+  if (documentError) throw documentError
+  return jsonResponse({ document }, 200)
+}
+
+// Indexes one document after the browser uploaded a file or a new version
+const handleIndexRequest = async (req: Request, supabase: SupabaseClient, documentId: unknown) => {
+  const { caller, response } = await authorize(req, supabase)
+  if (response) return response
+
+  if (typeof documentId !== 'string') {
+    return jsonResponse({ error: 'document_id is required' }, 400)
+  }
+
+  const { data: canAccess, error: accessError } = await supabase.rpc('can_access_document', {
+    p_document_id: documentId,
+    p_user_id: caller.id,
+  })
+  if (accessError) throw accessError
+
+  const document = canAccess ? await loadDocument(supabase, documentId) : null
+  if (!document) {
+    return jsonResponse({ error: 'Document not found' }, 404)
+  }
+
+  if (document.content_version_id === document.current_version_id) {
+    return jsonResponse({ indexed: false, upToDate: true }, 200)
+  }
+
+  return jsonResponse({ indexed: await indexDocument(supabase, document) }, 200)
 }
 
 serve(async (req) => {
@@ -12,78 +460,37 @@ serve(async (req) => {
   }
 
   try {
-    const formData = await req.formData()
-    const file = formData.get('file')
-    const title = formData.get('title')
-    const userId = formData.get('userId')
-
-    if (!file || !title || !userId) {
-      return new Response(
-        JSON.stringify({ error: 'Missing required fields' }),
-        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
-      )
-    }
+    const supabase = createServiceClient()
 
-    const supabase = createClient(
-      Deno.env.get('SUPABASE_URL') ?? '',
-      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
-    )
-
-    const fileExt = file.name.split('.').pop()?.toLowerCase()
-    const allowedTypes = ['doc', 'docx', 'pdf', 'jpg', 'jpeg', 'png']
-    
-    if (!fileExt || !allowedTypes.includes(fileExt)) {
-      return new Response(
-        JSON.stringify({ error: 'Invalid file type' }),
-        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
-      )
+    if (req.headers.get('Content-Type')?.startsWith('multipart/form-data')) {
+      return await handleUpload(req, supabase)
     }
 
-    const fileName = `${crypto.randomUUID()}.${fileExt}`
-    const filePath = `${userId}/${fileName}`
-
-    const { data: uploadData, error: uploadError } = await supabase.storage
-      .from('documents')
-      .upload(filePath, file, {
-        contentType: file.type,
-        upsert: false
-      })
-
-    if (uploadError) {
-      console.error('Upload error:', uploadError)
-      return new Response(
-        JSON.stringify({ error: 'Failed to upload file', details: uploadError }),
-        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
-      )
+    const body = await req.json().catch(() => ({}))
+
+    // Scheduled runs sweep every document whose current version hasn't been
+    // indexed yet and remove stale unregistered uploads; operators may pass a
+    // document_id to re-index just one
+    if (isServiceRoleRequest(req)) {
+      if (typeof body.document_id === 'string') {
+        const document = await loadDocument(supabase, body.document_id)
+        if (!document) return jsonResponse({ error: 'Document not found' }, 404)
+        return jsonResponse({ indexed: await indexDocument(supabase, document) }, 200)
+      }
+
+      const result = await sweepPendingDocuments(supabase)
+      const removed = await sweepUnregisteredFiles(supabase)
+      console.log(`Indexed ${result.indexed} document(s), ${result.failed} failed; removed ${removed} unregistered file(s)`)
+      return jsonResponse({ ...result, removed }, 200)
     }
 
-    const { error: dbError } = await supabase
-      .from('documents')
-      .insert({
-        title: title,
-        file_path: filePath,
-        file_type: fileExt,
-        size: file.size,
-        created_by: userId,
-      })
-
-    if (dbError) {
-      console.error('Database error:', dbError)
-      return new Response(
-        JSON.stringify({ error: 'Failed to save document metadata', details: dbError }),
-        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
-      )
+    if (typeof body.file_path === 'string') {
+      return await handleRegister(req, supabase, body)
     }
 
-    return new Response(
-      JSON.stringify({ message: 'Document uploaded successfully', filePath }),
-      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 200 }
-    )
+    return await handleIndexRequest(req, supabase, body.document_id)
   } catch (error) {
     console.error('Unexpected error:', error)
-    return new Response(
-      JSON.stringify({ error: 'An unexpected error occurred', details: error.message }),
-      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
-    )
+    return jsonResponse({ error: 'An unexpected error occurred', details: error.message }, 500)
   }
-})
\ No newline at end of file
+})
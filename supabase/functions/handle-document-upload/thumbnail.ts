@@ -0,0 +1,80 @@
+import { Image } from 'https://deno.land/x/imagescript@1.2.17/mod.ts'
+
+export const IMAGE_TYPES = ['jpg', 'jpeg', 'png']
+
+const THUMBNAIL_WIDTH = 240
+const THUMBNAIL_HEIGHT = 320
+
+// Text pages show this many lines of roughly this many characters
+const TEXT_LINES = 14
+const LINE_LENGTH = 34
+
+export interface Thumbnail {
+  body: Uint8Array | string
+  contentType: string
+  extension: string
+}
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+
+// Greedy word wrap; words longer than a line are cut
+const wrapText = (text: string, maxLines: number) => {
+  const lines: string[] = []
+  let line = ''
+
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word
+    if (candidate.length <= LINE_LENGTH) {
+      line = candidate
+      continue
+    }
+    if (line) lines.push(line)
+    if (lines.length === maxLines) return lines
+    line = word.slice(0, LINE_LENGTH)
+  }
+
+  if (line && lines.length < maxLines) lines.push(line)
+  return lines
+}
+
+const renderImageThumbnail = async (bytes: Uint8Array): Promise<Thumbnail> => {
+  const image = await Image.decode(bytes)
+  if (image.width > THUMBNAIL_WIDTH) image.resize(THUMBNAIL_WIDTH, Image.RESIZE_AUTO)
+
+  return { body: await image.encode(), contentType: 'image/png', extension: 'png' }
+}
+
+// Documents get a page-shaped card with the title and the start of the
+// extracted text, so no renderer has to run on the server
+const renderTextThumbnail = (title: string, fileType: string, content: string | null): Thumbnail => {
+  const titleLines = wrapText(title, 2)
+  const bodyLines = wrapText(content ?? '', TEXT_LINES)
+  const bodyTop = 56 + titleLines.length * 18
+
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${THUMBNAIL_WIDTH}" height="${THUMBNAIL_HEIGHT}" viewBox="0 0 ${THUMBNAIL_WIDTH} ${THUMBNAIL_HEIGHT}">
+  <rect width="100%" height="100%" fill="#ffffff" stroke="#e5e7eb" stroke-width="2"/>
+  <rect x="16" y="16" width="44" height="20" rx="4" fill="${fileType === 'pdf' ? '#dc2626' : '#2563eb'}"/>
+  <text x="38" y="30" font-family="sans-serif" font-size="11" font-weight="bold" fill="#ffffff" text-anchor="middle">${escapeXml(fileType.toUpperCase())}</text>
+${titleLines.map((line, index) => `  <text x="16" y="${60 + index * 18}" font-family="sans-serif" font-size="14" font-weight="bold" fill="#111827">${escapeXml(line)}</text>`).join('\n')}
+${bodyLines.map((line, index) => `  <text x="16" y="${bodyTop + index * 16}" font-family="sans-serif" font-size="10" fill="#4b5563">${escapeXml(line)}</text>`).join('\n')}
+</svg>`
+
+  return { body: svg, contentType: 'image/svg+xml', extension: 'svg' }
+}
+
+export const createThumbnail = async (
+  fileType: string,
+  title: string,
+  bytes: Uint8Array | undefined,
+  content: string | null
+) => {
+  if (IMAGE_TYPES.includes(fileType)) {
+    return bytes ? await renderImageThumbnail(bytes) : null
+  }
+  return renderTextThumbnail(title, fileType, content)
+}
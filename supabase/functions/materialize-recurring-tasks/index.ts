@@ -0,0 +1,176 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1'
+import { corsHeaders } from '../_shared/cors.ts'
+import { authorize, createServiceClient, isServiceRoleRequest } from '../_shared/auth.ts'
+import { nextOccurrence, parseRRule, RecurrenceError } from '../_shared/recurrence.ts'
+
+interface SeriesTask {
+  id: string
+  title: string
+  description: string | null
+  priority: string
+  deadline: string
+  status: string
+  created_by: string
+  assigned_to: string
+  user_id: string
+  team_id: string | null
+  workflow_id: string | null
+  estimate_hours: number | null
+  recurrence_rule: string | null
+  recurrence_start: string | null
+  series_id: string
+}
+
+// The next occurrence of a series is created once its latest occurrence is
+// closed (a "done" workflow state) or that occurrence's deadline has arrived.
+// series_occurrences_due returns just those latest occurrences.
+const materialize = async (supabase: SupabaseClient, now: Date, seriesId?: string) => {
+  const { data: heads, error: headsError } = await supabase
+    .rpc('series_occurrences_due', { p_now: now.toISOString(), p_series_id: seriesId ?? null })
+
+  if (headsError) throw headsError
+
+  const created: string[] = []
+
+  for (const head of heads as SeriesTask[]) {
+    if (!head.recurrence_rule) continue
+
+    let next: Date | null
+    try {
+      const rule = parseRRule(head.recurrence_rule)
+      next = nextOccurrence(rule, new Date(head.recurrence_start ?? head.deadline), new Date(head.deadline))
+    } catch (error) {
+      if (error instanceof RecurrenceError) {
+        console.error(`Skipping series ${head.series_id} with invalid rule: ${error.message}`)
+        continue
+      }
+      throw error
+    }
+
+    if (!next) continue
+
+    const { data: occurrence, error: insertError } = await supabase
+      .from('tasks')
+      .insert({
+        title: head.title,
+        description: head.description,
+        priority: head.priority,
+        deadline: next.toISOString(),
+        created_by: head.created_by,
+        assigned_to: head.assigned_to,
+        user_id: head.user_id,
+        team_id: head.team_id,
+        workflow_id: head.workflow_id,
+        estimate_hours: head.estimate_hours,
+        recurrence_rule: head.recurrence_rule,
+        recurrence_start: head.recurrence_start,
+        series_id: head.series_id,
+      })
+      .select('id')
+      .single()
+
+    if (insertError) {
+      // Another run already created this occurrence
+      if (insertError.code === '23505') continue
+      throw insertError
+    }
+
+    // Each occurrence starts with a fresh copy of the checklist
+    const { data: subtasks } = await supabase
+      .from('task_subtasks')
+      .select('title, position')
+      .eq('task_id', head.id)
+
+    if (subtasks?.length) {
+      const { error: subtaskError } = await supabase
+        .from('task_subtasks')
+        .insert(subtasks.map((subtask) => ({ ...subtask, task_id: occurrence.id })))
+
+      if (subtaskError) console.error('Error copying checklist:', subtaskError)
+    }
+
+    const { data: assignee } = await supabase
+      .from('profiles')
+      .select('id')
+      .eq('email', head.assigned_to)
+      .maybeSingle()
+
+    if (assignee) {
+      await supabase.from('notifications').insert({
+        title: 'New Task Assignment',
+        message: `A new occurrence of recurring task "${head.title}" is due ${next.toUTCString()}`,
+        type: 'assignment',
+        task_id: occurrence.id,
+        user_id: assignee.id,
+      })
+    }
+
+    created.push(occurrence.id)
+  }
+
+  return created
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    const supabase = createServiceClient()
+    const body = await req.json().catch(() => ({}))
+
+    // Scheduled runs sweep every series; signed-in users may only nudge the
+    // series of a task they just closed
+    let seriesId: string | undefined
+    if (!isServiceRoleRequest(req)) {
+      const { caller, response } = await authorize(req, supabase)
+      if (response) return response
+
+      if (typeof body.task_id !== 'string') {
+        return new Response(
+          JSON.stringify({ error: 'task_id is required' }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+        )
+      }
+
+      const { data: canView, error: accessError } = await supabase.rpc('can_view_task', {
+        p_task_id: body.task_id,
+        p_user_id: caller.id,
+      })
+      if (accessError) throw accessError
+
+      const { data: task } = canView
+        ? await supabase
+            .from('tasks')
+            .select('series_id')
+            .eq('id', body.task_id)
+            .maybeSingle()
+        : { data: null }
+
+      if (!task?.series_id) {
+        return new Response(
+          JSON.stringify({ created: [] }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 200 }
+        )
+      }
+      seriesId = task.series_id
+    }
+
+    const created = await materialize(supabase, new Date(), seriesId)
+    console.log(`Materialized ${created.length} recurring task occurrence(s)`)
+
+    return new Response(
+      JSON.stringify({ created }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 200 }
+    )
+  } catch (error) {
+    console.error('Unexpected error:', error)
+    return new Response(
+      JSON.stringify({ error: 'An unexpected error occurred' }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
+    )
+  }
+})
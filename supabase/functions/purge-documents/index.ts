@@ -0,0 +1,151 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1'
+import { corsHeaders } from '../_shared/cors.ts'
+import { authorize, createServiceClient, isServiceRoleRequest } from '../_shared/auth.ts'
+
+interface TrashedDocument {
+  id: string
+  file_path: string
+  deleted_at: string | null
+  legal_hold: boolean
+}
+
+const SWEEP_BATCH_SIZE = 50
+
+const jsonResponse = (body: unknown, status: number) =>
+  new Response(
+    JSON.stringify(body),
+    { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status }
+  )
+
+// Removes every stored version and cached preview, then the row itself.
+// Files go first so a failure leaves the document in the trash to retry,
+// never a row pointing at nothing. Returns false, touching nothing, when the
+// database refuses the claim because the document was restored or held.
+const purgeDocument = async (supabase: SupabaseClient, document: TrashedDocument) => {
+  const { data: claimed, error: claimError } = await supabase.rpc('claim_document_purge', {
+    p_document_id: document.id,
+  })
+
+  if (claimError) throw claimError
+  if (!claimed) return false
+
+  const { data: versions, error: versionsError } = await supabase
+    .from('document_versions')
+    .select('file_path')
+    .eq('document_id', document.id)
+
+  if (versionsError) throw versionsError
+
+  const paths = [...new Set([document.file_path, ...versions.map((version) => version.file_path)])]
+  const { error: storageError } = await supabase.storage
+    .from('documents')
+    .remove(paths)
+
+  if (storageError) throw storageError
+
+  // Previews are only a cache; a leftover one is harmless
+  const { data: previews } = await supabase.storage
+    .from('document-previews')
+    .list(document.id)
+
+  if (previews?.length) {
+    const { error: previewError } = await supabase.storage
+      .from('document-previews')
+      .remove(previews.map((preview) => `${document.id}/${preview.name}`))
+
+    if (previewError) console.error(`Error removing previews of document ${document.id}:`, previewError)
+  }
+
+  // The guard_legal_hold trigger refuses held documents
+  const { error } = await supabase
+    .from('documents')
+    .delete()
+    .eq('id', document.id)
+
+  if (error) throw error
+  return true
+}
+
+const sweepExpiredDocuments = async (supabase: SupabaseClient) => {
+  const { data, error } = await supabase.rpc('documents_pending_purge', { p_limit: SWEEP_BATCH_SIZE })
+  if (error) throw error
+
+  let purged = 0
+  let failed = 0
+  for (const document of data as TrashedDocument[]) {
+    try {
+      if (await purgeDocument(supabase, document)) purged++
+    } catch (error) {
+      console.error(`Error purging document ${document.id}:`, error)
+      failed++
+    }
+  }
+
+  return { purged, failed }
+}
+
+// Permanently deletes trashed documents. The daily cron job purges those
+// whose restore window has passed; a user who manages a document can also
+// empty it from the trash early with { document_id }.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    const supabase = createServiceClient()
+
+    if (isServiceRoleRequest(req)) {
+      const result = await sweepExpiredDocuments(supabase)
+      console.log(`Purged ${result.purged} document(s), ${result.failed} failed`)
+      return jsonResponse(result, 200)
+    }
+
+    const { caller, response } = await authorize(req, supabase)
+    if (response) return response
+
+    const { document_id: documentId } = await req.json().catch(() => ({}))
+    if (typeof documentId !== 'string') {
+      return jsonResponse({ error: 'document_id is required' }, 400)
+    }
+
+    const { data: canManage, error: accessError } = await supabase.rpc('can_access_document', {
+      p_document_id: documentId,
+      p_user_id: caller.id,
+      p_access: 'manage',
+    })
+    if (accessError) throw accessError
+
+    const { data: document, error: documentError } = canManage
+      ? await supabase
+          .from('documents')
+          .select('id, file_path, deleted_at, legal_hold')
+          .eq('id', documentId)
+          .maybeSingle()
+      : { data: null, error: null }
+
+    if (documentError) throw documentError
+    if (!document) {
+      return jsonResponse({ error: 'Document not found' }, 404)
+    }
+
+    if (!document.deleted_at) {
+      return jsonResponse({ error: 'Only documents in the trash can be deleted permanently' }, 409)
+    }
+
+    if (document.legal_hold) {
+      return jsonResponse({ error: 'This document is under legal hold and cannot be deleted' }, 409)
+    }
+
+    if (!(await purgeDocument(supabase, document))) {
+      return jsonResponse({ error: 'This document is under legal hold or no longer in the trash' }, 409)
+    }
+    console.log(`Document ${document.id} purged by ${caller.id}`)
+
+    return jsonResponse({ purged: document.id }, 200)
+  } catch (error) {
+    console.error('Unexpected error:', error)
+    return jsonResponse({ error: 'Failed to delete document' }, 500)
+  }
+})
@@ -0,0 +1,127 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1'
+import { corsHeaders } from '../_shared/cors.ts'
+import { createServiceClient, isServiceRoleRequest } from '../_shared/auth.ts'
+import {
+  Clock,
+  DeadlineTask,
+  fixedClock,
+  LeadTimes,
+  OVERDUE_REMINDER_DAYS,
+  parseLeadTimes,
+  planDeadlineNotifications,
+  systemClock,
+} from './scheduler.ts'
+
+const LEAD_TIMES = parseLeadTimes(Deno.env.get('DEADLINE_LEAD_TIMES_HOURS'))
+
+// PostgREST caps responses at 1000 rows, so tasks are read in pages
+const PAGE_SIZE = 1000
+
+// Open tasks due before the horizon and not overdue for longer than
+// overdue reminders are sent
+const loadOpenTasks = async (supabase: SupabaseClient, now: Date, horizon: Date) => {
+  const { data: doneStates, error: statesError } = await supabase
+    .from('workflow_states')
+    .select('workflow_id, key')
+    .eq('category', 'done')
+
+  if (statesError) throw statesError
+  const done = new Set(doneStates.map((state) => `${state.workflow_id}:${state.key}`))
+
+  const earliest = new Date(now.getTime() - OVERDUE_REMINDER_DAYS * 24 * 60 * 60 * 1000)
+  const tasks: (DeadlineTask & { status: string; workflow_id: string | null })[] = []
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('tasks')
+      .select('id, title, deadline, priority, status, workflow_id, assigned_to, created_by')
+      .gte('deadline', earliest.toISOString())
+      .lte('deadline', horizon.toISOString())
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1)
+
+    if (error) throw error
+    tasks.push(...data)
+    if (data.length < PAGE_SIZE) break
+  }
+
+  return tasks.filter((task) => !done.has(`${task.workflow_id}:${task.status}`))
+}
+
+export const runDeadlineScan = async (
+  supabase: SupabaseClient,
+  clock: Clock,
+  leadTimes: LeadTimes,
+  dryRun = false
+) => {
+  const maxLeadHours = Math.max(...Object.values(leadTimes))
+  const horizon = new Date(clock.now().getTime() + maxLeadHours * 60 * 60 * 1000)
+
+  const tasks = await loadOpenTasks(supabase, clock.now(), horizon)
+  const planned = planDeadlineNotifications(tasks, clock, leadTimes)
+  if (planned.length === 0 || dryRun) return { planned: planned.length, inserted: 0 }
+
+  // One profile lookup for all recipients instead of one per task. Task emails
+  // are typed by hand, so they are matched ignoring case.
+  const emails = [...new Set(planned.map((notification) => notification.recipient_email.toLowerCase()))]
+  const { data: profiles, error: profilesError } = await supabase
+    .rpc('profile_ids_by_email', { p_emails: emails })
+
+  if (profilesError) throw profilesError
+  const profileIds = new Map((profiles as { id: string; email: string }[])
+    .map((profile) => [profile.email.toLowerCase(), profile.id]))
+
+  const rows = planned
+    .filter((notification) => profileIds.has(notification.recipient_email.toLowerCase()))
+    .map(({ recipient_email, ...notification }) => ({
+      ...notification,
+      user_id: profileIds.get(recipient_email.toLowerCase()),
+    }))
+
+  // Rows whose dedupe key was already used today are skipped by the unique index
+  const { data: inserted, error: insertError } = await supabase
+    .from('notifications')
+    .upsert(rows, { onConflict: 'user_id,dedupe_key', ignoreDuplicates: true })
+    .select('id')
+
+  if (insertError) throw insertError
+  return { planned: planned.length, inserted: inserted?.length ?? 0 }
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    if (!isServiceRoleRequest(req)) {
+      return new Response(
+        JSON.stringify({ error: 'This function can only be run by the scheduler' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 403 }
+      )
+    }
+
+    // `now` lets operators replay a scan for a given moment; `dry_run` only
+    // reports what would be sent
+    const { now, dry_run: dryRun = false } = await req.json().catch(() => ({}))
+    const clock = typeof now === 'string' && !Number.isNaN(Date.parse(now))
+      ? fixedClock(new Date(now))
+      : systemClock
+
+    const result = await runDeadlineScan(createServiceClient(), clock, LEAD_TIMES, dryRun)
+    console.log(`Deadline scan at ${clock.now().toISOString()}: ${result.planned} planned, ${result.inserted} sent`)
+
+    return new Response(
+      JSON.stringify(result),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 200 }
+    )
+  } catch (error) {
+    console.error('Unexpected error:', error)
+    return new Response(
+      JSON.stringify({ error: 'An unexpected error occurred' }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
+    )
+  }
+})
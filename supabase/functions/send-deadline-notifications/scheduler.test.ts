@@ -0,0 +1,98 @@
+import { describe, expect, it, vi } from 'vitest'
+import {
+  DEFAULT_LEAD_TIMES,
+  DeadlineTask,
+  fixedClock,
+  OVERDUE_REMINDER_DAYS,
+  parseLeadTimes,
+  planDeadlineNotifications,
+} from './scheduler.ts'
+
+const clock = fixedClock(new Date('2026-10-18T12:00:00Z'))
+
+const task = (overrides: Partial<DeadlineTask>): DeadlineTask => ({
+  id: 'task-1',
+  title: 'Quarterly report',
+  deadline: '2026-10-19T12:00:00Z',
+  priority: 'medium',
+  assigned_to: 'assignee@example.com',
+  created_by: 'creator@example.com',
+  ...overrides,
+})
+
+describe('planDeadlineNotifications', () => {
+  it('reminds the assignee once the deadline is within the lead time', () => {
+    expect(planDeadlineNotifications([task({})], clock)).toEqual([
+      {
+        task_id: 'task-1',
+        recipient_email: 'assignee@example.com',
+        type: 'deadline',
+        title: 'Task Deadline Approaching',
+        message: 'Task "Quarterly report" is due in 24 hours',
+        dedupe_key: 'deadline:task-1:2026-10-18',
+      },
+    ])
+  })
+
+  it('uses the lead time of the task priority', () => {
+    const deadline = '2026-10-21T08:00:00Z' // 68 hours away
+
+    expect(planDeadlineNotifications([task({ deadline, priority: 'low' })], clock)).toEqual([])
+    expect(planDeadlineNotifications([task({ deadline, priority: 'high' })], clock)[0].message)
+      .toBe('Task "Quarterly report" is due in 3 days')
+  })
+
+  it('falls back to the medium lead time for unknown priorities', () => {
+    const deadline = '2026-10-20T08:00:00Z' // 44 hours away
+
+    expect(planDeadlineNotifications([task({ deadline, priority: 'urgent' })], clock)).toHaveLength(1)
+  })
+
+  it('notifies assignee and creator about overdue tasks', () => {
+    const planned = planDeadlineNotifications([task({ deadline: '2026-10-18T10:00:00Z' })], clock)
+
+    expect(planned.map((notification) => notification.recipient_email)).toEqual([
+      'assignee@example.com',
+      'creator@example.com',
+    ])
+    expect(planned[0]).toMatchObject({
+      type: 'overdue',
+      message: 'Task "Quarterly report" is overdue by 2 hours',
+      dedupe_key: 'overdue:task-1:2026-10-18',
+    })
+  })
+
+  it('notifies once when the assignee created the task', () => {
+    const planned = planDeadlineNotifications(
+      [task({ deadline: '2026-10-18T10:00:00Z', created_by: 'assignee@example.com' })],
+      clock
+    )
+
+    expect(planned).toHaveLength(1)
+  })
+
+  it('stops overdue notices once the reminder window has passed', () => {
+    const lastDay = new Date(Date.parse('2026-10-18T12:00:00Z') - OVERDUE_REMINDER_DAYS * 24 * 60 * 60 * 1000)
+    const dayBefore = new Date(lastDay.getTime() - 60 * 60 * 1000)
+
+    expect(planDeadlineNotifications([task({ deadline: lastDay.toISOString() })], clock)).toHaveLength(2)
+    expect(planDeadlineNotifications([task({ deadline: dayBefore.toISOString() })], clock)).toEqual([])
+  })
+
+  it('skips tasks with an invalid deadline', () => {
+    expect(planDeadlineNotifications([task({ deadline: 'not a date' })], clock)).toEqual([])
+  })
+})
+
+describe('parseLeadTimes', () => {
+  it('keeps valid entries and defaults the rest', () => {
+    expect(parseLeadTimes('{"high":12,"low":-1}')).toEqual({ ...DEFAULT_LEAD_TIMES, high: 12 })
+  })
+
+  it('falls back to the defaults for missing or invalid JSON', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+
+    expect(parseLeadTimes(undefined)).toEqual(DEFAULT_LEAD_TIMES)
+    expect(parseLeadTimes('{high: 12}')).toEqual(DEFAULT_LEAD_TIMES)
+  })
+})
@@ -0,0 +1,125 @@
+// Pure planning logic for deadline and overdue notifications, kept free of
+// I/O so it can be exercised with a fixed clock.
+
+export type Priority = 'high' | 'medium' | 'low'
+
+export interface Clock {
+  now(): Date
+}
+
+export const systemClock: Clock = { now: () => new Date() }
+
+export const fixedClock = (date: Date): Clock => ({ now: () => new Date(date) })
+
+export interface DeadlineTask {
+  id: string
+  title: string
+  deadline: string
+  priority: string
+  assigned_to: string
+  created_by: string
+}
+
+export interface PlannedNotification {
+  task_id: string
+  recipient_email: string
+  type: 'deadline' | 'overdue'
+  title: string
+  message: string
+  // One notification per recipient, task, type and UTC day
+  dedupe_key: string
+}
+
+// How long before the deadline the assignee starts getting reminders
+export type LeadTimes = Record<Priority, number>
+
+export const DEFAULT_LEAD_TIMES: LeadTimes = { high: 72, medium: 48, low: 24 }
+
+// Overdue notices repeat daily for this long after the deadline, then stop
+export const OVERDUE_REMINDER_DAYS = 7
+
+const HOUR_MS = 60 * 60 * 1000
+const DAY_MS = 24 * HOUR_MS
+
+// Reads lead times (in hours) from JSON such as {"high":72,"medium":48,"low":24};
+// missing or invalid entries fall back to the defaults
+export const parseLeadTimes = (value: string | undefined): LeadTimes => {
+  if (!value) return DEFAULT_LEAD_TIMES
+
+  let parsed: Record<string, unknown>
+  try {
+    parsed = JSON.parse(value)
+  } catch {
+    console.error('Ignoring invalid DEADLINE_LEAD_TIMES_HOURS:', value)
+    return DEFAULT_LEAD_TIMES
+  }
+
+  const leadTimes = { ...DEFAULT_LEAD_TIMES }
+  for (const priority of Object.keys(leadTimes) as Priority[]) {
+    const hours = Number(parsed[priority])
+    if (Number.isFinite(hours) && hours > 0) leadTimes[priority] = hours
+  }
+  return leadTimes
+}
+
+const utcDay = (date: Date) => date.toISOString().slice(0, 10)
+
+const formatDuration = (ms: number) => {
+  const hours = Math.round(ms / HOUR_MS)
+  if (hours < 1) return 'less than an hour'
+  if (hours < 48) return `${hours} hour${hours === 1 ? '' : 's'}`
+  const days = Math.round(hours / 24)
+  return `${days} days`
+}
+
+// Decides which notifications are due for the given open tasks at clock.now().
+// Deduplication against notifications already sent happens at insert time
+// through the dedupe key.
+export const planDeadlineNotifications = (
+  tasks: DeadlineTask[],
+  clock: Clock,
+  leadTimes: LeadTimes = DEFAULT_LEAD_TIMES
+): PlannedNotification[] => {
+  const now = clock.now()
+  const day = utcDay(now)
+  const planned: PlannedNotification[] = []
+
+  for (const task of tasks) {
+    const deadline = new Date(task.deadline)
+    if (Number.isNaN(deadline.getTime())) continue
+
+    const remaining = deadline.getTime() - now.getTime()
+
+    if (remaining < 0) {
+      if (-remaining > OVERDUE_REMINDER_DAYS * DAY_MS) continue
+
+      const message = `Task "${task.title}" is overdue by ${formatDuration(-remaining)}`
+      // Overdue tasks concern both the assignee and whoever created them
+      for (const recipient of new Set([task.assigned_to, task.created_by])) {
+        planned.push({
+          task_id: task.id,
+          recipient_email: recipient,
+          type: 'overdue',
+          title: 'Task Overdue',
+          message,
+          dedupe_key: `overdue:${task.id}:${day}`,
+        })
+      }
+      continue
+    }
+
+    const leadHours = leadTimes[task.priority as Priority] ?? leadTimes.medium
+    if (remaining <= leadHours * HOUR_MS) {
+      planned.push({
+        task_id: task.id,
+        recipient_email: task.assigned_to,
+        type: 'deadline',
+        title: 'Task Deadline Approaching',
+        message: `Task "${task.title}" is due in ${formatDuration(remaining)}`,
+        dedupe_key: `deadline:${task.id}:${day}`,
+      })
+    }
+  }
+
+  return planned
+}
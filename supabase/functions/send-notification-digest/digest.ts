@@ -0,0 +1,106 @@
+import { escapeHtml } from '../_shared/html.ts'
+
+export type DigestFrequency = 'hourly' | 'daily' | 'off'
+
+export interface DigestNotification {
+  id: string
+  title: string
+  message: string
+  type: string
+  link: string | null
+  created_at: string
+}
+
+export interface DigestRecipient {
+  full_name: string
+  email: string
+}
+
+export interface DigestEmail {
+  subject: string
+  html: string
+  text: string
+}
+
+const PERIOD_MS: Record<Exclude<DigestFrequency, 'off'>, number> = {
+  hourly: 60 * 60 * 1000,
+  daily: 24 * 60 * 60 * 1000,
+}
+
+// The job runs hourly but not at exactly the same second, so a digest is due
+// slightly before a full period has passed
+const SCHEDULE_SLACK_MS = 5 * 60 * 1000
+
+export const isDigestDue = (frequency: DigestFrequency, lastDigestAt: string | null, now: Date) => {
+  if (frequency === 'off') return false
+  if (!lastDigestAt) return true
+  return now.getTime() - new Date(lastDigestAt).getTime() >= PERIOD_MS[frequency] - SCHEDULE_SLACK_MS
+}
+
+const TYPE_LABELS: Record<string, string> = {
+  assignment: 'Assignments',
+  mention: 'Mentions',
+  status: 'Status changes',
+  completed: 'Completions',
+  deadline: 'Upcoming deadlines',
+  overdue: 'Overdue tasks',
+}
+
+const groupByType = (notifications: DigestNotification[]) => {
+  const groups = new Map<string, DigestNotification[]>()
+  for (const notification of notifications) {
+    const group = groups.get(notification.type) ?? []
+    group.push(notification)
+    groups.set(notification.type, group)
+  }
+  return [...groups.entries()].map(([type, items]) => ({
+    label: TYPE_LABELS[type] ?? 'Other',
+    items,
+  }))
+}
+
+export const renderDigestEmail = (
+  recipient: DigestRecipient,
+  notifications: DigestNotification[],
+  appUrl: string,
+  frequency: Exclude<DigestFrequency, 'off'>
+): DigestEmail => {
+  const count = notifications.length
+  const linkFor = (notification: DigestNotification) => `${appUrl}${notification.link ?? '/notifications'}`
+  const groups = groupByType(notifications)
+  const name = recipient.full_name || recipient.email
+
+  const text = [
+    `Hi ${name},`,
+    '',
+    `You have ${count} unread ${count === 1 ? 'notification' : 'notifications'}:`,
+    ...groups.flatMap(({ label, items }) => [
+      '',
+      label,
+      ...items.map((notification) => `- ${notification.title}: ${notification.message}\n  ${linkFor(notification)}`),
+    ]),
+    '',
+    `Manage your notification preferences at ${appUrl}/notifications`,
+  ].join('\n')
+
+  const html = `
+    <p>Hi ${escapeHtml(name)},</p>
+    <p>You have ${count} unread ${count === 1 ? 'notification' : 'notifications'}:</p>
+    ${groups.map(({ label, items }) => `
+    <h3>${escapeHtml(label)}</h3>
+    <ul>
+      ${items.map((notification) => `
+      <li>
+        <a href="${escapeHtml(linkFor(notification))}"><strong>${escapeHtml(notification.title)}</strong></a>
+        <br />${escapeHtml(notification.message)}
+      </li>`).join('')}
+    </ul>`).join('')}
+    <p><a href="${escapeHtml(`${appUrl}/notifications`)}">Manage your notification preferences</a></p>
+  `
+
+  return {
+    subject: `Your ${frequency} HR Management digest: ${count} unread ${count === 1 ? 'notification' : 'notifications'}`,
+    html,
+    text,
+  }
+}
@@ -0,0 +1,167 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1'
+import { corsHeaders } from '../_shared/cors.ts'
+import { createServiceClient, isServiceRoleRequest } from '../_shared/auth.ts'
+import { createMailer, Mailer } from '../_shared/mailer.ts'
+import {
+  DigestFrequency,
+  DigestNotification,
+  DigestRecipient,
+  isDigestDue,
+  renderDigestEmail,
+} from './digest.ts'
+
+interface PendingNotification extends DigestNotification {
+  user_id: string
+}
+
+interface DigestSettings {
+  user_id: string
+  digest_frequency: DigestFrequency
+  last_digest_at: string | null
+}
+
+// PostgREST caps responses at 1000 rows, so notifications are read in pages
+const PAGE_SIZE = 1000
+
+// Unread notifications routed to the digest channel that have not been
+// emailed yet. In-app notifications never leave the app.
+const loadPending = async (supabase: SupabaseClient, now: Date) => {
+  const byUser = new Map<string, PendingNotification[]>()
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('notifications')
+      .select('id, user_id, title, message, type, link, created_at')
+      .eq('status', 'unread')
+      .eq('delivery', 'email_digest')
+      .is('emailed_at', null)
+      .lte('deliver_after', now.toISOString())
+      .order('created_at', { ascending: true })
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1)
+
+    if (error) throw error
+
+    for (const notification of data as PendingNotification[]) {
+      const pending = byUser.get(notification.user_id) ?? []
+      pending.push(notification)
+      byUser.set(notification.user_id, pending)
+    }
+    if (data.length < PAGE_SIZE) break
+  }
+
+  return byUser
+}
+
+export const runDigest = async (
+  supabase: SupabaseClient,
+  mailer: Mailer,
+  now: Date,
+  appUrl: string,
+  dryRun = false
+) => {
+  const pendingByUser = await loadPending(supabase, now)
+  const userIds = [...pendingByUser.keys()]
+  if (userIds.length === 0) return { due: 0, sent: 0, failed: 0 }
+
+  const [{ data: profiles, error: profilesError }, { data: settings, error: settingsError }] = await Promise.all([
+    supabase.from('profiles').select('id, full_name, email').in('id', userIds),
+    supabase.from('notification_settings').select('user_id, digest_frequency, last_digest_at').in('user_id', userIds),
+  ])
+
+  if (profilesError) throw profilesError
+  if (settingsError) throw settingsError
+
+  const recipients = new Map((profiles as (DigestRecipient & { id: string })[]).map((profile) => [profile.id, profile]))
+  const settingsByUser = new Map((settings as DigestSettings[]).map((row) => [row.user_id, row]))
+
+  let due = 0
+  let sent = 0
+  let failed = 0
+
+  for (const [userId, notifications] of pendingByUser) {
+    const recipient = recipients.get(userId)
+    const frequency = settingsByUser.get(userId)?.digest_frequency ?? 'off'
+    const lastDigestAt = settingsByUser.get(userId)?.last_digest_at ?? null
+    if (!recipient?.email || frequency === 'off' || !isDigestDue(frequency, lastDigestAt, now)) continue
+
+    due++
+    if (dryRun) continue
+
+    try {
+      await mailer.send({
+        to: recipient.email,
+        ...renderDigestEmail(recipient, notifications, appUrl, frequency),
+      })
+    } catch (error) {
+      // Leave emailed_at unset so the next run retries this user
+      console.error(`Error sending digest to ${userId}:`, error)
+      failed++
+      continue
+    }
+
+    const { error: markError } = await supabase
+      .from('notifications')
+      .update({ emailed_at: now.toISOString() })
+      .in('id', notifications.map((notification) => notification.id))
+      .is('emailed_at', null)
+
+    // The mail has already gone out, so a failed write only affects this user
+    // and must not stop the digests still to be sent to everyone else
+    if (markError) {
+      console.error(`Error marking digest notifications for ${userId}:`, markError)
+      failed++
+      continue
+    }
+
+    const { error: settingsUpdateError } = await supabase
+      .from('notification_settings')
+      .upsert({ user_id: userId, last_digest_at: now.toISOString() }, { onConflict: 'user_id' })
+
+    if (settingsUpdateError) {
+      console.error(`Error recording digest time for ${userId}:`, settingsUpdateError)
+      failed++
+      continue
+    }
+    sent++
+  }
+
+  return { due, sent, failed }
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    if (!isServiceRoleRequest(req)) {
+      return new Response(
+        JSON.stringify({ error: 'This function can only be run by the scheduler' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 403 }
+      )
+    }
+
+    // `now` lets operators replay a run for a given moment; `dry_run` only
+    // reports which users are due a digest
+    const { now: rawNow, dry_run: dryRun = false } = await req.json().catch(() => ({}))
+    const now = typeof rawNow === 'string' && !Number.isNaN(Date.parse(rawNow)) ? new Date(rawNow) : new Date()
+    const appUrl = Deno.env.get('APP_URL') ?? ''
+
+    const result = await runDigest(createServiceClient(), createMailer(), now, appUrl, dryRun)
+    console.log(`Notification digest at ${now.toISOString()}: ${result.due} due, ${result.sent} sent, ${result.failed} failed`)
+
+    return new Response(
+      JSON.stringify(result),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 200 }
+    )
+  } catch (error) {
+    console.error('Unexpected error:', error)
+    return new Response(
+      JSON.stringify({ error: 'An unexpected error occurred' }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
+    )
+  }
+})
@@ -0,0 +1,61 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { corsHeaders } from '../_shared/cors.ts'
+import { authorize, createServiceClient } from '../_shared/auth.ts'
+import { isRole } from '../_shared/permissions.ts'
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    const supabase = createServiceClient()
+
+    const { caller, response } = await authorize(req, supabase, 'employees.manage_roles')
+    if (response) return response
+
+    const { userId, role } = await req.json()
+
+    if (!userId || !isRole(role)) {
+      return new Response(
+        JSON.stringify({ error: 'A valid userId and role are required' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+      )
+    }
+
+    // Prevent an admin from locking everyone out by demoting themselves
+    if (userId === caller.id && role !== 'admin') {
+      return new Response(
+        JSON.stringify({ error: 'You cannot change your own role' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+      )
+    }
+
+    const { error: updateError } = await supabase
+      .from('profiles')
+      .update({ role })
+      .eq('id', userId)
+
+    if (updateError) {
+      console.error('Error updating role:', updateError)
+      return new Response(
+        JSON.stringify({ error: 'Failed to update role' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
+      )
+    }
+
+    console.log(`Role of ${userId} set to ${role} by ${caller.id}`)
+
+    return new Response(
+      JSON.stringify({ message: 'Role updated successfully' }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 200 }
+    )
+  } catch (error) {
+    console.error('Unexpected error:', error)
+    return new Response(
+      JSON.stringify({ error: 'An unexpected error occurred' }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
+    )
+  }
+})
@@ -1,4 +1,5 @@
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { authorize, createServiceClient } from '../_shared/auth.ts'
+import { evaluateIpRules, IpRule } from '../_shared/ip.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -21,60 +22,45 @@ Deno.serve(async (req) => {
                     realIp || 
                     '0.0.0.0'
     
-    console.log('Request headers:', Object.fromEntries(req.headers.entries()))
-    console.log('Validating IP:', clientIP)
+    const supabaseClient = createServiceClient()
 
-    // Create Supabase client
-    const supabaseUrl = Deno.env.get('SUPABASE_URL')
-    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
-
-    if (!supabaseUrl || !supabaseKey) {
-      console.error('Missing Supabase configuration')
-      throw new Error('Server configuration error')
-    }
-
-    const supabaseClient = createClient(supabaseUrl, supabaseKey)
-
-    // Query allowed_ips table using maybeSingle() instead of single()
-    const { data: allowedIP, error: queryError } = await supabaseClient
+    // Rules may be CIDR blocks, so matching happens here rather than in an equality query
+    const { data: rules, error: queryError } = await supabaseClient
       .from('allowed_ips')
-      .select('ip_address')
-      .eq('ip_address', clientIP)
-      .maybeSingle()
+      .select('id, ip_address, rule_type, expires_at')
+      .or(`expires_at.is.null,expires_at.gt.${new Date().toISOString()}`)
 
     if (queryError) {
       console.error('Database query error:', queryError)
       throw queryError
     }
 
-    const isAllowed = !!allowedIP
+    const { allowed: isAllowed, rule } = evaluateIpRules((rules ?? []) as IpRule[], clientIP)
     console.log(`IP check result for ${clientIP}: ${isAllowed ? 'allowed' : 'denied'}`)
-    console.log('Allowed IP data:', allowedIP)
+
+    // Anyone may ask, so the rules themselves stay private; only those who
+    // manage them learn which one decided. A denial is still a successful
+    // check, so it comes back as 200 with allowed: false.
+    const { caller } = await authorize(req, supabaseClient, 'ip.manage')
 
     return new Response(
       JSON.stringify({
         allowed: isAllowed,
-        message: isAllowed ? 'Access granted' : 'IP address not allowed',
-        ip: clientIP // Include the detected IP in the response for debugging
+        ...(caller && { rule_id: rule?.id ?? null }),
       }),
       { 
         headers: { 
           ...corsHeaders,
           'Content-Type': 'application/json'
         },
-        status: isAllowed ? 200 : 403
+        status: 200
       }
     )
 
   } catch (error) {
     console.error('Error in validate-ip function:', error)
     return new Response(
-      JSON.stringify({
-        allowed: false,
-        message: 'Internal server error',
-        details: error.message,
-        ip: req.headers.get('x-forwarded-for') || req.headers.get('x-real-ip') || '0.0.0.0'
-      }),
+      JSON.stringify({ allowed: false }),
       { 
         headers: { 
           ...corsHeaders,
@@ -0,0 +1,99 @@
+-- Role-based access control on top of profiles.role
+-- Roles: admin, manager, employee, viewer
+
+update public.profiles set role = 'employee' where role is null or role not in ('admin', 'manager', 'employee', 'viewer');
+
+alter table public.profiles alter column role set default 'employee';
+alter table public.profiles alter column role set not null;
+alter table public.profiles
+  add constraint profiles_role_check check (role in ('admin', 'manager', 'employee', 'viewer'));
+
+-- Returns the role of the currently authenticated user
+create or replace function public.current_user_role()
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select role from public.profiles where id = auth.uid()
+$$;
+
+-- True when the current user holds any of the given roles
+create or replace function public.has_role(roles text[])
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(public.current_user_role() = any(roles), false)
+$$;
+
+-- Only admins may change a role, including their own
+create or replace function public.prevent_role_escalation()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.role is distinct from old.role
+     and auth.uid() is not null
+     and not public.has_role(array['admin']) then
+    raise exception 'Only admins can change user roles';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists profiles_prevent_role_escalation on public.profiles;
+create trigger profiles_prevent_role_escalation
+  before update on public.profiles
+  for each row execute function public.prevent_role_escalation();
+
+-- IP allowlist is managed by admins only
+alter table public.allowed_ips enable row level security;
+
+drop policy if exists "Authenticated users can view allowed IPs" on public.allowed_ips;
+create policy "Authenticated users can view allowed IPs"
+  on public.allowed_ips for select
+  to authenticated
+  using (true);
+
+drop policy if exists "Admins can manage allowed IPs" on public.allowed_ips;
+create policy "Admins can manage allowed IPs"
+  on public.allowed_ips for all
+  to authenticated
+  using (public.has_role(array['admin']))
+  with check (public.has_role(array['admin']));
+
+-- Documents: viewers are read-only, deletes are limited to the owner or managers
+alter table public.documents enable row level security;
+
+drop policy if exists "Authenticated users can view documents" on public.documents;
+create policy "Authenticated users can view documents"
+  on public.documents for select
+  to authenticated
+  using (true);
+
+drop policy if exists "Contributors can upload documents" on public.documents;
+create policy "Contributors can upload documents"
+  on public.documents for insert
+  to authenticated
+  with check (
+    created_by = auth.uid()
+    and public.has_role(array['admin', 'manager', 'employee'])
+  );
+
+drop policy if exists "Owners and managers can update documents" on public.documents;
+create policy "Owners and managers can update documents"
+  on public.documents for update
+  to authenticated
+  using (created_by = auth.uid() or public.has_role(array['admin', 'manager']));
+
+drop policy if exists "Owners and managers can delete documents" on public.documents;
+create policy "Owners and managers can delete documents"
+  on public.documents for delete
+  to authenticated
+  using (created_by = auth.uid() or public.has_role(array['admin', 'manager']));
@@ -0,0 +1,31 @@
+-- Single-use, expiring, role-scoped invitations replacing the shared signup code
+create table if not exists public.invitations (
+  id uuid primary key default gen_random_uuid(),
+  email text not null,
+  role text not null default 'employee' check (role in ('admin', 'manager', 'employee', 'viewer')),
+  token_hash text not null unique,
+  invited_by uuid references public.profiles(id) on delete set null,
+  expires_at timestamptz not null,
+  accepted_at timestamptz,
+  accepted_by uuid references auth.users(id) on delete set null,
+  revoked_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists invitations_email_idx on public.invitations (lower(email));
+
+alter table public.invitations enable row level security;
+
+-- Tokens are only ever handled by edge functions; staff can see and revoke invites
+drop policy if exists "Managers can view invitations" on public.invitations;
+create policy "Managers can view invitations"
+  on public.invitations for select
+  to authenticated
+  using (public.has_role(array['admin', 'manager']));
+
+drop policy if exists "Managers can revoke invitations" on public.invitations;
+create policy "Managers can revoke invitations"
+  on public.invitations for update
+  to authenticated
+  using (public.has_role(array['admin', 'manager']))
+  with check (public.has_role(array['admin', 'manager']));
@@ -0,0 +1,11 @@
+-- allowed_ips entries may now be IPv4/IPv6 addresses or CIDR blocks,
+-- carry an optional expiry, and act as either allow or deny rules.
+alter table public.allowed_ips
+  add column if not exists rule_type text not null default 'allow' check (rule_type in ('allow', 'deny')),
+  add column if not exists expires_at timestamptz;
+
+-- Reject malformed entries at the database level as well as in the UI
+alter table public.allowed_ips
+  add constraint allowed_ips_ip_address_valid check (ip_address::inet is not null);
+
+create index if not exists allowed_ips_active_idx on public.allowed_ips (rule_type, expires_at);
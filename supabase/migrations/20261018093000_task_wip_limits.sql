@@ -0,0 +1,26 @@
+-- Work-in-progress limits for the task board, one row per status column
+create table if not exists public.task_wip_limits (
+  status text primary key,
+  wip_limit integer check (wip_limit is null or wip_limit > 0),
+  updated_by uuid references public.profiles(id) on delete set null,
+  updated_at timestamptz not null default now()
+);
+
+insert into public.task_wip_limits (status, wip_limit)
+values ('pending', null), ('in-progress', 5), ('completed', null)
+on conflict (status) do nothing;
+
+alter table public.task_wip_limits enable row level security;
+
+drop policy if exists "Authenticated users can view WIP limits" on public.task_wip_limits;
+create policy "Authenticated users can view WIP limits"
+  on public.task_wip_limits for select
+  to authenticated
+  using (true);
+
+drop policy if exists "Managers can change WIP limits" on public.task_wip_limits;
+create policy "Managers can change WIP limits"
+  on public.task_wip_limits for all
+  to authenticated
+  using (public.has_role(array['admin', 'manager']))
+  with check (public.has_role(array['admin', 'manager']));
@@ -0,0 +1,31 @@
+-- Task editing and deletion: creators and managers may change any field,
+-- assignees keep the ability to move their tasks through statuses
+alter table public.tasks enable row level security;
+
+drop policy if exists "Authenticated users can view tasks" on public.tasks;
+create policy "Authenticated users can view tasks"
+  on public.tasks for select
+  to authenticated
+  using (true);
+
+drop policy if exists "Authenticated users can create tasks" on public.tasks;
+create policy "Authenticated users can create tasks"
+  on public.tasks for insert
+  to authenticated
+  with check (user_id = auth.uid());
+
+drop policy if exists "Creators, assignees and managers can update tasks" on public.tasks;
+create policy "Creators, assignees and managers can update tasks"
+  on public.tasks for update
+  to authenticated
+  using (
+    user_id = auth.uid()
+    or assigned_to = (auth.jwt() ->> 'email')
+    or public.has_role(array['admin', 'manager'])
+  );
+
+drop policy if exists "Creators and managers can delete tasks" on public.tasks;
+create policy "Creators and managers can delete tasks"
+  on public.tasks for delete
+  to authenticated
+  using (user_id = auth.uid() or public.has_role(array['admin', 'manager']));
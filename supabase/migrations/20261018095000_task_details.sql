@@ -0,0 +1,53 @@
+-- Rich task details: markdown description, effort estimates and a checklist
+alter table public.tasks
+  add column if not exists description text,
+  add column if not exists estimate_hours numeric(6, 2) check (estimate_hours is null or estimate_hours >= 0),
+  add column if not exists actual_hours numeric(6, 2) check (actual_hours is null or actual_hours >= 0);
+
+create table if not exists public.task_subtasks (
+  id uuid primary key default gen_random_uuid(),
+  task_id uuid not null references public.tasks(id) on delete cascade,
+  title text not null check (length(trim(title)) > 0),
+  is_completed boolean not null default false,
+  position integer not null default 0,
+  created_at timestamptz not null default now(),
+  completed_at timestamptz
+);
+
+create index if not exists task_subtasks_task_id_idx on public.task_subtasks (task_id, position);
+
+alter table public.task_subtasks enable row level security;
+
+drop policy if exists "Authenticated users can view subtasks" on public.task_subtasks;
+create policy "Authenticated users can view subtasks"
+  on public.task_subtasks for select
+  to authenticated
+  using (true);
+
+-- Anyone allowed to update the parent task may manage its checklist
+drop policy if exists "Task editors can manage subtasks" on public.task_subtasks;
+create policy "Task editors can manage subtasks"
+  on public.task_subtasks for all
+  to authenticated
+  using (
+    exists (
+      select 1 from public.tasks t
+      where t.id = task_id
+        and (
+          t.user_id = auth.uid()
+          or t.assigned_to = (auth.jwt() ->> 'email')
+          or public.has_role(array['admin', 'manager'])
+        )
+    )
+  )
+  with check (
+    exists (
+      select 1 from public.tasks t
+      where t.id = task_id
+        and (
+          t.user_id = auth.uid()
+          or t.assigned_to = (auth.jwt() ->> 'email')
+          or public.has_role(array['admin', 'manager'])
+        )
+    )
+  );
@@ -0,0 +1,209 @@
+-- Configurable task workflows. Each team points at a workflow; a task records
+-- the workflow it was created under so later changes to a team's workflow do
+-- not strand tasks in states that no longer exist.
+create table if not exists public.task_workflows (
+  id uuid primary key default gen_random_uuid(),
+  name text not null unique,
+  is_default boolean not null default false,
+  created_at timestamptz not null default now()
+);
+
+create unique index if not exists task_workflows_single_default
+  on public.task_workflows (is_default) where is_default;
+
+-- category groups states for reporting: todo (not started), active, done (closed)
+create table if not exists public.workflow_states (
+  workflow_id uuid not null references public.task_workflows(id) on delete cascade,
+  key text not null check (key ~ '^[a-z][a-z0-9-]*$'),
+  label text not null,
+  category text not null check (category in ('todo', 'active', 'done')),
+  color text not null default 'gray'
+    check (color in ('gray', 'blue', 'yellow', 'green', 'red', 'purple', 'orange')),
+  position integer not null default 0,
+  is_initial boolean not null default false,
+  primary key (workflow_id, key)
+);
+
+create unique index if not exists workflow_states_single_initial
+  on public.workflow_states (workflow_id) where is_initial;
+
+-- A transition may carry a notification; the template understands
+-- {title}, {state} and {actor} placeholders
+create table if not exists public.workflow_transitions (
+  workflow_id uuid not null references public.task_workflows(id) on delete cascade,
+  from_state text not null,
+  to_state text not null,
+  notification_type text check (notification_type in ('status', 'completed')),
+  notification_template text,
+  primary key (workflow_id, from_state, to_state),
+  foreign key (workflow_id, from_state) references public.workflow_states(workflow_id, key) on delete cascade,
+  foreign key (workflow_id, to_state) references public.workflow_states(workflow_id, key) on delete cascade,
+  check (from_state <> to_state)
+);
+
+create table if not exists public.teams (
+  id uuid primary key default gen_random_uuid(),
+  name text not null unique,
+  workflow_id uuid references public.task_workflows(id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+alter table public.tasks
+  add column if not exists team_id uuid references public.teams(id) on delete set null,
+  add column if not exists workflow_id uuid references public.task_workflows(id);
+
+-- Default workflow reproducing the original three states, plus review,
+-- blocked and cancelled
+do $$
+declare
+  v_workflow_id uuid;
+begin
+  select id into v_workflow_id from public.task_workflows where is_default;
+
+  if v_workflow_id is null then
+    insert into public.task_workflows (name, is_default)
+    values ('Standard', true)
+    returning id into v_workflow_id;
+
+    insert into public.workflow_states (workflow_id, key, label, category, color, position, is_initial)
+    values
+      (v_workflow_id, 'pending', 'Pending', 'todo', 'gray', 0, true),
+      (v_workflow_id, 'in-progress', 'In Progress', 'active', 'blue', 1, false),
+      (v_workflow_id, 'in-review', 'In Review', 'active', 'purple', 2, false),
+      (v_workflow_id, 'blocked', 'Blocked', 'active', 'red', 3, false),
+      (v_workflow_id, 'completed', 'Completed', 'done', 'green', 4, false),
+      (v_workflow_id, 'cancelled', 'Cancelled', 'done', 'orange', 5, false);
+
+    insert into public.workflow_transitions (workflow_id, from_state, to_state, notification_type, notification_template)
+    values
+      (v_workflow_id, 'pending', 'in-progress', 'status', 'Task "{title}" is now in progress, updated by {actor}'),
+      (v_workflow_id, 'pending', 'blocked', 'status', null),
+      (v_workflow_id, 'pending', 'cancelled', 'status', null),
+      (v_workflow_id, 'in-progress', 'in-review', 'status', null),
+      (v_workflow_id, 'in-progress', 'blocked', 'status', null),
+      (v_workflow_id, 'in-progress', 'completed', 'completed', 'Task "{title}" has been completed by {actor}'),
+      (v_workflow_id, 'in-progress', 'pending', null, null),
+      (v_workflow_id, 'in-review', 'in-progress', 'status', 'Task "{title}" needs more work, sent back by {actor}'),
+      (v_workflow_id, 'in-review', 'completed', 'completed', 'Task "{title}" has been completed by {actor}'),
+      (v_workflow_id, 'blocked', 'in-progress', 'status', 'Task "{title}" is unblocked and back in progress, updated by {actor}'),
+      (v_workflow_id, 'blocked', 'pending', null, null),
+      (v_workflow_id, 'blocked', 'cancelled', 'status', null),
+      (v_workflow_id, 'completed', 'pending', null, null),
+      (v_workflow_id, 'cancelled', 'pending', null, null);
+  end if;
+
+  update public.tasks set workflow_id = v_workflow_id where workflow_id is null;
+end;
+$$;
+
+insert into public.task_wip_limits (status, wip_limit)
+values ('in-review', null), ('blocked', null), ('cancelled', null)
+on conflict (status) do nothing;
+
+-- Assigns the workflow on insert and rejects status changes that are not
+-- listed in workflow_transitions
+create or replace function public.enforce_task_workflow()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'INSERT' then
+    if new.workflow_id is null then
+      select coalesce(
+        (select workflow_id from public.teams where id = new.team_id),
+        (select id from public.task_workflows where is_default)
+      ) into new.workflow_id;
+    end if;
+
+    if new.status is null then
+      select key into new.status
+      from public.workflow_states
+      where workflow_id = new.workflow_id and is_initial;
+    end if;
+
+    if not exists (
+      select 1 from public.workflow_states
+      where workflow_id = new.workflow_id and key = new.status
+    ) then
+      raise exception 'Status "%" is not part of the task workflow', new.status
+        using errcode = 'check_violation';
+    end if;
+
+    return new;
+  end if;
+
+  if new.workflow_id is distinct from old.workflow_id then
+    if not exists (
+      select 1 from public.workflow_states
+      where workflow_id = new.workflow_id and key = new.status
+    ) then
+      raise exception 'Status "%" is not part of the task workflow', new.status
+        using errcode = 'check_violation';
+    end if;
+  elsif new.status is distinct from old.status then
+    if not exists (
+      select 1 from public.workflow_transitions
+      where workflow_id = new.workflow_id
+        and from_state = old.status
+        and to_state = new.status
+    ) then
+      raise exception 'Transition from "%" to "%" is not allowed', old.status, new.status
+        using errcode = 'check_violation';
+    end if;
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists enforce_task_workflow on public.tasks;
+create trigger enforce_task_workflow
+  before insert or update on public.tasks
+  for each row execute function public.enforce_task_workflow();
+
+alter table public.task_workflows enable row level security;
+alter table public.workflow_states enable row level security;
+alter table public.workflow_transitions enable row level security;
+alter table public.teams enable row level security;
+
+drop policy if exists "Authenticated users can view workflows" on public.task_workflows;
+create policy "Authenticated users can view workflows"
+  on public.task_workflows for select to authenticated using (true);
+
+drop policy if exists "Managers can manage workflows" on public.task_workflows;
+create policy "Managers can manage workflows"
+  on public.task_workflows for all to authenticated
+  using (public.has_role(array['admin', 'manager']))
+  with check (public.has_role(array['admin', 'manager']));
+
+drop policy if exists "Authenticated users can view workflow states" on public.workflow_states;
+create policy "Authenticated users can view workflow states"
+  on public.workflow_states for select to authenticated using (true);
+
+drop policy if exists "Managers can manage workflow states" on public.workflow_states;
+create policy "Managers can manage workflow states"
+  on public.workflow_states for all to authenticated
+  using (public.has_role(array['admin', 'manager']))
+  with check (public.has_role(array['admin', 'manager']));
+
+drop policy if exists "Authenticated users can view workflow transitions" on public.workflow_transitions;
+create policy "Authenticated users can view workflow transitions"
+  on public.workflow_transitions for select to authenticated using (true);
+
+drop policy if exists "Managers can manage workflow transitions" on public.workflow_transitions;
+create policy "Managers can manage workflow transitions"
+  on public.workflow_transitions for all to authenticated
+  using (public.has_role(array['admin', 'manager']))
+  with check (public.has_role(array['admin', 'manager']));
+
+drop policy if exists "Authenticated users can view teams" on public.teams;
+create policy "Authenticated users can view teams"
+  on public.teams for select to authenticated using (true);
+
+drop policy if exists "Managers can manage teams" on public.teams;
+create policy "Managers can manage teams"
+  on public.teams for all to authenticated
+  using (public.has_role(array['admin', 'manager']))
+  with check (public.has_role(array['admin', 'manager']));
@@ -0,0 +1,59 @@
+-- Recurring tasks. A series is the set of tasks sharing series_id; only the
+-- latest occurrence exists ahead of time; later ones are materialized by the
+-- materialize-recurring-tasks edge function and shown virtually on the calendar.
+alter table public.tasks
+  add column if not exists recurrence_rule text,
+  add column if not exists recurrence_start timestamptz,
+  add column if not exists series_id uuid;
+
+create unique index if not exists tasks_series_occurrence_unique
+  on public.tasks (series_id, deadline)
+  where series_id is not null;
+
+create or replace function public.init_task_series()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.recurrence_rule is not null and new.series_id is null then
+    new.series_id := new.id;
+    new.recurrence_start := coalesce(new.recurrence_start, new.deadline);
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists init_task_series on public.tasks;
+create trigger init_task_series
+  before insert or update of recurrence_rule on public.tasks
+  for each row execute function public.init_task_series();
+
+-- Calls an edge function with the service role key. Expects the project URL
+-- and service role key in Vault as "project_url" and "service_role_key".
+create extension if not exists pg_net;
+create extension if not exists pg_cron;
+
+create or replace function public.invoke_edge_function(function_name text, body jsonb default '{}'::jsonb)
+returns bigint
+language sql
+security definer
+set search_path = public
+as $$
+  select net.http_post(
+    url := (select decrypted_secret from vault.decrypted_secrets where name = 'project_url')
+      || '/functions/v1/' || function_name,
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (select decrypted_secret from vault.decrypted_secrets where name = 'service_role_key')
+    ),
+    body := body
+  );
+$$;
+
+revoke execute on function public.invoke_edge_function(text, jsonb) from public, anon, authenticated;
+
+select cron.schedule(
+  'materialize-recurring-tasks',
+  '*/15 * * * *',
+  $$ select public.invoke_edge_function('materialize-recurring-tasks') $$
+);
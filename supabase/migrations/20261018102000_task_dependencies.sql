@@ -0,0 +1,128 @@
+-- Task dependencies: task_id cannot start until depends_on_task_id is done
+create table if not exists public.task_dependencies (
+  task_id uuid not null references public.tasks(id) on delete cascade,
+  depends_on_task_id uuid not null references public.tasks(id) on delete cascade,
+  created_by uuid references public.profiles(id) on delete set null,
+  created_at timestamptz not null default now(),
+  primary key (task_id, depends_on_task_id),
+  check (task_id <> depends_on_task_id)
+);
+
+create index if not exists task_dependencies_depends_on_idx
+  on public.task_dependencies (depends_on_task_id);
+
+-- States that count as work having started; entering one requires every
+-- blocker to be in a "done" state
+alter table public.workflow_states
+  add column if not exists requires_unblocked boolean not null default false;
+
+update public.workflow_states
+set requires_unblocked = true
+where key in ('in-progress', 'in-review', 'completed')
+  and workflow_id in (select id from public.task_workflows where is_default);
+
+-- Rejects an edge that would close a cycle, i.e. when the new blocker already
+-- (transitively) depends on the task
+create or replace function public.prevent_dependency_cycle()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if exists (
+    with recursive upstream(id) as (
+      select depends_on_task_id from public.task_dependencies where task_id = new.depends_on_task_id
+      union
+      select d.depends_on_task_id
+      from public.task_dependencies d
+      join upstream u on d.task_id = u.id
+    )
+    select 1 from upstream where id = new.task_id
+  ) then
+    raise exception 'Adding this dependency would create a cycle'
+      using errcode = 'check_violation', hint = 'dependency_cycle';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists prevent_dependency_cycle on public.task_dependencies;
+create trigger prevent_dependency_cycle
+  before insert or update on public.task_dependencies
+  for each row execute function public.prevent_dependency_cycle();
+
+-- Open blockers of a task: dependencies whose current state is not "done"
+create or replace function public.task_open_blockers(p_task_id uuid)
+returns setof public.tasks
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select t.*
+  from public.task_dependencies d
+  join public.tasks t on t.id = d.depends_on_task_id
+  left join public.workflow_states s on s.workflow_id = t.workflow_id and s.key = t.status
+  where d.task_id = p_task_id
+    and coalesce(s.category, 'todo') <> 'done';
+$$;
+
+create or replace function public.enforce_task_dependencies()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_blockers text;
+begin
+  if new.status is distinct from old.status and exists (
+    select 1 from public.workflow_states
+    where workflow_id = new.workflow_id and key = new.status and requires_unblocked
+  ) then
+    select string_agg(title, ', ') into v_blockers from public.task_open_blockers(new.id);
+
+    if v_blockers is not null then
+      raise exception 'Task is blocked by: %', v_blockers
+        using errcode = 'check_violation', hint = 'task_blocked';
+    end if;
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists enforce_task_dependencies on public.tasks;
+create trigger enforce_task_dependencies
+  before update of status on public.tasks
+  for each row execute function public.enforce_task_dependencies();
+
+alter table public.task_dependencies enable row level security;
+
+drop policy if exists "Authenticated users can view dependencies" on public.task_dependencies;
+create policy "Authenticated users can view dependencies"
+  on public.task_dependencies for select
+  to authenticated
+  using (true);
+
+-- Dependencies are managed by whoever may edit the dependent task
+drop policy if exists "Task editors can manage dependencies" on public.task_dependencies;
+create policy "Task editors can manage dependencies"
+  on public.task_dependencies for all
+  to authenticated
+  using (
+    exists (
+      select 1 from public.tasks t
+      where t.id = task_id
+        and (t.user_id = auth.uid() or public.has_role(array['admin', 'manager']))
+    )
+  )
+  with check (
+    exists (
+      select 1 from public.tasks t
+      where t.id = task_id
+        and (t.user_id = auth.uid() or public.has_role(array['admin', 'manager']))
+    )
+  );
@@ -0,0 +1,14 @@
+-- Deadline and overdue reminders are produced by the send-deadline-notifications
+-- edge function. dedupe_key ("<type>:<task id>:<UTC day>") keeps reruns on the
+-- same day from notifying twice.
+alter table public.notifications
+  add column if not exists dedupe_key text;
+
+create unique index if not exists notifications_user_dedupe_key
+  on public.notifications (user_id, dedupe_key);
+
+select cron.schedule(
+  'send-deadline-notifications',
+  '0 * * * *',
+  $$ select public.invoke_edge_function('send-deadline-notifications') $$
+);
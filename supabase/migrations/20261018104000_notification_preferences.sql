@@ -0,0 +1,101 @@
+-- Per-user notification preferences. Every insert into notifications, whether
+-- from the browser or an edge function, passes through
+-- apply_notification_preferences, so opting out is enforced in one place.
+create table if not exists public.notification_preferences (
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  type text not null check (type in ('deadline', 'overdue', 'status', 'completed', 'assignment', 'mention')),
+  channel text not null default 'in_app' check (channel in ('in_app', 'email_digest', 'muted')),
+  updated_at timestamptz not null default now(),
+  primary key (user_id, type)
+);
+
+-- Quiet hours are wall-clock times in the user's time zone; a start later
+-- than the end wraps past midnight (e.g. 22:00-07:00)
+create table if not exists public.notification_settings (
+  user_id uuid primary key references public.profiles(id) on delete cascade,
+  quiet_hours_start time,
+  quiet_hours_end time,
+  timezone text not null default 'UTC',
+  updated_at timestamptz not null default now(),
+  check ((quiet_hours_start is null) = (quiet_hours_end is null)),
+  check (quiet_hours_start is null or quiet_hours_start <> quiet_hours_end)
+);
+
+-- delivery records the channel chosen at insert time; deliver_after holds
+-- notifications created during quiet hours until the quiet period ends
+alter table public.notifications
+  add column if not exists delivery text not null default 'in_app'
+    check (delivery in ('in_app', 'email_digest')),
+  add column if not exists deliver_after timestamptz not null default now();
+
+create index if not exists notifications_user_delivery_idx
+  on public.notifications (user_id, delivery, deliver_after);
+
+create or replace function public.apply_notification_preferences()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_channel text;
+  v_settings public.notification_settings%rowtype;
+  v_local timestamp;
+  v_time time;
+  v_quiet_end timestamp;
+begin
+  select channel into v_channel
+  from public.notification_preferences
+  where user_id = new.user_id and type = new.type;
+
+  if v_channel = 'muted' then
+    return null;
+  end if;
+
+  new.delivery := coalesce(v_channel, 'in_app');
+
+  select * into v_settings
+  from public.notification_settings
+  where user_id = new.user_id;
+
+  if found and v_settings.quiet_hours_start is not null then
+    v_local := now() at time zone v_settings.timezone;
+    v_time := v_local::time;
+
+    if (v_settings.quiet_hours_start < v_settings.quiet_hours_end
+          and v_time >= v_settings.quiet_hours_start and v_time < v_settings.quiet_hours_end)
+       or (v_settings.quiet_hours_start > v_settings.quiet_hours_end
+          and (v_time >= v_settings.quiet_hours_start or v_time < v_settings.quiet_hours_end)) then
+      v_quiet_end := date_trunc('day', v_local) + v_settings.quiet_hours_end;
+      if v_quiet_end <= v_local then
+        v_quiet_end := v_quiet_end + interval '1 day';
+      end if;
+      new.deliver_after := v_quiet_end at time zone v_settings.timezone;
+    end if;
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists apply_notification_preferences on public.notifications;
+create trigger apply_notification_preferences
+  before insert on public.notifications
+  for each row execute function public.apply_notification_preferences();
+
+alter table public.notification_preferences enable row level security;
+alter table public.notification_settings enable row level security;
+
+drop policy if exists "Users manage their notification preferences" on public.notification_preferences;
+create policy "Users manage their notification preferences"
+  on public.notification_preferences for all
+  to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+drop policy if exists "Users manage their notification settings" on public.notification_settings;
+create policy "Users manage their notification settings"
+  on public.notification_settings for all
+  to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
@@ -0,0 +1,102 @@
+-- Mention notifications are produced in the database so they do not depend on
+-- the commenting client: comments.mentions is derived from the content, and
+-- each newly mentioned user who can see the task gets a "mention" notification.
+
+-- Single definition of who may see a task, shared by the tasks select policy
+-- and mention processing
+create or replace function public.can_view_task(p_task_id uuid, p_user_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from public.tasks t
+    join public.profiles p on p.id = p_user_id
+    where t.id = p_task_id
+  )
+$$;
+
+drop policy if exists "Authenticated users can view tasks" on public.tasks;
+create policy "Authenticated users can view tasks"
+  on public.tasks for select
+  to authenticated
+  using (public.can_view_task(id, auth.uid()));
+
+-- link is an in-app path the notification opens, e.g. /tasks?task=<id>&comment=<id>
+alter table public.notifications
+  add column if not exists comment_id uuid references public.comments(id) on delete cascade,
+  add column if not exists link text;
+
+create or replace function public.extract_comment_mentions()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.mentions := coalesce(
+    (
+      select array_agg(distinct lower(m[1]))
+      from regexp_matches(new.content, '@([A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,})', 'g') as m
+    ),
+    '{}'
+  );
+  return new;
+end;
+$$;
+
+drop trigger if exists extract_comment_mentions on public.comments;
+create trigger extract_comment_mentions
+  before insert or update of content, mentions on public.comments
+  for each row execute function public.extract_comment_mentions();
+
+-- Only users added to mentions by this write are notified, so editing a
+-- comment does not repeat earlier mentions
+create or replace function public.notify_comment_mentions()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_author text;
+  v_task_title text;
+  v_snippet text;
+begin
+  if new.task_id is null or coalesce(cardinality(new.mentions), 0) = 0 then
+    return null;
+  end if;
+
+  select coalesce(nullif(full_name, ''), email) into v_author
+  from public.profiles where id = new.user_id;
+
+  select title into v_task_title from public.tasks where id = new.task_id;
+
+  v_snippet := left(regexp_replace(new.content, '\s+', ' ', 'g'), 140);
+
+  insert into public.notifications (title, message, type, task_id, comment_id, link, user_id, dedupe_key)
+  select
+    'You were mentioned',
+    format('%s mentioned you on "%s": %s', coalesce(v_author, 'Someone'), v_task_title, v_snippet),
+    'mention',
+    new.task_id,
+    new.id,
+    format('/tasks?task=%s&comment=%s', new.task_id, new.id),
+    p.id,
+    'mention:' || new.id
+  from public.profiles p
+  where lower(p.email) = any(new.mentions)
+    and (tg_op = 'INSERT' or not lower(p.email) = any(coalesce(old.mentions, '{}')))
+    and p.id is distinct from new.user_id
+    and public.can_view_task(new.task_id, p.id)
+  on conflict (user_id, dedupe_key) do nothing;
+
+  return null;
+end;
+$$;
+
+drop trigger if exists notify_comment_mentions on public.comments;
+create trigger notify_comment_mentions
+  after insert or update of content, mentions on public.comments
+  for each row execute function public.notify_comment_mentions();
@@ -0,0 +1,20 @@
+-- Email digests of unread notifications, sent by the send-notification-digest
+-- edge function. emailed_at marks notifications already included in a digest
+-- so they are never re-sent; reading them in the app is tracked separately.
+alter table public.notifications
+  add column if not exists emailed_at timestamptz;
+
+create index if not exists notifications_digest_pending_idx
+  on public.notifications (user_id, deliver_after)
+  where emailed_at is null and status = 'unread';
+
+alter table public.notification_settings
+  add column if not exists digest_frequency text not null default 'daily'
+    check (digest_frequency in ('hourly', 'daily', 'off')),
+  add column if not exists last_digest_at timestamptz;
+
+select cron.schedule(
+  'send-notification-digest',
+  '5 * * * *',
+  $$ select public.invoke_edge_function('send-notification-digest') $$
+);
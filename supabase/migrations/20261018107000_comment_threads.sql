@@ -0,0 +1,133 @@
+-- Threaded comments with edit history and soft deletion. Deleted comments stay
+-- in place (with their content cleared) so replies keep their thread.
+alter table public.comments
+  add column if not exists parent_id uuid references public.comments(id) on delete cascade,
+  add column if not exists edited_at timestamptz,
+  add column if not exists deleted_at timestamptz,
+  add column if not exists deleted_by uuid references public.profiles(id) on delete set null;
+
+create index if not exists comments_parent_id_idx on public.comments (parent_id);
+
+-- Previous versions of edited comments, newest last
+create table if not exists public.comment_edits (
+  id uuid primary key default gen_random_uuid(),
+  comment_id uuid not null references public.comments(id) on delete cascade,
+  content text not null,
+  edited_by uuid references public.profiles(id) on delete set null,
+  edited_at timestamptz not null default now()
+);
+
+create index if not exists comment_edits_comment_id_idx on public.comment_edits (comment_id, edited_at);
+
+-- Replies must belong to the same task as the comment they answer
+create or replace function public.validate_comment_parent()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.parent_id is not null and not exists (
+    select 1 from public.comments
+    where id = new.parent_id and task_id is not distinct from new.task_id
+  ) then
+    raise exception 'Replies must belong to the same task as their parent comment';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists validate_comment_parent on public.comments;
+create trigger validate_comment_parent
+  before insert on public.comments
+  for each row execute function public.validate_comment_parent();
+
+-- Authors may edit their own comments; authors and admins may soft-delete.
+-- Runs after extract_comment_mentions (triggers fire in name order), so a
+-- deletion also clears the derived mentions.
+create or replace function public.guard_comment_update()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.task_id is distinct from old.task_id
+     or new.parent_id is distinct from old.parent_id
+     or new.user_id is distinct from old.user_id
+     or new.created_at is distinct from old.created_at then
+    raise exception 'Comments cannot be moved or reassigned';
+  end if;
+
+  if old.deleted_at is not null then
+    raise exception 'Deleted comments cannot be changed';
+  end if;
+
+  if new.deleted_at is not null then
+    if auth.uid() is not null
+       and auth.uid() is distinct from old.user_id
+       and not public.has_role(array['admin']) then
+      raise exception 'Only the author or an admin can delete this comment';
+    end if;
+
+    new.deleted_by := auth.uid();
+    new.content := '';
+    new.mentions := '{}';
+    return new;
+  end if;
+
+  if new.content is distinct from old.content then
+    if auth.uid() is not null and auth.uid() is distinct from old.user_id then
+      raise exception 'Only the author can edit this comment';
+    end if;
+
+    insert into public.comment_edits (comment_id, content, edited_by)
+    values (old.id, old.content, auth.uid());
+    new.edited_at := now();
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists guard_comment_update on public.comments;
+create trigger guard_comment_update
+  before update on public.comments
+  for each row execute function public.guard_comment_update();
+
+alter table public.comments enable row level security;
+alter table public.comment_edits enable row level security;
+
+drop policy if exists "Users can view comments on visible tasks" on public.comments;
+create policy "Users can view comments on visible tasks"
+  on public.comments for select
+  to authenticated
+  using (task_id is null or public.can_view_task(task_id, auth.uid()));
+
+drop policy if exists "Users can post their own comments" on public.comments;
+create policy "Users can post their own comments"
+  on public.comments for insert
+  to authenticated
+  with check (user_id = auth.uid());
+
+-- Comments are never hard-deleted by users; guard_comment_update decides what
+-- an update may change
+drop policy if exists "Authors and admins can update comments" on public.comments;
+create policy "Authors and admins can update comments"
+  on public.comments for update
+  to authenticated
+  using (user_id = auth.uid() or public.has_role(array['admin']))
+  with check (user_id = auth.uid() or public.has_role(array['admin']));
+
+drop policy if exists "Users can view history of visible comments" on public.comment_edits;
+create policy "Users can view history of visible comments"
+  on public.comment_edits for select
+  to authenticated
+  using (
+    exists (
+      select 1 from public.comments c
+      where c.id = comment_id
+        and (c.task_id is null or public.can_view_task(c.task_id, auth.uid()))
+    )
+  );
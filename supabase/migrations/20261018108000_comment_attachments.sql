@@ -0,0 +1,35 @@
+-- Files attached to comments are ordinary documents (same bucket, same upload
+-- checks); this table only records which comment they belong to
+create table if not exists public.comment_attachments (
+  comment_id uuid not null references public.comments(id) on delete cascade,
+  document_id uuid not null references public.documents(id) on delete cascade,
+  created_at timestamptz not null default now(),
+  primary key (comment_id, document_id)
+);
+
+create index if not exists comment_attachments_document_id_idx
+  on public.comment_attachments (document_id);
+
+alter table public.comment_attachments enable row level security;
+
+drop policy if exists "Users can view attachments of visible comments" on public.comment_attachments;
+create policy "Users can view attachments of visible comments"
+  on public.comment_attachments for select
+  to authenticated
+  using (
+    exists (
+      select 1 from public.comments c
+      where c.id = comment_id
+        and (c.task_id is null or public.can_view_task(c.task_id, auth.uid()))
+    )
+  );
+
+-- Only the comment author may attach, and only documents they uploaded
+drop policy if exists "Authors can attach their documents" on public.comment_attachments;
+create policy "Authors can attach their documents"
+  on public.comment_attachments for insert
+  to authenticated
+  with check (
+    exists (select 1 from public.comments c where c.id = comment_id and c.user_id = auth.uid())
+    and exists (select 1 from public.documents d where d.id = document_id and d.created_by = auth.uid())
+  );
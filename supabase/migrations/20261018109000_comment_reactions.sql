@@ -0,0 +1,48 @@
+-- Emoji reactions on comments; one row per user, comment and emoji
+create table if not exists public.comment_reactions (
+  comment_id uuid not null references public.comments(id) on delete cascade,
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  emoji text not null check (char_length(emoji) between 1 and 16),
+  created_at timestamptz not null default now(),
+  primary key (comment_id, user_id, emoji)
+);
+
+create index if not exists comment_reactions_user_id_idx on public.comment_reactions (user_id);
+
+alter table public.comment_reactions enable row level security;
+
+drop policy if exists "Users can view reactions on visible comments" on public.comment_reactions;
+create policy "Users can view reactions on visible comments"
+  on public.comment_reactions for select
+  to authenticated
+  using (
+    exists (
+      select 1 from public.comments c
+      where c.id = comment_id
+        and (c.task_id is null or public.can_view_task(c.task_id, auth.uid()))
+    )
+  );
+
+drop policy if exists "Users can react to visible comments" on public.comment_reactions;
+create policy "Users can react to visible comments"
+  on public.comment_reactions for insert
+  to authenticated
+  with check (
+    user_id = auth.uid()
+    and exists (
+      select 1 from public.comments c
+      where c.id = comment_id
+        and c.deleted_at is null
+        and (c.task_id is null or public.can_view_task(c.task_id, auth.uid()))
+    )
+  );
+
+drop policy if exists "Users can remove their reactions" on public.comment_reactions;
+create policy "Users can remove their reactions"
+  on public.comment_reactions for delete
+  to authenticated
+  using (user_id = auth.uid());
+
+-- Clients refresh counts from change events; comment_id is part of the primary
+-- key, so delete events carry it without a full replica identity
+alter publication supabase_realtime add table public.comment_reactions;
@@ -0,0 +1,120 @@
+-- Document versions. A document is the logical record that tasks, comments
+-- and searches point at; each upload of its content is a version. The
+-- documents row mirrors its current version (file_path, file_type, size), so
+-- readers that only need the latest file keep working unchanged.
+create table if not exists public.document_versions (
+  id uuid primary key default gen_random_uuid(),
+  document_id uuid not null references public.documents(id) on delete cascade,
+  version_number integer not null,
+  file_path text not null,
+  file_type text not null,
+  size bigint not null,
+  uploaded_by uuid references public.profiles(id) on delete set null,
+  -- Set when this version re-published an older one; the file is shared
+  restored_from uuid references public.document_versions(id) on delete set null,
+  created_at timestamptz not null default now(),
+  unique (document_id, version_number)
+);
+
+alter table public.documents
+  add column if not exists current_version_id uuid references public.document_versions(id) on delete set null;
+
+-- Existing documents become version 1 of themselves
+insert into public.document_versions (document_id, version_number, file_path, file_type, size, uploaded_by, created_at)
+select d.id, 1, d.file_path, d.file_type, d.size, d.created_by, d.created_at
+from public.documents d
+where not exists (select 1 from public.document_versions v where v.document_id = d.id);
+
+update public.documents d
+set current_version_id = v.id
+from public.document_versions v
+where v.document_id = d.id and v.version_number = 1 and d.current_version_id is null;
+
+create or replace function public.number_document_version()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  -- Serialises concurrent uploads against the same document
+  perform 1 from public.documents where id = new.document_id for update;
+
+  select coalesce(max(version_number), 0) + 1 into new.version_number
+  from public.document_versions
+  where document_id = new.document_id;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists number_document_version on public.document_versions;
+create trigger number_document_version
+  before insert on public.document_versions
+  for each row execute function public.number_document_version();
+
+create or replace function public.publish_document_version()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.documents
+  set file_path = new.file_path,
+      file_type = new.file_type,
+      size = new.size,
+      current_version_id = new.id,
+      last_modified = new.created_at
+  where id = new.document_id;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists publish_document_version on public.document_versions;
+create trigger publish_document_version
+  after insert on public.document_versions
+  for each row execute function public.publish_document_version();
+
+-- New documents start with version 1 however they were uploaded
+create or replace function public.create_initial_document_version()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into public.document_versions (document_id, file_path, file_type, size, uploaded_by, created_at)
+  values (new.id, new.file_path, new.file_type, new.size, new.created_by, new.created_at);
+
+  return new;
+end;
+$$;
+
+drop trigger if exists create_initial_document_version on public.documents;
+create trigger create_initial_document_version
+  after insert on public.documents
+  for each row execute function public.create_initial_document_version();
+
+alter table public.document_versions enable row level security;
+
+drop policy if exists "Authenticated users can view document versions" on public.document_versions;
+create policy "Authenticated users can view document versions"
+  on public.document_versions for select
+  to authenticated
+  using (true);
+
+-- Same people who may update the document: its owner, managers and admins
+drop policy if exists "Owners and managers can add document versions" on public.document_versions;
+create policy "Owners and managers can add document versions"
+  on public.document_versions for insert
+  to authenticated
+  with check (
+    uploaded_by = auth.uid()
+    and exists (
+      select 1 from public.documents d
+      where d.id = document_id
+        and (d.created_by = auth.uid() or public.has_role(array['admin', 'manager']))
+    )
+  );
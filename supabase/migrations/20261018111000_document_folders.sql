@@ -0,0 +1,111 @@
+-- Folders, tags and ownership metadata for the document library
+create table if not exists public.document_folders (
+  id uuid primary key default gen_random_uuid(),
+  name text not null check (char_length(trim(name)) between 1 and 100),
+  parent_id uuid references public.document_folders(id) on delete restrict,
+  created_by uuid references public.profiles(id) on delete set null,
+  created_at timestamptz not null default now(),
+  check (parent_id is null or parent_id <> id)
+);
+
+-- Sibling folders need distinct names; root folders have a null parent
+create unique index if not exists document_folders_sibling_name_idx
+  on public.document_folders (coalesce(parent_id, '00000000-0000-0000-0000-000000000000'::uuid), lower(name));
+
+-- Folders must be emptied before they can be deleted
+alter table public.documents
+  add column if not exists folder_id uuid references public.document_folders(id) on delete restrict,
+  add column if not exists tags text[] not null default '{}',
+  add column if not exists owner_id uuid references public.profiles(id) on delete set null,
+  add column if not exists department text;
+
+update public.documents set owner_id = created_by where owner_id is null;
+
+create index if not exists documents_folder_id_idx on public.documents (folder_id);
+create index if not exists documents_tags_idx on public.documents using gin (tags);
+
+-- Tags are compared case-insensitively, so store them trimmed and lowercased
+create or replace function public.normalize_document_metadata()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.tags := coalesce(
+    (
+      select array_agg(distinct lower(trim(tag)))
+      from unnest(new.tags) as tag
+      where trim(tag) <> ''
+    ),
+    '{}'
+  );
+  new.department := nullif(trim(new.department), '');
+  new.owner_id := coalesce(new.owner_id, new.created_by);
+  return new;
+end;
+$$;
+
+drop trigger if exists normalize_document_metadata on public.documents;
+create trigger normalize_document_metadata
+  before insert or update of tags, department, owner_id on public.documents
+  for each row execute function public.normalize_document_metadata();
+
+-- Moving a folder into itself or one of its descendants would detach the subtree
+create or replace function public.prevent_folder_cycle()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.parent_id is not null and exists (
+    with recursive ancestors(id) as (
+      select new.parent_id
+      union
+      select f.parent_id
+      from public.document_folders f
+      join ancestors a on f.id = a.id
+      where f.parent_id is not null
+    )
+    select 1 from ancestors where id = new.id
+  ) then
+    raise exception 'A folder cannot be moved into itself or one of its subfolders'
+      using errcode = 'check_violation', hint = 'folder_cycle';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists prevent_folder_cycle on public.document_folders;
+create trigger prevent_folder_cycle
+  before update of parent_id on public.document_folders
+  for each row execute function public.prevent_folder_cycle();
+
+alter table public.document_folders enable row level security;
+
+drop policy if exists "Authenticated users can view folders" on public.document_folders;
+create policy "Authenticated users can view folders"
+  on public.document_folders for select
+  to authenticated
+  using (true);
+
+drop policy if exists "Contributors can create folders" on public.document_folders;
+create policy "Contributors can create folders"
+  on public.document_folders for insert
+  to authenticated
+  with check (
+    created_by = auth.uid()
+    and public.has_role(array['admin', 'manager', 'employee'])
+  );
+
+drop policy if exists "Owners and managers can change folders" on public.document_folders;
+create policy "Owners and managers can change folders"
+  on public.document_folders for update
+  to authenticated
+  using (created_by = auth.uid() or public.has_role(array['admin', 'manager']));
+
+drop policy if exists "Owners and managers can delete folders" on public.document_folders;
+create policy "Owners and managers can delete folders"
+  on public.document_folders for delete
+  to authenticated
+  using (created_by = auth.uid() or public.has_role(array['admin', 'manager']));
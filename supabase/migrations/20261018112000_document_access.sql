@@ -0,0 +1,313 @@
+-- Document sharing and access logging. A document is visible to its creator,
+-- its owner, admins and managers, and to whoever it has been shared with:
+-- specific users, everyone holding a role, or the members of a team. Files
+-- attached to comments or linked to tasks follow the comment or task.
+create table if not exists public.team_members (
+  team_id uuid not null references public.teams(id) on delete cascade,
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  created_at timestamptz not null default now(),
+  primary key (team_id, user_id)
+);
+
+create index if not exists team_members_user_id_idx on public.team_members (user_id);
+
+-- Each grant names exactly one principal; 'edit' also allows metadata
+-- changes and new versions, while sharing and deletion stay with managers
+create table if not exists public.document_permissions (
+  id uuid primary key default gen_random_uuid(),
+  document_id uuid not null references public.documents(id) on delete cascade,
+  user_id uuid references public.profiles(id) on delete cascade,
+  role text check (role in ('admin', 'manager', 'employee', 'viewer')),
+  team_id uuid references public.teams(id) on delete cascade,
+  access text not null default 'view' check (access in ('view', 'edit')),
+  created_by uuid references public.profiles(id) on delete set null,
+  created_at timestamptz not null default now(),
+  check (num_nonnulls(user_id, role, team_id) = 1)
+);
+
+create unique index if not exists document_permissions_user_idx
+  on public.document_permissions (document_id, user_id) where user_id is not null;
+create unique index if not exists document_permissions_role_idx
+  on public.document_permissions (document_id, role) where role is not null;
+create unique index if not exists document_permissions_team_idx
+  on public.document_permissions (document_id, team_id) where team_id is not null;
+
+-- Every authenticated user could see every document until now; keep existing
+-- documents shared with everyone so nothing disappears, new uploads start private
+insert into public.document_permissions (document_id, role, access, created_by)
+select d.id, r.role, 'view', d.created_by
+from public.documents d
+cross join (values ('employee'), ('viewer')) as r(role)
+on conflict do nothing;
+
+-- 'manage', 'edit', 'view' or null when the user cannot see the document
+create or replace function public.document_access_level(p_document_id uuid, p_user_id uuid)
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select case
+    when p.role in ('admin', 'manager') or d.created_by = p_user_id or d.owner_id = p_user_id then 'manage'
+    when p.role <> 'viewer' and exists (
+      select 1 from public.document_permissions g
+      where g.document_id = d.id
+        and g.access = 'edit'
+        and (g.user_id = p_user_id or g.role = p.role
+          or exists (select 1 from public.team_members m where m.team_id = g.team_id and m.user_id = p_user_id))
+    ) then 'edit'
+    when exists (
+      select 1 from public.document_permissions g
+      where g.document_id = d.id
+        and (g.user_id = p_user_id or g.role = p.role
+          or exists (select 1 from public.team_members m where m.team_id = g.team_id and m.user_id = p_user_id))
+    ) or exists (
+      select 1
+      from public.comment_attachments ca
+      join public.comments c on c.id = ca.comment_id
+      where ca.document_id = d.id
+        and c.deleted_at is null
+        and (c.task_id is null or public.can_view_task(c.task_id, p_user_id))
+    ) or exists (
+      select 1 from public.documents_tasks dt
+      where dt.document_id = d.id and public.can_view_task(dt.task_id, p_user_id)
+    ) then 'view'
+  end
+  from public.documents d
+  join public.profiles p on p.id = p_user_id
+  where d.id = p_document_id
+$$;
+
+create or replace function public.can_access_document(p_document_id uuid, p_user_id uuid, p_access text default 'view')
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(
+    array_position(array['view', 'edit', 'manage'], public.document_access_level(p_document_id, p_user_id))
+      >= array_position(array['view', 'edit', 'manage'], p_access),
+    false
+  )
+$$;
+
+-- Computed column, so the client can select documents with "*, access_level"
+create or replace function public.access_level(public.documents)
+returns text
+language sql
+stable
+as $$
+  select public.document_access_level($1.id, auth.uid())
+$$;
+
+-- Storage objects in the documents bucket follow the document they belong
+-- to; a file no version references yet belongs to its uploader's folder
+create or replace function public.can_access_document_file(p_path text, p_access text default 'view')
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select case
+    when exists (select 1 from public.document_versions where file_path = p_path) then exists (
+      select 1 from public.document_versions v
+      where v.file_path = p_path and public.can_access_document(v.document_id, auth.uid(), p_access)
+    )
+    else split_part(p_path, '/', 1) = auth.uid()::text
+  end
+$$;
+
+-- Changing the owner moves management rights, so editors may not do it
+create or replace function public.guard_document_owner()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.owner_id is distinct from old.owner_id
+     and auth.uid() is not null
+     and not public.can_access_document(old.id, auth.uid(), 'manage') then
+    raise exception 'Only the owner or a manager can change the document owner'
+      using errcode = 'insufficient_privilege';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists guard_document_owner on public.documents;
+create trigger guard_document_owner
+  before update of owner_id on public.documents
+  for each row execute function public.guard_document_owner();
+
+-- Views and downloads happen in storage, so the client reports them here;
+-- the call fails for anyone who cannot see the document
+create or replace function public.log_document_access(p_document_id uuid, p_action text, p_details jsonb default null)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if p_action not in ('view', 'download') then
+    raise exception 'Unknown document access action: %', p_action;
+  end if;
+
+  if not public.can_access_document(p_document_id, auth.uid()) then
+    raise exception 'Document not found' using errcode = 'insufficient_privilege';
+  end if;
+
+  insert into public.audit_logs (action, table_name, record_id, user_id, new_data, ip_address)
+  values (
+    p_action,
+    'documents',
+    p_document_id,
+    auth.uid(),
+    p_details,
+    nullif(trim(split_part(current_setting('request.headers', true)::json ->> 'x-forwarded-for', ',', 1)), '')
+  );
+end;
+$$;
+
+create or replace function public.log_document_delete()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into public.audit_logs (action, table_name, record_id, user_id, old_data)
+  values ('delete', 'documents', old.id, auth.uid(), to_jsonb(old));
+
+  return old;
+end;
+$$;
+
+drop trigger if exists log_document_delete on public.documents;
+create trigger log_document_delete
+  after delete on public.documents
+  for each row execute function public.log_document_delete();
+
+-- Documents: the row's own columns are checked first because a row being
+-- inserted is not yet visible to document_access_level
+drop policy if exists "Authenticated users can view documents" on public.documents;
+drop policy if exists "Users can view documents shared with them" on public.documents;
+create policy "Users can view documents shared with them"
+  on public.documents for select
+  to authenticated
+  using (
+    created_by = auth.uid()
+    or owner_id = auth.uid()
+    or public.can_access_document(id, auth.uid())
+  );
+
+drop policy if exists "Owners and managers can update documents" on public.documents;
+drop policy if exists "Editors can update documents" on public.documents;
+create policy "Editors can update documents"
+  on public.documents for update
+  to authenticated
+  using (public.can_access_document(id, auth.uid(), 'edit'));
+
+drop policy if exists "Owners and managers can delete documents" on public.documents;
+create policy "Owners and managers can delete documents"
+  on public.documents for delete
+  to authenticated
+  using (public.can_access_document(id, auth.uid(), 'manage'));
+
+drop policy if exists "Authenticated users can view document versions" on public.document_versions;
+drop policy if exists "Users can view versions of visible documents" on public.document_versions;
+create policy "Users can view versions of visible documents"
+  on public.document_versions for select
+  to authenticated
+  using (public.can_access_document(document_id, auth.uid()));
+
+drop policy if exists "Owners and managers can add document versions" on public.document_versions;
+drop policy if exists "Editors can add document versions" on public.document_versions;
+create policy "Editors can add document versions"
+  on public.document_versions for insert
+  to authenticated
+  with check (
+    uploaded_by = auth.uid()
+    and public.can_access_document(document_id, auth.uid(), 'edit')
+  );
+
+alter table public.document_permissions enable row level security;
+alter table public.team_members enable row level security;
+
+drop policy if exists "Document managers can view sharing" on public.document_permissions;
+create policy "Document managers can view sharing"
+  on public.document_permissions for select
+  to authenticated
+  using (public.can_access_document(document_id, auth.uid(), 'manage'));
+
+drop policy if exists "Document managers can manage sharing" on public.document_permissions;
+create policy "Document managers can manage sharing"
+  on public.document_permissions for all
+  to authenticated
+  using (public.can_access_document(document_id, auth.uid(), 'manage'))
+  with check (
+    created_by = auth.uid()
+    and public.can_access_document(document_id, auth.uid(), 'manage')
+  );
+
+drop policy if exists "Authenticated users can view team members" on public.team_members;
+create policy "Authenticated users can view team members"
+  on public.team_members for select
+  to authenticated
+  using (true);
+
+drop policy if exists "Admins and managers can manage team members" on public.team_members;
+create policy "Admins and managers can manage team members"
+  on public.team_members for all
+  to authenticated
+  using (public.has_role(array['admin', 'manager']))
+  with check (public.has_role(array['admin', 'manager']));
+
+-- Access history is readable by whoever manages the document; admins see all
+alter table public.audit_logs enable row level security;
+
+drop policy if exists "Admins can view audit logs" on public.audit_logs;
+create policy "Admins can view audit logs"
+  on public.audit_logs for select
+  to authenticated
+  using (public.has_role(array['admin']));
+
+drop policy if exists "Document managers can view document access logs" on public.audit_logs;
+create policy "Document managers can view document access logs"
+  on public.audit_logs for select
+  to authenticated
+  using (
+    -- record_id only holds a document id for document rows
+    case when table_name = 'documents'
+      then public.can_access_document(record_id::uuid, auth.uid(), 'manage')
+      else false
+    end
+  );
+
+-- Storage: uploads go to the uploader's own folder; reads and deletes follow
+-- the document ACL
+drop policy if exists "Contributors can upload documents" on storage.objects;
+create policy "Contributors can upload documents"
+  on storage.objects for insert
+  to authenticated
+  with check (
+    bucket_id = 'documents'
+    and (storage.foldername(name))[1] = auth.uid()::text
+    and public.has_role(array['admin', 'manager', 'employee'])
+  );
+
+drop policy if exists "Users can read documents shared with them" on storage.objects;
+create policy "Users can read documents shared with them"
+  on storage.objects for select
+  to authenticated
+  using (bucket_id = 'documents' and public.can_access_document_file(name));
+
+drop policy if exists "Document managers can delete files" on storage.objects;
+create policy "Document managers can delete files"
+  on storage.objects for delete
+  to authenticated
+  using (bucket_id = 'documents' and public.can_access_document_file(name, 'manage'));
@@ -0,0 +1,93 @@
+-- Full-text search over document titles, tags and extracted contents.
+-- handle-document-upload fills documents.content from PDF and DOCX files;
+-- content_version_id records which version the text came from, so a new or
+-- restored version is picked up again.
+alter table public.documents
+  add column if not exists content_version_id uuid references public.document_versions(id) on delete set null,
+  add column if not exists search_vector tsvector;
+
+create index if not exists documents_search_vector_idx
+  on public.documents using gin (search_vector);
+
+-- Titles outrank tags, which outrank body text. Runs after
+-- normalize_document_metadata, so tags are already cleaned up.
+create or replace function public.update_document_search_vector()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.search_vector :=
+    setweight(to_tsvector('english', coalesce(new.title, '')), 'A')
+    || setweight(to_tsvector('english', array_to_string(new.tags, ' ')), 'B')
+    || setweight(to_tsvector('english', coalesce(new.content, '')), 'C');
+  return new;
+end;
+$$;
+
+drop trigger if exists update_document_search_vector on public.documents;
+create trigger update_document_search_vector
+  before insert or update of title, tags, content on public.documents
+  for each row execute function public.update_document_search_vector();
+
+update public.documents
+set search_vector =
+  setweight(to_tsvector('english', coalesce(title, '')), 'A')
+  || setweight(to_tsvector('english', array_to_string(tags, ' ')), 'B')
+  || setweight(to_tsvector('english', coalesce(content, '')), 'C');
+
+-- Ranked search with a highlighted snippet per hit. Runs as the caller, so
+-- only documents they can see are returned. The query accepts web-search
+-- syntax: quoted phrases, "or" and -excluded words.
+create or replace function public.search_documents(p_query text, p_limit integer default 50)
+returns table (id uuid, rank real, headline text)
+language sql
+stable
+set search_path = public
+as $$
+  with query as (
+    select websearch_to_tsquery('english', p_query) as q
+  ),
+  hits as (
+    select d.id, d.title, d.content, ts_rank_cd(d.search_vector, query.q) as rank
+    from public.documents d, query
+    where d.search_vector @@ query.q
+    order by rank desc
+    limit p_limit
+  )
+  -- Headlines are only built for the rows that are returned
+  select
+    hits.id,
+    hits.rank,
+    ts_headline(
+      'english',
+      coalesce(hits.content, hits.title),
+      query.q,
+      'StartSel=<mark>, StopSel=</mark>, MaxWords=30, MinWords=10, MaxFragments=2, FragmentDelimiter=" … "'
+    )
+  from hits, query
+  order by hits.rank desc
+$$;
+
+-- Documents whose current version hasn't been through text extraction yet
+create or replace function public.documents_pending_indexing(p_limit integer default 20)
+returns setof public.documents
+language sql
+stable
+set search_path = public
+as $$
+  select *
+  from public.documents
+  where current_version_id is distinct from content_version_id
+  order by last_modified
+  limit p_limit
+$$;
+
+revoke execute on function public.documents_pending_indexing(integer) from public, anon, authenticated;
+
+-- Catches documents the upload paths didn't index, e.g. files attached while
+-- creating a task or an extraction that timed out
+select cron.schedule(
+  'index-document-contents',
+  '*/10 * * * *',
+  $$ select public.invoke_edge_function('handle-document-upload') $$
+);
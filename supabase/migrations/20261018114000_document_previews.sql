@@ -0,0 +1,35 @@
+-- Self-hosted previews. Thumbnails and converted DOCX pages live in a private
+-- document-previews bucket under the document's id, e.g.
+-- <document_id>/<version_id>-thumbnail.png and <document_id>/<version_id>.html.
+-- Only edge functions write there; reading follows the document ACL.
+insert into storage.buckets (id, name, public)
+values ('document-previews', 'document-previews', false)
+on conflict (id) do nothing;
+
+-- Thumbnail of the current version, written by handle-document-upload
+alter table public.documents
+  add column if not exists thumbnail_path text;
+
+-- Existing documents go back through the indexing sweep to get a thumbnail
+update public.documents
+set content_version_id = null
+where thumbnail_path is null;
+
+drop policy if exists "Users can read previews of documents shared with them" on storage.objects;
+create policy "Users can read previews of documents shared with them"
+  on storage.objects for select
+  to authenticated
+  using (
+    bucket_id = 'document-previews'
+    and public.can_access_document(((storage.foldername(name))[1])::uuid, auth.uid())
+  );
+
+-- Lets whoever deletes a document clean up its previews
+drop policy if exists "Document managers can delete previews" on storage.objects;
+create policy "Document managers can delete previews"
+  on storage.objects for delete
+  to authenticated
+  using (
+    bucket_id = 'document-previews'
+    and public.can_access_document(((storage.foldername(name))[1])::uuid, auth.uid(), 'manage')
+  );
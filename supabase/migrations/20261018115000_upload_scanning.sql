@@ -0,0 +1,66 @@
+-- Uploads are screened before they become documents. The browser stores the
+-- file in its own folder of the documents bucket, then asks
+-- handle-document-upload to register it; the function checks the content
+-- against the extension, runs the malware scanner and only then inserts the
+-- documents or document_versions row. Flagged files are moved to a private
+-- quarantine bucket and recorded here.
+insert into storage.buckets (id, name, public)
+values ('quarantine', 'quarantine', false)
+on conflict (id) do nothing;
+
+create table if not exists public.quarantined_files (
+  id uuid primary key default gen_random_uuid(),
+  -- Object in the quarantine bucket
+  file_path text not null,
+  file_name text not null,
+  size bigint not null,
+  uploaded_by uuid references public.profiles(id) on delete set null,
+  reason text not null check (reason in ('content_mismatch', 'malware')),
+  -- The scanner's signature name, or why the content was refused
+  details text,
+  scanner text,
+  status text not null default 'quarantined' check (status in ('quarantined', 'released', 'deleted')),
+  reviewed_by uuid references public.profiles(id) on delete set null,
+  reviewed_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists quarantined_files_status_idx
+  on public.quarantined_files (status, created_at desc);
+
+alter table public.quarantined_files enable row level security;
+
+-- Only handle-document-upload (service role) adds entries; admins review them
+drop policy if exists "Admins can view quarantined files" on public.quarantined_files;
+create policy "Admins can view quarantined files"
+  on public.quarantined_files for select
+  to authenticated
+  using (public.has_role(array['admin']));
+
+drop policy if exists "Admins can review quarantined files" on public.quarantined_files;
+create policy "Admins can review quarantined files"
+  on public.quarantined_files for update
+  to authenticated
+  using (public.has_role(array['admin']))
+  with check (public.has_role(array['admin']) and reviewed_by = auth.uid());
+
+-- Documents are only inserted by handle-document-upload once the file passed
+drop policy if exists "Contributors can upload documents" on public.documents;
+
+-- New versions go through the function too; restoring re-publishes a file an
+-- earlier version of the same document already holds, so it needs no scan
+drop policy if exists "Editors can add document versions" on public.document_versions;
+drop policy if exists "Editors can restore document versions" on public.document_versions;
+create policy "Editors can restore document versions"
+  on public.document_versions for insert
+  to authenticated
+  with check (
+    uploaded_by = auth.uid()
+    and public.can_access_document(document_id, auth.uid(), 'edit')
+    and exists (
+      select 1 from public.document_versions v
+      where v.id = restored_from
+        and v.document_id = document_versions.document_id
+        and v.file_path = document_versions.file_path
+    )
+  );
@@ -0,0 +1,167 @@
+-- Storage quotas for the documents bucket. Usage counts every stored file
+-- once, charged to whoever uploaded it first; restoring a version reuses an
+-- existing file and costs nothing. A null quota means unlimited.
+create table if not exists public.storage_quotas (
+  scope text primary key check (scope in ('organization', 'user_default')),
+  quota_bytes bigint check (quota_bytes is null or quota_bytes > 0),
+  updated_by uuid references public.profiles(id) on delete set null,
+  updated_at timestamptz not null default now()
+);
+
+-- Unlimited until an admin sets a quota
+insert into public.storage_quotas (scope, quota_bytes)
+values ('organization', null), ('user_default', null)
+on conflict (scope) do nothing;
+
+-- Overrides user_default for one user
+create table if not exists public.user_storage_quotas (
+  user_id uuid primary key references public.profiles(id) on delete cascade,
+  quota_bytes bigint not null check (quota_bytes > 0),
+  updated_by uuid references public.profiles(id) on delete set null,
+  updated_at timestamptz not null default now()
+);
+
+alter table public.storage_quotas enable row level security;
+alter table public.user_storage_quotas enable row level security;
+
+drop policy if exists "Authenticated users can view storage quotas" on public.storage_quotas;
+create policy "Authenticated users can view storage quotas"
+  on public.storage_quotas for select
+  to authenticated
+  using (true);
+
+drop policy if exists "Admins can change storage quotas" on public.storage_quotas;
+create policy "Admins can change storage quotas"
+  on public.storage_quotas for update
+  to authenticated
+  using (public.has_role(array['admin']))
+  with check (public.has_role(array['admin']) and updated_by = auth.uid());
+
+drop policy if exists "Users can view their own storage quota" on public.user_storage_quotas;
+create policy "Users can view their own storage quota"
+  on public.user_storage_quotas for select
+  to authenticated
+  using (user_id = auth.uid() or public.has_role(array['admin']));
+
+drop policy if exists "Admins can manage user storage quotas" on public.user_storage_quotas;
+create policy "Admins can manage user storage quotas"
+  on public.user_storage_quotas for all
+  to authenticated
+  using (public.has_role(array['admin']))
+  with check (public.has_role(array['admin']) and updated_by = auth.uid());
+
+-- Each stored file once, with the user it is charged to
+create or replace function public.stored_document_files()
+returns table (file_path text, size bigint, uploaded_by uuid)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select distinct on (v.file_path) v.file_path, v.size, v.uploaded_by
+  from public.document_versions v
+  order by v.file_path, v.created_at
+$$;
+
+revoke execute on function public.stored_document_files() from public, anon, authenticated;
+
+create or replace function public.user_storage_quota(p_user_id uuid)
+returns bigint
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(
+    (select quota_bytes from public.user_storage_quotas where user_id = p_user_id),
+    (select quota_bytes from public.storage_quotas where scope = 'user_default')
+  )
+$$;
+
+-- Usage and quotas for one user and for the whole organization. Users may
+-- only ask about themselves; admins and edge functions about anyone.
+create or replace function public.storage_usage(p_user_id uuid default auth.uid())
+returns table (
+  user_used_bytes bigint,
+  user_quota_bytes bigint,
+  org_used_bytes bigint,
+  org_quota_bytes bigint
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if auth.uid() is not null
+     and p_user_id is distinct from auth.uid()
+     and not public.has_role(array['admin']) then
+    raise exception 'Only admins can view the storage usage of other users'
+      using errcode = 'insufficient_privilege';
+  end if;
+
+  return query
+  select
+    coalesce(sum(f.size) filter (where f.uploaded_by = p_user_id), 0)::bigint,
+    public.user_storage_quota(p_user_id),
+    coalesce(sum(f.size), 0)::bigint,
+    (select quota_bytes from public.storage_quotas where scope = 'organization')
+  from public.stored_document_files() f;
+end;
+$$;
+
+-- Which quota, if any, storing p_size more bytes for the user would exceed:
+-- 'user', 'organization' or null. Checked by the browser before uploading
+-- and by handle-document-upload before a file is recorded.
+create or replace function public.storage_quota_exceeded(p_user_id uuid, p_size bigint)
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select case
+    when u.user_quota_bytes is not null and u.user_used_bytes + p_size > u.user_quota_bytes then 'user'
+    when u.org_quota_bytes is not null and u.org_used_bytes + p_size > u.org_quota_bytes then 'organization'
+  end
+  from public.storage_usage(p_user_id) u
+$$;
+
+-- The users storing the most, for the admin storage report
+create or replace function public.storage_top_consumers(p_limit integer default 10)
+returns table (
+  user_id uuid,
+  full_name text,
+  email text,
+  used_bytes bigint,
+  file_count bigint,
+  quota_bytes bigint,
+  has_override boolean
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if not public.has_role(array['admin']) then
+    raise exception 'Only admins can view storage usage reports'
+      using errcode = 'insufficient_privilege';
+  end if;
+
+  return query
+  select
+    p.id,
+    p.full_name,
+    p.email,
+    sum(f.size)::bigint,
+    count(*),
+    public.user_storage_quota(p.id),
+    exists (select 1 from public.user_storage_quotas q where q.user_id = p.id)
+  from public.stored_document_files() f
+  join public.profiles p on p.id = f.uploaded_by
+  group by p.id, p.full_name, p.email
+  order by sum(f.size) desc
+  limit p_limit;
+end;
+$$;
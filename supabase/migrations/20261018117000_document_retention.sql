@@ -0,0 +1,287 @@
+-- Trash and retention. Deleting a document moves it to the trash
+-- (deleted_at); purge-documents removes its files and row once purge_after
+-- passes. How long a document stays in the trash, and how long it must be
+-- kept before it may be trashed at all, depend on its retention category.
+-- Documents under legal hold can be neither trashed nor purged.
+create table if not exists public.document_retention_rules (
+  category text primary key check (length(trim(category)) > 0),
+  -- Days a trashed document can still be restored
+  trash_days integer not null check (trash_days >= 0),
+  -- Minimum age before a document may be trashed; null for none
+  min_retention_days integer check (min_retention_days is null or min_retention_days > 0),
+  updated_by uuid references public.profiles(id) on delete set null,
+  updated_at timestamptz not null default now()
+);
+
+-- Applies to documents without a category
+insert into public.document_retention_rules (category, trash_days)
+values ('default', 30)
+on conflict (category) do nothing;
+
+alter table public.documents
+  add column if not exists category text references public.document_retention_rules(category)
+    on update cascade on delete set null,
+  add column if not exists deleted_at timestamptz,
+  add column if not exists deleted_by uuid references public.profiles(id) on delete set null,
+  add column if not exists purge_after timestamptz,
+  add column if not exists legal_hold boolean not null default false,
+  add column if not exists legal_hold_reason text,
+  add column if not exists legal_hold_by uuid references public.profiles(id) on delete set null,
+  add column if not exists legal_hold_at timestamptz;
+
+create index if not exists documents_purge_after_idx
+  on public.documents (purge_after)
+  where deleted_at is not null;
+
+alter table public.document_retention_rules enable row level security;
+
+drop policy if exists "Authenticated users can view retention rules" on public.document_retention_rules;
+create policy "Authenticated users can view retention rules"
+  on public.document_retention_rules for select
+  to authenticated
+  using (true);
+
+drop policy if exists "Admins can manage retention rules" on public.document_retention_rules;
+create policy "Admins can manage retention rules"
+  on public.document_retention_rules for all
+  to authenticated
+  using (public.has_role(array['admin']))
+  with check (public.has_role(array['admin']) and updated_by = auth.uid());
+
+-- The default rule backs every uncategorised document
+create or replace function public.protect_default_retention_rule()
+returns trigger
+language plpgsql
+as $$
+begin
+  if old.category = 'default' and (tg_op = 'DELETE' or new.category <> 'default') then
+    raise exception 'The default retention rule cannot be removed or renamed';
+  end if;
+
+  return case when tg_op = 'DELETE' then old else new end;
+end;
+$$;
+
+drop trigger if exists protect_default_retention_rule on public.document_retention_rules;
+create trigger protect_default_retention_rule
+  before update of category or delete on public.document_retention_rules
+  for each row execute function public.protect_default_retention_rule();
+
+-- Trashing, restoring, legal holds and category changes are plain updates
+-- from the browser; this trigger applies the rules and fills in who and when.
+-- Edge functions (no auth.uid()) are trusted.
+create or replace function public.apply_document_retention()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_rule public.document_retention_rules;
+begin
+  if auth.uid() is not null then
+    -- Only this trigger fills these in for users
+    new.deleted_by := old.deleted_by;
+    new.purge_after := old.purge_after;
+    new.legal_hold_by := old.legal_hold_by;
+    new.legal_hold_at := old.legal_hold_at;
+
+    -- Trashing twice keeps the original restore window
+    if new.deleted_at is not null and old.deleted_at is not null then
+      new.deleted_at := old.deleted_at;
+    end if;
+  end if;
+
+  if (new.legal_hold is distinct from old.legal_hold
+      or new.legal_hold_reason is distinct from old.legal_hold_reason)
+     and auth.uid() is not null
+     and not public.has_role(array['admin']) then
+    raise exception 'Only admins can place or lift a legal hold'
+      using errcode = 'insufficient_privilege';
+  end if;
+
+  if new.legal_hold is distinct from old.legal_hold then
+    new.legal_hold_by := case when new.legal_hold then auth.uid() end;
+    new.legal_hold_at := case when new.legal_hold then now() end;
+  end if;
+
+  if not new.legal_hold then
+    new.legal_hold_reason := null;
+  end if;
+
+  if new.category is distinct from old.category
+     and auth.uid() is not null
+     and not public.can_access_document(old.id, auth.uid(), 'manage') then
+    raise exception 'Only the owner or a manager can change the retention category'
+      using errcode = 'insufficient_privilege';
+  end if;
+
+  if new.deleted_at is distinct from old.deleted_at then
+    if auth.uid() is not null and not public.can_access_document(old.id, auth.uid(), 'manage') then
+      raise exception 'Only the owner or a manager can delete or restore this document'
+        using errcode = 'insufficient_privilege';
+    end if;
+
+    if new.deleted_at is null then
+      new.deleted_by := null;
+      new.purge_after := null;
+
+      insert into public.audit_logs (action, table_name, record_id, user_id)
+      values ('restore', 'documents', old.id, auth.uid());
+    else
+      if new.legal_hold then
+        raise exception 'This document is under legal hold and cannot be deleted'
+          using hint = 'legal_hold';
+      end if;
+
+      select * into v_rule
+      from public.document_retention_rules
+      where category = coalesce(new.category, 'default');
+
+      if v_rule.min_retention_days is not null
+         and old.created_at + make_interval(days => v_rule.min_retention_days) > now() then
+        raise exception 'Documents in the % category must be kept until %',
+          v_rule.category, to_char(old.created_at + make_interval(days => v_rule.min_retention_days), 'YYYY-MM-DD')
+          using hint = 'retention_period';
+      end if;
+
+      new.deleted_at := now();
+      new.deleted_by := auth.uid();
+      new.purge_after := now() + make_interval(days => coalesce(v_rule.trash_days, 30));
+
+      insert into public.audit_logs (action, table_name, record_id, user_id)
+      values ('trash', 'documents', old.id, auth.uid());
+    end if;
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists apply_document_retention on public.documents;
+create trigger apply_document_retention
+  before update on public.documents
+  for each row execute function public.apply_document_retention();
+
+-- Last line of defence for held documents, whoever deletes them
+create or replace function public.guard_legal_hold()
+returns trigger
+language plpgsql
+as $$
+begin
+  if old.legal_hold then
+    raise exception 'This document is under legal hold and cannot be deleted'
+      using hint = 'legal_hold';
+  end if;
+
+  return old;
+end;
+$$;
+
+drop trigger if exists guard_legal_hold on public.documents;
+create trigger guard_legal_hold
+  before delete on public.documents
+  for each row execute function public.guard_legal_hold();
+
+-- Documents and their files only leave through purge-documents, which checks
+-- the trash and legal holds first
+drop policy if exists "Owners and managers can delete documents" on public.documents;
+drop policy if exists "Document managers can delete files" on storage.objects;
+drop policy if exists "Document managers can delete previews" on storage.objects;
+
+-- A trashed document is only visible to those who manage it, so it drops out
+-- of shared lists, task attachments and search for everyone else
+create or replace function public.document_access_level(p_document_id uuid, p_user_id uuid)
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select case
+    when p.role in ('admin', 'manager') or d.created_by = p_user_id or d.owner_id = p_user_id then 'manage'
+    when d.deleted_at is not null then null
+    when p.role <> 'viewer' and exists (
+      select 1 from public.document_permissions g
+      where g.document_id = d.id
+        and g.access = 'edit'
+        and (g.user_id = p_user_id or g.role = p.role
+          or exists (select 1 from public.team_members m where m.team_id = g.team_id and m.user_id = p_user_id))
+    ) then 'edit'
+    when exists (
+      select 1 from public.document_permissions g
+      where g.document_id = d.id
+        and (g.user_id = p_user_id or g.role = p.role
+          or exists (select 1 from public.team_members m where m.team_id = g.team_id and m.user_id = p_user_id))
+    ) or exists (
+      select 1
+      from public.comment_attachments ca
+      join public.comments c on c.id = ca.comment_id
+      where ca.document_id = d.id
+        and c.deleted_at is null
+        and (c.task_id is null or public.can_view_task(c.task_id, p_user_id))
+    ) or exists (
+      select 1 from public.documents_tasks dt
+      where dt.document_id = d.id and public.can_view_task(dt.task_id, p_user_id)
+    ) then 'view'
+  end
+  from public.documents d
+  join public.profiles p on p.id = p_user_id
+  where d.id = p_document_id
+$$;
+
+-- Search only covers documents outside the trash
+create or replace function public.search_documents(p_query text, p_limit integer default 50)
+returns table (id uuid, rank real, headline text)
+language sql
+stable
+set search_path = public
+as $$
+  with query as (
+    select websearch_to_tsquery('english', p_query) as q
+  ),
+  hits as (
+    select d.id, d.title, d.content, ts_rank_cd(d.search_vector, query.q) as rank
+    from public.documents d, query
+    where d.search_vector @@ query.q
+      and d.deleted_at is null
+    order by rank desc
+    limit p_limit
+  )
+  -- Headlines are only built for the rows that are returned
+  select
+    hits.id,
+    hits.rank,
+    ts_headline(
+      'english',
+      coalesce(hits.content, hits.title),
+      query.q,
+      'StartSel=<mark>, StopSel=</mark>, MaxWords=30, MinWords=10, MaxFragments=2, FragmentDelimiter=" … "'
+    )
+  from hits, query
+  order by hits.rank desc
+$$;
+
+-- Trashed documents whose restore window has passed
+create or replace function public.documents_pending_purge(p_limit integer default 50)
+returns setof public.documents
+language sql
+stable
+set search_path = public
+as $$
+  select *
+  from public.documents
+  where deleted_at is not null
+    and purge_after <= now()
+    and not legal_hold
+  order by purge_after
+  limit p_limit
+$$;
+
+revoke execute on function public.documents_pending_purge(integer) from public, anon, authenticated;
+
+select cron.schedule(
+  'purge-documents',
+  '30 3 * * *',
+  $$ select public.invoke_edge_function('purge-documents') $$
+);
@@ -0,0 +1,40 @@
+-- Only admins can grant roles (update-user-role and the role trigger), so a
+-- fresh deploy needs one admin to start from. Existing installations get
+-- their earliest account promoted here; otherwise run, once, as the service
+-- role or from the SQL editor:
+--
+--   select public.bootstrap_admin('owner@example.com');
+--
+-- Both only act while there is no admin at all.
+create or replace function public.bootstrap_admin(p_email text)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid;
+begin
+  if exists (select 1 from public.profiles where role = 'admin') then
+    raise exception 'An admin already exists; change roles with update-user-role';
+  end if;
+
+  update public.profiles
+  set role = 'admin'
+  where lower(email) = lower(trim(p_email))
+  returning id into v_user_id;
+
+  if v_user_id is null then
+    raise exception 'No account with email %', p_email;
+  end if;
+
+  return v_user_id;
+end;
+$$;
+
+revoke execute on function public.bootstrap_admin(text) from public, anon, authenticated;
+
+update public.profiles
+set role = 'admin'
+where id = (select id from public.profiles order by created_at limit 1)
+  and not exists (select 1 from public.profiles where role = 'admin');
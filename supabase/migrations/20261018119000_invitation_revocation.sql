@@ -0,0 +1,12 @@
+-- Staff may only revoke an outstanding invitation. Without column grants the
+-- update policy let them rewrite the role, email or token hash of any
+-- invitation; everything else is written by the invitation edge functions.
+revoke update on public.invitations from authenticated;
+grant update (revoked_at) on public.invitations to authenticated;
+
+drop policy if exists "Managers can revoke invitations" on public.invitations;
+create policy "Managers can revoke invitations"
+  on public.invitations for update
+  to authenticated
+  using (public.has_role(array['admin', 'manager']) and accepted_at is null)
+  with check (public.has_role(array['admin', 'manager']) and revoked_at is not null);
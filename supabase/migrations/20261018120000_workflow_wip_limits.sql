@@ -0,0 +1,23 @@
+-- WIP limits belong to a column of one workflow. Keyed by status alone, a
+-- limit was shared by every workflow with that status key while the board
+-- only counts the tasks of the workflow it shows.
+alter table public.task_wip_limits
+  add column if not exists workflow_id uuid;
+
+alter table public.task_wip_limits drop constraint if exists task_wip_limits_pkey;
+
+-- Each existing limit carries over to every workflow that has the status
+insert into public.task_wip_limits (workflow_id, status, wip_limit, updated_by, updated_at)
+select s.workflow_id, l.status, l.wip_limit, l.updated_by, l.updated_at
+from public.task_wip_limits l
+join public.workflow_states s on s.key = l.status
+where l.workflow_id is null;
+
+delete from public.task_wip_limits where workflow_id is null;
+
+alter table public.task_wip_limits
+  alter column workflow_id set not null,
+  add primary key (workflow_id, status),
+  add constraint task_wip_limits_workflow_state_fkey
+    foreign key (workflow_id, status) references public.workflow_states(workflow_id, key)
+    on update cascade on delete cascade;
@@ -0,0 +1,61 @@
+-- Deleting a task removes its comments, notifications and document links in
+-- the database. Clients cannot do it row by row: comments have no delete
+-- policy, so the task delete used to fail on the remaining comments.
+alter table public.comments
+  drop constraint if exists comments_task_id_fkey,
+  add constraint comments_task_id_fkey
+    foreign key (task_id) references public.tasks(id) on delete cascade;
+
+alter table public.notifications
+  drop constraint if exists notifications_task_id_fkey,
+  add constraint notifications_task_id_fkey
+    foreign key (task_id) references public.tasks(id) on delete cascade;
+
+alter table public.documents_tasks
+  drop constraint if exists documents_tasks_task_id_fkey,
+  add constraint documents_tasks_task_id_fkey
+    foreign key (task_id) references public.tasks(id) on delete cascade;
+
+drop policy if exists "Creators, assignees and managers can update tasks" on public.tasks;
+create policy "Creators, assignees and managers can update tasks"
+  on public.tasks for update
+  to authenticated
+  using (
+    user_id = auth.uid()
+    or assigned_to = (auth.jwt() ->> 'email')
+    or public.has_role(array['admin', 'manager'])
+  )
+  with check (
+    user_id = auth.uid()
+    or assigned_to = (auth.jwt() ->> 'email')
+    or public.has_role(array['admin', 'manager'])
+  );
+
+-- Assignees may only move their task through statuses; every other column is
+-- reserved to the creator and managers. Service-role jobs have no auth.uid().
+create or replace function public.enforce_task_update_scope()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if auth.uid() is null
+    or old.user_id = auth.uid()
+    or public.has_role(array['admin', 'manager']) then
+    return new;
+  end if;
+
+  if (to_jsonb(new) - 'status') is distinct from (to_jsonb(old) - 'status') then
+    raise exception 'Assignees can only change the status of a task'
+      using errcode = 'insufficient_privilege';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists enforce_task_update_scope on public.tasks;
+create trigger enforce_task_update_scope
+  before update on public.tasks
+  for each row execute function public.enforce_task_update_scope();
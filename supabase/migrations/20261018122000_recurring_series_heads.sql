@@ -0,0 +1,33 @@
+-- Latest occurrence of each series that is due to be followed by the next
+-- one: closed (a "done" workflow state) or past its deadline. Lets the
+-- materializer read one row per due series instead of every occurrence.
+create or replace function public.series_occurrences_due(
+  p_now timestamptz default now(),
+  p_series_id uuid default null
+)
+returns setof public.tasks
+language sql
+stable
+set search_path = public
+as $$
+  select heads.*
+  from (
+    select distinct on (t.series_id) t.*
+    from public.tasks t
+    where t.series_id is not null
+      and (p_series_id is null or t.series_id = p_series_id)
+    order by t.series_id, t.deadline desc
+  ) heads
+  where heads.recurrence_rule is not null
+    and (
+      heads.deadline <= p_now
+      or exists (
+        select 1 from public.workflow_states s
+        where s.workflow_id = heads.workflow_id
+          and s.key = heads.status
+          and s.category = 'done'
+      )
+    )
+$$;
+
+revoke execute on function public.series_occurrences_due(timestamptz, uuid) from public, anon, authenticated;
@@ -0,0 +1,44 @@
+-- Tasks are visible to their creator, their assignee, members of their team
+-- and admins/managers. can_view_task backs the tasks select policy, comment
+-- and document access and mention processing, so it applies to all of them.
+create or replace function public.can_view_task(p_task_id uuid, p_user_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from public.tasks t
+    join public.profiles p on p.id = p_user_id
+    where t.id = p_task_id
+      and (
+        p.role in ('admin', 'manager')
+        or t.user_id = p.id
+        or lower(t.assigned_to) = lower(p.email)
+        or exists (
+          select 1 from public.team_members m
+          where m.team_id = t.team_id and m.user_id = p.id
+        )
+      )
+  )
+$$;
+
+-- Checklists and dependencies follow the visibility of their tasks
+drop policy if exists "Authenticated users can view subtasks" on public.task_subtasks;
+drop policy if exists "Users can view subtasks of visible tasks" on public.task_subtasks;
+create policy "Users can view subtasks of visible tasks"
+  on public.task_subtasks for select
+  to authenticated
+  using (public.can_view_task(task_id, auth.uid()));
+
+drop policy if exists "Authenticated users can view dependencies" on public.task_dependencies;
+drop policy if exists "Users can view dependencies of visible tasks" on public.task_dependencies;
+create policy "Users can view dependencies of visible tasks"
+  on public.task_dependencies for select
+  to authenticated
+  using (
+    public.can_view_task(task_id, auth.uid())
+    and public.can_view_task(depends_on_task_id, auth.uid())
+  );
@@ -0,0 +1,18 @@
+-- The digest only carries notifications routed to the email_digest channel,
+-- so it is off until the user asks for it. Rows still on the old default
+-- without any digest-routed notification type are switched off.
+alter table public.notification_settings
+  alter column digest_frequency set default 'off';
+
+update public.notification_settings s
+set digest_frequency = 'off'
+where s.digest_frequency <> 'off'
+  and not exists (
+    select 1 from public.notification_preferences p
+    where p.user_id = s.user_id and p.channel = 'email_digest'
+  );
+
+drop index if exists public.notifications_digest_pending_idx;
+create index if not exists notifications_digest_pending_idx
+  on public.notifications (user_id, deliver_after)
+  where emailed_at is null and status = 'unread' and delivery = 'email_digest';
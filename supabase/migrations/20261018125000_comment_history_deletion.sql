@@ -0,0 +1,65 @@
+-- Deleting a comment also discards its edit history, which would otherwise
+-- keep the removed text readable. History of deleted comments is hidden too.
+create or replace function public.guard_comment_update()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.task_id is distinct from old.task_id
+     or new.parent_id is distinct from old.parent_id
+     or new.user_id is distinct from old.user_id
+     or new.created_at is distinct from old.created_at then
+    raise exception 'Comments cannot be moved or reassigned';
+  end if;
+
+  if old.deleted_at is not null then
+    raise exception 'Deleted comments cannot be changed';
+  end if;
+
+  if new.deleted_at is not null then
+    if auth.uid() is not null
+       and auth.uid() is distinct from old.user_id
+       and not public.has_role(array['admin']) then
+      raise exception 'Only the author or an admin can delete this comment';
+    end if;
+
+    new.deleted_by := auth.uid();
+    new.content := '';
+    new.mentions := '{}';
+    delete from public.comment_edits where comment_id = old.id;
+    return new;
+  end if;
+
+  if new.content is distinct from old.content then
+    if auth.uid() is not null and auth.uid() is distinct from old.user_id then
+      raise exception 'Only the author can edit this comment';
+    end if;
+
+    insert into public.comment_edits (comment_id, content, edited_by)
+    values (old.id, old.content, auth.uid());
+    new.edited_at := now();
+  end if;
+
+  return new;
+end;
+$$;
+
+drop policy if exists "Users can view history of visible comments" on public.comment_edits;
+create policy "Users can view history of visible comments"
+  on public.comment_edits for select
+  to authenticated
+  using (
+    exists (
+      select 1 from public.comments c
+      where c.id = comment_id
+        and c.deleted_at is null
+        and (c.task_id is null or public.can_view_task(c.task_id, auth.uid()))
+    )
+  );
+
+-- Clear what earlier soft deletions left behind
+delete from public.comment_edits e
+using public.comments c
+where c.id = e.comment_id and c.deleted_at is not null;
@@ -0,0 +1,43 @@
+-- Posts a comment together with its attachments in one transaction, so a
+-- failed attachment does not leave the comment behind without its files.
+-- Runs with the caller's rights: the comment and attachment policies apply.
+create or replace function public.post_comment(
+  p_task_id uuid,
+  p_content text,
+  p_parent_id uuid default null,
+  p_document_ids uuid[] default '{}'
+)
+returns uuid
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_comment_id uuid;
+begin
+  insert into public.comments (task_id, user_id, parent_id, content)
+  values (p_task_id, auth.uid(), p_parent_id, p_content)
+  returning id into v_comment_id;
+
+  insert into public.comment_attachments (comment_id, document_id)
+  select v_comment_id, document_id
+  from unnest(coalesce(p_document_ids, '{}')) as document_id;
+
+  return v_comment_id;
+end;
+$$;
+
+revoke execute on function public.post_comment(uuid, text, uuid, uuid[]) from public, anon;
+grant execute on function public.post_comment(uuid, text, uuid, uuid[]) to authenticated;
+
+-- Profiles of mentioned users. Mentions are lowercased but stored emails may
+-- not be, so the match ignores case.
+create or replace function public.mentioned_profiles(p_emails text[])
+returns table (email text, full_name text)
+language sql
+stable
+set search_path = public
+as $$
+  select p.email, p.full_name
+  from public.profiles p
+  where lower(p.email) = any(select lower(e) from unnest(p_emails) as e)
+$$;
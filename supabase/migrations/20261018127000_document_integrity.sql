@@ -0,0 +1,54 @@
+-- The file, its size and type, the version pointers, the extracted content
+-- and the preview are maintained by the upload and indexing paths only.
+-- Editors may rename, move and retag a document but not repoint it at another
+-- stored object. Triggers running inside those paths (pg_trigger_depth() > 1)
+-- and service-role calls (no auth.uid()) are let through.
+create or replace function public.guard_document_update()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if auth.uid() is null or pg_trigger_depth() > 1 then
+    return new;
+  end if;
+
+  if new.created_by is distinct from old.created_by
+     or new.file_path is distinct from old.file_path
+     or new.file_type is distinct from old.file_type
+     or new.size is distinct from old.size
+     or new.current_version_id is distinct from old.current_version_id
+     or new.content_version_id is distinct from old.content_version_id
+     or new.content is distinct from old.content
+     or new.thumbnail_path is distinct from old.thumbnail_path then
+    raise exception 'Document files and derived data cannot be changed directly'
+      using errcode = 'insufficient_privilege';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists guard_document_update on public.documents;
+create trigger guard_document_update
+  before update on public.documents
+  for each row execute function public.guard_document_update();
+
+-- Attaching a document to a task shares it with everyone who sees the task,
+-- so it takes edit access to the document and sight of the task
+alter table public.documents_tasks enable row level security;
+
+drop policy if exists "Users can view attachments of visible tasks" on public.documents_tasks;
+create policy "Users can view attachments of visible tasks"
+  on public.documents_tasks for select
+  to authenticated
+  using (public.can_view_task(task_id, auth.uid()));
+
+drop policy if exists "Document editors can attach to visible tasks" on public.documents_tasks;
+create policy "Document editors can attach to visible tasks"
+  on public.documents_tasks for insert
+  to authenticated
+  with check (
+    public.can_access_document(document_id, auth.uid(), 'edit')
+    and public.can_view_task(task_id, auth.uid())
+  );
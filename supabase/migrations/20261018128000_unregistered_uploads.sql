@@ -0,0 +1,47 @@
+-- Browsers upload to their own folder in the documents bucket and then ask
+-- handle-document-upload to register the file. A file that is never
+-- registered was never screened, so it counts towards its uploader's quota
+-- while it exists and the scheduled sweep removes it after a grace period.
+create or replace function public.stored_document_files()
+returns table (file_path text, size bigint, uploaded_by uuid)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  (
+    select distinct on (v.file_path) v.file_path, v.size, v.uploaded_by
+    from public.document_versions v
+    order by v.file_path, v.created_at
+  )
+  union all
+  select o.name, coalesce((o.metadata ->> 'size')::bigint, 0), o.owner
+  from storage.objects o
+  where o.bucket_id = 'documents'
+    and not exists (select 1 from public.document_versions v where v.file_path = o.name)
+$$;
+
+revoke execute on function public.stored_document_files() from public, anon, authenticated;
+
+-- Files in the documents bucket no version references, uploaded more than
+-- p_older_than ago
+create or replace function public.unregistered_document_files(
+  p_older_than interval default interval '1 day',
+  p_limit integer default 100
+)
+returns table (file_path text, size bigint, uploaded_by uuid)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select o.name, coalesce((o.metadata ->> 'size')::bigint, 0), o.owner
+  from storage.objects o
+  where o.bucket_id = 'documents'
+    and o.created_at < now() - p_older_than
+    and not exists (select 1 from public.document_versions v where v.file_path = o.name)
+  order by o.created_at
+  limit p_limit
+$$;
+
+revoke execute on function public.unregistered_document_files(interval, integer) from public, anon, authenticated;
@@ -0,0 +1,59 @@
+-- purge-documents claims a document before removing its files. The claim
+-- re-checks the trash and legal hold under a row lock, and a claimed
+-- document can no longer be held or restored, so a hold placed while the
+-- function runs either wins before the claim or is refused after it.
+alter table public.documents
+  add column if not exists purging_at timestamptz;
+
+create or replace function public.claim_document_purge(p_document_id uuid)
+returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_document public.documents;
+begin
+  select * into v_document
+  from public.documents
+  where id = p_document_id
+  for update;
+
+  if not found or v_document.deleted_at is null or v_document.legal_hold then
+    return false;
+  end if;
+
+  update public.documents
+  set purging_at = coalesce(purging_at, now())
+  where id = p_document_id;
+
+  return true;
+end;
+$$;
+
+revoke execute on function public.claim_document_purge(uuid) from public, anon, authenticated;
+
+create or replace function public.guard_document_purge()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if auth.uid() is not null then
+    new.purging_at := old.purging_at;
+  end if;
+
+  if old.purging_at is not null
+     and (new.deleted_at is null or new.legal_hold) then
+    raise exception 'This document is being deleted permanently'
+      using hint = 'purging';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists guard_document_purge on public.documents;
+create trigger guard_document_purge
+  before update on public.documents
+  for each row execute function public.guard_document_purge();
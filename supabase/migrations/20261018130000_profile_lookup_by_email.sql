@@ -0,0 +1,17 @@
+-- Profile ids for a set of emails, ignoring case. Tasks refer to people by
+-- the email typed into the form, which need not match the stored case.
+create or replace function public.profile_ids_by_email(p_emails text[])
+returns table (id uuid, email text)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select p.id, p.email
+  from public.profiles p
+  where lower(p.email) = any(select lower(e) from unnest(p_emails) as e)
+$$;
+
+revoke execute on function public.profile_ids_by_email(text[]) from public, anon, authenticated;
+
+create index if not exists profiles_email_lower_idx on public.profiles (lower(email));
@@ -0,0 +1,7 @@
+-- Document files are served by the document-file and document-preview
+-- functions, which write the audit entry themselves. Reading the bucket
+-- directly would skip the log, so users lose that access, and the client no
+-- longer reports its own views and downloads.
+drop policy if exists "Users can read documents shared with them" on storage.objects;
+
+drop function if exists public.log_document_access(uuid, text, jsonb);